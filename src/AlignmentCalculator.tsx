@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  alignmentTargets, fitAlignment, laneErrors,
+  type AlignPoint, type AppliedAlignment, type DieLayout,
+} from "./model";
+
+// ------------------------
+// Alignment best fit and lane position error
+// ------------------------
+
+const fmt = (v:number, d=2) => isFinite(v) ? v.toFixed(d) : "-";
+const SHOW_LANES = 8;
+
+function Stat({label, value, warn}:{label:string, value:string, warn?:boolean}){
+  return (
+    <div className="rounded-md border p-2">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className={`font-medium ${warn ? "text-red-600" : ""}`}>{value}</div>
+    </div>
+  );
+}
+
+// Measured = nominal until the operator enters what the saw's camera reports.
+const targetPoints = (layout:DieLayout, waferDiam:number):AlignPoint[] =>
+  alignmentTargets(layout, waferDiam).map(t=>({ id: t.id, nominal: { ...t.pos }, measured: { ...t.pos } }));
+
+export function AlignmentCalculator({layout, waferDiam, kerf, street, applied, onApply}:{layout:DieLayout, waferDiam:number, kerf:number, street:number, applied:AppliedAlignment, onApply:(a:AppliedAlignment)=>void}){
+  const [points, setPoints] = useState<AlignPoint[]>(()=>targetPoints(layout, waferDiam));
+
+  const result = useMemo(()=>{
+    try { return { fit: fitAlignment(points) }; }
+    catch(err) { return { error: (err as Error).message }; }
+  }, [points]);
+  const fit = result.fit;
+  const lanes = useMemo(()=>fit && laneErrors(layout, waferDiam, fit, applied, kerf, street), [fit, layout, waferDiam, applied, kerf, street]);
+  const shown = lanes ? lanes.lanes.filter(l=>l.out).concat(lanes.lanes.filter(l=>!l.out).sort((a, b)=>a.margin_um - b.margin_um)).slice(0, Math.max(SHOW_LANES, lanes.out)) : [];
+  const worst = lanes?.lanes.reduce((m, l)=>Math.min(m, l.margin_um), Infinity) ?? NaN;
+
+  const update = (i:number, key:"nominal"|"measured", axis:"x"|"y", v:number) =>
+    setPoints(points.map((p, j)=>j===i ? { ...p, [key]: { ...p[key], [axis]: v } } : p));
+  const addPoint = () => {
+    const used = new Set(points.map(p=>p.id));
+    let n = points.length;
+    while(used.has(`P${n + 1}`)) n++;
+    setPoints([...points, { id: `P${n + 1}`, nominal: { x: 0, y: 0 }, measured: { x: 0, y: 0 } }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="py-1 pr-2">Point</th>
+            <th className="py-1 pr-2">Nominal X (mm)</th>
+            <th className="py-1 pr-2">Nominal Y (mm)</th>
+            <th className="py-1 pr-2">Measured X (mm)</th>
+            <th className="py-1 pr-2">Measured Y (mm)</th>
+            <th className="py-1 pr-2">Residual (µm)</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {points.map((p, i)=>(
+            <tr key={i} className="border-t">
+              <td className="py-1 pr-2"><Input value={p.id} onChange={e=>setPoints(points.map((q, j)=>j===i ? { ...q, id: e.target.value } : q))}/></td>
+              <td className="py-1 pr-2"><Input type="number" step={0.001} value={p.nominal.x} onChange={e=>update(i, "nominal", "x", Number(e.target.value))}/></td>
+              <td className="py-1 pr-2"><Input type="number" step={0.001} value={p.nominal.y} onChange={e=>update(i, "nominal", "y", Number(e.target.value))}/></td>
+              <td className="py-1 pr-2"><Input type="number" step={0.001} value={p.measured.x} onChange={e=>update(i, "measured", "x", Number(e.target.value))}/></td>
+              <td className="py-1 pr-2"><Input type="number" step={0.001} value={p.measured.y} onChange={e=>update(i, "measured", "y", Number(e.target.value))}/></td>
+              <td className="py-1 pr-2">{fmt(fit?.residuals.find(r=>r.id===p.id)?.r_um ?? NaN, 2)}</td>
+              <td className="py-1"><Button variant="ghost" size="sm" onClick={()=>setPoints(points.filter((_, j)=>j!==i))}><Trash2 className="h-4 w-4"/></Button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={addPoint}><Plus className="mr-2 h-4 w-4"/>Add Point</Button>
+        <Button variant="outline" onClick={()=>setPoints(targetPoints(layout, waferDiam))}><RotateCcw className="mr-2 h-4 w-4"/>Reset to Targets</Button>
+        <Button disabled={!fit} onClick={()=>fit && onApply({ offsetX_um: Number(fit.dx_um.toFixed(2)), offsetY_um: Number(fit.dy_um.toFixed(2)), theta_deg: Number(fit.theta_deg.toFixed(5)) })}>Apply Correction</Button>
+      </div>
+
+      {result.error && <p className="text-sm text-red-600">{result.error}.</p>}
+      {fit && lanes && <>
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <Stat label="Fitted θ" value={`${fmt(fit.theta_deg, 5)}° ± ${fmt(fit.thetaSigma_deg, 5)}`}/>
+          <Stat label="Fitted offset X / Y" value={`${fmt(fit.dx_um, 1)} / ${fmt(fit.dy_um, 1)} µm`}/>
+          <Stat label="Fit RMS" value={`${fmt(fit.rms_um, 2)} µm`}/>
+          <Stat label="Residual θ" value={`${fmt(lanes.residual.theta_deg, 5)}°`}/>
+          <Stat label="Street clearance" value={`±${fmt(lanes.clearance_um, 1)} µm`} warn={lanes.clearance_um <= 0}/>
+          <Stat label="Lanes out of street" value={`${lanes.out} / ${lanes.lanes.length}`} warn={lanes.out > 0}/>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="py-1 pr-3">Lane</th>
+              <th className="py-1 pr-3">Position (mm)</th>
+              <th className="py-1 pr-3">Length (mm)</th>
+              <th className="py-1 pr-3">Error (µm)</th>
+              <th className="py-1 pr-3">Margin (µm)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(l=>(
+              <tr key={`${l.channel}-${l.index}`} className={`border-t ${l.out ? "text-red-600" : ""}`}>
+                <td className="py-1 pr-3">{l.channel} #{l.index}</td>
+                <td className="py-1 pr-3">{fmt(l.pos_mm, 3)}</td>
+                <td className="py-1 pr-3">{fmt(l.length_mm, 1)}</td>
+                <td className="py-1 pr-3">{fmt(l.error_um, 2)}</td>
+                <td className="py-1 pr-3">{fmt(l.margin_um, 2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-muted-foreground">
+          Residual = fit − applied correction. Worst margin {fmt(worst, 2)} µm; lanes out of the street are listed first, then the tightest.
+          Errors include the fit RMS and 1σ of θ over the half lane length.
+        </p>
+      </>}
+    </div>
+  );
+}
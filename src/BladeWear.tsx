@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  BLADE_LIBRARY_SCHEMA, bladeState, cycleTime, emptyBladeLibrary, logCut, logDress, predictWear, retireBlade,
+  type BladeLibrary, type BladeRecord, type DieLayout, type MaterialDB, type Recipe,
+} from "./model";
+
+// ------------------------
+// Blade wear panel
+// ------------------------
+// Blades are tracked by serial; every cut, dress and retirement is appended to the blade's log,
+// which is persisted so a blade's history follows it across sessions and spindles.
+
+export const BLADE_STORAGE_KEY = "dicing-toolkit.blades";
+
+export function loadBlades(storage:Pick<Storage,"getItem"> = localStorage):BladeLibrary {
+  try {
+    const raw:unknown = JSON.parse(storage.getItem(BLADE_STORAGE_KEY) ?? "null");
+    const doc = (raw && typeof raw === "object" ? raw : {}) as Record<string,unknown>;
+    if(!Array.isArray(doc.blades)) return emptyBladeLibrary();
+    const isBlade = (b:unknown): b is BladeRecord => !!b && typeof b === "object" && !!(b as BladeRecord).serial && Array.isArray((b as BladeRecord).events);
+    return { schema: BLADE_LIBRARY_SCHEMA, active: typeof doc.active === "string" ? doc.active : undefined, blades: doc.blades.filter(isBlade) };
+  } catch {
+    return emptyBladeLibrary();
+  }
+}
+
+export function saveBlades(lib:BladeLibrary, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(BLADE_STORAGE_KEY, JSON.stringify(lib));
+}
+
+export const activeBlade = (lib:BladeLibrary) => lib.blades.find(b=>b.serial===lib.active && !b.retired);
+
+const fmt = (v:number, d=1) => isFinite(v) ? v.toFixed(d) : "-";
+
+function Stat({label, value, note}:{label:string, value:string, note?:string}){
+  return (
+    <div className="rounded-md border p-2">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="font-medium">{value}</div>
+      {note && <div className="text-xs text-muted-foreground">{note}</div>}
+    </div>
+  );
+}
+
+export function BladeWear({lib, onChange, recipe, layout, db}:{lib:BladeLibrary, onChange:(lib:BladeLibrary)=>void, recipe:Recipe, layout:DieLayout, db:MaterialDB}){
+  const [serial, setSerial] = useState("");
+  const [exposure, setExposure] = useState(800);
+  const [viewed, setViewed] = useState<string>();
+
+  const active = activeBlade(lib);
+  const cutPerWafer_mm = cycleTime(layout, recipe.waferDiam, recipe.feed).totalLength_mm;
+  const state = active && bladeState(active);
+  const forecast = useMemo(()=>{
+    if(!active) return undefined;
+    try { return predictWear(active, { material: recipe.material, waferThk: recipe.waferThk, street: recipe.street, cutPerWafer_mm }, db); }
+    catch(err) { return (err as Error).message; }
+  }, [active, recipe.material, recipe.waferThk, recipe.street, cutPerWafer_mm, db]);
+
+  const mismatch = active && [
+    active.bond !== recipe.bladeBond && `bond ${active.bond} ≠ ${recipe.bladeBond}`,
+    active.thickness_um !== recipe.bladeThk && `thickness ${active.thickness_um} ≠ ${recipe.bladeThk} µm`,
+    active.diameter_mm !== recipe.bladeDia && `diameter ${active.diameter_mm} ≠ ${recipe.bladeDia} mm`,
+  ].filter(Boolean);
+
+  const update = (b:BladeRecord) => onChange({ ...lib, blades: lib.blades.map(x=>x.serial===b.serial ? b : x) });
+  const act = (fn:(b:BladeRecord)=>BladeRecord) => {
+    if(!active) return;
+    try { update(fn(active)); }
+    catch(err) { alert("Blade log failed: "+(err as Error).message); }
+  };
+
+  const install = () => {
+    const s = serial.trim();
+    if(!s){ alert("Enter the blade serial number"); return; }
+    if(lib.blades.some(b=>b.serial===s)){ alert(`Blade ${s} is already in the log`); return; }
+    if(!(exposure > 0)){ alert("Exposure must be positive"); return; }
+    const b:BladeRecord = { serial: s, bond: recipe.bladeBond, thickness_um: recipe.bladeThk, diameter_mm: recipe.bladeDia, exposure_um: exposure, installedAt: new Date().toISOString(), events: [] };
+    onChange({ ...lib, active: s, blades: [...lib.blades, b] });
+    setSerial("");
+  };
+
+  const shown = lib.blades.find(b=>b.serial===(viewed ?? lib.active));
+
+  return (
+    <div className="space-y-4">
+      <Card><CardContent className="p-4 space-y-3">
+        <h2 className="text-lg font-medium">Blade Wear</h2>
+        <div className="grid grid-cols-3 gap-2 items-center">
+          <Label className="text-sm">Active blade</Label>
+          <select className="col-span-2 border rounded-md px-2 py-2 text-sm" value={active?.serial ?? ""} onChange={e=>onChange({ ...lib, active: e.target.value || undefined })}>
+            <option value="">None</option>
+            {lib.blades.filter(b=>!b.retired).map(b=>(<option key={b.serial} value={b.serial}>{b.serial} · {b.bond} {b.thickness_um} µm</option>))}
+          </select>
+        </div>
+        {mismatch && mismatch.length > 0 && <div className="text-sm text-amber-700">Active blade differs from the recipe: {mismatch.join(", ")}.</div>}
+        {state && (
+          <div className="grid grid-cols-3 gap-2">
+            <Stat label="Cut length" value={`${fmt(state.cut_m, 2)} m`} note={`${state.wafers} wafer(s)`}/>
+            <Stat label="Exposure left" value={`${fmt(state.exposure_um)} µm`} note={`of ${active!.exposure_um} µm`}/>
+            <Stat label="Wear factor" value={fmt(state.wear, 2)} note={`${state.dresses} dress(es)`}/>
+          </div>
+        )}
+        {typeof forecast === "string" && <div className="text-sm text-red-700">{forecast}</div>}
+        {forecast && typeof forecast !== "string" && (
+          <div className="space-y-1 text-sm">
+            <div>Per wafer: {fmt(cutPerWafer_mm / 1000, 2)} m cut, {fmt(forecast.lossPerWafer_um, 2)} µm exposure loss; next kerf {fmt(forecast.steps[0].kerf)} µm (limit {fmt(forecast.kerfLimit)} µm).</div>
+            <div className={forecast.dressAfter === 0 ? "text-red-700" : ""}>
+              Dress {forecast.dressAfter === undefined ? `not needed within ${forecast.steps.length} wafers` : forecast.dressAfter === 0 ? "now" : `after ${forecast.dressAfter} more wafer(s)`}.
+            </div>
+            <div className={forecast.replaceAfter === 0 ? "text-red-700" : ""}>
+              Replace {forecast.replaceAfter === undefined ? `not needed within ${forecast.steps.length} wafers` : forecast.replaceAfter === 0 ? "now" : `after ${forecast.replaceAfter} more wafer(s)`} (exposure must stay ≥ {fmt(forecast.minExposure_um, 0)} µm).
+            </div>
+            {forecast.note && <div className="text-red-700">{forecast.note}</div>}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Button disabled={!active} onClick={()=>act(b=>logCut(b, { material: recipe.material, wafers: 1, cut_mm: cutPerWafer_mm }, db))}>Log One Wafer Cycle</Button>
+          <Button variant="outline" disabled={!active} onClick={()=>act(b=>logDress(b))}>Dress</Button>
+          <Button variant="outline" disabled={!active} onClick={()=>{ if(confirm(`Retire blade ${active!.serial}?`)) act(b=>retireBlade(b)); }}>Retire</Button>
+        </div>
+      </CardContent></Card>
+
+      <Card><CardContent className="p-4 space-y-3">
+        <h3 className="font-medium">Install Blade</h3>
+        <p className="text-xs text-muted-foreground">Bond, thickness and diameter are taken from the current recipe ({recipe.bladeBond}, {recipe.bladeThk} µm, Ø{recipe.bladeDia} mm).</p>
+        <div className="grid grid-cols-3 gap-2 items-center">
+          <Label className="text-sm">Serial</Label>
+          <Input className="col-span-2" value={serial} onChange={e=>setSerial(e.target.value)} placeholder="e.g. ZH05-2231"/>
+          <Label className="text-sm">Exposure (µm)</Label>
+          <Input className="col-span-2" type="number" value={exposure} onChange={e=>setExposure(Number(e.target.value))}/>
+        </div>
+        <Button onClick={install}>Install</Button>
+      </CardContent></Card>
+
+      <Card><CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-medium">Blade History</h3>
+          <select className="border rounded-md px-2 py-1 text-sm" value={shown?.serial ?? ""} onChange={e=>setViewed(e.target.value)}>
+            {!shown && <option value="">—</option>}
+            {lib.blades.map(b=>(<option key={b.serial} value={b.serial}>{b.serial}{b.retired ? " (retired)" : ""}</option>))}
+          </select>
+        </div>
+        {!shown && <p className="text-sm text-muted-foreground">No blades logged.</p>}
+        {shown && (
+          <div className="overflow-x-auto">
+            <div className="text-xs text-muted-foreground mb-2">Installed {new Date(shown.installedAt).toLocaleString()} · {shown.bond} · {shown.thickness_um} µm · Ø{shown.diameter_mm} mm · exposure {shown.exposure_um} µm</div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="py-2 pr-3">Time</th>
+                  <th className="py-2 pr-3">Event</th>
+                  <th className="py-2 pr-3">Material</th>
+                  <th className="py-2 pr-3">Wafers</th>
+                  <th className="py-2 pr-3">Cut (m)</th>
+                  <th className="py-2 pr-3">Exposure loss (µm)</th>
+                  <th className="py-2 pr-3">Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.events.map((e, i)=>(
+                  <tr key={i} className="border-t">
+                    <td className="py-1 pr-3">{new Date(e.at).toLocaleString()}</td>
+                    <td className="py-1 pr-3">{e.kind}</td>
+                    <td className="py-1 pr-3">{e.material ?? ""}</td>
+                    <td className="py-1 pr-3">{e.wafers ?? ""}</td>
+                    <td className="py-1 pr-3">{e.cut_mm !== undefined ? fmt(e.cut_mm / 1000, 2) : ""}</td>
+                    <td className="py-1 pr-3">{e.exposureLoss_um !== undefined ? fmt(e.exposureLoss_um, 2) : ""}</td>
+                    <td className="py-1 pr-3">{e.note ?? ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent></Card>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Upload } from "lucide-react";
+import {
+  applyCalibration, calibrate, readCalibrationCSV, validateMaterialDB,
+  type CalibrationIssue, type CalibrationRow, type FitTarget, type MaterialDB, type TargetFit,
+} from "./model";
+
+// ------------------------
+// Calibration panel
+// ------------------------
+// Activating a fit pushes the previous coefficient set onto a persisted history, so any
+// number of calibrations can be rolled back one at a time.
+
+type HistoryEntry = { savedAt:string, note:string, db:MaterialDB };
+const HISTORY_KEY = "dicing-toolkit.model-history";
+const HISTORY_LIMIT = 20;
+
+const TARGETS:{ key:FitTarget, name:string, unit:string }[] = [
+  { key: "kerf", name: "Kerf", unit: "µm" },
+  { key: "power", name: "Spindle power", unit: "kW" },
+  { key: "chipping", name: "Chipping", unit: "µm" },
+];
+
+const fmt = (v:number, d=3) => isFinite(v) ? String(Number(v.toFixed(d))) : "-";
+
+// Stale or hand-edited entries whose database no longer validates are dropped.
+const isEntry = (v:unknown): v is HistoryEntry => {
+  const e = (v && typeof v === "object" ? v : {}) as Record<string,unknown>;
+  const db = (e.db && typeof e.db === "object" ? e.db : {}) as Record<string,unknown>;
+  const objects = (l:unknown) => Array.isArray(l) && l.every(x=>x && typeof x === "object");
+  return typeof e.savedAt === "string" && typeof e.note === "string" && objects(db.materials) && objects(db.bonds) && !validateMaterialDB(db as MaterialDB).length;
+};
+
+function loadHistory():HistoryEntry[] {
+  try {
+    const raw:unknown = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(isEntry) : [];
+  }
+  catch { return []; }
+}
+
+// Residual (measured − predicted) against predicted.
+function ResidualPlot({fit, unit}:{fit:TargetFit, unit:string}){
+  const W = 240, H = 140, P = 28;
+  const xs = fit.points.map(p=>p.predicted), rs = fit.points.map(p=>p.measured - p.predicted);
+  const x0 = Math.min(...xs), x1 = Math.max(...xs);
+  const rMax = Math.max(1e-9, ...rs.map(Math.abs));
+  const sx = (x:number) => P + (x1 > x0 ? (x - x0) / (x1 - x0) : 0.5) * (W - 2*P);
+  const sy = (r:number) => H/2 - r / rMax * (H/2 - 12);
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full max-w-xs border rounded-md bg-white">
+      <line x1={P} x2={W - P} y1={H/2} y2={H/2} stroke="#a1a1aa" strokeDasharray="3 3"/>
+      {fit.points.map((_, i)=>(<circle key={i} cx={sx(xs[i])} cy={sy(rs[i])} r={2.5} fill="#2563eb"/>))}
+      <text x={4} y={12} fontSize={9} fill="#52525b">+{fmt(rMax, 2)} {unit}</text>
+      <text x={4} y={H - 4} fontSize={9} fill="#52525b">−{fmt(rMax, 2)}</text>
+      <text x={W - P} y={H - 4} fontSize={9} fill="#52525b" textAnchor="end">predicted {fmt(x0, 2)}–{fmt(x1, 2)}</text>
+    </svg>
+  );
+}
+
+export function Calibration({db, onChange, inUse}:{db:MaterialDB, onChange:(db:MaterialDB)=>void, inUse:{ material:string, bonds:string[] }}){
+  const [fileName, setFileName] = useState<string>();
+  const [rows, setRows] = useState<CalibrationRow[]>([]);
+  const [issues, setIssues] = useState<CalibrationIssue[]>([]);
+  const [targets, setTargets] = useState<FitTarget[]>(TARGETS.map(t=>t.key));
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+
+  useEffect(()=>{ localStorage.setItem(HISTORY_KEY, JSON.stringify(history)); }, [history]);
+
+  const cals = useMemo(()=>calibrate(db, rows), [db, rows]);
+  // The set a rollback would restore must still validate and hold what the recipe uses.
+  const prev = history[0]?.db;
+  const blocked = prev ? [
+    ...validateMaterialDB(prev).map(i=>`${i.path} ${i.message}`),
+    !prev.materials.some(m=>m.id===inUse.material) && `material "${inUse.material}" missing`,
+    ...inUse.bonds.filter(id=>!prev.bonds.some(b=>b.id===id)).map(id=>`bond "${id}" missing`),
+  ].filter((m):m is string=>!!m) : [];
+
+  const handleUpload = (e:React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if(!f) return;
+    const reader = new FileReader();
+    reader.onload = ()=>{
+      const res = readCalibrationCSV(String(reader.result||""));
+      setFileName(f.name); setRows(res.rows); setIssues(res.issues);
+    };
+    reader.readAsText(f);
+    e.target.value = "";
+  };
+
+  const activate = () => {
+    const next = applyCalibration(db, cals, targets);
+    const bad = validateMaterialDB(next);
+    if(bad.length){ alert("Fitted coefficients are out of range: "+bad.map(i=>`${i.path} ${i.message}`).join("; ")); return; }
+    setHistory(h=>[{ savedAt: new Date().toISOString(), note: `Before calibration from ${fileName ?? "CSV"} (${targets.join(", ")})`, db }, ...h].slice(0, HISTORY_LIMIT));
+    onChange(next);
+  };
+
+  const rollback = () => {
+    if(!prev || blocked.length) return;
+    setHistory(history.slice(1));
+    onChange(prev);
+  };
+
+  const fitted = cals.some(c=>c.fits.some(f=>targets.includes(f.target)));
+
+  return (
+    <div className="space-y-4">
+      <Card><CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-medium">Calibrate from Cut Logs</h2>
+          <label className="inline-flex items-center gap-2 text-sm border rounded-md px-3 py-2 cursor-pointer">
+            <Upload className="h-4 w-4"/>Import CSV
+            <input type="file" accept=".csv,.txt" className="hidden" onChange={handleUpload}/>
+          </label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Columns: material, waferThk (µm), bladeDia (mm), bladeThk (µm), rpm, feed (mm/s), coolant (L/min), wear, plus any of
+          kerf (µm), chipping (µm), power (kW). Coefficients are fitted per material by least squares.
+        </p>
+        {fileName && <div className="text-sm">{fileName}: {rows.length} usable row(s)</div>}
+        {issues.map((it, i)=>(
+          <div key={i} className={`text-sm ${it.severity==="error" ? "text-red-700" : "text-amber-700"}`}>• {it.line ? `Line ${it.line}: ` : ""}{it.message}</div>
+        ))}
+      </CardContent></Card>
+
+      {cals.map(c=>(
+        <Card key={c.material}><CardContent className="p-4 space-y-3">
+          <h3 className="font-medium">{c.material}</h3>
+          {c.issues.map((m, i)=>(<div key={i} className="text-sm text-amber-700">• {m}</div>))}
+          {c.fits.map(fit=>{
+            const t = TARGETS.find(x=>x.key===fit.target)!;
+            return (
+              <div key={fit.target} className="grid md:grid-cols-2 gap-3 items-start border-t pt-3">
+                <div className="space-y-1 text-sm">
+                  <div className="font-medium">{t.name} <span className="text-xs text-muted-foreground">n={fit.after.n}</span></div>
+                  <div>R² {fmt(fit.before.r2)} → <b>{fmt(fit.after.r2)}</b>; RMSE {fmt(fit.before.rmse)} → <b>{fmt(fit.after.rmse)}</b> {t.unit}</div>
+                  <table className="text-xs">
+                    <tbody>
+                      {Object.entries(fit.coeffs).map(([k, v])=>(
+                        <tr key={k}><td className="pr-3">{k}</td><td className="pr-3">{fmt(v.before, 4)}</td><td>→ {fmt(v.after, 4)}</td></tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <ResidualPlot fit={fit} unit={t.unit}/>
+              </div>
+            );
+          })}
+        </CardContent></Card>
+      ))}
+
+      <Card><CardContent className="p-4 space-y-3">
+        <h2 className="text-lg font-medium">Active Model</h2>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {TARGETS.map(t=>(
+            <label key={t.key} className="inline-flex items-center gap-2">
+              <input type="checkbox" checked={targets.includes(t.key)} onChange={e=>setTargets(ts=>e.target.checked ? [...ts, t.key] : ts.filter(x=>x!==t.key))}/>
+              Apply {t.name.toLowerCase()} fit
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button disabled={!fitted} onClick={activate}>Activate Fitted Coefficients</Button>
+          <Button variant="outline" disabled={!history.length || !!blocked.length} onClick={rollback}>Roll Back</Button>
+        </div>
+        {!!blocked.length && <p className="text-sm text-amber-700">Cannot roll back: {blocked.join("; ")}</p>}
+        <div className="space-y-1">
+          {!history.length && <p className="text-sm text-muted-foreground">No previous coefficient sets.</p>}
+          {history.map((h, i)=>(
+            <div key={i} className="text-xs">{new Date(h.savedAt).toLocaleString()} · {h.note}</div>
+          ))}
+        </div>
+      </CardContent></Card>
+    </div>
+  );
+}
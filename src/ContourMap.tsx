@@ -0,0 +1,172 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+import { downloadBlob, downloadText } from "./download";
+import {
+  SWEEP_METRICS, SWEEP_PARAMS, contourSegments, sweepRecipe,
+  type DieLayout, type MaterialDB, type Recipe, type Segment, type SweepMetric, type SweepParam,
+} from "./model";
+
+// ------------------------
+// Process window contour map
+// ------------------------
+
+const W = 560, H = 400, M = { l: 64, r: 90, t: 16, b: 44 };
+const PW = W - M.l - M.r, PH = H - M.t - M.b;
+const STEPS = 41;
+
+// Blue → teal → yellow → red, low to high.
+const STOPS = [[49, 54, 149], [69, 117, 180], [116, 173, 209], [254, 224, 144], [244, 109, 67], [165, 0, 38]];
+function heat(t:number){
+  const u = Math.max(0, Math.min(1, t)) * (STOPS.length - 1);
+  const i = Math.min(STOPS.length - 2, Math.floor(u)), f = u - i;
+  const c = STOPS[i].map((v, k)=>Math.round(v + (STOPS[i+1][k] - v) * f));
+  return `rgb(${c[0]},${c[1]},${c[2]})`;
+}
+
+const fmt = (v:number) => Math.abs(v) >= 1000 ? v.toFixed(0) : Math.abs(v) >= 10 ? v.toFixed(1) : v.toFixed(2);
+const ticks = (lo:number, hi:number, n=5) => Array.from({ length: n }, (_, i)=>lo + (hi - lo) * i / (n - 1));
+
+export function ContourMap({recipe, layout, db, suggested}:{recipe:Recipe, layout:DieLayout, db:MaterialDB, suggested:Partial<Record<SweepParam, number>>}){
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [xParam, setXParam] = useState<SweepParam>("feed");
+  const [yParam, setYParam] = useState<SweepParam>("rpm");
+  const [metric, setMetric] = useState<SweepMetric>("risk");
+  const [ranges, setRanges] = useState(()=>Object.fromEntries(SWEEP_PARAMS.map(p=>[p.key, p.range])) as Record<SweepParam, { min:number, max:number }>);
+  const [thresholds, setThresholds] = useState("35, 60");
+
+  const xr = ranges[xParam], yr = ranges[yParam];
+  const sweep = useMemo(()=>{
+    if(!(xr.max > xr.min) || !(yr.max > yr.min)) return undefined;
+    try { return sweepRecipe(recipe, { param: xParam, ...xr, steps: STEPS }, { param: yParam, ...yr, steps: STEPS }, metric, layout, db); }
+    catch { return undefined; }
+  }, [recipe, xParam, yParam, xr, yr, metric, layout, db]);
+  const riskLevels = thresholds.split(/[,;\s]+/).map(Number).filter(v=>isFinite(v) && v > 0 && v < 100);
+
+  const xInfo = SWEEP_PARAMS.find(p=>p.key===xParam)!, yInfo = SWEEP_PARAMS.find(p=>p.key===yParam)!;
+  const mInfo = SWEEP_METRICS.find(m=>m.key===metric)!;
+  const sx = (v:number) => M.l + (v - xr.min) / (xr.max - xr.min || 1) * PW;
+  const sy = (v:number) => M.t + PH - (v - yr.min) / (yr.max - yr.min || 1) * PH;
+  const inside = (x:number, y:number) => x >= xr.min && x <= xr.max && y >= yr.min && y <= yr.max;
+
+  const flat = sweep ? sweep.metric.values.flat().filter(isFinite) : [];
+  const vMin = flat.length ? Math.min(...flat) : 0, vMax = flat.length ? Math.max(...flat) : 1;
+  const color = (v:number) => heat((v - vMin) / (vMax - vMin || 1));
+
+  const path = (segs:Segment[]) => segs.map(([a, b])=>`M${sx(a.x).toFixed(1)},${sy(a.y).toFixed(1)}L${sx(b.x).toFixed(1)},${sy(b.y).toFixed(1)}`).join("");
+  const cur = { x: recipe[xParam], y: recipe[yParam] };
+  const sug = { x: suggested[xParam] ?? recipe[xParam], y: suggested[yParam] ?? recipe[yParam] };
+  const hasSug = suggested[xParam] !== undefined || suggested[yParam] !== undefined;
+
+  const serialize = () => {
+    const el = svgRef.current!.cloneNode(true) as SVGSVGElement;
+    el.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+    return new XMLSerializer().serializeToString(el);
+  };
+  const base = `process_window_${metric}_${xParam}_x_${yParam}`;
+  const exportSVG = () => downloadText(`${base}.svg`, serialize(), "image/svg+xml;charset=utf-8;");
+  const exportPNG = () => {
+    const img = new Image();
+    const url = URL.createObjectURL(new Blob([serialize()], { type: "image/svg+xml" }));
+    img.onload = ()=>{
+      const scale = 2;
+      const canvas = document.createElement("canvas");
+      canvas.width = W * scale; canvas.height = H * scale;
+      const ctx = canvas.getContext("2d")!;
+      ctx.fillStyle = "#fff"; ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(b=>{ if(b) downloadBlob(`${base}.png`, b); }, "image/png");
+    };
+    img.onerror = ()=>{ URL.revokeObjectURL(url); alert("PNG export failed."); };
+    img.src = url;
+  };
+
+  const paramSelect = (value:SweepParam, onChange:(v:SweepParam)=>void) => (
+    <Select value={value} onValueChange={v=>onChange(v as SweepParam)}>
+      <SelectTrigger><SelectValue/></SelectTrigger>
+      <SelectContent>
+        {SWEEP_PARAMS.map(p=>(<SelectItem key={p.key} value={p.key}>{p.label} ({p.unit})</SelectItem>))}
+      </SelectContent>
+    </Select>
+  );
+  const rangeInputs = (param:SweepParam) => (
+    <div className="grid grid-cols-2 gap-2">
+      <Input type="number" value={ranges[param].min} onChange={e=>setRanges(r=>({ ...r, [param]: { ...r[param], min: Number(e.target.value) } }))}/>
+      <Input type="number" value={ranges[param].max} onChange={e=>setRanges(r=>({ ...r, [param]: { ...r[param], max: Number(e.target.value) } }))}/>
+    </div>
+  );
+
+  return (
+    <Card className="rounded-2xl border"><CardContent className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-medium">Process Window</h2>
+        <div className="flex gap-2">
+          <Button variant="outline" disabled={!sweep} onClick={exportSVG}><Download className="mr-2 h-4 w-4"/>SVG</Button>
+          <Button variant="outline" disabled={!sweep} onClick={exportPNG}><Download className="mr-2 h-4 w-4"/>PNG</Button>
+        </div>
+      </div>
+      <div className="grid md:grid-cols-4 gap-3">
+        <div className="space-y-1"><Label>Metric</Label>
+          <Select value={metric} onValueChange={v=>setMetric(v as SweepMetric)}>
+            <SelectTrigger><SelectValue/></SelectTrigger>
+            <SelectContent>
+              {SWEEP_METRICS.map(m=>(<SelectItem key={m.key} value={m.key}>{m.label}</SelectItem>))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1"><Label>X axis (min / max)</Label>{paramSelect(xParam, setXParam)}{rangeInputs(xParam)}</div>
+        <div className="space-y-1"><Label>Y axis (min / max)</Label>{paramSelect(yParam, setYParam)}{rangeInputs(yParam)}</div>
+        <div className="space-y-1"><Label>Risk thresholds</Label><Input value={thresholds} onChange={e=>setThresholds(e.target.value)}/></div>
+      </div>
+      {!sweep && <div className="text-sm text-red-700">Choose two different parameters with valid ranges.</div>}
+      {sweep && (
+        <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} width={W} height={H} className="w-full max-w-3xl" fontFamily="sans-serif">
+          <rect x={0} y={0} width={W} height={H} fill="#fff"/>
+          {sweep.metric.ys.slice(0, -1).map((yv, j)=>sweep.metric.xs.slice(0, -1).map((xv, i)=>{
+            const v = (sweep.metric.values[j][i] + sweep.metric.values[j][i+1] + sweep.metric.values[j+1][i] + sweep.metric.values[j+1][i+1]) / 4;
+            const x0 = sx(xv), x1 = sx(sweep.metric.xs[i+1]), y0 = sy(sweep.metric.ys[j+1]), y1 = sy(yv);
+            return <rect key={`${i}-${j}`} x={x0} y={y0} width={x1 - x0 + 0.5} height={y1 - y0 + 0.5} fill={color(v)}/>;
+          }))}
+          {[sweep.tipWindow.lo, sweep.tipWindow.hi].map(l=>(
+            <path key={`tip${l}`} d={path(contourSegments(sweep.tip, l))} stroke="#fff" strokeWidth={2} strokeDasharray="6 3" fill="none"/>
+          ))}
+          {riskLevels.map(l=>(
+            <path key={`risk${l}`} d={path(contourSegments(sweep.risk, l))} stroke="#111" strokeWidth={1.2} fill="none"/>
+          ))}
+          <rect x={M.l} y={M.t} width={PW} height={PH} fill="none" stroke="#333"/>
+          {ticks(xr.min, xr.max).map((t, i)=>(
+            <g key={`xt${i}`}><line x1={sx(t)} x2={sx(t)} y1={M.t + PH} y2={M.t + PH + 4} stroke="#333"/><text x={sx(t)} y={M.t + PH + 16} fontSize={10} textAnchor="middle">{fmt(t)}</text></g>
+          ))}
+          {ticks(yr.min, yr.max).map((t, i)=>(
+            <g key={`yt${i}`}><line x1={M.l - 4} x2={M.l} y1={sy(t)} y2={sy(t)} stroke="#333"/><text x={M.l - 6} y={sy(t) + 3} fontSize={10} textAnchor="end">{fmt(t)}</text></g>
+          ))}
+          <text x={M.l + PW/2} y={H - 8} fontSize={11} textAnchor="middle">{xInfo.label} ({xInfo.unit})</text>
+          <text x={14} y={M.t + PH/2} fontSize={11} textAnchor="middle" transform={`rotate(-90 14 ${M.t + PH/2})`}>{yInfo.label} ({yInfo.unit})</text>
+          {hasSug && inside(sug.x, sug.y) && (
+            <g><rect x={sx(sug.x) - 5} y={sy(sug.y) - 5} width={10} height={10} fill="none" stroke="#fff" strokeWidth={2}/><text x={sx(sug.x) + 8} y={sy(sug.y) - 6} fontSize={10} fill="#fff">suggested</text></g>
+          )}
+          {inside(cur.x, cur.y) && (
+            <g><circle cx={sx(cur.x)} cy={sy(cur.y)} r={5} fill="#fff" stroke="#111" strokeWidth={2}/><text x={sx(cur.x) + 8} y={sy(cur.y) + 12} fontSize={10} fill="#111">current</text></g>
+          )}
+          {/* Color bar */}
+          {Array.from({ length: 40 }, (_, k)=>(
+            <rect key={`cb${k}`} x={W - M.r + 18} y={M.t + PH - (k + 1) * PH / 40} width={14} height={PH / 40 + 0.5} fill={heat(k / 39)}/>
+          ))}
+          <text x={W - M.r + 36} y={M.t + 8} fontSize={10}>{fmt(vMax)}</text>
+          <text x={W - M.r + 36} y={M.t + PH} fontSize={10}>{fmt(vMin)}</text>
+          <text x={W - M.r + 18} y={M.t + PH + 16} fontSize={10}>{mInfo.label}</text>
+          <text x={W - M.r + 18} y={M.t + PH + 28} fontSize={10}>({mInfo.unit})</text>
+        </svg>
+      )}
+      <p className="text-xs text-muted-foreground">
+        White dashed: tip speed {sweep ? `${sweep.tipWindow.lo}–${sweep.tipWindow.hi}` : ""} m/s band edges. Black: chipping risk at {riskLevels.join(", ") || "-"}.
+        Other recipe parameters stay at their current values.
+      </p>
+    </CardContent></Card>
+  );
+}
@@ -0,0 +1,132 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { recipePasses, type CutPass, type MaterialDB, type PassEvaluation, type Recipe, type ValidationIssue } from "./model";
+import { FieldIssues } from "./Validation";
+
+// ------------------------
+// Step / bevel cut passes
+// ------------------------
+// Pre-cut passes are edited here; the final pass is the recipe's own blade and setpoints.
+
+const fmt = (v:number, d=1) => isFinite(v) ? v.toFixed(d) : "-";
+
+type NumKey = "bevelAngle"|"bladeDia"|"bladeThk"|"depth"|"rpm"|"feed"|"coolant";
+const COLUMNS:{ key:NumKey, label:string }[] = [
+  { key: "bevelAngle", label: "Angle (°)" },
+  { key: "bladeDia", label: "Ø (mm)" },
+  { key: "bladeThk", label: "Thk (µm)" },
+  { key: "depth", label: "Depth (µm)" },
+  { key: "rpm", label: "RPM" },
+  { key: "feed", label: "Feed (mm/s)" },
+  { key: "coolant", label: "Coolant" },
+];
+
+// Z1 seed: a blade half again as wide, opening the top third of the wafer.
+const seedPass = (r:Recipe, i:number):CutPass => ({
+  name: `Z${i + 1}`, profile: "straight", bevelAngle: 90,
+  bladeDia: r.bladeDia, bladeThk: Math.round(r.bladeThk * 1.5), bladeBond: r.bladeBond,
+  depth: Math.round(r.waferThk * (i + 1) / 3), rpm: r.rpm, feed: r.feed, coolant: r.coolant,
+});
+
+// `issues` are the recipe check's findings on the passes.
+export function CutPasses({recipe, passes, onChange, results, db, issues}:{recipe:Recipe, passes:CutPass[], onChange:(p:CutPass[])=>void, results:PassEvaluation[], db:MaterialDB, issues:ValidationIssue[]}){
+  const all = recipePasses(recipe);
+  const set = (i:number, patch:Partial<CutPass>) => onChange(passes.map((p, j)=>j===i ? { ...p, ...patch } : p));
+  // Pass names follow position unless the user renamed them.
+  const renumber = (ps:CutPass[]) => ps.map((p, i)=>/^Z\d+$/.test(p.name) ? { ...p, name: `Z${i + 1}` } : p);
+
+  return (
+    <Card className="rounded-xl border"><CardContent className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-medium">Cut Passes</h3>
+        <Button variant="outline" size="sm" disabled={passes.length >= 3} onClick={()=>onChange(renumber([...passes, seedPass(recipe, passes.length)]))}>Add Pre-cut Pass</Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {passes.length ? "Step cut: passes run top to bottom; the last row is the through-cut from the blade and setpoints above." : "Single pass at full wafer thickness. Add a pre-cut pass for a step or bevel cut."}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="py-2 pr-2">Pass</th>
+              <th className="py-2 pr-2">Profile</th>
+              {COLUMNS.map(c=>(<th key={c.key} className="py-2 pr-2">{c.label}</th>))}
+              <th className="py-2 pr-2">Bond</th>
+              <th className="py-2 pr-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {passes.map((p, i)=>(
+              <tr key={i} className="border-t">
+                <td className="py-1 pr-2"><Input value={p.name} onChange={e=>set(i, { name: e.target.value })}/></td>
+                <td className="py-1 pr-2">
+                  <select className="border rounded-md px-2 py-2 text-sm" value={p.profile} onChange={e=>set(i, { profile: e.target.value as CutPass["profile"] })}>
+                    <option value="straight">Straight</option>
+                    <option value="bevel">Bevel</option>
+                  </select>
+                </td>
+                {COLUMNS.map(c=>(
+                  <td key={c.key} className="py-1 pr-2">
+                    <Input type="number" value={p[c.key]} disabled={c.key==="bevelAngle" && p.profile!=="bevel"} onChange={e=>set(i, { [c.key]: Number(e.target.value) })}/>
+                  </td>
+                ))}
+                <td className="py-1 pr-2">
+                  <select className="border rounded-md px-2 py-2 text-sm" value={p.bladeBond} onChange={e=>set(i, { bladeBond: e.target.value })}>
+                    {db.bonds.map(b=>(<option key={b.id} value={b.id}>{b.name}</option>))}
+                  </select>
+                </td>
+                <td className="py-1 pr-2"><Button variant="outline" size="sm" onClick={()=>onChange(renumber(passes.filter((_, j)=>j!==i)))}>Remove</Button></td>
+              </tr>
+            ))}
+            {passes.length > 0 && (
+              <tr className="border-t text-muted-foreground">
+                <td className="py-2 pr-2">{all[all.length - 1].name}</td>
+                <td className="py-2 pr-2">Straight</td>
+                <td className="py-2 pr-2">-</td>
+                <td className="py-2 pr-2">{recipe.bladeDia}</td>
+                <td className="py-2 pr-2">{recipe.bladeThk}</td>
+                <td className="py-2 pr-2">through</td>
+                <td className="py-2 pr-2">{recipe.rpm}</td>
+                <td className="py-2 pr-2">{recipe.feed}</td>
+                <td className="py-2 pr-2">{recipe.coolant}</td>
+                <td className="py-2 pr-2">{recipe.bladeBond}</td>
+                <td></td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <FieldIssues issues={issues}/>
+      {passes.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="py-1 pr-3">Pass</th>
+              <th className="py-1 pr-3">Removes (µm)</th>
+              <th className="py-1 pr-3">Tip (m/s)</th>
+              <th className="py-1 pr-3">Kerf (µm)</th>
+              <th className="py-1 pr-3">Power (kW)</th>
+              <th className="py-1 pr-3">Risk</th>
+              <th className="py-1 pr-3">Suggested RPM</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((p, i)=>(
+              <tr key={i} className="border-t">
+                <td className="py-1 pr-3">{p.name}</td>
+                <td className="py-1 pr-3">{fmt(p.engaged.value, 0)}</td>
+                <td className="py-1 pr-3">{fmt(p.tipSpeed.value)}</td>
+                <td className="py-1 pr-3">{fmt(p.kerf.value)}</td>
+                <td className="py-1 pr-3">{fmt(p.spindlePower.value, 4)}</td>
+                <td className="py-1 pr-3">{p.chippingRisk.value}</td>
+                <td className="py-1 pr-3">{fmt(p.suggestedRpm.value, 0)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </CardContent></Card>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  CUT_MODES, DEFAULT_CYCLE_SETTINGS, DEFAULT_LOT_PLAN, lotThroughput, simulateCycle,
+  type CutMode, type CycleSettings, type DieLayout, type LotPlan,
+} from "./model";
+
+// ------------------------
+// Cycle-time simulator panel
+// ------------------------
+
+const fmt = (v:number, d=1) => isFinite(v) ? v.toFixed(d) : "-";
+
+type NumSetting = Exclude<keyof CycleSettings, "mode">;
+const SETTINGS:{ key:NumSetting, label:string }[] = [
+  { key: "overtravel_mm", label: "Overtravel (mm)" },
+  { key: "spindleGap_mm", label: "Z1–Z2 gap (mm)" },
+  { key: "approach_s", label: "Approach (s)" },
+  { key: "retract_s", label: "Retract (s)" },
+  { key: "return_mm_s", label: "Return speed (mm/s)" },
+  { key: "index_mm_s", label: "Index speed (mm/s)" },
+  { key: "settle_s", label: "Index settle (s)" },
+  { key: "thetaRotate_s", label: "θ rotation (s)" },
+  { key: "align_s", label: "Alignment per channel (s)" },
+  { key: "loadUnload_s", label: "Load/unload (s)" },
+  { key: "kerfCheckEvery", label: "Kerf check every (strokes)" },
+  { key: "kerfCheck_s", label: "Kerf check (s)" },
+  { key: "bladeSwapEvery", label: "Blade swap every (wafers)" },
+  { key: "bladeSwap_s", label: "Blade swap (s)" },
+];
+
+const LOT_FIELDS:{ key:keyof LotPlan, label:string }[] = [
+  { key: "lotSize", label: "Wafers per lot" },
+  { key: "lotSetup_s", label: "Lot set-up (s)" },
+  { key: "shift_h", label: "Shift (h)" },
+  { key: "availability", label: "Availability (0–1)" },
+];
+
+function Stat({label, value}:{label:string, value:string}){
+  return (
+    <div className="rounded-md border p-2">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="font-medium">{value}</div>
+    </div>
+  );
+}
+
+// `feed` is one value per pass for multi-pass recipes.
+export function CycleTime({layout, waferDiam, feed}:{layout:DieLayout, waferDiam:number, feed:number|number[]}){
+  const [settings, setSettings] = useState<CycleSettings>(DEFAULT_CYCLE_SETTINGS);
+  const [plan, setPlan] = useState<LotPlan>(DEFAULT_LOT_PLAN);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const sim = useMemo(()=>simulateCycle(layout, waferDiam, feed, settings), [layout, waferDiam, feed, settings]);
+  const lot = lotThroughput(sim, plan);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <Label className="text-sm">Mode</Label>
+        <select className="border rounded-md px-2 py-1 text-sm" value={settings.mode} onChange={e=>setSettings(s=>({ ...s, mode: e.target.value as CutMode }))}>
+          {CUT_MODES.map(m=>(<option key={m.key} value={m.key}>{m.label}</option>))}
+        </select>
+        <Button variant="outline" size="sm" onClick={()=>setShowSettings(v=>!v)}>{showSettings ? "Hide" : "Machine"} settings</Button>
+      </div>
+      {showSettings && (
+        <div className="grid md:grid-cols-2 gap-x-6 gap-y-2">
+          {SETTINGS.map(f=>(
+            <div key={f.key} className="grid grid-cols-2 gap-2 items-center">
+              <Label className="text-xs">{f.label}</Label>
+              <Input type="number" value={settings[f.key]} onChange={e=>setSettings(s=>({ ...s, [f.key]: Number(e.target.value) }))}/>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        {sim.channels.map(c=>(<Stat key={c.channel} label={`${c.channel} lanes / strokes`} value={`${c.lanes} / ${c.strokes}`}/>))}
+        <Stat label="Cut Length" value={`${fmt(sim.cutLength_mm / 1000, 2)} m`}/>
+        <Stat label="Cycle Time" value={`${fmt(sim.total_s)} s`}/>
+        <Stat label="Throughput" value={`${fmt(sim.wafersPerHour)} wafers/hr`}/>
+        <Stat label="At feed" value={`${fmt(100 * sim.cut_s / sim.total_s, 0)} %`}/>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="py-1 pr-3">Step</th>
+            <th className="py-1 pr-3">Count</th>
+            <th className="py-1 pr-3">Time (s)</th>
+            <th className="py-1 pr-3 w-1/3">Share</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sim.steps.map(st=>(
+            <tr key={st.step} className="border-t">
+              <td className="py-1 pr-3">{st.step}</td>
+              <td className="py-1 pr-3">{Number.isInteger(st.count) ? st.count : fmt(st.count, 3)}</td>
+              <td className="py-1 pr-3">{fmt(st.time_s)}</td>
+              <td className="py-1 pr-3"><div className="h-2 rounded bg-blue-500" style={{ width: `${100 * st.time_s / sim.total_s}%` }}/></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="grid md:grid-cols-2 gap-x-6 gap-y-2">
+        {LOT_FIELDS.map(f=>(
+          <div key={f.key} className="grid grid-cols-2 gap-2 items-center">
+            <Label className="text-xs">{f.label}</Label>
+            <Input type="number" value={plan[f.key]} onChange={e=>setPlan(p=>({ ...p, [f.key]: Number(e.target.value) }))}/>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <Stat label="Lot Time" value={`${fmt(lot.lot_h, 2)} h`}/>
+        <Stat label="Lot Throughput" value={`${fmt(lot.lotWafersPerHour)} wafers/hr`}/>
+        <Stat label="Per Shift" value={`${lot.wafersPerShift} wafers (${fmt(lot.lotsPerShift, 2)} lots)`}/>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { downloadText } from "./download";
+import { latestVersion, loadLibrary } from "./recipes";
+import {
+  CUT_MODES, DEFAULT_PLANNER_SETTINGS, WEEK_H, planLots, writeLotPlanCSV,
+  type CutMode, type LotInput, type LotPlanResult, type MaterialDB, type PlannerSettings, type Recipe,
+} from "./model";
+
+// ------------------------
+// Lot planner panel
+// ------------------------
+// Lots name a recipe from the library (latest version) or the one in the editor; the material
+// can be overridden per lot. The queue and planner settings persist across sessions.
+
+export const LOT_QUEUE_STORAGE_KEY = "dicing-toolkit.lots";
+export const LOT_QUEUE_SCHEMA = 1;
+const CURRENT = "current";
+
+export type LotRow = { id:string, recipe:string, material:string, wafers:number, yieldPct:number };
+export type LotQueue = { schema:number, settings:PlannerSettings, lots:LotRow[] };
+export const emptyLotQueue = ():LotQueue => ({ schema: LOT_QUEUE_SCHEMA, settings: { ...DEFAULT_PLANNER_SETTINGS }, lots: [] });
+
+export function loadLotQueue(storage:Pick<Storage,"getItem"> = localStorage):LotQueue {
+  try {
+    const doc = JSON.parse(storage.getItem(LOT_QUEUE_STORAGE_KEY) ?? "null");
+    return Array.isArray(doc?.lots) ? { schema: LOT_QUEUE_SCHEMA, settings: { ...DEFAULT_PLANNER_SETTINGS, ...doc.settings }, lots: doc.lots } : emptyLotQueue();
+  } catch {
+    return emptyLotQueue();
+  }
+}
+
+export function saveLotQueue(q:LotQueue, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(LOT_QUEUE_STORAGE_KEY, JSON.stringify(q));
+}
+
+const fmt = (v:number, d=1) => isFinite(v) ? v.toFixed(d) : "-";
+const int = (v:number) => isFinite(v) ? Math.round(v).toLocaleString() : "-";
+
+type NumSetting = Exclude<keyof PlannerSettings, "mode">;
+const SETTINGS:{ key:NumSetting, label:string }[] = [
+  { key: "saws", label: "Saws" },
+  { key: "lotSetup_s", label: "Lot set-up (s)" },
+  { key: "availability", label: "Availability (0–1)" },
+  { key: "bladeExposure_um", label: "New blade exposure (µm)" },
+  { key: "bladeCost", label: "Blade cost" },
+  { key: "bladeSwap_s", label: "Blade change (s)" },
+];
+
+function Stat({label, value}:{label:string, value:string}){
+  return (
+    <div className="rounded-md border p-2">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="font-medium">{value}</div>
+    </div>
+  );
+}
+
+const COLORS = ["#2563eb", "#16a34a", "#d97706", "#7c3aed", "#db2777", "#0891b2", "#65a30d", "#dc2626"];
+
+// One row per saw, one bar per lot; day lines every 24 h, week lines every 168 h.
+function Gantt({plan, saws}:{plan:LotPlanResult, saws:number}){
+  const W = 720, L = 44, R = 12, T = 16, rowH = 22, B = 18;
+  const H = T + saws * rowH + B;
+  const span = Math.max(plan.totals.makespan_h, 1);
+  const sx = (h:number) => L + h / span * (W - L - R);
+  const step = span > 2 * WEEK_H ? WEEK_H : 24;
+  const ticks = Array.from({ length: Math.floor(span / step) + 1 }, (_, i)=>i * step);
+  const products = Array.from(new Set(plan.lots.map(l=>l.product)));
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full border rounded-md bg-white">
+      {ticks.map(t=>(
+        <g key={t}>
+          <line x1={sx(t)} x2={sx(t)} y1={T} y2={H - B} stroke={t % WEEK_H === 0 ? "#a1a1aa" : "#e4e4e7"}/>
+          <text x={sx(t)} y={H - 5} fontSize={9} fill="#71717a" textAnchor="middle">{step === WEEK_H ? `W${t / WEEK_H + 1}` : `${t} h`}</text>
+        </g>
+      ))}
+      {Array.from({ length: saws }, (_, i)=>(
+        <text key={i} x={4} y={T + i * rowH + rowH / 2 + 3} fontSize={10} fill="#27272a">Saw {i + 1}</text>
+      ))}
+      {plan.lots.map(l=>{
+        const x = sx(l.start_h), w = Math.max(1, sx(l.end_h) - x), y = T + (l.saw - 1) * rowH + 3;
+        return (
+          <g key={l.id}>
+            <rect x={x} y={y} width={w} height={rowH - 6} rx={2} fill={COLORS[products.indexOf(l.product) % COLORS.length]} opacity={0.8}>
+              <title>{l.id} · {l.product} · {l.wafers} wafers · {fmt(l.start_h)}–{fmt(l.end_h)} h</title>
+            </rect>
+            {w > 30 && <text x={x + 3} y={y + rowH / 2 + 1} fontSize={9} fill="#fff">{l.id}</text>}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export function LotPlanner({queue, onChange, current, db, defaultYield}:{queue:LotQueue, onChange:(q:LotQueue)=>void, current:Recipe, db:MaterialDB, defaultYield:number}){
+  // Library is read when the panel opens; Reload picks up versions saved since.
+  const [library, setLibrary] = useState(()=>loadLibrary());
+  const recipes = useMemo(()=>new Map(library.recipes.map(r=>[r.name, latestVersion(r).values])), [library]);
+  const resolve = (name:string) => name === CURRENT ? current : recipes.get(name);
+
+  const inputs = useMemo(()=>{
+    const out:LotInput[] = [], missing:string[] = [];
+    for(const l of queue.lots){
+      const r = resolve(l.recipe);
+      if(!r){ missing.push(`${l.id}: recipe "${l.recipe}" is not in the library`); continue; }
+      out.push({ id: l.id, product: l.recipe === CURRENT ? "Current recipe" : l.recipe, wafers: l.wafers, yieldPct: l.yieldPct, recipe: l.material ? { ...r, material: l.material } : r });
+    }
+    return { out, missing };
+  }, [queue.lots, recipes, current]);
+  const plan = useMemo(()=>planLots(inputs.out, queue.settings, db), [inputs, queue.settings, db]);
+
+  const setSetting = (key:keyof PlannerSettings, v:number|CutMode) => onChange({ ...queue, settings: { ...queue.settings, [key]: v } });
+  const setLot = (i:number, patch:Partial<LotRow>) => onChange({ ...queue, lots: queue.lots.map((l, j)=>j===i ? { ...l, ...patch } : l) });
+  const addLot = () => {
+    const used = new Set(queue.lots.map(l=>l.id));
+    let n = queue.lots.length + 1;
+    while(used.has(`LOT-${n}`)) n++;
+    onChange({ ...queue, lots: [...queue.lots, { id: `LOT-${n}`, recipe: CURRENT, material: "", wafers: 25, yieldPct: Number(defaultYield.toFixed(1)) }] });
+  };
+
+  const exportCSV = () => {
+    try { downloadText("lot-plan.csv", writeLotPlanCSV(plan), "text/csv;charset=utf-8;"); }
+    catch(err) { alert("Lot plan export failed: "+(err as Error).message); }
+  };
+
+  const issues = [...inputs.missing, ...plan.skipped.map(s=>`${s.id}: ${s.reason}`)];
+  const byId = new Map(plan.lots.map(l=>[l.id, l]));
+  const saws = Math.max(1, Math.floor(queue.settings.saws));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-4 gap-2">
+        {SETTINGS.map(f=>(
+          <div key={f.key}>
+            <Label className="text-xs">{f.label}</Label>
+            <Input type="number" value={queue.settings[f.key]} onChange={e=>setSetting(f.key, Number(e.target.value))}/>
+          </div>
+        ))}
+        <div>
+          <Label className="text-xs">Cut mode</Label>
+          <select className="border rounded-md px-2 py-2 text-sm block w-full" value={queue.settings.mode} onChange={e=>setSetting("mode", e.target.value as CutMode)}>
+            {CUT_MODES.map(m=>(<option key={m.key} value={m.key}>{m.label}</option>))}
+          </select>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="py-1 pr-2">Lot</th>
+            <th className="py-1 pr-2">Recipe</th>
+            <th className="py-1 pr-2">Material</th>
+            <th className="py-1 pr-2">Wafers</th>
+            <th className="py-1 pr-2">Yield (%)</th>
+            <th className="py-1 pr-2">Saw</th>
+            <th className="py-1 pr-2">Hours</th>
+            <th className="py-1 pr-2">Blades (new)</th>
+            <th className="py-1 pr-2">Good dies</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {queue.lots.map((l, i)=>{
+            const f = byId.get(l.id);
+            return (
+              <tr key={i} className="border-t">
+                <td className="py-1 pr-2"><Input value={l.id} onChange={e=>setLot(i, { id: e.target.value })}/></td>
+                <td className="py-1 pr-2">
+                  <select className="border rounded-md px-2 py-2 text-sm block w-full" value={l.recipe} onChange={e=>setLot(i, { recipe: e.target.value })}>
+                    <option value={CURRENT}>Current recipe</option>
+                    {library.recipes.map(r=>(<option key={r.name} value={r.name}>{r.name}</option>))}
+                    {l.recipe !== CURRENT && !recipes.has(l.recipe) && <option value={l.recipe}>{l.recipe} (missing)</option>}
+                  </select>
+                </td>
+                <td className="py-1 pr-2">
+                  <select className="border rounded-md px-2 py-2 text-sm block w-full" value={l.material} onChange={e=>setLot(i, { material: e.target.value })}>
+                    <option value="">From recipe ({resolve(l.recipe)?.material ?? "-"})</option>
+                    {db.materials.map(m=>(<option key={m.id} value={m.id}>{m.name}</option>))}
+                  </select>
+                </td>
+                <td className="py-1 pr-2"><Input type="number" value={l.wafers} onChange={e=>setLot(i, { wafers: Number(e.target.value) })}/></td>
+                <td className="py-1 pr-2"><Input type="number" value={l.yieldPct} onChange={e=>setLot(i, { yieldPct: Number(e.target.value) })}/></td>
+                <td className="py-1 pr-2">{f?.saw ?? "-"}</td>
+                <td className="py-1 pr-2">{f ? fmt(f.run_h) : "-"}</td>
+                <td className="py-1 pr-2">{f ? `${f.bladeChanges} (${f.newBlades})` : "-"}</td>
+                <td className="py-1 pr-2">{f ? int(f.goodDies) : "-"}</td>
+                <td className="py-1"><Button variant="ghost" size="sm" onClick={()=>onChange({ ...queue, lots: queue.lots.filter((_, j)=>j!==i) })}><Trash2 className="h-4 w-4"/></Button></td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={addLot}><Plus className="mr-2 h-4 w-4"/>Add Lot</Button>
+        <Button variant="outline" onClick={()=>setLibrary(loadLibrary())}><RefreshCw className="mr-2 h-4 w-4"/>Reload Recipes</Button>
+        <Button variant="outline" onClick={exportCSV} disabled={!plan.lots.length}><Download className="mr-2 h-4 w-4"/>Export CSV</Button>
+      </div>
+      {issues.length > 0 && <div className="text-sm text-red-600">{issues.map((m, i)=>(<div key={i}>• {m}</div>))}</div>}
+
+      {plan.lots.length > 0 && <>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+          <Stat label="Saw hours" value={`${fmt(plan.totals.run_h)} h`}/>
+          <Stat label="Finish (wall clock)" value={`${fmt(plan.totals.makespan_h)} h (${fmt(plan.totals.makespan_h / 24)} d)`}/>
+          <Stat label="Blade changes / new" value={`${plan.totals.bladeChanges} / ${plan.totals.newBlades}`}/>
+          <Stat label="Blade cost" value={fmt(plan.totals.bladeCost, 2)}/>
+          <Stat label="Coolant / DI water" value={`${int(plan.totals.coolant_L)} L`}/>
+          <Stat label="Wafers" value={int(plan.totals.wafers)}/>
+          <Stat label="Good dies" value={int(plan.totals.goodDies)}/>
+          <Stat label="Saw utilization" value={plan.saws.map(s=>`${fmt(s.utilization * 100, 0)}%`).join(" / ")}/>
+        </div>
+        <Gantt plan={plan} saws={saws}/>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="py-1 pr-3">Week</th>
+              <th className="py-1 pr-3">Wafers</th>
+              <th className="py-1 pr-3">Saw hours</th>
+              <th className="py-1 pr-3">New blades</th>
+              <th className="py-1 pr-3">Blade cost</th>
+              <th className="py-1 pr-3">Coolant (L)</th>
+              <th className="py-1 pr-3">Good dies</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.weeks.map(w=>(
+              <tr key={w.week} className="border-t">
+                <td className="py-1 pr-3">W{w.week}</td>
+                <td className="py-1 pr-3">{fmt(w.wafers)}</td>
+                <td className="py-1 pr-3">{fmt(w.run_h)}</td>
+                <td className="py-1 pr-3">{fmt(w.newBlades)}</td>
+                <td className="py-1 pr-3">{fmt(w.bladeCost, 2)}</td>
+                <td className="py-1 pr-3">{int(w.coolant_L)}</td>
+                <td className="py-1 pr-3">{int(w.goodDies)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-muted-foreground">
+          Hours are saw run time (set-up, wafers, blade changes); bars are wall-clock at {fmt(queue.settings.availability * 100, 0)} % availability.
+          Blade life comes from the wear forecast with dressing as scheduled; saws start without blades. Weekly figures spread each lot evenly over its bar.
+          {plan.lots.some(l=>l.notes.length) && ` ${Array.from(new Set(plan.lots.flatMap(l=>l.notes))).join("; ")}.`}
+        </p>
+      </>}
+    </div>
+  );
+}
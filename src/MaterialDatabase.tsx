@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Download, Upload } from "lucide-react";
+import { downloadText } from "./download";
+import {
+  DEFAULT_MATERIAL_DB, exportMaterialDB, importMaterialDB, validateMaterialDB,
+  type BondSpec, type MaterialDB, type MaterialSpec,
+} from "./model";
+
+// ------------------------
+// Material and blade database editor
+// ------------------------
+
+export const MATERIAL_DB_STORAGE_KEY = "dicing-toolkit.materials";
+
+export function loadMaterialDB(storage:Pick<Storage,"getItem"> = localStorage):MaterialDB {
+  try {
+    const raw = storage.getItem(MATERIAL_DB_STORAGE_KEY);
+    return raw ? importMaterialDB(raw) : DEFAULT_MATERIAL_DB;
+  } catch {
+    return DEFAULT_MATERIAL_DB;
+  }
+}
+
+export function saveMaterialDB(db:MaterialDB, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(MATERIAL_DB_STORAGE_KEY, JSON.stringify(db));
+}
+
+type NumKey = "feedBase"|"rpmFactor"|"powerCoeff"|"riskBase"|"bladeWear_um_per_m"|"hardness_GPa"|"toughness_MPam";
+const OPTIONAL:NumKey[] = ["bladeWear_um_per_m", "hardness_GPa", "toughness_MPam"];
+const MATERIAL_COLUMNS:{ key:NumKey, label:string }[] = [
+  { key: "feedBase", label: "Feed base (mm/s)" },
+  { key: "rpmFactor", label: "RPM factor" },
+  { key: "powerCoeff", label: "Power coeff" },
+  { key: "riskBase", label: "Risk base" },
+  { key: "bladeWear_um_per_m", label: "Blade wear (µm/m)" },
+  { key: "hardness_GPa", label: "Hardness (GPa)" },
+  { key: "toughness_MPam", label: "K_IC (MPa√m)" },
+];
+
+const NEW_MATERIAL:MaterialSpec = { id: "", name: "", feedBase: 1.0, rpmFactor: 1.0, powerCoeff: 0.02, riskBase: 40, tipSpeed: { lo: 30, hi: 45 } };
+
+// Blank inputs stay NaN so validation flags them instead of silently reading 0.
+const numOrNaN = (s:string) => s.trim() === "" ? NaN : Number(s);
+const show = (v:number|undefined) => v === undefined || !isFinite(v) ? "" : String(v);
+
+// Edits a draft; the toolkit only switches to it on Apply, after validation passes.
+export function MaterialDatabase({db, onChange, inUse}:{db:MaterialDB, onChange:(db:MaterialDB)=>void, inUse:{ material:string, bonds:string[] }}){
+  const [draft, setDraft] = useState<MaterialDB>(db);
+  // Calibration and rollback replace the active database from outside.
+  useEffect(()=>{ setDraft(db); }, [db]);
+  const issues = useMemo(()=>validateMaterialDB(draft), [draft]);
+  const missing = [
+    !draft.materials.some(m=>m.id===inUse.material) && `material "${inUse.material}"`,
+    ...inUse.bonds.filter(id=>!draft.bonds.some(b=>b.id===id)).map(id=>`bond "${id}"`),
+  ].filter(Boolean);
+  const dirty = draft !== db;
+
+  const setMaterial = (i:number, patch:Partial<MaterialSpec>) => setDraft(d=>({ ...d, materials: d.materials.map((m, j)=>j===i ? { ...m, ...patch } : m) }));
+  const setBond = (i:number, patch:Partial<BondSpec>) => setDraft(d=>({ ...d, bonds: d.bonds.map((b, j)=>j===i ? { ...b, ...patch } : b) }));
+
+  const apply = () => {
+    const next = { ...draft, materials: draft.materials.map(m=>({ ...m, id: m.id.trim() })), bonds: draft.bonds.map(b=>({ ...b, id: b.id.trim() })) };
+    setDraft(next);
+    onChange(next);
+  };
+
+  const handleImport = (e:React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if(!f) return;
+    const reader = new FileReader();
+    reader.onload = ()=>{
+      try { setDraft(importMaterialDB(String(reader.result||""))); }
+      catch(err) { alert("Material import failed: "+(err as Error).message); }
+    };
+    reader.readAsText(f);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card><CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-medium">Materials</h2>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={()=>setDraft(d=>({ ...d, materials: [...d.materials, { ...NEW_MATERIAL }] }))}>Add Material</Button>
+            <Button variant="outline" onClick={()=>downloadText("material_db.json", exportMaterialDB(draft), "application/json;charset=utf-8;")}><Download className="mr-2 h-4 w-4"/>Export</Button>
+            <label className="inline-flex items-center gap-2 text-sm border rounded-md px-3 py-2 cursor-pointer">
+              <Upload className="h-4 w-4"/>Import JSON
+              <input type="file" accept=".json" className="hidden" onChange={handleImport}/>
+            </label>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="py-2 pr-2">Id</th>
+                <th className="py-2 pr-2">Name</th>
+                {MATERIAL_COLUMNS.map(c=>(<th key={c.key} className="py-2 pr-2">{c.label}</th>))}
+                <th className="py-2 pr-2">Tip lo (m/s)</th>
+                <th className="py-2 pr-2">Tip hi (m/s)</th>
+                <th className="py-2 pr-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.materials.map((m, i)=>(
+                <tr key={i} className="border-t">
+                  <td className="py-1 pr-2"><Input value={m.id} onChange={e=>setMaterial(i, { id: e.target.value })} placeholder="e.g. InP"/></td>
+                  <td className="py-1 pr-2"><Input value={m.name} onChange={e=>setMaterial(i, { name: e.target.value })}/></td>
+                  {MATERIAL_COLUMNS.map(c=>(
+                    <td key={c.key} className="py-1 pr-2">
+                      <Input type="number" value={show(m[c.key])} onChange={e=>setMaterial(i, { [c.key]: OPTIONAL.includes(c.key) ? (e.target.value.trim() ? Number(e.target.value) : undefined) : numOrNaN(e.target.value) })}/>
+                    </td>
+                  ))}
+                  <td className="py-1 pr-2"><Input type="number" value={show(m.tipSpeed.lo)} onChange={e=>setMaterial(i, { tipSpeed: { ...m.tipSpeed, lo: numOrNaN(e.target.value) } })}/></td>
+                  <td className="py-1 pr-2"><Input type="number" value={show(m.tipSpeed.hi)} onChange={e=>setMaterial(i, { tipSpeed: { ...m.tipSpeed, hi: numOrNaN(e.target.value) } })}/></td>
+                  <td className="py-1 pr-2"><Button variant="outline" size="sm" onClick={()=>setDraft(d=>({ ...d, materials: d.materials.filter((_, j)=>j!==i) }))}>Remove</Button></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent></Card>
+
+      <Card><CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium">Blade Bonds</h2>
+          <Button variant="outline" onClick={()=>setDraft(d=>({ ...d, bonds: [...d.bonds, { id: "", name: "", rpmFactor: 1.0 }] }))}>Add Bond</Button>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="py-2 pr-2">Id</th>
+              <th className="py-2 pr-2">Name</th>
+              <th className="py-2 pr-2">RPM factor</th>
+              <th className="py-2 pr-2">Wear factor (vs resin)</th>
+              <th className="py-2 pr-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.bonds.map((b, i)=>(
+              <tr key={i} className="border-t">
+                <td className="py-1 pr-2"><Input value={b.id} onChange={e=>setBond(i, { id: e.target.value })}/></td>
+                <td className="py-1 pr-2"><Input value={b.name} onChange={e=>setBond(i, { name: e.target.value })}/></td>
+                <td className="py-1 pr-2"><Input type="number" value={show(b.rpmFactor)} onChange={e=>setBond(i, { rpmFactor: numOrNaN(e.target.value) })}/></td>
+                <td className="py-1 pr-2"><Input type="number" value={show(b.wearFactor)} onChange={e=>setBond(i, { wearFactor: e.target.value.trim() ? Number(e.target.value) : undefined })} placeholder="1"/></td>
+                <td className="py-1 pr-2"><Button variant="outline" size="sm" onClick={()=>setDraft(d=>({ ...d, bonds: d.bonds.filter((_, j)=>j!==i) }))}>Remove</Button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent></Card>
+
+      <Card><CardContent className="p-4 space-y-2">
+        {issues.map((it, i)=>(<div key={i} className="text-sm text-red-700">• {it.path} {it.message}</div>))}
+        {missing.length > 0 && <div className="text-sm text-red-700">• The current recipe uses {missing.join(" and ")}; keep it or change the recipe first.</div>}
+        {!issues.length && !missing.length && <div className="text-sm text-green-700">Database is valid.</div>}
+        <div className="flex flex-wrap gap-2">
+          <Button disabled={!dirty || issues.length > 0 || missing.length > 0} onClick={apply}>Apply</Button>
+          <Button variant="outline" disabled={!dirty} onClick={()=>setDraft(db)}>Discard Changes</Button>
+          <Button variant="outline" onClick={()=>setDraft(DEFAULT_MATERIAL_DB)}>Reset to Built-in</Button>
+        </div>
+      </CardContent></Card>
+    </div>
+  );
+}
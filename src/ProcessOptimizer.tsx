@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DEFAULT_MACHINE_LIMITS, optimizeProcessWindow,
+  type DieLayout, type MachineLimits, type MaterialDB, type OptimizeResult, type ProcessCandidate, type Range, type Recipe,
+} from "./model";
+
+// ------------------------
+// Process window optimizer panel
+// ------------------------
+
+const fmt = (v:number, d=2) => isFinite(v) ? v.toFixed(d) : "-";
+
+const RANGES:{ key:"rpm"|"feed"|"coolant"|"bladeThk", label:string }[] = [
+  { key: "rpm", label: "RPM" },
+  { key: "feed", label: "Feed (mm/s)" },
+  { key: "coolant", label: "Coolant (L/min)" },
+  { key: "bladeThk", label: "Blade thickness (µm)" },
+];
+
+export function ProcessOptimizer({recipe, layout, db, onApply}:{recipe:Recipe, layout:DieLayout, db:MaterialDB, onApply:(c:ProcessCandidate)=>void}){
+  const [limits, setLimits] = useState<MachineLimits>(DEFAULT_MACHINE_LIMITS);
+  const [result, setResult] = useState<OptimizeResult>();
+
+  const setRange = (key:typeof RANGES[number]["key"], patch:Partial<Range>) => setLimits(l=>({ ...l, [key]: { ...l[key], ...patch } }));
+
+  const run = () => {
+    try { setResult(optimizeProcessWindow(recipe, layout, limits, { db })); }
+    catch(err) { alert("Optimization failed: "+(err as Error).message); }
+  };
+
+  return (
+    <Card className="rounded-xl border"><CardContent className="p-4 space-y-3">
+      <h3 className="font-medium">Process Window Optimizer</h3>
+      <p className="text-xs text-muted-foreground">
+        Searches the ranges below for setpoints that keep tip speed in the material window, spindle power under the cap
+        and kerf below the {recipe.street} µm street, then lists the trade-off between chipping risk and cycle time.
+      </p>
+      <div className="grid md:grid-cols-2 gap-x-6 gap-y-2">
+        {RANGES.map(r=>(
+          <div key={r.key} className="grid grid-cols-3 gap-2 items-center">
+            <Label className="text-sm">{r.label}</Label>
+            <Input type="number" value={limits[r.key].min} onChange={e=>setRange(r.key, { min: Number(e.target.value) })}/>
+            <Input type="number" value={limits[r.key].max} onChange={e=>setRange(r.key, { max: Number(e.target.value) })}/>
+          </div>
+        ))}
+        <div className="grid grid-cols-3 gap-2 items-center">
+          <Label className="text-sm">Power cap (kW)</Label>
+          <Input type="number" value={limits.powerMax_kW} onChange={e=>setLimits(l=>({ ...l, powerMax_kW: Number(e.target.value) }))}/>
+        </div>
+      </div>
+      <Button onClick={run}>Find Pareto Set</Button>
+      {result && (
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">
+            {result.evaluated} combinations, {result.feasible} feasible (rejected: tip {result.rejected.tip}, kerf {result.rejected.kerf}, power {result.rejected.power}).
+          </div>
+          {result.note && <div className="text-sm text-red-700">{result.note}</div>}
+          {!result.note && !result.pareto.length && <div className="text-sm text-red-700">No feasible setpoints; widen the ranges or raise the power cap.</div>}
+          {result.pareto.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="py-2 pr-3">Risk</th>
+                    <th className="py-2 pr-3">Cycle (s)</th>
+                    <th className="py-2 pr-3">RPM</th>
+                    <th className="py-2 pr-3">Tip (m/s)</th>
+                    <th className="py-2 pr-3">Feed (mm/s)</th>
+                    <th className="py-2 pr-3">Coolant (L/min)</th>
+                    <th className="py-2 pr-3">Blade (µm)</th>
+                    <th className="py-2 pr-3">Kerf (µm)</th>
+                    <th className="py-2 pr-3">Power (kW)</th>
+                    <th className="py-2 pr-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.pareto.map((c, i)=>(
+                    <tr key={i} className="border-t">
+                      <td className="py-1 pr-3">{c.risk}</td>
+                      <td className="py-1 pr-3">{fmt(c.cycle_s, 1)}</td>
+                      <td className="py-1 pr-3">{Math.round(c.rpm)}</td>
+                      <td className="py-1 pr-3">{fmt(c.tip, 1)}</td>
+                      <td className="py-1 pr-3">{fmt(c.feed)}</td>
+                      <td className="py-1 pr-3">{fmt(c.coolant, 1)}</td>
+                      <td className="py-1 pr-3">{fmt(c.bladeThk, 1)}</td>
+                      <td className="py-1 pr-3">{fmt(c.kerf, 1)}</td>
+                      <td className="py-1 pr-3">{fmt(c.powerKW, 4)}</td>
+                      <td className="py-1 pr-3"><Button variant="outline" size="sm" onClick={()=>onApply(c)}>Apply</Button></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </CardContent></Card>
+  );
+}
@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download } from "lucide-react";
+import { downloadText } from "./download";
+import {
+  QUALIFICATION_SCHEMA, applyCorrections, canRelease, emptyQualificationLog, exportQualification, lastRun, recipeChanges, recordRun, releaseQualification, startQualification, writeQualificationCSV,
+  type Correction, type Qualification as Qual, type QualificationLog, type Recipe, type RunResult, type VerificationSpec,
+} from "./model";
+
+// ------------------------
+// Dummy-run qualification panel
+// ------------------------
+// Records dummy runs against the Verify tab's specs and measurements. Corrections are applied
+// to the editor's recipe; the next recorded run links back to the one it repeats.
+
+export const QUALIFICATION_STORAGE_KEY = "dicing-toolkit.qualification";
+const AUTHOR_KEY = "dicing-toolkit.author";
+
+export function loadQualifications(storage:Pick<Storage,"getItem"> = localStorage):QualificationLog {
+  try {
+    const doc = JSON.parse(storage.getItem(QUALIFICATION_STORAGE_KEY) ?? "null");
+    return Array.isArray(doc?.items) ? { schema: QUALIFICATION_SCHEMA, items: doc.items } : emptyQualificationLog();
+  } catch {
+    return emptyQualificationLog();
+  }
+}
+
+export function saveQualifications(log:QualificationLog, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(QUALIFICATION_STORAGE_KEY, JSON.stringify(log));
+}
+
+const RESULT_CLASS:Record<RunResult,string> = { PASS: "text-green-600", FAIL: "text-red-600", INCOMPLETE: "text-amber-700" };
+
+const corrKey = (c:Correction) => `${c.pass ?? ""}.${c.field ?? c.action}`;
+
+export function Qualification({recipe, specs, meas, name, onApply}:{recipe:Recipe, specs:VerificationSpec[], meas:Record<string,string>, name:string, onApply:(r:Recipe)=>void}){
+  const [log, setLog] = useState<QualificationLog>(()=>loadQualifications());
+  const [selected, setSelected] = useState<string|undefined>(()=>log.items[log.items.length - 1]?.id);
+  const [newName, setNewName] = useState("");
+  const [note, setNote] = useState("");
+  const [by, setBy] = useState(()=>localStorage.getItem(AUTHOR_KEY) ?? "");
+  const [releaseNote, setReleaseNote] = useState("");
+  const [skip, setSkip] = useState<Set<string>>(new Set());
+
+  useEffect(()=>{ saveQualifications(log); }, [log]);
+
+  const q = log.items.find(x=>x.id===selected);
+  const last = q && lastRun(q);
+  const drift = useMemo(()=>last ? recipeChanges(last.recipe, recipe) : [], [last, recipe]);
+  useEffect(()=>{ setSkip(new Set()); }, [last]);
+
+  const update = (next:Qual) => setLog(l=>({ ...l, items: l.items.map(x=>x.id===next.id ? next : x) }));
+
+  const start = () => {
+    const nq = startQualification(newName.trim() || name);
+    setLog(l=>({ ...l, items: [...l.items, nq] }));
+    setSelected(nq.id);
+    setNewName("");
+  };
+
+  const record = () => {
+    if(!q) return;
+    if(!specs.some(s=>meas[s.key] !== undefined && meas[s.key] !== "")){ alert("Enter measured values in the table above first"); return; }
+    try { update(recordRun(q, recipe, specs, meas, note.trim())); setNote(""); }
+    catch(err) { alert("Run not recorded: "+(err as Error).message); }
+  };
+
+  const release = () => {
+    if(!q) return;
+    if(drift.length && !confirm(`The editor recipe differs from run ${last!.n} (${drift.map(c=>c.field).join(", ")}). Release the recipe as it was run?`)) return;
+    try {
+      update(releaseQualification(q, by, releaseNote.trim()));
+      localStorage.setItem(AUTHOR_KEY, by.trim());
+      setReleaseNote("");
+    } catch(err) { alert("Release failed: "+(err as Error).message); }
+  };
+
+  const chosen = last?.corrections.filter(c=>c.field && !skip.has(corrKey(c))) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <Label className="text-xs">Qualification</Label>
+          <select className="border rounded-md px-2 py-2 text-sm block" value={selected ?? ""} onChange={e=>setSelected(e.target.value || undefined)}>
+            {!log.items.length && <option value="">(none)</option>}
+            {log.items.map(x=>(<option key={x.id} value={x.id}>{x.name} · {x.id} · {x.status === "released" ? "released" : `${x.runs.length} runs`}</option>))}
+          </select>
+        </div>
+        <div><Label className="text-xs">New qualification</Label><Input value={newName} placeholder={name} onChange={e=>setNewName(e.target.value)}/></div>
+        <Button variant="outline" onClick={start}>Start</Button>
+        {q && (
+          <>
+            <Button variant="outline" onClick={()=>downloadText(`${q.id}.json`, exportQualification(q), "application/json;charset=utf-8;")}><Download className="mr-2 h-4 w-4"/>Trail JSON</Button>
+            <Button variant="outline" onClick={()=>downloadText(`${q.id}.csv`, writeQualificationCSV(q), "text/csv;charset=utf-8;")}><Download className="mr-2 h-4 w-4"/>Trail CSV</Button>
+          </>
+        )}
+      </div>
+
+      {q && q.status === "open" && (
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[12rem]"><Label className="text-xs">Run note</Label><Input value={note} placeholder="e.g. new blade, lot 1234 slot 1" onChange={e=>setNote(e.target.value)}/></div>
+          <Button onClick={record}>Record Dummy Run{last ? ` (repeat of run ${last.n})` : ""}</Button>
+        </div>
+      )}
+
+      {q && q.runs.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="py-1 pr-3">Run</th>
+              <th className="py-1 pr-3">Repeats</th>
+              <th className="py-1 pr-3">Recorded</th>
+              <th className="py-1 pr-3">Result</th>
+              <th className="py-1 pr-3">Failed / missing</th>
+              <th className="py-1 pr-3">Changes since previous</th>
+              <th className="py-1 pr-3">Note</th>
+            </tr>
+          </thead>
+          <tbody>
+            {q.runs.map(r=>(
+              <tr key={r.n} className="border-t align-top">
+                <td className="py-1 pr-3">{r.n}</td>
+                <td className="py-1 pr-3">{r.prev ?? "-"}</td>
+                <td className="py-1 pr-3">{new Date(r.at).toLocaleString()}</td>
+                <td className={`py-1 pr-3 font-medium ${RESULT_CLASS[r.result]}`}>{r.result}</td>
+                <td className="py-1 pr-3">{[...r.failed, ...r.missing.map(k=>`${k} (missing)`)].join(", ") || "-"}</td>
+                <td className="py-1 pr-3">{r.changes.map(c=>`${c.field} ${c.from} → ${c.to}`).join(", ") || "-"}</td>
+                <td className="py-1 pr-3">{r.note ?? ""}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {q && q.status === "open" && last?.result === "FAIL" && (
+        <div className="rounded-md border p-3 space-y-2">
+          <div className="font-medium text-sm">Corrections for run {last.n + 1}</div>
+          {last.corrections.map(c=>(
+            <label key={corrKey(c)} className="flex items-start gap-2 text-sm">
+              <input type="checkbox" className="mt-1" disabled={!c.field} checked={!!c.field && !skip.has(corrKey(c))}
+                onChange={e=>setSkip(s=>{ const n = new Set(s); if(e.target.checked) n.delete(corrKey(c)); else n.add(corrKey(c)); return n; })}/>
+              <span>
+                {c.field && <b>{c.pass ? `${c.pass} ` : ""}{c.field}: {c.from} → {c.to}. </b>}
+                {c.action}
+              </span>
+            </label>
+          ))}
+          <Button variant="outline" disabled={!chosen.length} onClick={()=>onApply(applyCorrections(recipe, chosen))}>Apply Selected Corrections</Button>
+          <p className="text-xs text-muted-foreground">Applies to the recipe in the editor. Cut the next dummy wafer, enter its measurements and record the repeat run.</p>
+        </div>
+      )}
+      {q && q.status === "open" && last?.result === "INCOMPLETE" && (
+        <div className="text-sm text-amber-700">Run {last.n} is missing {last.missing.join(", ")}; every spec must be measured before release.</div>
+      )}
+
+      {q && q.status === "open" && (
+        <div className="flex flex-wrap items-end gap-2">
+          <div><Label className="text-xs">Released by</Label><Input value={by} onChange={e=>setBy(e.target.value)}/></div>
+          <div className="flex-1 min-w-[12rem]"><Label className="text-xs">Release note</Label><Input value={releaseNote} onChange={e=>setReleaseNote(e.target.value)}/></div>
+          <Button disabled={!canRelease(q) || !by.trim()} onClick={release}>Release to Production</Button>
+        </div>
+      )}
+      {q && q.status === "open" && last?.result === "PASS" && drift.length > 0 && (
+        <div className="text-sm text-amber-700">The editor recipe changed since run {last.n} ({drift.map(c=>c.field).join(", ")}); release uses the recipe as run.</div>
+      )}
+      {q?.released && (
+        <div className="text-sm text-green-700">Released by {q.released.by} on {new Date(q.released.at).toLocaleString()} from run {q.released.run}{q.released.note ? `: ${q.released.note}` : ""}.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Upload } from "lucide-react";
+import { downloadText } from "./download";
+import {
+  diffRecipes, exportLibraryJSON, exportRecipeJSON, importLibraryJSON, latestVersion, loadLibrary, mergeLibraries, saveLibrary, saveVersion,
+  type RecipeLibrary as Library,
+} from "./recipes";
+import type { Recipe } from "./model";
+
+// ------------------------
+// Recipe library panel
+// ------------------------
+
+type Derived = { key:string, label:string, unit:string, value:number }[];
+const AUTHOR_KEY = "dicing-toolkit.author";
+const CURRENT = "current";
+
+const fmt = (v:string|number, d=3) => typeof v === "number" ? (isFinite(v) ? String(Number(v.toFixed(d))) : "-") : v;
+
+const download = (name:string, text:string) => downloadText(name, text, "application/json;charset=utf-8;");
+
+function VersionSelect({value, onChange, options}:{value:string, onChange:(v:string)=>void, options:{id:string, label:string}[]}){
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger><SelectValue/></SelectTrigger>
+      <SelectContent>
+        {options.map(o=>(<SelectItem key={o.id} value={o.id}>{o.label}</SelectItem>))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function RecipeLibrary({current, derive, onLoad}:{current:Recipe, derive:(v:Recipe)=>Derived, onLoad:(v:Recipe)=>void}){
+  const [lib, setLib] = useState<Library>(()=>loadLibrary());
+  const [name, setName] = useState("");
+  const [author, setAuthor] = useState(()=>localStorage.getItem(AUTHOR_KEY) ?? "");
+  const [note, setNote] = useState("");
+  const [diffA, setDiffA] = useState(CURRENT);
+  const [diffB, setDiffB] = useState(CURRENT);
+
+  useEffect(()=>{ saveLibrary(lib); }, [lib]);
+  useEffect(()=>{ localStorage.setItem(AUTHOR_KEY, author); }, [author]);
+
+  // "<recipe>@<version>" or CURRENT for the unsaved editor state.
+  const options = useMemo(()=>[
+    { id: CURRENT, label: "Current (unsaved)" },
+    ...lib.recipes.flatMap(r=>r.versions.map(v=>({ id: `${r.name}@${v.version}`, label: `${r.name} v${v.version}` }))),
+  ], [lib]);
+  const valuesOf = (id:string) => {
+    if(id === CURRENT) return current;
+    const at = id.lastIndexOf("@");
+    const r = lib.recipes.find(x=>x.name===id.slice(0, at));
+    return r?.versions.find(v=>v.version===Number(id.slice(at + 1)))?.values ?? current;
+  };
+  const diff = useMemo(()=>diffRecipes(valuesOf(diffA), valuesOf(diffB), derive), [diffA, diffB, lib, current, derive]);
+
+  const save = () => {
+    const n = name.trim();
+    if(!n){ alert("Enter a recipe name."); return; }
+    if(!author.trim()){ alert("Enter an author."); return; }
+    setLib(l=>saveVersion(l, n, current, author.trim(), note.trim()));
+    setNote("");
+  };
+
+  const handleImport = (e:React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if(!f) return;
+    const reader = new FileReader();
+    reader.onload = ()=>{
+      try {
+        const incoming = importLibraryJSON(String(reader.result||""));
+        setLib(l=>mergeLibraries(l, incoming));
+      } catch(err) { alert("Recipe import failed: "+(err as Error).message); }
+    };
+    reader.readAsText(f);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <Card><CardContent className="p-4 space-y-3">
+        <h2 className="text-lg font-medium">Recipe Library</h2>
+        <div className="grid grid-cols-3 gap-2 items-center">
+          <Label>Name</Label><Input className="col-span-2" value={name} onChange={e=>setName(e.target.value)} placeholder="e.g. SI-725-5x5"/>
+          <Label>Author</Label><Input className="col-span-2" value={author} onChange={e=>setAuthor(e.target.value)}/>
+          <Label>Change note</Label><Input className="col-span-2" value={note} onChange={e=>setNote(e.target.value)} placeholder="What changed and why"/>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={save}>Save Version</Button>
+          <Button variant="outline" onClick={()=>download("recipe_library.json", exportLibraryJSON(lib))}><Download className="mr-2 h-4 w-4"/>Export Library</Button>
+          <label className="inline-flex items-center gap-2 text-sm border rounded-md px-3 py-2 cursor-pointer">
+            <Upload className="h-4 w-4"/>Import JSON
+            <input type="file" accept=".json" className="hidden" onChange={handleImport}/>
+          </label>
+        </div>
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {!lib.recipes.length && <p className="text-sm text-muted-foreground">No saved recipes yet.</p>}
+          {lib.recipes.map(r=>(
+            <div key={r.name} className="p-3 rounded-xl border space-y-1">
+              <div className="flex items-center justify-between">
+                <div className="font-medium">{r.name} <span className="text-xs text-muted-foreground">latest v{latestVersion(r).version}</span></div>
+                <Button variant="outline" size="sm" onClick={()=>download(`${r.name}.recipe.json`, exportRecipeJSON(r))}>Export</Button>
+              </div>
+              {[...r.versions].reverse().map(v=>(
+                <div key={v.version} className="flex items-center justify-between text-xs gap-2">
+                  <span>v{v.version} · {v.author || "-"} · {v.savedAt ? new Date(v.savedAt).toLocaleString() : "-"}{v.note ? ` · ${v.note}` : ""}</span>
+                  <Button variant="outline" size="sm" onClick={()=>{ onLoad(v.values); setName(r.name); }}>Load</Button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </CardContent></Card>
+
+      <Card><CardContent className="p-4 space-y-3">
+        <h2 className="text-lg font-medium">Compare Versions</h2>
+        <div className="grid grid-cols-2 gap-2">
+          <VersionSelect value={diffA} onChange={setDiffA} options={options}/>
+          <VersionSelect value={diffB} onChange={setDiffB} options={options}/>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="py-2 pr-3">Field</th>
+                <th className="py-2 pr-3">A</th>
+                <th className="py-2 pr-3">B</th>
+                <th className="py-2 pr-3">Units</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.map(r=>(
+                <tr key={r.key} className={`border-t ${r.changed ? 'bg-amber-50 font-medium' : ''} ${r.derived ? 'italic' : ''}`}>
+                  <td className="py-1 pr-3">{r.label}</td>
+                  <td className="py-1 pr-3">{fmt(r.a)}</td>
+                  <td className="py-1 pr-3">{fmt(r.b)}</td>
+                  <td className="py-1 pr-3">{r.unit}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">{diff.filter(r=>r.changed).length} field(s) differ. Derived values (italic) are recomputed from each version.</p>
+      </CardContent></Card>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download } from "lucide-react";
+import { downloadBlob, downloadText } from "./download";
+import {
+  DEFAULT_SOP_TEMPLATE, RECIPE_FIELDS, SOP_DERIVED, SOP_TABLES, renderSOP, sopToHTML, sopToMarkdown, sopToPDF,
+  type SOPApprover, type SOPContext, type SOPControl, type SOPDocument, type SOPRevision, type SOPTemplate,
+} from "./model";
+
+// ------------------------
+// SOP editor and export
+// ------------------------
+// Document control, revision history and templates are app state (the sign-off panel snapshots
+// the rendered document); the document itself is rendered from the current recipe on every change.
+
+export const SOP_STORAGE_KEY = "dicing-toolkit.sop";
+export const SOP_SCHEMA = 1;
+export type SOPSettings = { schema:number, templates:SOPTemplate[], template:string, control:SOPControl, revisions:SOPRevision[] };
+
+export const DEFAULT_SOP_SETTINGS:SOPSettings = {
+  schema: SOP_SCHEMA, templates: [], template: DEFAULT_SOP_TEMPLATE.id,
+  control: { docNumber: "SOP-DICE-001", revision: "A", title: "Wafer Dicing", approvers: [{ role: "Process Engineering", name: "" }, { role: "Quality", name: "" }] },
+  revisions: [],
+};
+
+export function loadSOPSettings(storage:Pick<Storage,"getItem"> = localStorage):SOPSettings {
+  try {
+    const doc = JSON.parse(storage.getItem(SOP_STORAGE_KEY) ?? "null");
+    if(!doc?.control) return DEFAULT_SOP_SETTINGS;
+    return {
+      schema: SOP_SCHEMA,
+      templates: Array.isArray(doc.templates) ? doc.templates.filter((t:unknown)=>typeof (t as { source?:unknown } | null)?.source === "string") : [],
+      template: String(doc.template ?? DEFAULT_SOP_TEMPLATE.id),
+      control: { ...DEFAULT_SOP_SETTINGS.control, ...doc.control, approvers: Array.isArray(doc.control.approvers) ? doc.control.approvers : [] },
+      revisions: Array.isArray(doc.revisions) ? doc.revisions : [],
+    };
+  } catch {
+    return DEFAULT_SOP_SETTINGS;
+  }
+}
+
+export function saveSOPSettings(s:SOPSettings, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(SOP_STORAGE_KEY, JSON.stringify(s));
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function DocPreview({doc}:{doc:SOPDocument}){
+  const table = (columns:string[], rows:string[][]) => (
+    <table className="w-full text-sm my-2">
+      <thead><tr className="text-left">{columns.map((c, i)=>(<th key={i} className="py-1 pr-3 border-b">{c}</th>))}</tr></thead>
+      <tbody>{rows.map((r, i)=>(<tr key={i} className="border-t">{r.map((v, j)=>(<td key={j} className="py-1 pr-3">{v}</td>))}</tr>))}</tbody>
+    </table>
+  );
+  return (
+    <div className="p-4 rounded-xl border bg-muted/30 space-y-3">
+      <div>
+        <div className="text-lg font-semibold">{doc.control.title}</div>
+        <div className="text-xs text-muted-foreground">{doc.control.docNumber} · Rev {doc.control.revision}{doc.control.effective ? ` · effective ${doc.control.effective}` : ""}</div>
+      </div>
+      {doc.sections.map((s, i)=>(
+        <div key={i}>
+          {s.title && <div className="font-medium">{i + 1}) {s.title}</div>}
+          {s.items.map((it, j)=>
+            it.kind === "step" ? <div key={j} className="text-sm pl-3">• {it.text}</div>
+            : it.kind === "caution" ? <div key={j} className="text-sm my-1 border-l-4 border-amber-500 bg-amber-50 px-2 py-1"><b>CAUTION:</b> {it.text}</div>
+            : it.kind === "text" ? <p key={j} className="text-sm my-1">{it.text}</p>
+            : <div key={j}>{table(it.table.columns, it.table.rows)}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export const activeSOPTemplate = (s:SOPSettings) => s.templates.find(t=>t.id===s.template) ?? DEFAULT_SOP_TEMPLATE;
+
+// `blocked` (the recipe check's errors) replaces the document and its exports with the reason.
+export function SOPEditor({ctx, settings, onChange, blocked}:{ctx:SOPContext, settings:SOPSettings, onChange:(s:SOPSettings)=>void, blocked?:string}){
+  const [rev, setRev] = useState<SOPRevision>({ revision: "", date: today(), author: "", description: "" });
+
+  const templates = [DEFAULT_SOP_TEMPLATE, ...settings.templates];
+  const stored = activeSOPTemplate(settings);
+  const builtIn = stored === DEFAULT_SOP_TEMPLATE;
+  const [draft, setDraft] = useState(stored.source);
+  useEffect(()=>{ setDraft(stored.source); }, [stored.id, stored.source]);
+  const dirty = draft !== stored.source;
+
+  // The preview follows the draft, so template edits are visible before Apply.
+  const { doc, issues } = useMemo(()=>renderSOP({ ...stored, source: draft }, ctx, settings.control, settings.revisions), [stored, draft, ctx, settings.control, settings.revisions]);
+
+  const setControl = (patch:Partial<SOPControl>) => onChange({ ...settings, control: { ...settings.control, ...patch } });
+  const setApprover = (i:number, patch:Partial<SOPApprover>) => setControl({ approvers: settings.control.approvers.map((a, j)=>j===i ? { ...a, ...patch } : a) });
+
+  const duplicate = () => {
+    let n = settings.templates.length + 1;
+    while(templates.some(t=>t.id===`custom-${n}`)) n++;
+    const copy:SOPTemplate = { id: `custom-${n}`, name: `${stored.name} (copy)`, source: draft };
+    onChange({ ...settings, templates: [...settings.templates, copy], template: copy.id });
+  };
+
+  const addRevision = () => {
+    const r = { ...rev, revision: rev.revision.trim() || settings.control.revision };
+    if(!r.author.trim() || !r.description.trim()){ alert("Enter the author and a description of the change"); return; }
+    if(settings.revisions.some(x=>x.revision===r.revision)){ alert(`Revision ${r.revision} is already in the history`); return; }
+    onChange({ ...settings, revisions: [...settings.revisions, r], control: { ...settings.control, revision: r.revision } });
+    setRev({ revision: "", date: today(), author: r.author, description: "" });
+  };
+
+  const base = `${settings.control.docNumber || "SOP"}_rev${settings.control.revision || "-"}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-4 gap-3">
+        <div><Label className="text-xs">Document number</Label><Input value={settings.control.docNumber} onChange={e=>setControl({ docNumber: e.target.value })}/></div>
+        <div><Label className="text-xs">Revision</Label><Input value={settings.control.revision} onChange={e=>setControl({ revision: e.target.value })}/></div>
+        <div><Label className="text-xs">Title</Label><Input value={settings.control.title} onChange={e=>setControl({ title: e.target.value })}/></div>
+        <div><Label className="text-xs">Effective date</Label><Input type="date" value={settings.control.effective ?? ""} onChange={e=>setControl({ effective: e.target.value || undefined })}/></div>
+      </div>
+
+      <div>
+        <div className="font-medium text-sm mb-1">Approvers</div>
+        <table className="w-full text-sm">
+          <tbody>
+            {settings.control.approvers.map((a, i)=>(
+              <tr key={i}>
+                <td className="py-1 pr-2"><Input value={a.role} placeholder="Role" onChange={e=>setApprover(i, { role: e.target.value })}/></td>
+                <td className="py-1 pr-2"><Input value={a.name} placeholder="Name" onChange={e=>setApprover(i, { name: e.target.value })}/></td>
+                <td className="py-1 pr-2"><Input type="date" value={a.date ?? ""} onChange={e=>setApprover(i, { date: e.target.value || undefined })}/></td>
+                <td className="py-1 pr-2"><Button variant="outline" size="sm" onClick={()=>setControl({ approvers: settings.control.approvers.filter((_, j)=>j!==i) })}>Remove</Button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <Button variant="outline" size="sm" onClick={()=>setControl({ approvers: [...settings.control.approvers, { role: "", name: "" }] })}>Add Approver</Button>
+      </div>
+
+      <div>
+        <div className="font-medium text-sm mb-1">Revision history</div>
+        {settings.revisions.length > 0 && (
+          <table className="w-full text-sm mb-2">
+            <thead><tr className="text-left"><th className="py-1 pr-3">Rev</th><th className="py-1 pr-3">Date</th><th className="py-1 pr-3">Author</th><th className="py-1 pr-3">Description</th></tr></thead>
+            <tbody>
+              {settings.revisions.map((r, i)=>(
+                <tr key={i} className="border-t"><td className="py-1 pr-3">{r.revision}</td><td className="py-1 pr-3">{r.date}</td><td className="py-1 pr-3">{r.author}</td><td className="py-1 pr-3">{r.description}</td></tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="grid md:grid-cols-5 gap-2 items-end">
+          <div><Label className="text-xs">Rev</Label><Input value={rev.revision} placeholder={settings.control.revision} onChange={e=>setRev(r=>({ ...r, revision: e.target.value }))}/></div>
+          <div><Label className="text-xs">Date</Label><Input type="date" value={rev.date} onChange={e=>setRev(r=>({ ...r, date: e.target.value }))}/></div>
+          <div><Label className="text-xs">Author</Label><Input value={rev.author} onChange={e=>setRev(r=>({ ...r, author: e.target.value }))}/></div>
+          <div><Label className="text-xs">Description</Label><Input value={rev.description} onChange={e=>setRev(r=>({ ...r, description: e.target.value }))}/></div>
+          <Button variant="outline" onClick={addRevision}>Add Revision</Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-sm">Template</Label>
+          <select className="border rounded-md px-2 py-1 text-sm" value={stored.id} onChange={e=>onChange({ ...settings, template: e.target.value })}>
+            {templates.map(t=>(<option key={t.id} value={t.id}>{t.name}</option>))}
+          </select>
+          <Button variant="outline" size="sm" onClick={duplicate}>Duplicate</Button>
+          {!builtIn && (
+            <>
+              <Input className="w-56" value={stored.name} onChange={e=>onChange({ ...settings, templates: settings.templates.map(t=>t===stored ? { ...t, name: e.target.value } : t) })}/>
+              <Button variant="outline" size="sm" onClick={()=>{ if(confirm(`Delete template "${stored.name}"?`)) onChange({ ...settings, templates: settings.templates.filter(t=>t!==stored), template: DEFAULT_SOP_TEMPLATE.id }); }}>Delete</Button>
+            </>
+          )}
+        </div>
+        <textarea className="w-full border rounded-md p-2 font-mono text-xs" rows={16} value={draft} readOnly={builtIn} onChange={e=>setDraft(e.target.value)}/>
+        <p className="text-xs text-muted-foreground">
+          {builtIn ? "Built-in template; duplicate it to edit. " : ""}
+          Lines: <code># section</code>, <code>- step</code>, <code>! caution</code>, <code>| a | b |</code> table rows, {SOP_TABLES.map(t=>`[${t}]`).join(" ")}; <code>?key</code> / <code>?!key</code> line conditions.
+          Placeholders <code>{"{{key}}"}</code> or <code>{"{{key|decimals}}"}</code>: {[...RECIPE_FIELDS.map(f=>f.key as string), ...SOP_DERIVED.map(d=>d.key)].join(", ")}.
+        </p>
+        {!builtIn && (
+          <div className="flex gap-2">
+            <Button disabled={!dirty} onClick={()=>onChange({ ...settings, templates: settings.templates.map(t=>t===stored ? { ...t, source: draft } : t) })}>Apply</Button>
+            <Button variant="outline" disabled={!dirty} onClick={()=>setDraft(stored.source)}>Discard Changes</Button>
+          </div>
+        )}
+        {issues.map((m, i)=>(<div key={i} className="text-sm text-amber-700">• {m}</div>))}
+      </div>
+
+      {blocked ? <div className="rounded-md border border-red-300 p-3 text-sm text-red-600">SOP generation is blocked. {blocked}.</div> : <>
+        <DocPreview doc={doc}/>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={()=>downloadText(`${base}.md`, sopToMarkdown(doc), "text/markdown;charset=utf-8;")}><Download className="mr-2 h-4 w-4"/>Markdown</Button>
+          <Button variant="outline" onClick={()=>downloadText(`${base}.html`, sopToHTML(doc), "text/html;charset=utf-8;")}><Download className="mr-2 h-4 w-4"/>HTML</Button>
+          <Button variant="outline" onClick={()=>downloadBlob(`${base}.pdf`, new Blob([sopToPDF(doc).buffer as ArrayBuffer], { type: "application/pdf" }))}><Download className="mr-2 h-4 w-4"/>PDF</Button>
+        </div>
+      </>}
+    </div>
+  );
+}
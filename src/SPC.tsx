@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Upload } from "lucide-react";
+import { downloadText } from "./download";
+import {
+  MEASUREMENT_SCHEMA, capability, emptyMeasurementLog, individualsChart, readMeasurementCSV, subgroups, westernElectric, writeMeasurementCSV, xbarRChart,
+  type ControlChart, type Measurement, type MeasurementIssue, type MeasurementLog, type RuleViolation, type VerificationSpec,
+} from "./model";
+
+// ------------------------
+// SPC panel
+// ------------------------
+// Limits come from the current recipe's verification specs; filter by recipe so the history
+// being charted was cut to the same specs.
+
+export const MEASUREMENT_STORAGE_KEY = "dicing-toolkit.measurements";
+
+export function loadMeasurements(storage:Pick<Storage,"getItem"> = localStorage):MeasurementLog {
+  try {
+    const doc = JSON.parse(storage.getItem(MEASUREMENT_STORAGE_KEY) ?? "null");
+    return Array.isArray(doc?.rows) ? { schema: MEASUREMENT_SCHEMA, rows: doc.rows } : emptyMeasurementLog();
+  } catch {
+    return emptyMeasurementLog();
+  }
+}
+
+export function saveMeasurements(log:MeasurementLog, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(MEASUREMENT_STORAGE_KEY, JSON.stringify(log));
+}
+
+const ALL = "*";
+const fmt = (v:number, d=3) => isFinite(v) ? String(Number(v.toFixed(d))) : "-";
+
+// One control chart; `spec` adds the lo/hi limits (location charts only).
+function ChartSVG({chart, title, spec, flags}:{chart:ControlChart, title:string, spec?:{ lo:number, hi:number }, flags?:RuleViolation[]}){
+  const W = 560, H = 170, L = 48, R = 44, T = 16, B = 20;
+  const vals = chart.points.map(p=>p.value);
+  const lines = [chart.center, chart.ucl, chart.lcl, ...(spec ? [spec.lo, spec.hi] : [])].filter(isFinite);
+  const lo = Math.min(...vals, ...lines), hi = Math.max(...vals, ...lines);
+  const pad = (hi - lo) * 0.08 || 1;
+  const y0 = lo - pad, y1 = hi + pad;
+  const sx = (i:number) => L + (chart.points.length > 1 ? i / (chart.points.length - 1) : 0.5) * (W - L - R);
+  const sy = (v:number) => T + (1 - (v - y0) / (y1 - y0)) * (H - T - B);
+  const flagged = new Set(flags?.map(f=>f.index));
+  const hline = (v:number, label:string, color:string, dash?:string) => isFinite(v) && (
+    <g key={label}>
+      <line x1={L} x2={W - R} y1={sy(v)} y2={sy(v)} stroke={color} strokeDasharray={dash}/>
+      <text x={W - R + 4} y={sy(v) + 3} fontSize={9} fill={color}>{label}</text>
+    </g>
+  );
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full border rounded-md bg-white">
+      <text x={4} y={11} fontSize={10} fill="#27272a">{title}</text>
+      <text x={L - 4} y={sy(y1 - pad) + 3} fontSize={9} fill="#71717a" textAnchor="end">{fmt(y1 - pad)}</text>
+      <text x={L - 4} y={sy(y0 + pad) + 3} fontSize={9} fill="#71717a" textAnchor="end">{fmt(y0 + pad)}</text>
+      {spec && hline(spec.hi, "USL", "#dc2626", "2 2")}
+      {spec && hline(spec.lo, "LSL", "#dc2626", "2 2")}
+      {hline(chart.ucl, "UCL", "#71717a", "5 3")}
+      {hline(chart.lcl, "LCL", "#71717a", "5 3")}
+      {hline(chart.center, "CL", "#16a34a")}
+      <polyline fill="none" stroke="#2563eb" strokeWidth={1} points={chart.points.map((p, i)=>`${sx(i)},${sy(p.value)}`).join(" ")}/>
+      {chart.points.map((p, i)=>(
+        <circle key={i} cx={sx(i)} cy={sy(p.value)} r={flagged.has(i) ? 3.5 : 2.5} fill={flagged.has(i) ? "#dc2626" : "#2563eb"}>
+          <title>{p.label}: {fmt(p.value)}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+export function SPC({specs, meas, log, onChange}:{specs:VerificationSpec[], meas:Record<string,string>, log:MeasurementLog, onChange:(log:MeasurementLog)=>void}){
+  const [lot, setLot] = useState("");
+  const [wafer, setWafer] = useState("");
+  const [recipeName, setRecipeName] = useState("");
+  const [param, setParam] = useState(specs[0]?.key ?? "");
+  const [recipe, setRecipe] = useState(ALL);
+  const [kind, setKind] = useState<"xbar-r"|"individuals">("xbar-r");
+  const [issues, setIssues] = useState<MeasurementIssue[]>([]);
+
+  const recipes = useMemo(()=>[...new Set(log.rows.map(r=>r.recipe))].sort(), [log]);
+  const rows = useMemo(()=>recipe===ALL ? log.rows : log.rows.filter(r=>r.recipe===recipe), [log, recipe]);
+  const spec = specs.find(s=>s.key===param);
+  const groups = useMemo(()=>subgroups(rows, param), [rows, param]);
+  const charts = useMemo(()=>kind==="xbar-r"
+    ? xbarRChart(groups)
+    : individualsChart(rows.filter(r=>r.key===param).map(r=>({ label: `${r.lot}/${r.wafer}`, value: r.value }))), [kind, groups, rows, param]);
+  const flags = westernElectric(charts.location, charts.pointSigma);
+  const cap = spec && capability(groups.flatMap(g=>g.values), spec.lo, spec.hi, charts.sigma);
+  const counts = useMemo(()=>Object.fromEntries(specs.map(s=>[s.key, rows.filter(r=>r.key===s.key).length])), [specs, rows]);
+
+  useEffect(()=>{ if(!specs.some(s=>s.key===param) && specs.length) setParam(specs[0].key); }, [specs, param]);
+
+  const record = () => {
+    if(!lot.trim() || !wafer.trim()){ alert("Enter lot and wafer IDs"); return; }
+    const at = new Date().toISOString();
+    const added:Measurement[] = specs.filter(s=>meas[s.key] !== undefined && meas[s.key] !== "" && isFinite(Number(meas[s.key])))
+      .map(s=>({ at, lot: lot.trim(), wafer: wafer.trim(), recipe: recipeName.trim(), key: s.key, value: Number(meas[s.key]) }));
+    if(!added.length){ alert("No measured values to record"); return; }
+    onChange({ ...log, rows: [...log.rows, ...added] });
+  };
+
+  const handleUpload = (e:React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if(!f) return;
+    const reader = new FileReader();
+    reader.onload = ()=>{
+      const res = readMeasurementCSV(String(reader.result||""));
+      setIssues(res.issues);
+      if(res.rows.length) onChange({ ...log, rows: [...log.rows, ...res.rows] });
+    };
+    reader.readAsText(f);
+    e.target.value = "";
+  };
+
+  return (
+    <Card><CardContent className="p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-medium">SPC</h2>
+        <div className="flex flex-wrap gap-2">
+          <label className="inline-flex items-center gap-2 text-sm border rounded-md px-3 py-2 cursor-pointer">
+            <Upload className="h-4 w-4"/>Import CSV
+            <input type="file" accept=".csv,.txt" className="hidden" onChange={handleUpload}/>
+          </label>
+          <Button variant="outline" disabled={!log.rows.length} onClick={()=>downloadText("measurements.csv", writeMeasurementCSV(log.rows), "text/csv;charset=utf-8;")}><Download className="mr-2 h-4 w-4"/>Export CSV</Button>
+          <Button variant="outline" disabled={!log.rows.length} onClick={()=>{ if(confirm(`Delete all ${log.rows.length} recorded measurements?`)) onChange({ ...log, rows: [] }); }}>Clear History</Button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        CSV: <code>lot, wafer</code> plus either <code>parameter, value</code> rows or one column per parameter ({specs.map(s=>s.key).join(", ")}); optional <code>recipe</code> and <code>timestamp</code>.
+        Several rows for the same lot/wafer form one subgroup.
+      </p>
+      {issues.map((it, i)=>(
+        <div key={i} className={`text-sm ${it.severity==="error" ? "text-red-700" : "text-amber-700"}`}>• {it.line ? `Line ${it.line}: ` : ""}{it.message}</div>
+      ))}
+
+      <div className="grid md:grid-cols-4 gap-2 items-end">
+        <div><Label className="text-xs">Lot</Label><Input value={lot} onChange={e=>setLot(e.target.value)}/></div>
+        <div><Label className="text-xs">Wafer</Label><Input value={wafer} onChange={e=>setWafer(e.target.value)}/></div>
+        <div><Label className="text-xs">Recipe</Label><Input value={recipeName} onChange={e=>setRecipeName(e.target.value)}/></div>
+        <Button onClick={record}>Record Measured Values</Button>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center text-sm">
+        <select className="border rounded-md px-2 py-1" value={param} onChange={e=>setParam(e.target.value)}>
+          {specs.map(s=>(<option key={s.key} value={s.key}>{s.name} ({counts[s.key] ?? 0})</option>))}
+        </select>
+        <select className="border rounded-md px-2 py-1" value={recipe} onChange={e=>setRecipe(e.target.value)}>
+          <option value={ALL}>All recipes</option>
+          {recipes.map(r=>(<option key={r} value={r}>{r || "(no recipe)"}</option>))}
+        </select>
+        <select className="border rounded-md px-2 py-1" value={kind} onChange={e=>setKind(e.target.value as typeof kind)}>
+          <option value="xbar-r">X-bar / R</option>
+          <option value="individuals">Individuals / MR</option>
+        </select>
+      </div>
+
+      {!charts.location.points.length ? <p className="text-sm text-muted-foreground">No measurements for this parameter.</p> : <>
+        {charts.note && <div className="text-sm text-amber-700">{charts.note}</div>}
+        {charts.skipped > 0 && <div className="text-sm text-amber-700">{charts.skipped} wafer(s) skipped: subgroup size differs from n={charts.subgroupSize}.</div>}
+        <ChartSVG chart={charts.location} title={charts.kind==="xbar-r" ? `X-bar (n=${charts.subgroupSize})` : "Individuals"} spec={charts.kind==="individuals" && spec ? spec : undefined} flags={flags}/>
+        <ChartSVG chart={charts.spread} title={charts.kind==="xbar-r" ? "Range" : "Moving range"}/>
+        {cap && (
+          <div className="grid grid-cols-5 gap-2 text-sm">
+            <div className="rounded-md border p-2"><div className="text-xs text-muted-foreground">n</div>{cap.n}</div>
+            <div className="rounded-md border p-2"><div className="text-xs text-muted-foreground">Mean</div>{fmt(cap.mean)}</div>
+            <div className="rounded-md border p-2"><div className="text-xs text-muted-foreground">σ (within)</div>{fmt(cap.sigma)}</div>
+            <div className={`rounded-md border p-2 ${cap.cp < 1.33 ? "text-red-700" : ""}`}><div className="text-xs text-muted-foreground">Cp</div>{fmt(cap.cp, 2)}</div>
+            <div className={`rounded-md border p-2 ${cap.cpk < 1.33 ? "text-red-700" : ""}`}><div className="text-xs text-muted-foreground">Cpk</div>{fmt(cap.cpk, 2)}</div>
+          </div>
+        )}
+        {spec && <p className="text-xs text-muted-foreground">Spec {fmt(spec.lo)}–{fmt(spec.hi)} from the current recipe.</p>}
+        {!flags.length ? <p className="text-sm text-green-700">No Western Electric rule violations.</p> : (
+          <div className="space-y-1">
+            {flags.map((f, i)=>(<div key={i} className="text-sm text-red-700">• {charts.location.points[f.index].label}: rule {f.rule}, {f.message}</div>))}
+          </div>
+        )}
+      </>}
+    </CardContent></Card>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Upload } from "lucide-react";
+import { downloadText } from "./download";
+import type { DieLayout, Recipe } from "./model";
+import {
+  DEFAULT_TAPE_UM, buildSawProgram, listProgramFormats, programToRecipe, readSawProgram, writeSawProgram,
+  type ProgramIssue, type SawProgram as Program,
+} from "./sawprogram";
+
+// ------------------------
+// Saw program export / import
+// ------------------------
+
+export type Alignment = { offsetX_um:number, offsetY_um:number, theta_deg:number };
+
+const fmt = (v:number, d=3) => isFinite(v) ? String(Number(v.toFixed(d))) : "-";
+
+// `blocked` (the recipe check's errors) disables export; import stays available.
+export function SawProgram({recipe, layout, alignment, onLoad, blocked}:{recipe:Recipe, layout:DieLayout, alignment:Alignment, onLoad:(r:Recipe, a:Alignment)=>boolean, blocked?:string}){
+  const formats = listProgramFormats();
+  const [formatId, setFormatId] = useState(formats[0].id);
+  const [tape, setTape] = useState(DEFAULT_TAPE_UM);
+  const [name, setName] = useState("");
+  const [imported, setImported] = useState<{ file:string, format:string, issues:ProgramIssue[] }>();
+
+  const program:Program = useMemo(()=>buildSawProgram(recipe, layout, recipe.waferDiam, { name: name.trim() || undefined, tape_um: tape, alignment }), [recipe, layout, name, tape, alignment]);
+
+  const exportProgram = () => {
+    try {
+      const fmtDef = formats.find(f=>f.id===formatId)!;
+      const base = program.name.replace(/[^\w.-]+/g, "_");
+      downloadText(`${base}${fmtDef.extensions[0]}`, writeSawProgram(program, formatId), "text/plain;charset=utf-8;");
+    } catch(err) { alert("Program export failed: "+(err as Error).message); }
+  };
+
+  const handleImport = (e:React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if(!f) return;
+    const reader = new FileReader();
+    reader.onload = ()=>{
+      try {
+        const { format, program:p } = readSawProgram(String(reader.result||""), f.name);
+        const { recipe:r, issues } = programToRecipe(p, recipe);
+        if(!onLoad(r, p.alignment)) return;
+        setTape(p.wafer.tape_um);
+        setName(p.name);
+        setImported({ file: f.name, format: format.name, issues });
+      } catch(err) { alert("Program import failed: "+(err as Error).message); }
+    };
+    reader.readAsText(f);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <div><Label className="text-xs">Program name</Label><Input value={name} placeholder={program.name} onChange={e=>setName(e.target.value)}/></div>
+        <div><Label className="text-xs">Tape thickness (µm)</Label><Input type="number" value={tape} onChange={e=>setTape(Number(e.target.value))}/></div>
+        <div>
+          <Label className="text-xs">Format</Label>
+          <select className="border rounded-md px-2 py-2 text-sm block" value={formatId} onChange={e=>setFormatId(e.target.value)}>
+            {formats.map(f=>(<option key={f.id} value={f.id}>{f.name}</option>))}
+          </select>
+        </div>
+        <Button variant="outline" onClick={exportProgram} disabled={!!blocked} title={blocked}><Download className="mr-2 h-4 w-4"/>Export Program</Button>
+        <label className="inline-flex items-center gap-2 text-sm border rounded-md px-3 py-2 cursor-pointer">
+          <Upload className="h-4 w-4"/>Import Program
+          <input type="file" accept={formats.flatMap(f=>f.extensions).join(",")} className="hidden" onChange={handleImport}/>
+        </label>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="py-1 pr-3">Channel</th>
+            <th className="py-1 pr-3">θ</th>
+            <th className="py-1 pr-3">Index pitch (mm)</th>
+            <th className="py-1 pr-3">Cuts</th>
+            <th className="py-1 pr-3">Start (mm)</th>
+            <th className="py-1 pr-3">Pass: height / Z depth (µm), rpm, feed (mm/s)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {program.channels.map(c=>(
+            <tr key={c.channel} className="border-t align-top">
+              <td className="py-1 pr-3">{c.channel}</td>
+              <td className="py-1 pr-3">{c.theta_deg}°</td>
+              <td className="py-1 pr-3">{fmt(c.indexPitch_mm, 4)}</td>
+              <td className="py-1 pr-3">{c.count}</td>
+              <td className="py-1 pr-3">{fmt(c.start_mm)}</td>
+              <td className="py-1 pr-3">{c.steps.map(s=>`${s.pass}: ${fmt(s.height_um, 1)} / ${fmt(s.depth_um, 1)}, ${s.spindle_rpm}, ${fmt(s.feed_mm_s, 2)}`).join("; ")}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground">
+        Alignment targets: {program.alignment.targets.map(t=>`${t.id} (${fmt(t.x_mm)}, ${fmt(t.y_mm)}) mm`).join(", ") || "none (fewer than two lanes inside 70 % of the radius)"}.
+        Heights are the blade tip above the chuck table on {tape} µm tape.
+      </p>
+      {imported && (
+        <div className="text-sm">
+          <div>Loaded {imported.file} ({imported.format}) into the recipe editor and alignment offsets.</div>
+          {imported.issues.map((m, i)=>(<div key={i} className={m.severity==="error" ? "text-red-600" : "text-amber-700"}>• {m.message}</div>))}
+        </div>
+      )}
+    </div>
+  );
+}
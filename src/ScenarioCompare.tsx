@@ -0,0 +1,176 @@
+import React, { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowUp, Copy, Download, Plus, Sparkles, Trash2 } from "lucide-react";
+import { downloadText } from "./download";
+import {
+  CHUCK_TYPES, CUT_MODES, RECIPE_FIELDS, compareScenarios, toRecipe, writeComparisonCSV, writeComparisonHTML,
+  type CutMode, type MaterialDB, type Recipe, type RecipeField, type Scenario, type SpecTemplate, type Verdict,
+} from "./model";
+
+// ------------------------
+// Scenario comparison panel
+// ------------------------
+// Recipe variants side by side: each column is a scenario whose setpoints can be edited in place,
+// results below show the delta to the baseline column. The workspace persists across sessions;
+// Promote loads a scenario into the editor.
+
+export const SCENARIO_STORAGE_KEY = "dicing-toolkit.scenarios";
+export const SCENARIO_SCHEMA = 1;
+
+export type ScenarioWorkspace = { schema:number, baseline:string, mode:CutMode, scenarios:Scenario[] };
+export const emptyScenarioWorkspace = ():ScenarioWorkspace => ({ schema: SCENARIO_SCHEMA, baseline: "", mode: "single", scenarios: [] });
+
+export function loadScenarios(storage:Pick<Storage,"getItem"> = localStorage):ScenarioWorkspace {
+  try {
+    const doc = JSON.parse(storage.getItem(SCENARIO_STORAGE_KEY) ?? "null");
+    if(!Array.isArray(doc?.scenarios)) return emptyScenarioWorkspace();
+    const scenarios:Scenario[] = doc.scenarios.filter((s:Scenario)=>s && typeof s.id === "string" && s.recipe)
+      .map((s:Scenario)=>({ id: s.id, name: String(s.name ?? s.id), recipe: toRecipe(s.recipe) }));
+    const mode = CUT_MODES.some(m=>m.key === doc.mode) ? doc.mode : "single";
+    return { schema: SCENARIO_SCHEMA, baseline: String(doc.baseline ?? ""), mode, scenarios };
+  } catch {
+    return emptyScenarioWorkspace();
+  }
+}
+
+export function saveScenarios(w:ScenarioWorkspace, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(SCENARIO_STORAGE_KEY, JSON.stringify(w));
+}
+
+const fmt = (v:number|undefined, d=1) => v !== undefined && isFinite(v) ? String(Number(v.toFixed(d))) : "-";
+const signed = (v:number, d:number) => `${v > 0 ? "+" : ""}${fmt(v, d)}`;
+const VERDICT_CLASS:Record<Verdict,string> = { better: "text-green-700", worse: "text-red-700", same: "" };
+
+export function ScenarioCompare({workspace, onChange, current, suggested, db, specs, onPromote}:{
+  workspace:ScenarioWorkspace, onChange:(w:ScenarioWorkspace)=>void, current:Recipe, suggested:Recipe, db:MaterialDB, specs:SpecTemplate, onPromote:(r:Recipe)=>boolean,
+}){
+  const list = workspace.scenarios;
+  const baseline = Math.max(0, list.findIndex(s=>s.id === workspace.baseline));
+  const cmp = useMemo(()=>compareScenarios(list, { db, specs, baseline, cycle: { mode: workspace.mode } }), [list, db, specs, baseline, workspace.mode]);
+  const changed = new Map(cmp.inputs.map(r=>[r.key, r.changed]));
+
+  const setScenario = (i:number, patch:Partial<Scenario>) => onChange({ ...workspace, scenarios: list.map((s, j)=>j===i ? { ...s, ...patch } : s) });
+  const setField = (i:number, key:RecipeField, v:string|number) => setScenario(i, { recipe: { ...list[i].recipe, [key]: v } });
+  const add = (name:string, recipe:Recipe) => {
+    const used = new Set(list.map(s=>s.id));
+    let n = list.length + 1;
+    while(used.has(`S-${n}`)) n++;
+    const s = { id: `S-${n}`, name, recipe };
+    onChange({ ...workspace, baseline: list.length ? workspace.baseline : s.id, scenarios: [...list, s] });
+  };
+  const remove = (i:number) => {
+    const scenarios = list.filter((_, j)=>j!==i);
+    onChange({ ...workspace, baseline: list[i].id === workspace.baseline ? scenarios[0]?.id ?? "" : workspace.baseline, scenarios });
+  };
+
+  const exportCSV = () => {
+    try { downloadText("scenario-comparison.csv", writeComparisonCSV(cmp), "text/csv;charset=utf-8;"); }
+    catch(err) { alert("Comparison export failed: "+(err as Error).message); }
+  };
+  const exportHTML = () => {
+    try { downloadText("scenario-comparison.html", writeComparisonHTML(cmp), "text/html;charset=utf-8;"); }
+    catch(err) { alert("Comparison export failed: "+(err as Error).message); }
+  };
+
+  const cell = (i:number, key:RecipeField) => {
+    const r = list[i].recipe;
+    const cls = `border rounded-md px-2 py-2 text-sm block w-full${changed.get(key)?.[i] ? " border-amber-500" : ""}`;
+    const select = (options:{ value:string, label:string }[]) => (
+      <select className={cls} value={String(r[key])} onChange={e=>setField(i, key, e.target.value)}>
+        {options.map(o=>(<option key={o.value} value={o.value}>{o.label}</option>))}
+        {!options.some(o=>o.value === r[key]) && <option value={String(r[key])}>{String(r[key])} (unknown)</option>}
+      </select>
+    );
+    if(key === "material") return select(db.materials.map(m=>({ value: m.id, label: m.name })));
+    if(key === "bladeBond") return select(db.bonds.map(b=>({ value: b.id, label: b.name })));
+    if(key === "chuckType") return select(CHUCK_TYPES.map(c=>({ value: c, label: c })));
+    if(key === "orientation") return select([{ value: "notch", label: "Notch" }, { value: "flat", label: "Flat" }]);
+    return <Input type="number" className={changed.get(key)?.[i] ? "border-amber-500" : ""} value={r[key] as number} onChange={e=>setField(i, key, Number(e.target.value))}/>;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <Button variant="outline" onClick={()=>add(list.length ? `Scenario ${list.length + 1}` : "Baseline", current)}><Plus className="mr-2 h-4 w-4"/>Add Current Recipe</Button>
+        <Button variant="outline" onClick={()=>add("Suggested setpoints", suggested)}><Sparkles className="mr-2 h-4 w-4"/>Add Suggested Setpoints</Button>
+        <Button variant="outline" onClick={exportCSV} disabled={!list.length}><Download className="mr-2 h-4 w-4"/>Export CSV</Button>
+        <Button variant="outline" onClick={exportHTML} disabled={!list.length}><Download className="mr-2 h-4 w-4"/>Export HTML</Button>
+        <div className="w-48">
+          <Label className="text-xs">Cut mode (cycle time)</Label>
+          <select className="border rounded-md px-2 py-2 text-sm block w-full" value={workspace.mode} onChange={e=>onChange({ ...workspace, mode: e.target.value as CutMode })}>
+            {CUT_MODES.map(m=>(<option key={m.key} value={m.key}>{m.label}</option>))}
+          </select>
+        </div>
+      </div>
+
+      {!list.length ? <p className="text-sm text-muted-foreground">Add the current recipe as the baseline, then the suggested setpoints or a copy to tweak.</p> : <>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left align-top">
+                <th className="py-1 pr-2">Parameter</th>
+                {list.map((s, i)=>(
+                  <th key={s.id} className="py-1 pr-2 min-w-[9rem] font-normal">
+                    <Input value={s.name} onChange={e=>setScenario(i, { name: e.target.value })}/>
+                    <label className="flex items-center gap-1 text-xs mt-1">
+                      <input type="radio" checked={i === baseline} onChange={()=>onChange({ ...workspace, baseline: s.id })}/>Baseline
+                    </label>
+                    <div className="flex gap-1 mt-1">
+                      <Button variant="ghost" size="sm" title="Promote to the active recipe" onClick={()=>onPromote(s.recipe)}><ArrowUp className="h-4 w-4"/></Button>
+                      <Button variant="ghost" size="sm" title="Duplicate" onClick={()=>add(`${s.name} (copy)`, s.recipe)}><Copy className="h-4 w-4"/></Button>
+                      <Button variant="ghost" size="sm" title="Remove" onClick={()=>remove(i)}><Trash2 className="h-4 w-4"/></Button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {RECIPE_FIELDS.map(f=>(
+                <tr key={f.key} className="border-t">
+                  <td className="py-1 pr-2">{f.label}{f.unit !== "-" && <span className="text-xs text-muted-foreground"> ({f.unit})</span>}</td>
+                  {list.map((s, i)=>(<td key={s.id} className="py-1 pr-2">{cell(i, f.key)}</td>))}
+                </tr>
+              ))}
+              {cmp.inputs.filter(r=>r.key === "passes").map(r=>(
+                <tr key={r.key} className="border-t">
+                  <td className="py-1 pr-2">{r.label}</td>
+                  {r.values.map((v, i)=>(<td key={i} className={`py-1 pr-2 text-xs${r.changed[i] ? " text-amber-700" : ""}`}>{v}</td>))}
+                </tr>
+              ))}
+              <tr className="border-t"><td colSpan={list.length + 1} className="pt-3 pb-1 font-medium">Results</td></tr>
+              {cmp.rows.map(r=>(
+                <tr key={r.key} className="border-t">
+                  <td className="py-1 pr-2">{r.label} <span className="text-xs text-muted-foreground">({r.unit})</span></td>
+                  {r.values.map((v, i)=>{
+                    const d = r.deltas[i], verdict = r.verdicts[i];
+                    return (
+                      <td key={i} className={`py-1 pr-2 ${verdict ? VERDICT_CLASS[verdict] : ""}`}>
+                        {fmt(v, r.digits)}
+                        {d !== undefined && fmt(d, r.digits) !== "0" && <span className="text-xs"> ({signed(d, r.digits)})</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr className="border-t">
+                <td className="py-1 pr-2">Verification</td>
+                {cmp.scenarios.map(s=>(
+                  <td key={s.id} className={`py-1 pr-2 ${s.error || s.failing.length ? "text-red-700" : "text-green-700"}`}>
+                    {s.error ? `Error: ${s.error}` : s.failing.length ? <>FAIL<div className="text-xs">{s.failing.join(", ")}</div></> : "PASS"}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Deltas are against the baseline; green is better, red worse, amber marks setpoints that differ from it. Tip speed is better the closer it
+          sits to the material's window. Verification is predicted from the model's own values against the spec template. Pre-cut passes are kept
+          from the recipe each scenario was added from.
+        </p>
+      </>}
+    </div>
+  );
+}
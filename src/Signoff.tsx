@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download } from "lucide-react";
+import { downloadText } from "./download";
+import {
+  RELEASE_STATES, SIGNOFF_ROLES, SIGNOFF_SCHEMA, TRANSITIONS, createDraft, emptySignoffBook, exportSignoff, latestRevision, releaseChanges, revisionsOf, stateLabel, transition, verifyAudit, writeAuditCSV,
+  type Recipe, type ReleaseState, type SOPSnapshot, type SignoffBook, type SignoffRole,
+} from "./model";
+
+// ------------------------
+// Release sign-off panel
+// ------------------------
+// Moves the product's recipe + SOP revisions through review and release, and shows the audit
+// trail with its chain check. While a product is checked out, recipe edits follow its latest
+// revision (see reviseOnEdit).
+
+export const SIGNOFF_STORAGE_KEY = "dicing-toolkit.signoff";
+const AUTHOR_KEY = "dicing-toolkit.author";
+const ROLE_KEY = "dicing-toolkit.role";
+
+export function loadSignoff(storage:Pick<Storage,"getItem"> = localStorage):SignoffBook {
+  try {
+    const doc = JSON.parse(storage.getItem(SIGNOFF_STORAGE_KEY) ?? "null");
+    return Array.isArray(doc?.records) && Array.isArray(doc?.audit) ? { schema: SIGNOFF_SCHEMA, records: doc.records, audit: doc.audit } : emptySignoffBook();
+  } catch {
+    return emptySignoffBook();
+  }
+}
+
+export function saveSignoff(book:SignoffBook, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(SIGNOFF_STORAGE_KEY, JSON.stringify(book));
+}
+
+const STATE_CLASS:Record<ReleaseState,string> = {
+  draft: "bg-slate-200", review: "bg-blue-200", approved: "bg-violet-200", released: "bg-green-200", obsolete: "bg-zinc-300 line-through",
+};
+
+// `blocked` (the recipe check's errors) stops the editor recipe from entering a revision or review.
+export function Signoff({book, onChange, name, recipe, sop, editing, onCheckout, blocked}:{book:SignoffBook, onChange:(b:SignoffBook)=>void, name:string, recipe:Recipe, sop:SOPSnapshot, editing?:string, onCheckout:(name:string, recipe?:Recipe)=>void, blocked?:string}){
+  const [product, setProduct] = useState(name);
+  const [user, setUser] = useState(()=>localStorage.getItem(AUTHOR_KEY) ?? "");
+  const [role, setRole] = useState<SignoffRole>(()=>(localStorage.getItem(ROLE_KEY) as SignoffRole) || "engineer");
+  const [reason, setReason] = useState("");
+
+  const names = [...new Set([name, ...book.records.map(r=>r.name)])];
+  const revs = revisionsOf(book, product);
+  const latest = latestRevision(book, product);
+  const check = useMemo(()=>verifyAudit(book), [book]);
+  const trail = book.audit.filter(e=>e.name===product);
+  const current = product === name;
+  const drift = latest && current ? releaseChanges(latest.recipe, recipe) : [];
+
+  const act = (f:()=>SignoffBook) => {
+    try {
+      onChange(f());
+      localStorage.setItem(AUTHOR_KEY, user.trim());
+      localStorage.setItem(ROLE_KEY, role);
+      setReason("");
+      return true;
+    } catch(err) { alert("Sign-off failed: "+(err as Error).message); return false; }
+  };
+
+  const newRevision = () => {
+    if(act(()=>createDraft(book, product, recipe, sop, { user, role }, reason))) onCheckout(product);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <Label className="text-xs">Product</Label>
+          <select className="border rounded-md px-2 py-2 text-sm block" value={product} onChange={e=>setProduct(e.target.value)}>
+            {names.map(n=>(<option key={n} value={n}>{n}{n===name ? " (editor)" : ""}</option>))}
+          </select>
+        </div>
+        <div><Label className="text-xs">User</Label><Input value={user} onChange={e=>setUser(e.target.value)}/></div>
+        <div>
+          <Label className="text-xs">Role</Label>
+          <select className="border rounded-md px-2 py-2 text-sm block" value={role} onChange={e=>setRole(e.target.value as SignoffRole)}>
+            {SIGNOFF_ROLES.map(r=>(<option key={r.id} value={r.id}>{r.label}</option>))}
+          </select>
+        </div>
+        <div className="flex-1 min-w-[12rem]"><Label className="text-xs">Reason</Label><Input value={reason} placeholder="required for every state change" onChange={e=>setReason(e.target.value)}/></div>
+      </div>
+
+      {latest ? (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-1 text-sm">
+            <span className="mr-2 font-medium">{product} rev {latest.revision}</span>
+            {RELEASE_STATES.map(s=>(<span key={s.id} className={`px-2 py-0.5 rounded ${s.id===latest.state ? STATE_CLASS[s.id] + " font-medium" : "text-muted-foreground"}`}>{s.label}</span>))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {TRANSITIONS.filter(t=>t.from===latest.state).map(t=>(
+              <Button key={t.to} variant={t.to==="draft" ? "outline" : "default"} disabled={!t.roles.includes(role) || (!!blocked && t.to==="review" && editing===product)}
+                title={blocked && t.to==="review" && editing===product ? blocked : `Role: ${t.roles.map(x=>SIGNOFF_ROLES.find(r=>r.id===x)!.label).join(" or ")}`}
+                onClick={()=>act(()=>transition(book, latest.id, t.to, { user, role }, reason))}>{t.label}</Button>
+            ))}
+            {(latest.state === "released" || latest.state === "obsolete") && current && (
+              <Button variant="outline" disabled={!!blocked} title={blocked} onClick={newRevision}>Start Revision {latest.revision + 1} from Editor</Button>
+            )}
+            {editing !== product && (
+              <Button variant="outline" onClick={()=>onCheckout(product, latest.recipe)}>Edit in Recipe Editor</Button>
+            )}
+          </div>
+          {editing === product && latest.state === "released" && <div className="text-xs text-muted-foreground">Checked out: changing the recipe starts revision {latest.revision + 1} as a draft.</div>}
+          {editing === product && latest.state === "draft" && <div className="text-xs text-muted-foreground">Checked out: recipe and SOP edits update draft revision {latest.revision}.</div>}
+          {(latest.state === "review" || latest.state === "approved") && drift.length > 0 && (
+            <div className="text-sm text-amber-700">The editor recipe differs from revision {latest.revision} ({drift.map(c=>c.field).join(", ")}), which is locked in {stateLabel(latest.state)}. Return it to draft to make changes.</div>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">No revisions for {product}.</span>
+          <Button disabled={!current || !!blocked} title={blocked} onClick={newRevision}>Create Draft from Editor</Button>
+        </div>
+      )}
+
+      {revs.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="py-1 pr-3">Rev</th>
+              <th className="py-1 pr-3">State</th>
+              <th className="py-1 pr-3">Created</th>
+              <th className="py-1 pr-3">SOP</th>
+              <th className="py-1 pr-3">Changes since previous</th>
+            </tr>
+          </thead>
+          <tbody>
+            {revs.map((r, i)=>(
+              <tr key={r.id} className="border-t align-top">
+                <td className="py-1 pr-3">{r.revision}</td>
+                <td className="py-1 pr-3"><span className={`px-2 rounded ${STATE_CLASS[r.state]}`}>{stateLabel(r.state)}</span></td>
+                <td className="py-1 pr-3">{new Date(r.createdAt).toLocaleString()}</td>
+                <td className="py-1 pr-3">{r.sop.docNumber} rev {r.sop.revision}</td>
+                <td className="py-1 pr-3">{i ? releaseChanges(revs[i - 1].recipe, r.recipe).map(c=>`${c.field} ${c.from} → ${c.to}`).join(", ") || "-" : "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-sm">Audit trail</span>
+          <span className={`text-sm ${check.ok ? "text-green-700" : "text-red-600"}`}>{check.ok ? `Hash chain intact (${book.audit.length} entries)` : "Tampering detected"}</span>
+          <Button variant="outline" size="sm" onClick={()=>downloadText("signoff_audit.json", exportSignoff(book), "application/json;charset=utf-8;")}><Download className="mr-2 h-4 w-4"/>JSON</Button>
+          <Button variant="outline" size="sm" onClick={()=>downloadText("signoff_audit.csv", writeAuditCSV(book), "text/csv;charset=utf-8;")}><Download className="mr-2 h-4 w-4"/>CSV</Button>
+        </div>
+        {check.issues.map((m, i)=>(<div key={i} className="text-sm text-red-600">• {m}</div>))}
+        {trail.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="py-1 pr-3">#</th>
+                <th className="py-1 pr-3">When</th>
+                <th className="py-1 pr-3">User</th>
+                <th className="py-1 pr-3">Role</th>
+                <th className="py-1 pr-3">Rev</th>
+                <th className="py-1 pr-3">Change</th>
+                <th className="py-1 pr-3">Reason</th>
+                <th className="py-1 pr-3">Hash</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trail.map(e=>(
+                <tr key={e.seq} className="border-t align-top">
+                  <td className="py-1 pr-3">{e.seq}</td>
+                  <td className="py-1 pr-3">{new Date(e.at).toLocaleString()}</td>
+                  <td className="py-1 pr-3">{e.user}</td>
+                  <td className="py-1 pr-3">{SIGNOFF_ROLES.find(r=>r.id===e.role)?.label ?? e.role}</td>
+                  <td className="py-1 pr-3">{e.revision}</td>
+                  <td className="py-1 pr-3">{e.from ? `${stateLabel(e.from)} → ` : ""}{stateLabel(e.to)}</td>
+                  <td className="py-1 pr-3">{e.reason}</td>
+                  <td className="py-1 pr-3 font-mono text-xs" title={e.hash}>{e.hash.slice(0, 12)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
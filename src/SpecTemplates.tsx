@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, Upload } from "lucide-react";
+import { downloadText } from "./download";
+import {
+  DEFAULT_SPEC_TEMPLATE, LIMIT_MODES, SPEC_PRESETS, SPEC_VARIABLES, activeSpecTemplate, emptySpecLibrary, exportSpecLibrary, findTemplate, importSpecLibrary, validateSpecLibrary,
+  type LimitMode, type SpecLibrary, type SpecParam, type SpecTemplate,
+} from "./model";
+
+// ------------------------
+// Verification spec templates
+// ------------------------
+// Products pick a template; templates are edited as a draft and only replace the stored one on
+// Apply, after validation passes. The built-in Standard template is read-only.
+
+export const SPEC_STORAGE_KEY = "dicing-toolkit.specs";
+
+export function loadSpecLibrary(storage:Pick<Storage,"getItem"> = localStorage):SpecLibrary {
+  try {
+    const raw = storage.getItem(SPEC_STORAGE_KEY);
+    return raw ? importSpecLibrary(raw) : emptySpecLibrary();
+  } catch {
+    return emptySpecLibrary();
+  }
+}
+
+export function saveSpecLibrary(lib:SpecLibrary, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(SPEC_STORAGE_KEY, JSON.stringify(lib));
+}
+
+const BLANK:SpecParam = { key: "", label: "", unit: "µm", nom: "0", mode: "abs", lo: "0", hi: "0" };
+
+const limitHint = (m:LimitMode) => m === "pct" ? "%" : m === "abs" ? "value" : "formula";
+
+// A fresh id not used by any template: "acme", "acme-2", …
+function uniqueId(lib:SpecLibrary, base:string){
+  const stem = base.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "template";
+  let id = stem, n = 1;
+  while(findTemplate(lib, id)) id = `${stem}-${++n}`;
+  return id;
+}
+
+export function SpecTemplates({lib, onChange}:{lib:SpecLibrary, onChange:(lib:SpecLibrary)=>void}){
+  const active = activeSpecTemplate(lib);
+  const [editing, setEditing] = useState(active.id);
+  const stored = findTemplate(lib, editing) ?? DEFAULT_SPEC_TEMPLATE;
+  const [draft, setDraft] = useState<SpecTemplate>(stored);
+  // Switching templates, importing or deleting replaces the draft.
+  useEffect(()=>{ setDraft(stored); }, [stored]);
+  const builtIn = stored === DEFAULT_SPEC_TEMPLATE;
+  const dirty = draft !== stored;
+
+  // The draft is validated in place of the template it edits, so id clashes show up too.
+  const candidate = useMemo<SpecLibrary>(()=>({ ...lib, templates: lib.templates.map(t=>t.id===stored.id ? draft : t) }), [lib, draft, stored]);
+  const issues = useMemo(()=>builtIn ? [] : validateSpecLibrary(candidate).filter(i=>i.path.startsWith(`templates[${lib.templates.indexOf(stored)}].`)), [builtIn, candidate, lib, stored]);
+
+  const setParam = (i:number, patch:Partial<SpecParam>) => setDraft(d=>({ ...d, params: d.params.map((p, j)=>j===i ? { ...p, ...patch } : p) }));
+  const setProduct = (i:number, patch:Partial<SpecLibrary["products"][number]>) => {
+    const old = lib.products[i];
+    onChange({ ...lib, products: lib.products.map((p, j)=>j===i ? { ...p, ...patch } : p), product: lib.product===old.name && patch.name !== undefined ? patch.name : lib.product });
+  };
+
+  const addProduct = () => {
+    let n = lib.products.length + 1;
+    while(lib.products.some(p=>p.name===`Product ${n}`)) n++;
+    onChange({ ...lib, products: [...lib.products, { name: `Product ${n}`, template: active.id }] });
+  };
+
+  const duplicate = () => {
+    const copy:SpecTemplate = { ...draft, id: uniqueId(lib, `${draft.name} copy`), name: `${draft.name} (copy)`, params: draft.params.map(p=>({ ...p })) };
+    onChange({ ...lib, templates: [...lib.templates, copy] });
+    setEditing(copy.id);
+  };
+
+  const remove = () => {
+    const users = lib.products.filter(p=>p.template===stored.id).map(p=>p.name);
+    if(users.length){ alert(`Template is assigned to ${users.join(", ")}; assign another template first.`); return; }
+    onChange({ ...lib, templates: lib.templates.filter(t=>t!==stored) });
+    setEditing(DEFAULT_SPEC_TEMPLATE.id);
+  };
+
+  const apply = () => {
+    const next = { ...draft, id: draft.id.trim(), params: draft.params.map(p=>({ ...p, key: p.key.trim() })) };
+    // Products follow a renamed id.
+    onChange({ ...lib, templates: lib.templates.map(t=>t===stored ? next : t), products: lib.products.map(p=>p.template===stored.id ? { ...p, template: next.id } : p) });
+    setEditing(next.id);
+  };
+
+  const handleImport = (e:React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if(!f) return;
+    const reader = new FileReader();
+    reader.onload = ()=>{
+      try { onChange(importSpecLibrary(String(reader.result||""))); }
+      catch(err) { alert("Spec import failed: "+(err as Error).message); }
+    };
+    reader.readAsText(f);
+    e.target.value = "";
+  };
+
+  return (
+    <Card><CardContent className="p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-medium">Spec Templates</h3>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={()=>downloadText("spec_templates.json", exportSpecLibrary(lib), "application/json;charset=utf-8;")}><Download className="mr-2 h-4 w-4"/>Export</Button>
+          <label className="inline-flex items-center gap-2 text-sm border rounded-md px-3 py-1 cursor-pointer">
+            <Upload className="h-4 w-4"/>Import JSON
+            <input type="file" accept=".json" className="hidden" onChange={handleImport}/>
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Label className="text-sm">Product</Label>
+        <select className="border rounded-md px-2 py-1 text-sm" value={lib.product ?? ""} onChange={e=>onChange({ ...lib, product: e.target.value || undefined })}>
+          <option value="">(none: Standard)</option>
+          {lib.products.map(p=>(<option key={p.name} value={p.name}>{p.name}{p.customer ? ` – ${p.customer}` : ""}</option>))}
+        </select>
+        <span className="text-sm text-muted-foreground">Acceptance limits from <b>{active.name}</b>{active.customer ? ` (${active.customer})` : ""}.</span>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="py-1 pr-2">Product</th>
+            <th className="py-1 pr-2">Customer</th>
+            <th className="py-1 pr-2">Template</th>
+            <th className="py-1 pr-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {lib.products.map((p, i)=>(
+            <tr key={i} className="border-t">
+              <td className="py-1 pr-2"><Input value={p.name} onChange={e=>setProduct(i, { name: e.target.value })}/></td>
+              <td className="py-1 pr-2"><Input value={p.customer ?? ""} onChange={e=>setProduct(i, { customer: e.target.value || undefined })}/></td>
+              <td className="py-1 pr-2">
+                <select className="border rounded-md px-2 py-2 text-sm" value={p.template} onChange={e=>setProduct(i, { template: e.target.value })}>
+                  {[DEFAULT_SPEC_TEMPLATE, ...lib.templates].map(t=>(<option key={t.id} value={t.id}>{t.name}</option>))}
+                </select>
+              </td>
+              <td className="py-1 pr-2"><Button variant="outline" size="sm" onClick={()=>onChange({ ...lib, products: lib.products.filter((_, j)=>j!==i), product: lib.product===p.name ? undefined : lib.product })}>Remove</Button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {validateSpecLibrary(lib).filter(i=>i.path.startsWith("products")).map((it, i)=>(<div key={i} className="text-sm text-red-700">• {it.path} {it.message}</div>))}
+      <Button variant="outline" size="sm" onClick={addProduct}>Add Product</Button>
+
+      <div className="border-t pt-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-sm">Edit template</Label>
+          <select className="border rounded-md px-2 py-1 text-sm" value={stored.id} onChange={e=>setEditing(e.target.value)}>
+            {[DEFAULT_SPEC_TEMPLATE, ...lib.templates].map(t=>(<option key={t.id} value={t.id}>{t.name}</option>))}
+          </select>
+          <Button variant="outline" size="sm" onClick={duplicate}>Duplicate</Button>
+          {!builtIn && <Button variant="outline" size="sm" onClick={remove}>Delete</Button>}
+        </div>
+        {builtIn && <p className="text-xs text-muted-foreground">Built-in template; duplicate it to change limits or add parameters.</p>}
+        {!builtIn && (
+          <div className="grid md:grid-cols-3 gap-3">
+            <div><Label className="text-xs">Id</Label><Input value={draft.id} onChange={e=>setDraft(d=>({ ...d, id: e.target.value }))}/></div>
+            <div><Label className="text-xs">Name</Label><Input value={draft.name} onChange={e=>setDraft(d=>({ ...d, name: e.target.value }))}/></div>
+            <div><Label className="text-xs">Customer</Label><Input value={draft.customer ?? ""} onChange={e=>setDraft(d=>({ ...d, customer: e.target.value || undefined }))}/></div>
+          </div>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="py-1 pr-2">Key</th>
+                <th className="py-1 pr-2">Label</th>
+                <th className="py-1 pr-2">Unit</th>
+                <th className="py-1 pr-2">Nominal</th>
+                <th className="py-1 pr-2">Limits</th>
+                <th className="py-1 pr-2">Lo</th>
+                <th className="py-1 pr-2">Hi</th>
+                <th className="py-1 pr-2">Per pass</th>
+                <th className="py-1 pr-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.params.map((p, i)=>(
+                <tr key={i} className="border-t">
+                  <td className="py-1 pr-2"><Input value={p.key} disabled={builtIn} onChange={e=>setParam(i, { key: e.target.value })}/></td>
+                  <td className="py-1 pr-2"><Input value={p.label} disabled={builtIn} onChange={e=>setParam(i, { label: e.target.value })}/></td>
+                  <td className="py-1 pr-2"><Input value={p.unit} disabled={builtIn} onChange={e=>setParam(i, { unit: e.target.value })}/></td>
+                  <td className="py-1 pr-2"><Input value={p.nom} disabled={builtIn} onChange={e=>setParam(i, { nom: e.target.value })}/></td>
+                  <td className="py-1 pr-2">
+                    <select className="border rounded-md px-2 py-2 text-sm" value={p.mode} disabled={builtIn} onChange={e=>setParam(i, { mode: e.target.value as LimitMode })}>
+                      {LIMIT_MODES.map(m=>(<option key={m.key} value={m.key}>{m.label}</option>))}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2"><Input value={p.lo} disabled={builtIn} placeholder={limitHint(p.mode)} onChange={e=>setParam(i, { lo: e.target.value })}/></td>
+                  <td className="py-1 pr-2"><Input value={p.hi} disabled={builtIn} placeholder={limitHint(p.mode)} onChange={e=>setParam(i, { hi: e.target.value })}/></td>
+                  <td className="py-1 pr-2"><input type="checkbox" checked={!!p.perPass} disabled={builtIn} onChange={e=>setParam(i, { perPass: e.target.checked || undefined })}/></td>
+                  <td className="py-1 pr-2">{!builtIn && <Button variant="outline" size="sm" onClick={()=>setDraft(d=>({ ...d, params: d.params.filter((_, j)=>j!==i) }))}>Remove</Button>}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {!builtIn && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={()=>setDraft(d=>({ ...d, params: [...d.params, { ...BLANK }] }))}>Add Parameter</Button>
+            {SPEC_PRESETS.filter(sp=>!draft.params.some(p=>p.key===sp.key)).map(sp=>(
+              <Button key={sp.key} variant="outline" size="sm" onClick={()=>setDraft(d=>({ ...d, params: [...d.params, { ...sp }] }))}>Add {sp.label}</Button>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Formulas use + − × ÷ ^, min/max/abs and {SPEC_VARIABLES.map(v=>v.key).join(", ")}. Per-pass rows bind kerf and tip to each pass.
+        </p>
+        {!builtIn && (
+          <>
+            {issues.map((it, i)=>(<div key={i} className="text-sm text-red-700">• {it.path} {it.message}</div>))}
+            <div className="flex flex-wrap gap-2">
+              <Button disabled={!dirty || issues.length > 0} onClick={apply}>Apply</Button>
+              <Button variant="outline" disabled={!dirty} onClick={()=>setDraft(stored)}>Discard Changes</Button>
+            </div>
+          </>
+        )}
+      </div>
+    </CardContent></Card>
+  );
+}
@@ -0,0 +1,63 @@
+import React from "react";
+import { AlertCircle, AlertTriangle, Info } from "lucide-react";
+import { RECIPE_FIELDS, type RecipeValidation, type Severity, type ValidationIssue } from "./model";
+
+// ------------------------
+// Recipe validation display
+// ------------------------
+
+const STYLE:Record<Severity,{ cls:string, Icon:typeof Info, label:string }> = {
+  error: { cls: "text-red-600", Icon: AlertCircle, label: "Error" },
+  warning: { cls: "text-amber-700", Icon: AlertTriangle, label: "Warning" },
+  info: { cls: "text-muted-foreground", Icon: Info, label: "Info" },
+};
+
+const fieldLabel = (f:string) => f === "passes" ? "Cut passes" : RECIPE_FIELDS.find(x=>x.key===f)?.label ?? f;
+
+// Why export/SOP actions are disabled, or undefined when they are not.
+export const blockReason = (v:RecipeValidation) =>
+  v.errors ? `Fix ${v.errors} recipe error${v.errors > 1 ? "s" : ""} first (see Process tab)` : undefined;
+
+// Messages under one input.
+export function FieldIssues({issues}:{issues:ValidationIssue[]}){
+  if(!issues.length) return null;
+  return (
+    <div className="mt-1 space-y-0.5">
+      {issues.map((i, k)=>{
+        const { cls, Icon } = STYLE[i.severity];
+        return <div key={k} className={`flex items-start gap-1 text-xs ${cls}`}><Icon className="h-3 w-3 mt-0.5 shrink-0"/>{i.message}</div>;
+      })}
+    </div>
+  );
+}
+
+export function ValidationSummary({validation}:{validation:RecipeValidation}){
+  const { issues, errors, warnings, infos } = validation;
+  return (
+    <div className={`rounded-xl border p-3 space-y-2 ${errors ? "border-red-300" : ""}`}>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-medium">Recipe check</span>
+        <span className={errors ? "text-red-600" : "text-green-700"}>{errors} error{errors === 1 ? "" : "s"}</span>
+        <span className={warnings ? "text-amber-700" : "text-muted-foreground"}>{warnings} warning{warnings === 1 ? "" : "s"}</span>
+        <span className="text-muted-foreground">{infos} info</span>
+        {errors > 0 && <span className="text-xs text-red-600">Export and SOP generation are blocked until errors are fixed.</span>}
+      </div>
+      {issues.length > 0 && (
+        <table className="w-full text-sm">
+          <tbody>
+            {issues.map((i, k)=>{
+              const { cls, Icon, label } = STYLE[i.severity];
+              return (
+                <tr key={k} className="border-t align-top">
+                  <td className={`py-1 pr-3 whitespace-nowrap ${cls}`}><Icon className="inline h-4 w-4 mr-1"/>{label}</td>
+                  <td className="py-1 pr-3 whitespace-nowrap">{fieldLabel(i.field)}</td>
+                  <td className="py-1">{i.message}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useId, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { siteCenter, type DieLayout } from "./model";
+
+// ------------------------
+// SVG wafer map
+// ------------------------
+// Drawn in the placement frame (mm, +y up); the outer group flips y for SVG.
+
+type ViewDie = { x:number, y:number, status:string, bin?:string };
+
+const STATUS_COLORS:Record<string,string> = {
+  good: "#22c55e",
+  bad: "#ef4444",
+  reject: "#ef4444",
+  edge: "#a8a29e",
+  skip: "#e4e4e7",
+  reference: "#6366f1",
+  unknown: "#f59e0b",
+  site: "#93c5fd",
+};
+const statusColor = (s:string) => STATUS_COLORS[s] ?? "#a1a1aa";
+
+// Lane = one cut line. `dev_um` is the largest distance between the cut and the street
+// center over the part of the lane that lies on the wafer.
+type Lane = { ch:1|2, idx:number, a:{x:number,y:number}, b:{x:number,y:number}, dev_um:number, off:boolean };
+
+function alignedLanes(layout:DieLayout, R:number, street_um:number, kerf_um:number, offX_um:number, offY_um:number, theta_deg:number, exaggerate:number){
+  const lanes:Lane[] = [];
+  const th = theta_deg * Math.PI / 180;
+  const tol_um = Math.max(0, (street_um - kerf_um) / 2);
+  const push = (ch:1|2, idx:number, pos:number) => {
+    // CH1 cuts run along x at y = pos, CH2 along y at x = pos (nominal street centers).
+    const half = Math.sqrt(Math.max(0, R*R - pos*pos));
+    if(half <= 0) return;
+    const shift_um = ch===1 ? offY_um : offX_um;
+    const dev_um = Math.abs(shift_um) + Math.abs(Math.tan(th)) * half * 1000;
+    const s = exaggerate;
+    const d = shift_um / 1000 * s;
+    const t = Math.tan(th) * s;
+    const a = ch===1 ? { x: -half, y: pos + d - t*half } : { x: pos + d + t*half, y: -half };
+    const b = ch===1 ? { x: half, y: pos + d + t*half } : { x: pos + d - t*half, y: half };
+    lanes.push({ ch, idx, a, b, dev_um, off: dev_um > tol_um });
+  };
+  for(let r=0; r<=layout.rows; r++) push(1, r, siteCenter(layout, 0, r).y + layout.pitchY/2);
+  for(let c=0; c<=layout.cols; c++) push(2, c, siteCenter(layout, c, 0).x - layout.pitchX/2);
+  return lanes;
+}
+
+export function WaferMapView({waferDiam, layout, dieW, dieH, street, kerf, orientation, mapDies, offX, offY, theta}:{
+  waferDiam:number, layout:DieLayout, dieW:number, dieH:number, street:number, kerf:number,
+  orientation:"notch"|"flat", mapDies?:ViewDie[], offX:number, offY:number, theta:number,
+}){
+  const R = waferDiam / 2;
+  const pad = R * 0.06;
+  const full = { x: -R - pad, y: -R - pad, w: 2*(R + pad), h: 2*(R + pad) };
+  const [view, setView] = useState(full);
+  const [hover, setHover] = useState<ViewDie|undefined>(undefined);
+  const [showAlign, setShowAlign] = useState("on");
+  const [exaggerate, setExaggerate] = useState("100");
+  const clipId = `wafer-clip-${useId().replace(/:/g, "")}`;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{x:number, y:number}|null>(null);
+
+  const dies:ViewDie[] = useMemo(()=> mapDies ?? layout.dies.map(d=>({ x: d.col, y: d.row, status: "site" })), [mapDies, layout]);
+  const lanes = useMemo(()=>alignedLanes(layout, R, street, kerf, offX, offY, theta, Number(exaggerate)), [layout, R, street, kerf, offX, offY, theta, exaggerate]);
+  const offLanes = lanes.filter(l=>l.off);
+
+  // Outline: circle with a notch or flat at 6 o'clock.
+  const outline = useMemo(()=>{
+    if(orientation==="flat"){
+      const halfChord = Math.min(R*0.99, 0.15*waferDiam);
+      const yf = Math.sqrt(R*R - halfChord*halfChord);
+      return `M ${-halfChord} ${-yf} A ${R} ${R} 0 1 0 ${halfChord} ${-yf} Z`;
+    }
+    const n = Math.max(0.5, R*0.01);
+    return `M ${-n} ${-R} A ${R} ${R} 0 1 0 ${n} ${-R} L 0 ${-R + n} Z`;
+  }, [orientation, R, waferDiam]);
+
+  const toSvg = (e:{clientX:number, clientY:number}) => {
+    const el = svgRef.current;
+    if(!el) return { x: 0, y: 0 };
+    const r = el.getBoundingClientRect();
+    return { x: view.x + (e.clientX - r.left) / r.width * view.w, y: view.y + (e.clientY - r.top) / r.height * view.h };
+  };
+  const onWheel = (e:React.WheelEvent<SVGSVGElement>) => {
+    const p = toSvg(e);
+    const k = e.deltaY > 0 ? 1.2 : 1/1.2;
+    const w = Math.min(full.w, Math.max(full.w/200, view.w * k));
+    const f = w / view.w;
+    setView({ x: p.x - (p.x - view.x) * f, y: p.y - (p.y - view.y) * f, w, h: w });
+  };
+  const onPointerDown = (e:React.PointerEvent<SVGSVGElement>) => { drag.current = toSvg(e); };
+  const onPointerMove = (e:React.PointerEvent<SVGSVGElement>) => {
+    if(!drag.current) return;
+    const p = toSvg(e);
+    setView(v=>({ ...v, x: v.x - (p.x - drag.current!.x), y: v.y - (p.y - drag.current!.y) }));
+  };
+  const onPointerUp = () => { drag.current = null; };
+
+  const streetMm = street / 1000;
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Button variant="outline" size="sm" onClick={()=>setView(full)}>Reset View</Button>
+        <Label>Alignment overlay</Label>
+        <Select value={showAlign} onValueChange={setShowAlign}>
+          <SelectTrigger className="w-24"><SelectValue/></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="on">On</SelectItem>
+            <SelectItem value="off">Off</SelectItem>
+          </SelectContent>
+        </Select>
+        <Label>Exaggerate</Label>
+        <Select value={exaggerate} onValueChange={setExaggerate}>
+          <SelectTrigger className="w-24"><SelectValue/></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="1">×1</SelectItem>
+            <SelectItem value="10">×10</SelectItem>
+            <SelectItem value="100">×100</SelectItem>
+            <SelectItem value="1000">×1000</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">{hover ? `x ${hover.x}, y ${hover.y}: ${hover.bin!==undefined ? `bin ${hover.bin} · ` : ""}${hover.status}` : "Hover a die for details"}</span>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`${view.x} ${view.y} ${view.w} ${view.h}`}
+        className="w-full max-w-xl aspect-square rounded-xl border bg-card touch-none select-none"
+        onWheel={onWheel} onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp} onPointerLeave={onPointerUp}
+      >
+        <defs>
+          <clipPath id={clipId}><path d={outline}/></clipPath>
+        </defs>
+        <g transform="scale(1,-1)">
+          <path d={outline} fill="#f4f4f5" stroke="#52525b" strokeWidth={R*0.004}/>
+          <g clipPath={`url(#${clipId})`}>
+            {Array.from({length: layout.cols + 1}, (_, c)=>{
+              const x = siteCenter(layout, c, 0).x - layout.pitchX/2;
+              return <rect key={`sx${c}`} x={x - streetMm/2} y={-R} width={streetMm} height={2*R} fill="#d4d4d8"/>;
+            })}
+            {Array.from({length: layout.rows + 1}, (_, r)=>{
+              const y = siteCenter(layout, 0, r).y + layout.pitchY/2;
+              return <rect key={`sy${r}`} x={-R} y={y - streetMm/2} width={2*R} height={streetMm} fill="#d4d4d8"/>;
+            })}
+          </g>
+          {dies.map(d=>{
+            const c = siteCenter(layout, d.x, d.y);
+            return <rect key={`${d.x},${d.y}`} x={c.x - dieW/2} y={c.y - dieH/2} width={dieW} height={dieH}
+              fill={statusColor(d.status)} stroke={hover===d ? "#18181b" : "none"} strokeWidth={Math.min(dieW, dieH)*0.08}
+              onMouseEnter={()=>setHover(d)} onMouseLeave={()=>setHover(h=>h===d ? undefined : h)}/>;
+          })}
+          {showAlign==="on" && lanes.map(l=>(
+            <line key={`l${l.ch}-${l.idx}`} x1={l.a.x} y1={l.a.y} x2={l.b.x} y2={l.b.y}
+              stroke={l.off ? "#dc2626" : "#2563eb"} strokeWidth={R*(l.off ? 0.004 : 0.002)} strokeDasharray={l.off ? undefined : `${R*0.02} ${R*0.01}`}/>
+          ))}
+        </g>
+      </svg>
+      <div className="text-xs text-muted-foreground">
+        Scroll to zoom, drag to pan. Cut lanes use offset ({offX}, {offY}) µm and θ {theta}° shown ×{exaggerate};
+        {offLanes.length ? ` ${offLanes.length} lane(s) leave the street before the wafer edge (red).` : " all lanes stay in the street."}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+// Saves a blob through a temporary object URL.
+export function downloadBlob(name:string, blob:Blob){
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = name; a.click();
+  URL.revokeObjectURL(url);
+}
+
+export const downloadText = (name:string, text:string, type:string) => downloadBlob(name, new Blob([text], { type }));
@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,172 +6,222 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Download, Calculator, Settings, Sparkles, AlertTriangle, Upload, ListOrdered } from "lucide-react";
-
-// ------------------------
-// Math utilities and models
-// ------------------------
-const clamp = (v:number, min:number, max:number) => Math.max(min, Math.min(max, v));
-const mmToUm = (mm:number) => mm * 1000;
-const umToMm = (um:number) => um / 1000;
-const bladeTipSpeed = (diameter_mm:number, rpm:number) => Math.PI * (diameter_mm/1000) * rpm / 60; // m/s
-const estimateKerf = (blade_thk_um:number, wearFactor:number, k:number=0.12) => blade_thk_um * (1 + k * wearFactor);
-
-const suggestFeed = (material:string, t_um:number) => {
-  const t_mm = umToMm(t_um);
-  const base = { Si: 2.0, GaAs: 1.2, SiC: 0.7, Sapphire: 0.5, Glass: 0.8 }[material] ?? 1.0;
-  return clamp(base * (1.0 / Math.sqrt(Math.max(t_mm, 0.05))), 0.2, 6.0);
-};
-const suggestRPM = (material:string, diameter_mm:number, blade_bond:string) => {
-  const matFactor = { Si: 1.0, GaAs: 0.9, SiC: 1.15, Sapphire: 1.2, Glass: 1.05 }[material] ?? 1.0;
-  const bondFactor = { Resin: 1.0, Metal: 0.9, Hybrid: 1.1 }[blade_bond] ?? 1.0;
-  const targetTip = 38 * matFactor * bondFactor; // m/s target
-  const rpm = targetTip * 60 / (Math.PI * (diameter_mm/1000));
-  return clamp(rpm, 8000, 60000);
-};
-const estimatePowerKW = (material:string, feed_mms:number, kerf_um:number, t_um:number) => {
-  const cMat = { Si: 0.015, GaAs: 0.02, SiC: 0.06, Sapphire: 0.07, Glass: 0.018 }[material] ?? 0.02;
-  return cMat * feed_mms * umToMm(kerf_um) * umToMm(t_um);
-}
-const suggestCoolantLpm = (powerKW:number) => clamp(3 + 6 * powerKW, 1.0, 12.0);
-
-const dieCount = (wafer_diam_mm:number, die_w_mm:number, die_h_mm:number, street_um:number) => {
-  const R = wafer_diam_mm / 2;
-  const pitchX = die_w_mm + umToMm(street_um);
-  const pitchY = die_h_mm + umToMm(street_um);
-  const cols = Math.max(0, Math.floor(wafer_diam_mm / pitchX));
-  const rows = Math.max(0, Math.floor(wafer_diam_mm / pitchY));
-  const areaCircle = Math.PI * R * R;
-  const gridArea = Math.max(1, cols * rows * pitchX * pitchY);
-  const fill = clamp(areaCircle / gridArea, 0, 1);
-  const usable = Math.floor(cols * rows * fill);
-  return { cols, rows, usable };
-}
-
-const chippingRisk = (material:string, feed_mms:number, tip_mps:number, t_um:number, blade_thk_um:number, coolantLpm:number) => {
-  const matBase = { Si: 25, GaAs: 40, SiC: 55, Sapphire: 60, Glass: 45 }[material] ?? 35;
-  let score = matBase;
-  score += 8 * Math.max(0, feed_mms - 1.5);
-  score += tip_mps < 30 ? (30 - tip_mps) * 0.8 : 0;
-  score += tip_mps > 45 ? (tip_mps - 45) * 0.9 : 0;
-  score += blade_thk_um/100;
-  score += umToMm(t_um) * 6;
-  score -= coolantLpm * 1.1;
-  return clamp(Math.round(score), 0, 100);
-}
+import {
+  DEFAULT_RECIPE, bladeState, recipePasses, activeSpecTemplate, renderSOP, sopContext, sopToMarkdown, reviseOnEdit, validateRecipe, fieldIssues, csvCell, dieCount, evaluateRecipe, materialSpec, specStatus,
+  umToMm, vacuumRangeForChuck,
+  type BladeLibrary, type SpecLibrary, type BondType, type CutPass, type MeasurementLog, type ChuckType, type Material, type MaterialDB, type OrientationMark, type ProcessCandidate, type Recipe, type RecipeEvaluation, type ValidationIssue, type VerificationSpec,
+} from "./model";
+import { WaferMapView } from "./WaferMapView";
+import { RecipeLibrary } from "./RecipeLibrary";
+import { MaterialDatabase, loadMaterialDB, saveMaterialDB } from "./MaterialDatabase";
+import { Calibration } from "./Calibration";
+import { ProcessOptimizer } from "./ProcessOptimizer";
+import { ContourMap } from "./ContourMap";
+import { CycleTime } from "./CycleTime";
+import { LotPlanner, loadLotQueue, saveLotQueue } from "./LotPlanner";
+import { ScenarioCompare, loadScenarios, saveScenarios } from "./ScenarioCompare";
+import { SawProgram, type Alignment } from "./SawProgram";
+import { AlignmentCalculator } from "./AlignmentCalculator";
+import { CutPasses } from "./CutPasses";
+import { FieldIssues, ValidationSummary, blockReason } from "./Validation";
+import { SPC, loadMeasurements, saveMeasurements } from "./SPC";
+import { Qualification } from "./Qualification";
+import { SpecTemplates, loadSpecLibrary, saveSpecLibrary } from "./SpecTemplates";
+import { SOPEditor, activeSOPTemplate, loadSOPSettings, saveSOPSettings } from "./SOPEditor";
+import { Signoff, loadSignoff, saveSignoff } from "./Signoff";
+import { BladeWear, activeBlade, loadBlades, saveBlades } from "./BladeWear";
+import { downloadText } from "./download";
+import {
+  BIN_CLASSES, DEFAULT_BIN_TABLE, applyBinTable, classifyDies, listFormats, readWaferMap, summarizeBins, writeWaferMap,
+  type BinClass, type BinRule, type BinSummary, type MapIssue, type WaferMap,
+} from "./wafermap";
+import { DEFAULT_SEED, MODEL_SUITES, runModelTests, type TestReport } from "./tests";
 
 const number = (v:any, d:number=2) => (isFinite(v) ? Number(v).toFixed(d) : "-");
 
-// CSV parser
-function parseCSV(text:string){
-  const lines = text.trim().split(/\r?\n/);
-  if(!lines.length) return [] as any[];
-  const header = lines.shift()!.split(/\s*,\s*/).map(s=>s.toLowerCase());
-  const idx = (n:string)=> header.indexOf(n);
-  const xi = idx("x")>-1 ? idx("x") : idx("die_x");
-  const yi = idx("y")>-1 ? idx("y") : idx("die_y");
-  const si = idx("status");
-  return lines.map(ln=>{
-    const r = ln.split(/\s*,\s*/);
-    return { x: Number(r[xi]||0), y: Number(r[yi]||0), status: String(r[si]||"good").toLowerCase() };
-  });
-}
-
-// Presets
-const MATERIAL_PRESETS = [
-  { key: "Si", name: "Silicon (100)" },
-  { key: "GaAs", name: "GaAs" },
-  { key: "SiC", name: "SiC" },
-  { key: "Sapphire", name: "Sapphire" },
-  { key: "Glass", name: "Borosilicate Glass" },
-];
-const BLADE_OPTIONS = [
-  { key: "Resin", name: "Resin-bonded diamond" },
-  { key: "Metal", name: "Metal-bonded diamond" },
-  { key: "Hybrid", name: "Hybrid bond" },
-];
-
-function vacuumRangeForChuck(chuckType:string){
-  if(chuckType==="HighVac") return { lo: 85, hi: 95 };
-  if(chuckType==="LowVac") return { lo: 60, hi: 75 };
-  return { lo: 70, hi: 90 }; // Standard
-}
-
 export default function DicingEngineerToolkit(){
+  // Material and blade database
+  const [materialDB, setMaterialDB] = useState<MaterialDB>(()=>loadMaterialDB());
+  useEffect(()=>{ saveMaterialDB(materialDB); }, [materialDB]);
+
   // Core recipe
-  const [material, setMaterial] = useState("Si");
-  const [waferDiam, setWaferDiam] = useState(300);
-  const [waferThk, setWaferThk] = useState(725);
-  const [dieW, setDieW] = useState(5.0);
-  const [dieH, setDieH] = useState(5.0);
-  const [street, setStreet] = useState(60);
-  const [bladeDia, setBladeDia] = useState(58);
-  const [bladeThk, setBladeThk] = useState(30);
-  const [bladeBond, setBladeBond] = useState("Resin");
-  const [rpm, setRpm] = useState(30000);
-  const [feed, setFeed] = useState(1.5);
-  const [coolant, setCoolant] = useState(4.0);
-  const [wear, setWear] = useState(0.2);
+  const [material, setMaterial] = useState<Material>(DEFAULT_RECIPE.material);
+  const [waferDiam, setWaferDiam] = useState(DEFAULT_RECIPE.waferDiam);
+  const [waferThk, setWaferThk] = useState(DEFAULT_RECIPE.waferThk);
+  const [dieW, setDieW] = useState(DEFAULT_RECIPE.dieW);
+  const [dieH, setDieH] = useState(DEFAULT_RECIPE.dieH);
+  const [street, setStreet] = useState(DEFAULT_RECIPE.street);
+  const [bladeDia, setBladeDia] = useState(DEFAULT_RECIPE.bladeDia);
+  const [bladeThk, setBladeThk] = useState(DEFAULT_RECIPE.bladeThk);
+  const [bladeBond, setBladeBond] = useState<BondType>(DEFAULT_RECIPE.bladeBond);
+  const [rpm, setRpm] = useState(DEFAULT_RECIPE.rpm);
+  const [feed, setFeed] = useState(DEFAULT_RECIPE.feed);
+  const [coolant, setCoolant] = useState(DEFAULT_RECIPE.coolant);
+  const [manualWear, setWear] = useState(DEFAULT_RECIPE.wear);
+  const [passes, setPasses] = useState<CutPass[]>([]);  // pre-cut passes of a step cut
 
   // Environmental controls
-  const [envTemp, setEnvTemp] = useState(22);
-  const [chuckType, setChuckType] = useState("Standard");
-  const [vacuum, setVacuum] = useState(80);
+  const [envTemp, setEnvTemp] = useState(DEFAULT_RECIPE.envTemp);
+  const [chuckType, setChuckType] = useState<ChuckType>(DEFAULT_RECIPE.chuckType);
+  const [vacuum, setVacuum] = useState(DEFAULT_RECIPE.vacuum);
+
+  // Die placement
+  const [edgeExcl, setEdgeExcl] = useState(DEFAULT_RECIPE.edgeExcl);
+  const [orientation, setOrientation] = useState<OrientationMark>(DEFAULT_RECIPE.orientation);
+  const [gridMode, setGridMode] = useState("optimize");
+  const [gridOffX, setGridOffX] = useState(0);
+  const [gridOffY, setGridOffY] = useState(0);
 
   // Map
-  const [mapGood, setMapGood] = useState<number>();
-  const [mapBad, setMapBad] = useState<number>();
+  const [binTable, setBinTable] = useState<BinRule[]>(DEFAULT_BIN_TABLE);
+  const [waferMap, setWaferMap] = useState<WaferMap>();
+  const [mapFormat, setMapFormat] = useState<string>();
+  const [pendingMap, setPendingMap] = useState<{ fileName:string, format:string, map:WaferMap, issues:MapIssue[] }>();
   const [mapFileName, setMapFileName] = useState<string|undefined>(undefined);
 
-  // Blade life
-  const [expectedLife_m, setExpectedLife_m] = useState(1200);
-  const [cumLength_mm, setCumLength_mm] = useState(0);
+  // Blade life; the active blade's logged wear overrides the manual factor unless switched off.
+  const [blades, setBlades] = useState<BladeLibrary>(()=>loadBlades());
+  useEffect(()=>{ saveBlades(blades); }, [blades]);
+  const [wearFromBlade, setWearFromBlade] = useState(true);
+  const mountedBlade = activeBlade(blades);
+  const wear = wearFromBlade && mountedBlade ? Number(bladeState(mountedBlade).wear.toFixed(3)) : manualWear;
 
   // Alignment
   const [offX, setOffX] = useState(0);
   const [offY, setOffY] = useState(0);
   const [theta, setTheta] = useState(0);
 
-  // Verification measurements
+  // Verification measurements and their recorded history
   const [meas, setMeas] = useState<Record<string,string>>({});
+  const [measLog, setMeasLog] = useState<MeasurementLog>(()=>loadMeasurements());
+  useEffect(()=>{ saveMeasurements(measLog); }, [measLog]);
+  const [specLib, setSpecLib] = useState<SpecLibrary>(()=>loadSpecLibrary());
+  useEffect(()=>{ saveSpecLibrary(specLib); }, [specLib]);
+  const specTemplate = useMemo(()=>activeSpecTemplate(specLib), [specLib]);
+
+  // SOP document and release sign-off. `signoffEditing` is the product whose latest revision
+  // follows the editor; it is not persisted, since the editor starts from defaults.
+  const [sopSettings, setSOPSettings] = useState(()=>loadSOPSettings());
+  useEffect(()=>{ saveSOPSettings(sopSettings); }, [sopSettings]);
+  const [signoff, setSignoff] = useState(()=>loadSignoff());
+  useEffect(()=>{ saveSignoff(signoff); }, [signoff]);
+  const [lotQueue, setLotQueue] = useState(()=>loadLotQueue());
+  useEffect(()=>{ saveLotQueue(lotQueue); }, [lotQueue]);
+  const [scenarios, setScenarios] = useState(()=>loadScenarios());
+  useEffect(()=>{ saveScenarios(scenarios); }, [scenarios]);
+  const [signoffEditing, setSignoffEditing] = useState<string>();
+
+  const recipe:Recipe = useMemo(()=>({
+    material, waferDiam, waferThk, dieW, dieH, street, bladeDia, bladeThk, bladeBond, rpm, feed, coolant, wear, envTemp, chuckType, vacuum, edgeExcl, orientation,
+    passes: passes.length ? passes : undefined,
+  }), [material, waferDiam, waferThk, dieW, dieH, street, bladeDia, bladeThk, bladeBond, rpm, feed, coolant, wear, envTemp, chuckType, vacuum, edgeExcl, orientation, passes]);
 
   // Derived
-  const rpmSug = useMemo(()=>suggestRPM(material, bladeDia, bladeBond), [material, bladeDia, bladeBond]);
-  const feedSug = useMemo(()=>suggestFeed(material, waferThk), [material, waferThk]);
-  const tip = useMemo(()=>bladeTipSpeed(bladeDia, rpm), [bladeDia, rpm]);
-  const kerf = useMemo(()=>estimateKerf(bladeThk, wear), [bladeThk, wear]);
-  const powerKW = useMemo(()=>estimatePowerKW(material, feed, kerf, waferThk), [material, feed, kerf, waferThk]);
-  const coolantSug = useMemo(()=>suggestCoolantLpm(powerKW), [powerKW]);
-  const die = useMemo(()=>dieCount(waferDiam, dieW, dieH, street), [waferDiam, dieW, dieH, street]);
-  const risk = useMemo(()=>chippingRisk(material, feed, tip, waferThk, bladeThk, coolant), [material, feed, tip, waferThk, bladeThk, coolant]);
-
-  const expectedLife_mm = expectedLife_m * 1000;
-  const lifeUsedPct = clamp((cumLength_mm/expectedLife_mm)*100, 0, 200);
+  const die = useMemo(()=>dieCount(waferDiam, dieW, dieH, street, {
+    edgeExclusion_mm: edgeExcl,
+    orientation,
+    offset: gridMode==="fixed" ? { x: gridOffX, y: gridOffY } : undefined,
+  }), [waferDiam, dieW, dieH, street, edgeExcl, orientation, gridMode, gridOffX, gridOffY]);
+  const ev = useMemo(()=>evaluateRecipe(recipe, { layout: die.layout, db: materialDB, specs: specTemplate }), [recipe, die, materialDB, specTemplate]);
+  const validation = useMemo(()=>validateRecipe(recipe, { db: materialDB, layout: die.layout, exposure_um: mountedBlade ? bladeState(mountedBlade).exposure_um : undefined }), [recipe, materialDB, die, mountedBlade]);
+  const vi = (f:Parameters<typeof fieldIssues>[1]) => fieldIssues(validation, f);
+  const blocked = blockReason(validation);
+  const tipWin = { lo: ev.tipWindow.lo.value, hi: ev.tipWindow.hi.value };
+  const rpmSug = ev.suggestions.rpm.value;
+  const feedSug = ev.suggestions.feed.value;
+  const coolantSug = ev.suggestions.coolant.value;
+  const tip = ev.tipSpeed.value;
+  const kerf = ev.kerf.value;
+  const powerKW = ev.spindlePower.value;
+  const risk = ev.chippingRisk.value;
+
+  const passFeeds = useMemo(()=>recipePasses(recipe).map(p=>p.feed), [recipe]);
+
+  const binSummary = useMemo(()=>waferMap ? summarizeBins(waferMap, binTable) : undefined, [waferMap, binTable]);
+  const mapDies = useMemo(()=>waferMap ? classifyDies(waferMap, binTable) : undefined, [waferMap, binTable]);
+  const mapGood = binSummary?.good;
+  const mapBad = binSummary?.reject;
+  const mapYield = binSummary?.yieldPct;
+
+  // Pre-cut passes may mount other blades; every bond must be known before the recipe is evaluated.
+  const bondsOf = (v:Recipe) => Array.from(new Set([v.bladeBond, ...(v.passes ?? []).map(p=>p.bladeBond)]));
+  const loadRecipe = (v:Recipe):boolean => {
+    const unknown = [
+      !materialDB.materials.some(m=>m.id===v.material) && `material "${v.material}"`,
+      ...bondsOf(v).filter(id=>!materialDB.bonds.some(b=>b.id===id)).map(id=>`bond "${id}"`),
+    ].filter(Boolean);
+    if(unknown.length){ alert(`Recipe uses ${unknown.join(" and ")}, which the material database does not define. Add it under Materials first.`); return false; }
+    setMaterial(v.material); setWaferDiam(v.waferDiam); setWaferThk(v.waferThk); setDieW(v.dieW); setDieH(v.dieH); setStreet(v.street);
+    setBladeDia(v.bladeDia); setBladeThk(v.bladeThk); setBladeBond(v.bladeBond); setRpm(v.rpm); setFeed(v.feed); setCoolant(v.coolant); setWear(v.wear);
+    setEnvTemp(v.envTemp); setChuckType(v.chuckType); setVacuum(v.vacuum); setEdgeExcl(v.edgeExcl); setOrientation(v.orientation); setPasses(v.passes ?? []);
+    return true;
+  };
+
+  const alignment = useMemo<Alignment>(()=>({ offsetX_um: offX, offsetY_um: offY, theta_deg: theta }), [offX, offY, theta]);
+  const loadProgram = (v:Recipe, a:Alignment) => {
+    if(!loadRecipe(v)) return false;
+    setOffX(a.offsetX_um); setOffY(a.offsetY_um); setTheta(a.theta_deg);
+    return true;
+  };
+
+  const derive = useCallback((v:Recipe)=>deriveRecipe(v, materialDB), [materialDB]);
 
+  const applyCandidate = (c:ProcessCandidate) => {
+    setRpm(Math.round(c.rpm));
+    setFeed(Number(number(c.feed,2)));
+    setCoolant(Number(number(c.coolant,1)));
+    setBladeThk(Number(number(c.bladeThk,1)));
+  };
+
+  const suggested = useMemo(()=>({ ...recipe, rpm: Math.round(rpmSug), feed: Number(number(feedSug,2)), coolant: Number(number(coolantSug,1)) }), [recipe, rpmSug, feedSug, coolantSug]);
   const applySuggestions = () => {
     setRpm(Math.round(rpmSug));
     setFeed(Number(number(feedSug,2)));
     setCoolant(Number(number(coolantSug,1)));
   };
 
+  const acceptMap = (fileName:string, format:string, map:WaferMap) => {
+    setMapFileName(fileName); setWaferMap(map); setMapFormat(format);
+    setPendingMap(undefined);
+  };
+
   const handleMapUpload = (e:React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0];
     if(!f) return;
-    setMapFileName(f.name);
     const reader = new FileReader();
     reader.onload = ()=>{
       try{
-        const data:any[] = parseCSV(String(reader.result||""));
-        const good = data.filter(d=>d.status!=="bad").length;
-        const bad = data.filter(d=>d.status==="bad").length;
-        setMapGood(good); setMapBad(bad);
-      }catch{
-        alert("Failed to parse map. Ensure CSV header has x,y,status.");
+        const { format, map, issues } = readWaferMap(String(reader.result||""), f.name);
+        // Anything the parser flagged is reviewed in the Map tab before the counts change.
+        if(issues.length) setPendingMap({ fileName: f.name, format: format.name, map, issues });
+        else acceptMap(f.name, format.name, map);
+      }catch(err){
+        alert("Failed to parse map: "+(err as Error).message);
       }
     };
     reader.readAsText(f);
   };
 
-  const verificationSpecs = getVerificationSpecs({street, kerf, dieW, dieH, waferThk, tip, vacuum, chuckType});
+  const verificationSpecs = ev.verificationSpecs;
+  const sopCtx = useMemo(()=>sopContext(recipe, ev, { acceptance: [specLib.product, specTemplate.name, specTemplate.customer].filter(Boolean).join(" / ") }), [recipe, ev, specLib.product, specTemplate]);
+  const sopSnap = useMemo(()=>{
+    const doc = renderSOP(activeSOPTemplate(sopSettings), sopCtx, sopSettings.control, sopSettings.revisions).doc;
+    return { docNumber: doc.control.docNumber, revision: doc.control.revision, markdown: sopToMarkdown(doc) };
+  }, [sopCtx, sopSettings]);
+  const signoffName = specLib.product ?? material;
+  useEffect(()=>{
+    if(signoffEditing === signoffName) setSignoff(b=>reviseOnEdit(b, signoffName, recipe, sopSnap, localStorage.getItem("dicing-toolkit.author") ?? ""));
+  }, [signoffEditing, signoffName, recipe, sopSnap]);
+  const checkout = (n:string, r?:Recipe) => { if(!r || loadRecipe(r)) setSignoffEditing(n); };
+
+  const exportMap = (formatId:string) => {
+    if(!waferMap) return;
+    try {
+      const fmt = listFormats().find(x=>x.id===formatId)!;
+      const base = (mapFileName ?? "wafer_map").replace(/\.[^.]+$/, "");
+      downloadText(`${base}${fmt.extensions[0]}`, writeWaferMap(applyBinTable(waferMap, binTable), formatId), "text/plain;charset=utf-8;");
+    } catch(err) { alert("Map export failed: "+(err as Error).message); }
+  };
 
   const exportCSV = () => {
     try {
@@ -199,21 +249,18 @@ export default function DicingEngineerToolkit(){
         ["Die Count (usable)", (mapGood ?? die.usable).toString(), "pcs"],
         ["Map Good", (mapGood ?? "").toString(), "pcs"],
         ["Map Bad", (mapBad ?? "").toString(), "pcs"],
-        ["Yield (%)", mapGood && die.usable? number((mapGood/die.usable)*100,1):"-", "%"],
+        ["Map Unknown Bins", (binSummary?.unknown ?? "").toString(), "pcs"],
+        ["Yield (%)", mapYield!==undefined ? number(mapYield,1) : "-", "% of testable"],
+        ["Product", specLib.product ?? "-", "-"],
+        ["Spec Template", specTemplate.name, specTemplate.customer ?? "-"],
         ["--- Verification ---","",""],
       ];
       verificationSpecs.forEach(s=>{
-        const m = Number(meas[s.key]);
-        const ok = isFinite(m) && m>=s.lo && m<=s.hi;
-        const status = isFinite(m) ? (ok? 'PASS' : 'FAIL') : '-';
+        const status = specStatus(s, meas[s.key]) ?? '-';
         rows.push([s.name, (meas[s.key]??''), `${number(s.lo)}–${number(s.hi)}`, status]);
       });
-      const csv = rows.map(r=>r.join(",")).join("\n");
-      const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url; a.download = "dicing_toolkit_export.csv"; a.click();
-      URL.revokeObjectURL(url);
+      const csv = rows.map(r=>r.map(csvCell).join(",")).join("\n");
+      downloadText("dicing_toolkit_export.csv", csv, "text/csv;charset=utf-8;");
     } catch(err) { alert("CSV export failed: "+(err as Error).message); }
   };
 
@@ -223,20 +270,25 @@ export default function DicingEngineerToolkit(){
         <h1 className="text-2xl md:text-3xl font-semibold tracking-tight">Wafer Dicing Engineer Toolkit</h1>
         <div className="flex gap-2">
           <Button onClick={applySuggestions}><Sparkles className="mr-2 h-4 w-4"/>Apply Suggestions</Button>
-          <Button variant="outline" onClick={exportCSV}><Download className="mr-2 h-4 w-4"/>Export CSV</Button>
+          <Button variant="outline" onClick={exportCSV} disabled={!!blocked} title={blocked}><Download className="mr-2 h-4 w-4"/>Export CSV</Button>
         </div>
       </header>
 
       <Tabs defaultValue="process">
-        <TabsList className="grid grid-cols-9 w-full md:w-auto">
+        <TabsList className="flex flex-wrap h-auto w-full md:w-auto">
           <TabsTrigger value="process"><Settings className="mr-2 h-4 w-4"/>Process</TabsTrigger>
           <TabsTrigger value="planning"><Calculator className="mr-2 h-4 w-4"/>Planning</TabsTrigger>
+          <TabsTrigger value="lots">Lots</TabsTrigger>
           <TabsTrigger value="risk"><AlertTriangle className="mr-2 h-4 w-4"/>Risk</TabsTrigger>
           <TabsTrigger value="map"><Upload className="mr-2 h-4 w-4"/>Map</TabsTrigger>
           <TabsTrigger value="life">Blade Life & Align</TabsTrigger>
           <TabsTrigger value="verify">Verification</TabsTrigger>
           <TabsTrigger value="sop">SOP</TabsTrigger>
           <TabsTrigger value="flow"><ListOrdered className="mr-2 h-4 w-4"/>Process Flow</TabsTrigger>
+          <TabsTrigger value="recipes">Recipes</TabsTrigger>
+          <TabsTrigger value="compare">Compare</TabsTrigger>
+          <TabsTrigger value="materials">Materials</TabsTrigger>
+          <TabsTrigger value="calibration">Calibration</TabsTrigger>
           <TabsTrigger value="tests">Tests</TabsTrigger>
         </TabsList>
 
@@ -244,36 +296,37 @@ export default function DicingEngineerToolkit(){
         <TabsContent value="process">
           <Card><CardContent className="p-4 space-y-4">
             <h2 className="text-lg font-medium">Process Setup</h2>
+            <ValidationSummary validation={validation}/>
 
             <div className="grid md:grid-cols-2 gap-4">
               <div className="space-y-3">
-                <Row label="Material">
-                  <Select value={material} onValueChange={setMaterial}>
+                <Row label="Material" issues={vi("material")}>
+                  <Select value={material} onValueChange={v=>setMaterial(v as Material)}>
                     <SelectTrigger><SelectValue/></SelectTrigger>
                     <SelectContent>
-                      {MATERIAL_PRESETS.map(m=>(<SelectItem key={m.key} value={m.key}>{m.name}</SelectItem>))}
+                      {materialDB.materials.map(m=>(<SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>))}
                     </SelectContent>
                   </Select>
                 </Row>
                 <Row label="Internal Structure (notes)"><Input placeholder="e.g. Backgrind + Ta barrier + Cu layer"/></Row>
-                <Row label="Scrub Line Width (µm)"><Input type="number" value={street} onChange={e=>setStreet(Number(e.target.value))}/></Row>
+                <Row label="Scrub Line Width (µm)" issues={vi("street")}><Input type="number" value={street} onChange={e=>setStreet(Number(e.target.value))}/></Row>
                 <Row label="Orientation"><Input placeholder="Notch @ 6 o'clock"/></Row>
                 <Row label="Fiducial Marks"><Input placeholder="Box-in-box, cross, etc."/></Row>
-                <Row label="Environment Temp (°C)"><Input type="number" value={envTemp} onChange={e=>setEnvTemp(Number(e.target.value))}/></Row>
+                <Row label="Environment Temp (°C)" issues={vi("envTemp")}><Input type="number" value={envTemp} onChange={e=>setEnvTemp(Number(e.target.value))}/></Row>
               </div>
 
               <div className="space-y-3">
-                <Row label="Wafer Diameter (mm)"><Input type="number" value={waferDiam} onChange={e=>setWaferDiam(Number(e.target.value))}/></Row>
-                <Row label="Wafer Thickness (µm)"><Input type="number" value={waferThk} onChange={e=>setWaferThk(Number(e.target.value))}/></Row>
-                <Row label="Die Width (mm)"><Input type="number" value={dieW} onChange={e=>setDieW(Number(e.target.value))}/></Row>
-                <Row label="Die Height (mm)"><Input type="number" value={dieH} onChange={e=>setDieH(Number(e.target.value))}/></Row>
-                <Row label="Blade Diameter (mm)"><Input type="number" value={bladeDia} onChange={e=>setBladeDia(Number(e.target.value))}/></Row>
-                <Row label="Blade Thickness (µm)"><Input type="number" value={bladeThk} onChange={e=>setBladeThk(Number(e.target.value))}/></Row>
-                <Row label="Blade Bond">
-                  <Select value={bladeBond} onValueChange={setBladeBond}>
+                <Row label="Wafer Diameter (mm)" issues={vi("waferDiam")}><Input type="number" value={waferDiam} onChange={e=>setWaferDiam(Number(e.target.value))}/></Row>
+                <Row label="Wafer Thickness (µm)" issues={vi("waferThk")}><Input type="number" value={waferThk} onChange={e=>setWaferThk(Number(e.target.value))}/></Row>
+                <Row label="Die Width (mm)" issues={vi("dieW")}><Input type="number" value={dieW} onChange={e=>setDieW(Number(e.target.value))}/></Row>
+                <Row label="Die Height (mm)" issues={vi("dieH")}><Input type="number" value={dieH} onChange={e=>setDieH(Number(e.target.value))}/></Row>
+                <Row label="Blade Diameter (mm)" issues={vi("bladeDia")}><Input type="number" value={bladeDia} onChange={e=>setBladeDia(Number(e.target.value))}/></Row>
+                <Row label="Blade Thickness (µm)" issues={vi("bladeThk")}><Input type="number" value={bladeThk} onChange={e=>setBladeThk(Number(e.target.value))}/></Row>
+                <Row label="Blade Bond" issues={vi("bladeBond")}>
+                  <Select value={bladeBond} onValueChange={v=>setBladeBond(v as BondType)}>
                     <SelectTrigger><SelectValue/></SelectTrigger>
                     <SelectContent>
-                      {BLADE_OPTIONS.map(b=>(<SelectItem key={b.key} value={b.key}>{b.name}</SelectItem>))}
+                      {materialDB.bonds.map(b=>(<SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>))}
                     </SelectContent>
                   </Select>
                 </Row>
@@ -282,13 +335,17 @@ export default function DicingEngineerToolkit(){
 
             <div className="grid md:grid-cols-2 gap-4">
               <Card className="rounded-xl border"><CardContent className="p-4 space-y-3">
-                <h3 className="font-medium">Machine Setpoints</h3>
-                <Row label={`RPM (suggest ${number(rpmSug,0)})`}><Input type="number" value={rpm} onChange={e=>setRpm(Number(e.target.value))}/></Row>
-                <Row label={`Feed (mm/s) (suggest ${number(feedSug)})`}><Input type="number" value={feed} onChange={e=>setFeed(Number(e.target.value))}/></Row>
-                <Row label={`Coolant (L/min) (suggest ${number(coolantSug,1)})`}><Input type="number" value={coolant} onChange={e=>setCoolant(Number(e.target.value))}/></Row>
-                <Row label="Wear Factor (0–1)"><Input type="number" step={0.01} value={wear} onChange={e=>setWear(Number(e.target.value))}/></Row>
+                <h3 className="font-medium">Machine Setpoints{passes.length > 0 && ` (through-cut Z${passes.length + 1})`}</h3>
+                <Row label={`RPM (suggest ${number(rpmSug,0)})`} issues={vi("rpm")}><Input type="number" value={rpm} onChange={e=>setRpm(Number(e.target.value))}/></Row>
+                <Row label={`Feed (mm/s) (suggest ${number(feedSug)})`} issues={vi("feed")}><Input type="number" value={feed} onChange={e=>setFeed(Number(e.target.value))}/></Row>
+                <Row label={`Coolant (L/min) (suggest ${number(coolantSug,1)})`} issues={vi("coolant")}><Input type="number" value={coolant} onChange={e=>setCoolant(Number(e.target.value))}/></Row>
+                <Row label="Wear Factor (0–1)" issues={vi("wear")}><Input type="number" step={0.01} value={wear} disabled={wearFromBlade && !!mountedBlade} onChange={e=>setWear(Number(e.target.value))}/></Row>
+                {mountedBlade && <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <input type="checkbox" checked={wearFromBlade} onChange={e=>setWearFromBlade(e.target.checked)}/>
+                  Wear from blade {mountedBlade.serial} log
+                </label>}
                 <div className="grid grid-cols-2 gap-3">
-                  <Metric label="Tip Speed" value={`${number(tip)} m/s`} note="Target 30–45"/>
+                  <Metric label="Tip Speed" value={`${number(tip)} m/s`} note={`Target ${tipWin.lo}–${tipWin.hi}`}/>
                   <Metric label="Kerf (est)" value={`${number(kerf)} µm`} note="Grows with wear"/>
                 </div>
               </CardContent></Card>
@@ -299,8 +356,8 @@ export default function DicingEngineerToolkit(){
                   <Metric label="Spindle Power" value={`${number(powerKW,3)} kW`} note="Approx."/>
                   <Metric label="Chipping Risk" value={`${risk}/100`} note={risk<35?"Low":"Watch"}/>
                 </div>
-                <Row label="Chuck Type">
-                  <Select value={chuckType} onValueChange={setChuckType}>
+                <Row label="Chuck Type" issues={vi("chuckType")}>
+                  <Select value={chuckType} onValueChange={v=>setChuckType(v as ChuckType)}>
                     <SelectTrigger><SelectValue/></SelectTrigger>
                     <SelectContent>
                       <SelectItem value="Standard">Standard (70–90 kPa)</SelectItem>
@@ -309,10 +366,13 @@ export default function DicingEngineerToolkit(){
                     </SelectContent>
                   </Select>
                 </Row>
-                <Row label="Vacuum Level (kPa)"><Input type="number" value={vacuum} onChange={e=>setVacuum(Number(e.target.value))}/></Row>
+                <Row label="Vacuum Level (kPa)" issues={vi("vacuum")}><Input type="number" value={vacuum} onChange={e=>setVacuum(Number(e.target.value))}/></Row>
                 <Button onClick={applySuggestions} className="rounded-2xl">Apply Suggested Setpoints</Button>
               </CardContent></Card>
             </div>
+
+            <CutPasses recipe={recipe} passes={passes} onChange={setPasses} results={ev.passes} db={materialDB} issues={vi("passes")}/>
+            <ProcessOptimizer recipe={recipe} layout={die.layout} db={materialDB} onApply={applyCandidate}/>
           </CardContent></Card>
         </TabsContent>
 
@@ -326,21 +386,68 @@ export default function DicingEngineerToolkit(){
               <Metric label="Usable Dies" value={`${mapGood ?? die.usable}`}/>
               <Metric label="Good Dies" value={`${mapGood ?? '-'}`}/>
               <Metric label="Bad Dies" value={`${mapBad ?? '-'}`}/>
-              <Metric label="Yield" value={`${mapGood && die.usable? number((mapGood/die.usable)*100,1):'-'} %`}/>
+              <Metric label="Yield" value={`${mapYield!==undefined ? number(mapYield,1) : '-'} %`} note="Good / testable"/>
+            </div>
+            {binSummary && <BinPareto summary={binSummary}/>}
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-3">
+                <Row label="Edge Exclusion (mm)" issues={vi("edgeExcl")}><Input type="number" step={0.5} value={edgeExcl} onChange={e=>setEdgeExcl(Number(e.target.value))}/></Row>
+                <Row label="Orientation Mark">
+                  <Select value={orientation} onValueChange={v=>setOrientation(v as OrientationMark)}>
+                    <SelectTrigger><SelectValue/></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="notch">Notch</SelectItem>
+                      <SelectItem value="flat">Flat</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </Row>
+              </div>
+              <div className="space-y-3">
+                <Row label="Grid Offset">
+                  <Select value={gridMode} onValueChange={setGridMode}>
+                    <SelectTrigger><SelectValue/></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="optimize">Maximize gross die</SelectItem>
+                      <SelectItem value="fixed">Fixed offset</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </Row>
+                {gridMode==="fixed" ? <>
+                  <Row label="Offset X (mm)"><Input type="number" step={0.1} value={gridOffX} onChange={e=>setGridOffX(Number(e.target.value))}/></Row>
+                  <Row label="Offset Y (mm)"><Input type="number" step={0.1} value={gridOffY} onChange={e=>setGridOffY(Number(e.target.value))}/></Row>
+                </> : <p className="text-xs text-muted-foreground">Best offset: X {number(die.layout.offset.x,3)} mm, Y {number(die.layout.offset.y,3)} mm from wafer center.</p>}
+              </div>
             </div>
-            <ThroughputPanel waferDiam={waferDiam} dieW={dieW} dieH={dieH} street={street} feed={feed} />
-            <p className="text-xs text-muted-foreground">Usable dies falls back to geometric estimate unless a wafer map is loaded.</p>
+            <CycleTime layout={die.layout} waferDiam={waferDiam} feed={passFeeds} />
+            <WaferMapView waferDiam={waferDiam} layout={die.layout} dieW={dieW} dieH={dieH} street={street} kerf={kerf}
+              orientation={orientation} offX={offX} offY={offY} theta={theta}/>
+            <p className="text-xs text-muted-foreground">Usable dies counts complete dies inside the edge exclusion unless a wafer map is loaded.</p>
+          </CardContent></Card>
+          <Card className="mt-4"><CardContent className="p-4 space-y-3">
+            <h2 className="text-lg font-medium">Saw Program</h2>
+            <SawProgram recipe={recipe} layout={die.layout} alignment={alignment} onLoad={loadProgram} blocked={blocked}/>
+          </CardContent></Card>
+        </TabsContent>
+
+        {/* LOTS */}
+        <TabsContent value="lots">
+          <Card><CardContent className="p-4 space-y-3">
+            <h2 className="text-lg font-medium">Lot Planner</h2>
+            <LotPlanner queue={lotQueue} onChange={setLotQueue} current={recipe} db={materialDB} defaultYield={mapYield ?? 100}/>
           </CardContent></Card>
         </TabsContent>
 
         {/* RISK */}
         <TabsContent value="risk">
           <div className="grid md:grid-cols-3 gap-4">
+            <div className="md:col-span-3">
+              <ContourMap recipe={recipe} layout={die.layout} db={materialDB} suggested={{ rpm: rpmSug, feed: feedSug, coolant: coolantSug }}/>
+            </div>
             <Card className="rounded-2xl border"><CardContent className="p-4 space-y-3">
               <h2 className="text-lg font-medium">Risk Breakdown</h2>
               <ul className="text-sm list-disc pl-5 space-y-1">
-                <li>Material sensitivity baseline: Si (low) → Sapphire/SiC (high).</li>
-                <li>Tip speed outside 30–45 m/s increases micro-chipping risk.</li>
+                <li>Material sensitivity baseline: {material} scores {materialSpec(materialDB, material).riskBase} before process terms.</li>
+                <li>Tip speed outside {tipWin.lo}–{tipWin.hi} m/s increases micro-chipping risk.</li>
                 <li>Higher feed and thicker blades amplify edge stress.</li>
                 <li>Coolant reduces thermal/mechanical damage risk.</li>
               </ul>
@@ -350,7 +457,7 @@ export default function DicingEngineerToolkit(){
               <div className="grid md:grid-cols-2 gap-3 text-sm">
                 <ActionHint title="If chipping is high">
                   • Raise coolant toward suggestion.
-                  <br/>• Bring tip speed into 30–45 m/s (tune RPM / blade Ø).
+                  <br/>• Bring tip speed into {tipWin.lo}–{tipWin.hi} m/s (tune RPM / blade Ø).
                   <br/>• Reduce feed toward suggestion.
                   <br/>• Consider thinner blade or resin bond.
                 </ActionHint>
@@ -367,37 +474,41 @@ export default function DicingEngineerToolkit(){
         {/* MAP */}
         <TabsContent value="map">
           <Card><CardContent className="p-4 space-y-3">
-            <h2 className="text-lg font-medium">Import Wafer Map (CSV)</h2>
-            <input type="file" accept=".csv,.txt" onChange={handleMapUpload} />
-            {mapFileName && <p className="text-sm">Uploaded: {mapFileName}</p>}
+            <h2 className="text-lg font-medium">Import Wafer Map</h2>
+            <input type="file" accept={listFormats().flatMap(f=>f.extensions).join(",")} onChange={handleMapUpload} />
+            {pendingMap && <MapIssuePanel pending={pendingMap}
+              onAccept={()=>acceptMap(pendingMap.fileName, pendingMap.format, pendingMap.map)} onDiscard={()=>setPendingMap(undefined)}/>}
+            {mapFileName && <p className="text-sm">Uploaded: {mapFileName}{mapFormat ? ` (${mapFormat})` : ""}</p>}
+            {waferMap && <p className="text-sm text-muted-foreground">
+              Lot {waferMap.lotId || "-"} · Wafer {waferMap.waferId || "-"} · {waferMap.cols}×{waferMap.rows} grid
+              · {waferMap.orientation.mark} @ {waferMap.orientation.deg}°
+              · Ref die {waferMap.refDie ? `${waferMap.refDie.x},${waferMap.refDie.y}` : "-"}
+              · Bins {waferMap.bins.map(b=>b.code).join(" ")}
+            </p>}
             <div className="grid grid-cols-2 gap-3">
               <Metric label="Good Dies" value={`${mapGood ?? "-"}`}/>
               <Metric label="Bad Dies" value={`${mapBad ?? "-"}`}/>
             </div>
-            <p className="text-xs text-muted-foreground">CSV columns: <code>x,y,status</code> or <code>die_x,die_y,status</code>. Status values: <code>good</code> / <code>bad</code>.</p>
+            {binSummary && binSummary.unknown>0 && <div className="text-sm text-red-600">
+              {binSummary.unknown} die(s) with unknown bin codes ({binSummary.unknownCodes.join(", ")}) are excluded from yield. Add them to the bin table.
+            </div>}
+            {binSummary && <BinPareto summary={binSummary}/>}
+            <BinTableEditor table={binTable} setTable={setBinTable} unknownCodes={binSummary?.unknownCodes ?? []}/>
+            {waferMap && <div className="flex flex-wrap gap-2">
+              {listFormats().map(fmt=>(
+                <Button key={fmt.id} variant="outline" onClick={()=>exportMap(fmt.id)}><Download className="mr-2 h-4 w-4"/>{fmt.name}</Button>
+              ))}
+            </div>}
+            <p className="text-xs text-muted-foreground">Formats: SINF, SEMI E142 XML, KLARF 1.2 (detected from content) or CSV with <code>x,y,status</code> (aliases <code>die_x</code>/<code>col</code>, <code>die_y</code>/<code>row</code>, <code>bin</code>), comma, semicolon or tab delimited. Rows with problems are listed by line before the map is accepted.</p>
+            {mapDies && <WaferMapView waferDiam={waferDiam} layout={die.layout} dieW={dieW} dieH={dieH} street={street} kerf={kerf}
+              orientation={orientation} mapDies={mapDies} offX={offX} offY={offY} theta={theta}/>}
           </CardContent></Card>
         </TabsContent>
 
         {/* LIFE & ALIGN */}
         <TabsContent value="life">
           <div className="grid md:grid-cols-2 gap-4">
-            <Card><CardContent className="p-4 space-y-3">
-              <h2 className="text-lg font-medium">Blade Life Tracking</h2>
-              <Row label="Expected Life (m)"><Input type="number" value={expectedLife_m} onChange={e=>setExpectedLife_m(Number(e.target.value))}/></Row>
-              <Row label="Accumulated Cut (mm)"><Input type="number" value={cumLength_mm} onChange={e=>setCumLength_mm(Number(e.target.value))}/></Row>
-              <div className="grid grid-cols-2 gap-3">
-                <Metric label="Life Used" value={`${number(lifeUsedPct,1)} %`} note={lifeUsedPct>90?"Swap soon":"OK"}/>
-                <Metric label="Remaining" value={`${number((expectedLife_mm-cumLength_mm)/1000,1)} m`}/>
-              </div>
-              <Button onClick={()=>{
-                const pitchX = dieW + umToMm(street);
-                const pitchY = dieH + umToMm(street);
-                const lanesX = Math.max(0, Math.floor(waferDiam/pitchX)-1);
-                const lanesY = Math.max(0, Math.floor(waferDiam/pitchY)-1);
-                const added = waferDiam*(lanesX+lanesY);
-                setCumLength_mm(v=>v+added);
-              }}>Add One Wafer Cycle</Button>
-            </CardContent></Card>
+            <BladeWear lib={blades} onChange={setBlades} recipe={recipe} layout={die.layout} db={materialDB}/>
 
             <Card><CardContent className="p-4 space-y-3">
               <h2 className="text-lg font-medium">Alignment Offsets</h2>
@@ -415,6 +526,12 @@ export default function DicingEngineerToolkit(){
               })()}
             </CardContent></Card>
           </div>
+          <Card className="mt-4"><CardContent className="p-4 space-y-3">
+            <h2 className="text-lg font-medium">Alignment Calculator</h2>
+            <p className="text-xs text-muted-foreground">Enter the measured position of each fiducial or street crossing; the best fit gives θ and the XY offset, and every lane is checked against the street clearance with the correction currently applied.</p>
+            <AlignmentCalculator layout={die.layout} waferDiam={waferDiam} kerf={kerf} street={street} applied={alignment}
+              onApply={a=>{ setOffX(a.offsetX_um); setOffY(a.offsetY_um); setTheta(a.theta_deg); }}/>
+          </CardContent></Card>
         </TabsContent>
 
         {/* VERIFY */}
@@ -422,38 +539,22 @@ export default function DicingEngineerToolkit(){
           <Card><CardContent className="p-4 space-y-4">
             <h2 className="text-lg font-medium">Verification & Dummy Run</h2>
             <SpecTable specs={verificationSpecs} meas={meas} setMeas={setMeas}/>
-            <div className="flex gap-2">
-              <Button onClick={()=>alert('Dummy sample queued with current setpoints.')}>Run Dummy Sample</Button>
-              <Button variant="outline" onClick={()=>alert('Repeat planned: adjust toward suggestions and re-measure.')}>Plan Repeat If OOS</Button>
-            </div>
+            <Qualification recipe={recipe} specs={verificationSpecs} meas={meas} name={specLib.product ?? material} onApply={loadRecipe}/>
           </CardContent></Card>
+          <div className="mt-4"><SpecTemplates lib={specLib} onChange={setSpecLib}/></div>
+          <div className="mt-4"><SPC specs={verificationSpecs} meas={meas} log={measLog} onChange={setMeasLog}/></div>
         </TabsContent>
 
         {/* SOP */}
         <TabsContent value="sop">
           <Card><CardContent className="p-4 space-y-3">
-            <h2 className="text-lg font-medium">Generated SOP (Preview)</h2>
-            <SOPBlock
-              material={material}
-              waferDiam={waferDiam}
-              waferThk={waferThk}
-              dieW={dieW}
-              dieH={dieH}
-              street={street}
-              bladeDia={bladeDia}
-              bladeThk={bladeThk}
-              bladeBond={bladeBond}
-              rpm={rpm}
-              feed={feed}
-              coolant={coolant}
-              wear={wear}
-              tip={tip}
-              kerf={kerf}
-              envTemp={envTemp}
-              chuckType={chuckType}
-              vacuum={vacuum}
-            />
-            <p className="text-xs text-muted-foreground">Review and export to PDF/CSV externally. This is a generated draft suitable for release after sign-off.</p>
+            <h2 className="text-lg font-medium">Standard Operating Procedure</h2>
+            <SOPEditor ctx={sopCtx} settings={sopSettings} onChange={setSOPSettings} blocked={blocked}/>
+            <p className="text-xs text-muted-foreground">Generated from the current recipe and spec template. Release to production after sign-off below.</p>
+          </CardContent></Card>
+          <Card className="mt-4"><CardContent className="p-4 space-y-3">
+            <h2 className="text-lg font-medium">Release Sign-off</h2>
+            <Signoff book={signoff} onChange={setSignoff} name={signoffName} recipe={recipe} sop={sopSnap} editing={signoffEditing} onCheckout={checkout} blocked={blocked}/>
           </CardContent></Card>
         </TabsContent>
 
@@ -463,12 +564,12 @@ export default function DicingEngineerToolkit(){
             <h2 className="text-lg font-medium">Process Flow Summary</h2>
             {(()=>{
               const vac = vacuumRangeForChuck(chuckType);
-              const yieldPct = mapGood && die.usable ? Number(((mapGood/die.usable)*100).toFixed(1)) : undefined;
+              const yieldPct = mapYield!==undefined ? Number(mapYield.toFixed(1)) : undefined;
               return (
                 <ol className="list-decimal pl-6 text-sm space-y-1">
                   <li>Wafer Prep: {material}, {waferDiam} mm diameter, {waferThk} µm thickness.</li>
                   <li>Die Layout: {dieW} × {dieH} mm; Street {street} µm.</li>
-                  <li>Blade: Ø{bladeDia} mm × {bladeThk} µm; Bond {bladeBond}; Kerf est. {number(kerf)} µm.</li>
+                  <li>Blade: Ø{bladeDia} mm × {bladeThk} µm; Bond {bladeBond}; Kerf est. {number(kerf)} µm.{passes.length > 0 && ` Step cut after ${passes.map(p=>`${p.name} (${p.bladeThk} µm to ${p.depth} µm)`).join(", ")}.`}</li>
                   <li>Machine Setpoints: {Math.round(rpm)} rpm; Feed {number(feed)} mm/s; Coolant {number(coolant,1)} L/min; Tip speed {number(tip)} m/s.</li>
                   <li>Environment: {envTemp} °C; Chuck {chuckType}; Vacuum target {vac.lo}–{vac.hi} kPa (current {vacuum} kPa).</li>
                   <li>Inspection: Good {mapGood ?? '-'} | Bad {mapBad ?? '-'} | Yield {yieldPct ?? '-'}%.</li>
@@ -478,6 +579,29 @@ export default function DicingEngineerToolkit(){
           </CardContent></Card>
         </TabsContent>
 
+        {/* RECIPES */}
+        <TabsContent value="recipes">
+          <RecipeLibrary current={recipe} derive={derive} onLoad={loadRecipe}/>
+        </TabsContent>
+
+        {/* COMPARE */}
+        <TabsContent value="compare">
+          <Card><CardContent className="p-4 space-y-3">
+            <h2 className="text-lg font-medium">Scenario Comparison</h2>
+            <ScenarioCompare workspace={scenarios} onChange={setScenarios} current={recipe} suggested={suggested} db={materialDB} specs={specTemplate} onPromote={loadRecipe}/>
+          </CardContent></Card>
+        </TabsContent>
+
+        {/* MATERIALS */}
+        <TabsContent value="materials">
+          <MaterialDatabase db={materialDB} onChange={setMaterialDB} inUse={{ material, bonds: bondsOf(recipe) }}/>
+        </TabsContent>
+
+        {/* CALIBRATION */}
+        <TabsContent value="calibration">
+          <Calibration db={materialDB} onChange={setMaterialDB} inUse={{ material, bonds: bondsOf(recipe) }}/>
+        </TabsContent>
+
         {/* TESTS */}
         <TabsContent value="tests">
           <TestsTab />
@@ -491,11 +615,27 @@ export default function DicingEngineerToolkit(){
   );
 }
 
-function Row({label, children}:{label:string, children:React.ReactNode}){
+// Derived values shown in recipe diffs; blank when the version uses a material the database lacks.
+const DERIVED_FIELDS:{ key:string, label:string, unit:string, get:(e:RecipeEvaluation)=>number }[] = [
+  { key: "tip", label: "Tip Speed", unit: "m/s", get: e=>e.tipSpeed.value },
+  { key: "kerf", label: "Kerf (est)", unit: "µm", get: e=>e.kerf.value },
+  { key: "power", label: "Spindle Power (est)", unit: "kW", get: e=>e.spindlePower.value },
+  { key: "coolantSug", label: "Coolant Suggestion", unit: "L/min", get: e=>e.suggestions.coolant.value },
+  { key: "risk", label: "Chipping Risk", unit: "0-100", get: e=>e.chippingRisk.value },
+  { key: "dies", label: "Die Count (usable)", unit: "pcs", get: e=>e.dies.usable.value },
+];
+
+function deriveRecipe(v:Recipe, db:MaterialDB){
+  let e:RecipeEvaluation|undefined;
+  try { e = evaluateRecipe(v, { db }); } catch { e = undefined; }
+  return DERIVED_FIELDS.map(({get, ...f})=>({ ...f, value: e ? get(e) : NaN }));
+}
+
+function Row({label, children, issues}:{label:string, children:React.ReactNode, issues?:ValidationIssue[]}){
   return (
     <div className="grid grid-cols-12 items-center gap-3">
       <Label className="col-span-5 md:col-span-4 text-sm">{label}</Label>
-      <div className="col-span-7 md:col-span-8">{children}</div>
+      <div className="col-span-7 md:col-span-8">{children}{issues && <FieldIssues issues={issues}/>}</div>
     </div>
   );
 }
@@ -519,7 +659,7 @@ function ActionHint({title, children}:{title:string, children:React.ReactNode}){
   );
 }
 
-function SpecTable({specs, meas, setMeas}:{specs:{name:string,nom:number,lo:number,hi:number,key:string}[], meas:Record<string,string>, setMeas:React.Dispatch<React.SetStateAction<Record<string,string>>>}){
+function SpecTable({specs, meas, setMeas}:{specs:VerificationSpec[], meas:Record<string,string>, setMeas:React.Dispatch<React.SetStateAction<Record<string,string>>>}){
   return (
     <div className="overflow-x-auto">
       <table className="w-full text-sm">
@@ -534,9 +674,7 @@ function SpecTable({specs, meas, setMeas}:{specs:{name:string,nom:number,lo:numb
         </thead>
         <tbody>
           {specs.map(s=>{
-            const m = Number(meas[s.key]);
-            const ok = isFinite(m) && m>=s.lo && m<=s.hi;
-            const status = isFinite(m) ? (ok? 'PASS' : 'FAIL') : '-';
+            const status = specStatus(s, meas[s.key]) ?? '-';
             return (
               <tr key={s.key} className="border-t">
                 <td className="py-2 pr-3">{s.name}</td>
@@ -555,95 +693,130 @@ function SpecTable({specs, meas, setMeas}:{specs:{name:string,nom:number,lo:numb
   );
 }
 
-function SOPBlock(props:{material:string, waferDiam:number, waferThk:number, dieW:number, dieH:number, street:number, bladeDia:number, bladeThk:number, bladeBond:string, rpm:number, feed:number, coolant:number, wear:number, tip:number, kerf:number, envTemp:number, chuckType:string, vacuum:number}){
-  const {
-    material, waferDiam, waferThk, dieW, dieH, street, bladeDia, bladeThk, bladeBond, rpm, feed, coolant, wear, tip, kerf, envTemp, chuckType, vacuum
-  } = props;
-  const vac = vacuumRangeForChuck(chuckType);
-  const text = `SOP: Wafer Dicing\n\n1) Wafer Structure & Identification\n- Material: ${material}\n- Diameter: ${waferDiam} mm; Thickness: ${waferThk} µm\n- Die size: ${dieW} × ${dieH} mm; Streets: ${street} µm\n- Orientation: notch/flat per traveler; Fiducials per mask (verify visibility).\n\n2) Blade Selection\n- Blade Ø: ${bladeDia} mm; Thickness: ${bladeThk} µm; Bond: ${bladeBond}\n- Expected kerf (initial): ${number(kerf)} µm; Tip speed target 30–45 m/s (current ${number(tip)}).\n\n3) Machine Setpoints\n- Spindle speed: ${Math.round(rpm)} rpm\n- Feed: ${number(feed)} mm/s\n- Coolant: ${number(coolant,1)} L/min\n- Wear factor: ${number(wear,2)} (update after every wafer)\n\n4) Environment & Vacuum\n- Room temp: ${envTemp} °C\n- Chuck: ${chuckType} (target ${vac.lo}–${vac.hi} kPa, set ${vacuum} kPa)\n\n5) Dummy Sample Run\n- Run 1 wafer with current setpoints. Inspect kerf, edge chipping, die size.\n\n6) Measurement & Acceptance\n- Streets: ${street} µm ±10%\n- Die size: ±10 µm\n- Wafer thickness: ±2%\n- Kerf ≤ 1.5× blade thickness (monitor wear).\n\n7) Actions If OOS\n- Bring tip speed into 30–45 m/s via rpm.\n- Reduce feed or raise coolant.\n- Consider thinner/resin bond if chipping high.\n\n8) Documentation\n- Record all parameters and measurements in traveler. Release to production after PASS.\n`;
+function MapIssuePanel({pending, onAccept, onDiscard}:{pending:{fileName:string, format:string, map:WaferMap, issues:MapIssue[]}, onAccept:()=>void, onDiscard:()=>void}){
+  const errors = pending.issues.filter(i=>i.severity==="error").length;
+  const shown = pending.issues.slice(0, 100);
   return (
-    <pre className="text-sm whitespace-pre-wrap p-3 rounded-xl border bg-muted/30">{text}</pre>
+    <div className="p-3 rounded-xl border space-y-2">
+      <div className="text-sm font-medium">
+        {pending.fileName} ({pending.format}): {pending.map.dies.length} dies read, {errors} error(s), {pending.issues.length - errors} warning(s)
+      </div>
+      <div className="max-h-48 overflow-y-auto text-xs space-y-0.5">
+        {shown.map((i,k)=>(
+          <div key={k} className={i.severity==="error"?'text-red-600':'text-amber-600'}>
+            {i.line!==undefined ? `Line ${i.line}: ` : ""}{i.message}
+          </div>
+        ))}
+        {pending.issues.length > shown.length && <div className="text-muted-foreground">… {pending.issues.length - shown.length} more</div>}
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={onAccept} disabled={!pending.map.dies.length}>Accept {pending.map.dies.length} dies</Button>
+        <Button variant="outline" onClick={onDiscard}>Discard</Button>
+      </div>
+    </div>
   );
 }
 
-function ThroughputPanel({waferDiam, dieW, dieH, street, feed}:{waferDiam:number, dieW:number, dieH:number, street:number, feed:number}){
-  const pitchX = dieW + umToMm(street);
-  const pitchY = dieH + umToMm(street);
-  const lanesX = Math.max(0, Math.floor(waferDiam / pitchX) - 1);
-  const lanesY = Math.max(0, Math.floor(waferDiam / pitchY) - 1);
-  const perLaneLength = waferDiam; // mm
-  const totalLength_mm = perLaneLength * (lanesX + lanesY);
-  const time_s = totalLength_mm / Math.max(feed, 0.001);
-  const cyclesPerHour = 3600 / Math.max(time_s + 20, 1); // 20s indexing overhead
+function BinPareto({summary}:{summary:BinSummary}){
+  const max = Math.max(1, ...summary.pareto.map(r=>r.count));
   return (
-    <div className="grid grid-cols-3 gap-3">
-      <Metric label="Lanes X" value={`${lanesX}`}/>
-      <Metric label="Lanes Y" value={`${lanesY}`}/>
-      <Metric label="Total Cut Length" value={`${number(totalLength_mm)} mm`}/>
-      <Metric label="Cycle Time" value={`${number(time_s)} s`}/>
-      <Metric label="Throughput" value={`${number(cyclesPerHour,1)} wafers/hr`}/>
-      <div className="text-xs text-muted-foreground col-span-3">Throughput estimate excludes blade swaps and alignment time. Use for comparative tuning.</div>
+    <div className="space-y-1">
+      <div className="text-sm font-medium">Bin Pareto ({summary.total} dies, {summary.testable} testable)</div>
+      {summary.pareto.map(r=>(
+        <div key={r.code} className="grid grid-cols-12 items-center gap-2 text-xs">
+          <div className="col-span-3 truncate">{r.code}{r.name ? ` · ${r.name}` : ""}</div>
+          <div className={`col-span-2 ${r.cls==="unknown"?'text-red-600':'text-muted-foreground'}`}>{r.cls}</div>
+          <div className="col-span-5"><div className={`h-2 rounded ${r.cls==="good"?'bg-green-500': r.cls==="reject"?'bg-red-500': r.cls==="unknown"?'bg-amber-500':'bg-zinc-400'}`} style={{width: `${r.count/max*100}%`}}/></div>
+          <div className="col-span-2 text-right">{r.count} ({number(r.pct,1)}% · Σ{number(r.cumPct,0)}%)</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function BinTableEditor({table, setTable, unknownCodes}:{table:BinRule[], setTable:React.Dispatch<React.SetStateAction<BinRule[]>>, unknownCodes:string[]}){
+  const update = (i:number, patch:Partial<BinRule>) => setTable(t=>t.map((r,j)=>j===i ? {...r, ...patch} : r));
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Bin Table</div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="py-1 pr-3">Code</th>
+            <th className="py-1 pr-3">Class</th>
+            <th className="py-1 pr-3">Name</th>
+            <th className="py-1 pr-3"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {table.map((r,i)=>(
+            <tr key={i} className="border-t">
+              <td className="py-1 pr-3"><Input value={r.code} onChange={e=>update(i, {code: e.target.value})}/></td>
+              <td className="py-1 pr-3">
+                <Select value={r.cls} onValueChange={v=>update(i, {cls: v as BinClass, fallback: undefined})}>
+                  <SelectTrigger><SelectValue/></SelectTrigger>
+                  <SelectContent>
+                    {BIN_CLASSES.map(c=>(<SelectItem key={c.key} value={c.key}>{c.name}</SelectItem>))}
+                  </SelectContent>
+                </Select>
+              </td>
+              <td className="py-1 pr-3"><Input value={r.name ?? ""} onChange={e=>update(i, {name: e.target.value || undefined})}/></td>
+              <td className="py-1 pr-3"><Button variant="outline" size="sm" onClick={()=>setTable(t=>t.filter((_,j)=>j!==i))}>Remove</Button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={()=>setTable(t=>[...t, { code: "", cls: "reject" }])}>Add Bin</Button>
+        {unknownCodes.map(c=>(
+          <Button key={c} variant="outline" size="sm" onClick={()=>setTable(t=>[...t, { code: c, cls: "reject" }])}>Add "{c}" as reject</Button>
+        ))}
+      </div>
     </div>
   );
 }
 
 function TestsTab(){
-  type Test = { name:string, pass:boolean, info?:string };
-  const tests: Test[] = [];
-  
-  // Existing tests
-  const ts = bladeTipSpeed(58, 30000);
-  tests.push({ name: 'Tip speed calc', pass: Math.abs(ts - 90.99) < 0.5, info: ts.toFixed(2) });
-  const d200 = dieCount(200, 5, 5, 60).usable;
-  const d300 = dieCount(300, 5, 5, 60).usable;
-  tests.push({ name: 'Die count scales with wafer', pass: d300 >= d200, info: `${d200}→${d300}`});
-  const sf = suggestFeed('Si', 725);
-  tests.push({ name: 'Suggest feed in [0.2,6.0]', pass: sf>=0.2 && sf<=6.0, info: sf.toFixed(2)});
-  const riskVal = chippingRisk('Si', 1.5, 38, 725, 30, 4);
-  tests.push({ name: 'Chipping risk bounded 0–100', pass: riskVal>=0 && riskVal<=100, info: String(riskVal)});
-  const c1 = suggestCoolantLpm(0.1);
-  const c2 = suggestCoolantLpm(0.2);
-  tests.push({ name: 'Coolant suggestion monotonic', pass: c2 >= c1, info: `${c1.toFixed(1)}→${c2.toFixed(1)}` });
-  const rpmTest = suggestRPM('Si', 58, 'Resin');
-  tests.push({ name: 'RPM suggestion in [8k,60k]', pass: rpmTest>=8000 && rpmTest<=60000, info: rpmTest.toFixed(0)});
-  const parsed = parseCSV('x,y,status\n0,0,good\n0,1,bad');
-  const pGood = parsed.filter((d:any)=>d.status!=="bad").length;
-  const pBad  = parsed.filter((d:any)=>d.status==="bad").length;
-  tests.push({ name: 'CSV parser counts', pass: pGood===1 && pBad===1, info: `${pGood} good / ${pBad} bad`});
-  const uNarrow = dieCount(300, 5, 5, 40).usable;
-  const uWide   = dieCount(300, 5, 5, 120).usable;
-  tests.push({ name: 'Street width effect', pass: uWide <= uNarrow, info: `${uNarrow} vs ${uWide}`});
-
-  // Added tests
-  const kerfA = estimateKerf(30, 0.1);
-  const kerfB = estimateKerf(30, 0.3);
-  tests.push({ name: 'Kerf increases with wear', pass: kerfB > kerfA, info: `${kerfA.toFixed(1)}→${kerfB.toFixed(1)}` });
-  const tip1 = bladeTipSpeed(58, 20000);
-  const tip2 = bladeTipSpeed(58, 40000);
-  tests.push({ name: 'Tip speed increases with RPM', pass: tip2 > tip1, info: `${tip1.toFixed(1)}→${tip2.toFixed(1)}` });
+  // The model suite from src/tests, the same one `npx tsx src/tests/cli.ts` runs headless. It takes
+  // seconds, so it only runs on request, after the running state has painted.
+  const [report, setReport] = useState<TestReport>();
+  const [running, setRunning] = useState(false);
+  const run = (seed:number) => {
+    setRunning(true);
+    setTimeout(()=>{
+      try { setReport(runModelTests({ seed })); }
+      catch(err) { alert("Model tests failed to run: "+(err as Error).message); }
+      finally { setRunning(false); }
+    }, 0);
+  };
+  const seed = report?.seed ?? DEFAULT_SEED;
 
   return (
     <Card><CardContent className="p-4 space-y-3">
-      <h2 className="text-lg font-medium">Internal Tests</h2>
-      <div className="text-xs text-muted-foreground">These basic checks help catch math/logic regressions at runtime.</div>
-      <div className="space-y-2">
-        {tests.map((t,i)=> (
-          <div key={i} className={`text-sm ${t.pass? 'text-green-700':'text-red-700'}`}>• {t.name}: {t.pass? 'PASS':'FAIL'} {t.info? `(${t.info})`: ''}</div>
-        ))}
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-lg font-medium">Model Tests</h2>
+        {running ? <span className="text-sm text-muted-foreground">Running…</span>
+          : report ? <>
+            <span className={`text-sm ${report.failed ? 'text-red-700' : 'text-green-700'}`}>{report.passed} passed, {report.failed} failed</span>
+            <span className="text-xs text-muted-foreground">seed {report.seed}, {number(report.ms / 1000, 1)} s</span>
+          </> : <span className="text-sm text-muted-foreground">Not run yet</span>}
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" onClick={()=>run(DEFAULT_SEED)} disabled={running}>Run Tests</Button>
+          <Button variant="outline" onClick={()=>run(Math.floor(Math.random() * 1e9))} disabled={running}>Run with New Seed</Button>
+        </div>
       </div>
+      <div className="text-xs text-muted-foreground">Scenarios, property checks over generated inputs, golden values per material and parser fuzzing. Run them headless with <code>npx tsx src/tests/cli.ts --seed {seed}</code>.</div>
+      {report && MODEL_SUITES.map(suite=>{
+        const rows = report.results.filter(r=>r.suite===suite.id);
+        return (
+          <div key={suite.id} className="space-y-1">
+            <div className="text-sm font-medium">{suite.name} ({rows.filter(r=>r.pass).length}/{rows.length})</div>
+            {rows.map((t, i)=>(
+              <div key={i} className={`text-sm ${t.pass ? 'text-green-700' : 'text-red-700'}`}>• {t.name}: {t.pass ? 'PASS' : 'FAIL'} {t.info ? `(${t.info})` : ''}</div>
+            ))}
+          </div>
+        );
+      })}
     </CardContent></Card>
   );
 }
-
-function getVerificationSpecs({street, kerf, dieW, dieH, waferThk, tip, vacuum, chuckType}:{street:number, kerf:number, dieW:number, dieH:number, waferThk:number, tip:number, vacuum:number, chuckType:string}){
-  const vacRange = vacuumRangeForChuck(chuckType);
-  return [
-    { name: 'Street Width (µm)', nom: street, lo: street*0.9, hi: street*1.1, key: 'street' },
-    { name: 'Kerf (µm)', nom: kerf, lo: Math.max(0, kerf*0.8), hi: Math.max(kerf, kerf*1.5), key: 'kerf' },
-    { name: 'Die Width (mm)', nom: dieW, lo: Math.max(0, dieW-0.01), hi: dieW+0.01, key: 'dieW' },
-    { name: 'Die Height (mm)', nom: dieH, lo: Math.max(0, dieH-0.01), hi: dieH+0.01, key: 'dieH' },
-    { name: 'Wafer Thickness (µm)', nom: waferThk, lo: waferThk*0.98, hi: waferThk*1.02, key: 'thk' },
-    { name: 'Tip Speed (m/s)', nom: tip, lo: 30, hi: 45, key: 'tip' },
-    { name: 'Vacuum Level (kPa)', nom: vacuum, lo: vacRange.lo, hi: vacRange.hi, key: 'vac' },
-  ];
-}
@@ -0,0 +1,99 @@
+import type { DieLayout, Pt } from "./placement";
+import { lanePositions } from "./throughput";
+
+// ------------------------
+// Alignment
+// ------------------------
+// Fiducials or street crossings are measured at known nominal positions (mm from the wafer
+// center). A least-squares rigid fit gives the wafer's rotation θ and XY offset: measured ≈
+// R(θ)·nominal + t. Whatever the saw's applied correction leaves over is propagated along every
+// lane to the worst blade position error, which is compared with the street's clearance.
+
+export type AlignPoint = { id:string, nominal:Pt, measured:Pt };
+export type AlignResidual = { id:string, dx_um:number, dy_um:number, r_um:number };
+export type AlignmentFit = {
+  theta_deg:number;
+  dx_um:number;
+  dy_um:number;
+  residuals:AlignResidual[];
+  rms_um:number;            // residual scatter, per axis
+  thetaSigma_deg:number;    // 1σ uncertainty of θ from the scatter and the point spread
+};
+// Correction set on the saw (the Alignment card's offsets).
+export type AppliedAlignment = { offsetX_um:number, offsetY_um:number, theta_deg:number };
+
+const RAD = Math.PI / 180;
+
+export function fitAlignment(points:AlignPoint[]):AlignmentFit {
+  const pts = points.filter(p=>[p.nominal.x, p.nominal.y, p.measured.x, p.measured.y].every(isFinite));
+  if(pts.length < 2) throw new Error("At least two points with nominal and measured coordinates are needed");
+  const n = pts.length;
+  const nc = { x: pts.reduce((a, p)=>a + p.nominal.x, 0) / n, y: pts.reduce((a, p)=>a + p.nominal.y, 0) / n };
+  const mc = { x: pts.reduce((a, p)=>a + p.measured.x, 0) / n, y: pts.reduce((a, p)=>a + p.measured.y, 0) / n };
+  let sCos = 0, sSin = 0, spread = 0;
+  for(const p of pts){
+    const ax = p.nominal.x - nc.x, ay = p.nominal.y - nc.y, bx = p.measured.x - mc.x, by = p.measured.y - mc.y;
+    sCos += ax * bx + ay * by;
+    sSin += ax * by - ay * bx;
+    spread += ax * ax + ay * ay;
+  }
+  if(spread < 1e-9) throw new Error("Nominal points coincide; θ cannot be fitted");
+  const th = Math.atan2(sSin, sCos), c = Math.cos(th), s = Math.sin(th);
+  const t = { x: mc.x - (c * nc.x - s * nc.y), y: mc.y - (s * nc.x + c * nc.y) };
+  const residuals = pts.map(p=>{
+    const dx = (p.measured.x - (c * p.nominal.x - s * p.nominal.y + t.x)) * 1000;
+    const dy = (p.measured.y - (s * p.nominal.x + c * p.nominal.y + t.y)) * 1000;
+    return { id: p.id, dx_um: dx, dy_um: dy, r_um: Math.hypot(dx, dy) };
+  });
+  // 2n coordinates, 3 fitted parameters.
+  const sse = residuals.reduce((a, r)=>a + r.r_um ** 2, 0);
+  const rms = Math.sqrt(sse / Math.max(1, 2 * n - 3));
+  return { theta_deg: th / RAD, dx_um: t.x * 1000, dy_um: t.y * 1000, residuals, rms_um: rms, thetaSigma_deg: rms / 1000 / Math.sqrt(spread) / RAD };
+}
+
+// Two street crossings on the street nearest the center, as far apart as 70 % of the radius
+// allows; empty when fewer than two lanes qualify.
+export function alignmentTargets(layout:DieLayout, waferDiam:number):{ id:string, pos:Pt }[] {
+  const R = waferDiam / 2;
+  const { ch1, ch2 } = lanePositions(layout, waferDiam);
+  const ys = ch2.map(l=>l.pos).sort((a, b)=>a - b);
+  if(!ys.length) return [];
+  const y = ys.reduce((b, v)=>Math.abs(v) < Math.abs(b) ? v : b, ys[0]);
+  const xs = ch1.map(l=>l.pos).filter(x=>Math.hypot(x, y) <= 0.7 * R).sort((a, b)=>a - b);
+  return xs.length >= 2 ? [{ id: "A", pos: { x: xs[0], y } }, { id: "B", pos: { x: xs[xs.length - 1], y } }] : [];
+}
+
+// ------------------------
+// Lane position error
+// ------------------------
+
+export type LaneError = {
+  channel:"CH1"|"CH2";
+  index:number;             // lane number in the channel, from 1
+  pos_mm:number;
+  length_mm:number;
+  error_um:number;          // worst lateral blade offset from the street centerline along the lane
+  margin_um:number;         // (street − kerf)/2 − error; negative = blade leaves the street
+  out:boolean;
+};
+
+// Residual = fit − applied. A lane at index position p, cut along s ∈ ±chord/2, moves laterally by
+// Δ⊥ + p(cos δ − 1) ∓ s·sin δ; the fit's scatter and θ uncertainty are added as a 1σ allowance.
+export function laneErrors(layout:DieLayout, waferDiam:number, fit:AlignmentFit, applied:AppliedAlignment, kerf_um:number, street_um:number){
+  const d = (fit.theta_deg - applied.theta_deg) * RAD;
+  const residual = { theta_deg: d / RAD, dx_um: fit.dx_um - applied.offsetX_um, dy_um: fit.dy_um - applied.offsetY_um };
+  const clearance = (street_um - kerf_um) / 2;
+  const { ch1, ch2 } = lanePositions(layout, waferDiam);
+  const lanes:LaneError[] = [];
+  const push = (channel:"CH1"|"CH2", i:number, pos:number, chord:number, shift_um:number) => {
+    const half = chord / 2 * 1000;
+    // The worst end of the chord: |a ∓ b| peaks at |a| + |b|.
+    const worst = Math.abs(shift_um + pos * 1000 * (Math.cos(d) - 1)) + half * Math.abs(Math.sin(d));
+    const error = worst + fit.rms_um + half * fit.thetaSigma_deg * RAD;
+    lanes.push({ channel, index: i + 1, pos_mm: pos, length_mm: chord, error_um: error, margin_um: clearance - error, out: error > clearance });
+  };
+  // CH1 lanes run along Y at x = pos and shift in X; CH2 lanes run along X at y = pos and shift in Y.
+  ch1.forEach((l, i)=>push("CH1", i, l.pos, l.chord, residual.dx_um));
+  ch2.forEach((l, i)=>push("CH2", i, l.pos, l.chord, residual.dy_um));
+  return { residual, clearance_um: clearance, lanes, out: lanes.filter(l=>l.out).length };
+}
@@ -0,0 +1,198 @@
+import { readDelimited } from "./csv";
+import { fitQuality, leastSquares, type FitQuality } from "./fit";
+import { DEFAULT_RISK_WEIGHTS, KERF_WEAR_K, type MaterialDB, type MaterialSpec, type RiskWeights } from "./materials";
+import { bladeTipSpeed, estimateKerf, riskTerms, umToMm } from "./physics";
+
+// ------------------------
+// Coefficient calibration
+// ------------------------
+// Fits, per material, the kerf wear constant, the power coefficient and the chipping-risk
+// weights to logged cuts. Each target is fitted only from rows that measured it. A calibrated
+// chipping score predicts the measured chipping width in µm (still clamped 0–100).
+
+export type CalibrationRow = {
+  line:number;
+  material:string;
+  waferThk:number;    // µm
+  bladeDia:number;    // mm
+  bladeThk:number;    // µm
+  rpm:number;
+  feed:number;        // mm/s
+  coolant:number;     // L/min
+  wear:number;        // 0–1
+  kerf?:number;       // measured, µm
+  chipping?:number;   // measured edge chipping width, µm
+  power?:number;      // measured spindle load, kW
+};
+export type CalibrationIssue = { line?:number, severity:"error"|"warning", message:string };
+
+const COLUMNS:Record<Exclude<keyof CalibrationRow,"line">, string[]> = {
+  material: ["material", "mat"],
+  waferThk: ["waferthk", "wafer_thk", "thickness", "t_um"],
+  bladeDia: ["bladedia", "blade_dia", "blade_diameter"],
+  bladeThk: ["bladethk", "blade_thk", "blade_thickness"],
+  rpm: ["rpm", "spindle_rpm"],
+  feed: ["feed", "feed_mms"],
+  coolant: ["coolant", "coolant_lpm"],
+  wear: ["wear", "wear_factor"],
+  kerf: ["kerf", "kerf_um", "measured_kerf"],
+  chipping: ["chipping", "chipping_um", "chip_width"],
+  power: ["power", "power_kw", "spindle_kw", "spindle_load"],
+};
+const MEASURED = ["kerf", "chipping", "power"] as const;
+
+export function readCalibrationCSV(text:string):{ rows:CalibrationRow[], issues:CalibrationIssue[] } {
+  const issues:CalibrationIssue[] = [];
+  const { records, unterminated } = readDelimited(text);
+  if(!records.length) return { rows: [], issues: [{ severity: "error", message: "File is empty" }] };
+  const head = records.shift()!;
+  const header = head.fields.map(s=>s.toLowerCase());
+  const idx = Object.fromEntries(Object.entries(COLUMNS).map(([k, names])=>[k, header.findIndex(h=>names.includes(h))])) as Record<keyof typeof COLUMNS, number>;
+  const missing = (Object.keys(COLUMNS) as (keyof typeof COLUMNS)[]).filter(k=>idx[k] < 0 && !(MEASURED as readonly string[]).includes(k));
+  if(missing.length){
+    issues.push({ line: head.line, severity: "error", message: `Missing column(s): ${missing.join(", ")}` });
+    return { rows: [], issues };
+  }
+  if(MEASURED.every(k=>idx[k] < 0)) issues.push({ line: head.line, severity: "error", message: "No measured column (kerf, chipping or power)" });
+  if(unterminated) issues.push({ line: unterminated, severity: "error", message: "Unterminated quoted field" });
+
+  const rows:CalibrationRow[] = [];
+  for(const { line, fields } of records){
+    const raw = (k:keyof typeof COLUMNS) => idx[k] < 0 ? "" : (fields[idx[k]] ?? "").trim();
+    const material = raw("material");
+    const nums:Record<string,number|undefined> = {};
+    let bad = "";
+    for(const k of Object.keys(COLUMNS) as (keyof typeof COLUMNS)[]){
+      if(k === "material") continue;
+      const v = raw(k);
+      if(v === "") nums[k] = undefined;
+      else if(!isFinite(Number(v))) bad = bad || `${k} "${v}"`;
+      else nums[k] = Number(v);
+    }
+    const inputsMissing = ["waferThk","bladeDia","bladeThk","rpm","feed","coolant","wear"].filter(k=>nums[k] === undefined);
+    if(!material || bad || inputsMissing.length){
+      issues.push({ line, severity: "error", message: `${!material ? "No material" : bad ? `Invalid ${bad}` : `Missing ${inputsMissing.join(", ")}`}; row skipped` });
+      continue;
+    }
+    if(MEASURED.every(k=>nums[k] === undefined)){
+      issues.push({ line, severity: "warning", message: "No measured outcome; row skipped" });
+      continue;
+    }
+    rows.push({ line, material, ...nums } as CalibrationRow);
+  }
+  return { rows, issues };
+}
+
+export type FitTarget = "kerf"|"power"|"chipping";
+export type TargetFit = {
+  target:FitTarget;
+  before:FitQuality;                    // current coefficients on the same rows
+  after:FitQuality;
+  coeffs:Record<string,{ before:number, after:number }>;
+  points:{ measured:number, predicted:number }[];  // fitted model, for residual plots
+};
+export type MaterialCalibration = { material:string, fits:TargetFit[], issues:string[] };
+
+const ROWS_PER_COEFF = 2;   // require this many rows per fitted coefficient
+
+function fitKerf(spec:MaterialSpec, rows:CalibrationRow[]):TargetFit|string {
+  const rs = rows.filter(r=>r.kerf !== undefined);
+  if(rs.length < ROWS_PER_COEFF) return `kerf: ${rs.length} row(s), need ${ROWS_PER_COEFF}`;
+  // kerf − blade = k · blade · wear
+  const k = leastSquares(rs.map(r=>[r.bladeThk * r.wear]), rs.map(r=>r.kerf! - r.bladeThk))?.[0];
+  if(k === undefined) return "kerf: wear does not vary enough to fit k";
+  const k0 = spec.kerfWearK ?? KERF_WEAR_K;
+  const measured = rs.map(r=>r.kerf!);
+  const predicted = rs.map(r=>estimateKerf(r.bladeThk, r.wear, k));
+  return {
+    target: "kerf",
+    before: fitQuality(measured, rs.map(r=>estimateKerf(r.bladeThk, r.wear, k0))),
+    after: fitQuality(measured, predicted),
+    coeffs: { kerfWearK: { before: k0, after: k } },
+    points: measured.map((m, i)=>({ measured: m, predicted: predicted[i] })),
+  };
+}
+
+// Uses measured kerf where the row has one, otherwise the kerf model with `k`.
+function fitPower(spec:MaterialSpec, rows:CalibrationRow[], k:number):TargetFit|string {
+  const rs = rows.filter(r=>r.power !== undefined);
+  if(rs.length < ROWS_PER_COEFF) return `power: ${rs.length} row(s), need ${ROWS_PER_COEFF}`;
+  const x = rs.map(r=>r.feed * umToMm(r.kerf ?? estimateKerf(r.bladeThk, r.wear, k)) * umToMm(r.waferThk));
+  const c = leastSquares(x.map(v=>[v]), rs.map(r=>r.power!))?.[0];
+  if(c === undefined) return "power: no cutting load in the data";
+  const measured = rs.map(r=>r.power!);
+  const predicted = x.map(v=>c * v);
+  return {
+    target: "power",
+    before: fitQuality(measured, x.map(v=>spec.powerCoeff * v)),
+    after: fitQuality(measured, predicted),
+    coeffs: { powerCoeff: { before: spec.powerCoeff, after: c } },
+    points: measured.map((m, i)=>({ measured: m, predicted: predicted[i] })),
+  };
+}
+
+// Base plus the weights whose term varies in the data; the others keep their current value.
+function fitChipping(spec:MaterialSpec, rows:CalibrationRow[]):TargetFit|string {
+  const rs = rows.filter(r=>r.chipping !== undefined);
+  const w0 = spec.riskWeights ?? DEFAULT_RISK_WEIGHTS;
+  const keys = Object.keys(w0) as (keyof RiskWeights)[];
+  const terms = rs.map(r=>riskTerms(spec.tipSpeed, r.feed, bladeTipSpeed(r.bladeDia, r.rpm), r.waferThk, r.bladeThk, r.coolant));
+  const free = keys.filter(k=>terms.some(t=>Math.abs(t[k] - terms[0][k]) > 1e-9));
+  const need = (free.length + 1) * ROWS_PER_COEFF;
+  if(rs.length < need) return `chipping: ${rs.length} row(s), need ${need} for base + ${free.length} varying term(s)`;
+  const fixed = (t:RiskWeights) => keys.filter(k=>!free.includes(k)).reduce((s, k)=>s + w0[k] * t[k], 0);
+  const sol = leastSquares(terms.map(t=>[1, ...free.map(k=>t[k])]), rs.map((r, i)=>r.chipping! - fixed(terms[i])));
+  if(!sol) return "chipping: terms are collinear in the data; vary feed, tip speed, thickness or coolant independently";
+  const w:RiskWeights = { ...w0 };
+  free.forEach((k, i)=>{ w[k] = sol[i + 1]; });
+  const score = (base:number, wt:RiskWeights, t:RiskWeights) => keys.reduce((s, k)=>s + wt[k] * t[k], base);
+  const measured = rs.map(r=>r.chipping!);
+  const predicted = terms.map(t=>score(sol[0], w, t));
+  return {
+    target: "chipping",
+    before: fitQuality(measured, terms.map(t=>score(spec.riskBase, w0, t))),
+    after: fitQuality(measured, predicted),
+    coeffs: {
+      riskBase: { before: spec.riskBase, after: sol[0] },
+      ...Object.fromEntries(free.map(k=>[`riskWeights.${k}`, { before: w0[k], after: w[k] }])),
+    },
+    points: measured.map((m, i)=>({ measured: m, predicted: predicted[i] })),
+  };
+}
+
+export function calibrate(db:MaterialDB, rows:CalibrationRow[]):MaterialCalibration[] {
+  const materials = Array.from(new Set(rows.map(r=>r.material)));
+  return materials.map(material=>{
+    const spec = db.materials.find(m=>m.id===material);
+    if(!spec) return { material, fits: [], issues: [`Material "${material}" is not in the material database`] };
+    const rs = rows.filter(r=>r.material===material);
+    const issues:string[] = [];
+    const fits:TargetFit[] = [];
+    const kerf = fitKerf(spec, rs);
+    if(typeof kerf === "string") issues.push(kerf); else fits.push(kerf);
+    const k = typeof kerf === "string" ? spec.kerfWearK ?? KERF_WEAR_K : kerf.coeffs.kerfWearK.after;
+    for(const fit of [fitPower(spec, rs, k), fitChipping(spec, rs)]){
+      if(typeof fit === "string") issues.push(fit); else fits.push(fit);
+    }
+    return { material, fits, issues };
+  });
+}
+
+// Writes the fitted coefficients of the selected targets into a copy of `db`.
+export function applyCalibration(db:MaterialDB, cals:MaterialCalibration[], targets:FitTarget[] = ["kerf", "power", "chipping"]):MaterialDB {
+  return {
+    ...db,
+    materials: db.materials.map(m=>{
+      const cal = cals.find(c=>c.material===m.id);
+      if(!cal) return m;
+      const next:MaterialSpec = { ...m, riskWeights: { ...(m.riskWeights ?? DEFAULT_RISK_WEIGHTS) } };
+      for(const fit of cal.fits.filter(f=>targets.includes(f.target))){
+        for(const [key, { after }] of Object.entries(fit.coeffs)){
+          if(key.startsWith("riskWeights.")) next.riskWeights![key.slice(12) as keyof RiskWeights] = after;
+          else (next as Record<string,unknown>)[key] = after;
+        }
+      }
+      return next;
+    }),
+  };
+}
@@ -0,0 +1,156 @@
+import { csvCell } from "./csv";
+import { DEFAULT_MATERIAL_DB, type MaterialDB } from "./materials";
+import { evaluateRecipe } from "./evaluate";
+import { recipePasses } from "./passes";
+import { RECIPE_FIELDS, type RecipeField } from "./recipe";
+import type { SpecTemplate } from "./specs";
+import { simulateCycle, type CycleSettings, type CycleSim } from "./throughput";
+import type { Recipe, RecipeEvaluation } from "./types";
+import { specStatus } from "./verification";
+
+// ------------------------
+// Scenario comparison
+// ------------------------
+// Recipe variants evaluated side by side against one baseline. Each metric knows which way is
+// better so deltas can be marked; tip speed is better the closer it sits to the material's
+// window. Verification is predicted from the nominal values: a spec fails when the model's own
+// value is outside its limits.
+
+export type Scenario = { id:string, name:string, recipe:Recipe };
+
+export type ScenarioResult = {
+  id:string;
+  name:string;
+  recipe:Recipe;
+  ev?:RecipeEvaluation;      // undefined when the recipe cannot be evaluated
+  cycle?:CycleSim;
+  failing:string[];          // verification spec names
+  error?:string;
+};
+
+type Better = "lower"|"higher"|"window"|"none";
+export type Verdict = "better"|"worse"|"same";
+export type ComparisonMetric = { key:string, label:string, unit:string, digits:number, better:Better, value:(s:ScenarioResult)=>number|undefined };
+
+export const COMPARISON_METRICS:ComparisonMetric[] = [
+  { key: "tip", label: "Tip speed", unit: "m/s", digits: 1, better: "window", value: s=>s.ev?.tipSpeed.value },
+  { key: "kerf", label: "Kerf", unit: "µm", digits: 1, better: "lower", value: s=>s.ev?.kerf.value },
+  { key: "power", label: "Spindle power", unit: "kW", digits: 4, better: "lower", value: s=>s.ev?.spindlePower.value },
+  { key: "coolant", label: "Coolant suggestion", unit: "L/min", digits: 2, better: "none", value: s=>s.ev?.suggestions.coolant.value },
+  { key: "risk", label: "Chipping risk", unit: "score", digits: 0, better: "lower", value: s=>s.ev?.chippingRisk.value },
+  { key: "dies", label: "Usable dies", unit: "pcs", digits: 0, better: "higher", value: s=>s.ev?.dies.usable.value },
+  { key: "cycle", label: "Cycle time", unit: "s/wafer", digits: 1, better: "lower", value: s=>s.cycle?.total_s },
+  { key: "wph", label: "Throughput", unit: "wafers/h", digits: 2, better: "higher", value: s=>s.cycle?.wafersPerHour },
+  { key: "failing", label: "Failing specs", unit: "count", digits: 0, better: "lower", value: s=>s.ev ? s.failing.length : undefined },
+];
+
+export type ComparisonRow = {
+  key:string;
+  label:string;
+  unit:string;
+  digits:number;
+  values:(number|undefined)[];
+  deltas:(number|undefined)[];     // against the baseline; undefined in its own column
+  verdicts:(Verdict|undefined)[];
+};
+export type InputRow = { key:RecipeField|"passes", label:string, unit:string, values:string[], changed:boolean[] };
+export type ScenarioComparison = { baseline:number, scenarios:ScenarioResult[], inputs:InputRow[], rows:ComparisonRow[] };
+
+export type CompareOptions = { db?:MaterialDB, specs?:SpecTemplate, cycle?:Partial<CycleSettings>, baseline?:number };
+
+export function evaluateScenario(s:Scenario, opts:CompareOptions = {}):ScenarioResult {
+  try {
+    const ev = evaluateRecipe(s.recipe, { db: opts.db ?? DEFAULT_MATERIAL_DB, specs: opts.specs });
+    const cycle = simulateCycle(ev.dies.layout, s.recipe.waferDiam, recipePasses(s.recipe).map(p=>p.feed), opts.cycle);
+    const failing = ev.verificationSpecs.filter(x=>specStatus(x, x.nom)==="FAIL").map(x=>x.name);
+    return { ...s, ev, cycle, failing };
+  } catch(err){
+    return { ...s, failing: [], error: (err as Error).message };
+  }
+}
+
+// Distance outside the tip-speed window; zero inside it.
+const offWindow = (s:ScenarioResult, v:number) => s.ev ? Math.max(0, s.ev.tipWindow.lo.value - v, v - s.ev.tipWindow.hi.value) : v;
+
+function verdict(m:ComparisonMetric, base:ScenarioResult, s:ScenarioResult, b:number, v:number):Verdict|undefined {
+  if(m.better === "none") return undefined;
+  const eps = 0.5 * 10 ** -m.digits;
+  const [x, y] = m.better === "window" ? [offWindow(s, v), offWindow(base, b)] : [v, b];
+  if(Math.abs(x - y) < eps) return "same";
+  return (m.better === "higher" ? x > y : x < y) ? "better" : "worse";
+}
+
+const inputText = (r:Recipe, k:RecipeField|"passes") => k !== "passes" ? String(r[k])
+  : r.passes?.length ? r.passes.map(p=>`${p.name} ${p.depth} µm, ${p.bladeThk} µm blade`).join(" / ") : "none";
+
+export function compareScenarios(list:Scenario[], opts:CompareOptions = {}):ScenarioComparison {
+  const scenarios = list.map(s=>evaluateScenario(s, opts));
+  const baseline = Math.max(0, Math.min(list.length - 1, opts.baseline ?? 0));
+  const base = scenarios[baseline];
+
+  // Inputs that differ between any two scenarios; passes are summarized by name and depth.
+  const fields:{ key:RecipeField|"passes", label:string, unit:string }[] = [...RECIPE_FIELDS, { key: "passes", label: "Pre-cut passes", unit: "-" }];
+  const inputs:InputRow[] = fields.map(f=>{
+    const values = scenarios.map(s=>inputText(s.recipe, f.key));
+    return { key: f.key, label: f.label, unit: f.unit, values, changed: values.map(v=>base !== undefined && v !== inputText(base.recipe, f.key)) };
+  }).filter(r=>new Set(r.values).size > 1);
+
+  const rows = COMPARISON_METRICS.map(m=>{
+    const values = scenarios.map(m.value);
+    const b = base ? m.value(base) : undefined;
+    return {
+      key: m.key, label: m.label, unit: m.unit, digits: m.digits, values,
+      deltas: values.map((v, i)=>i === baseline || v === undefined || b === undefined ? undefined : v - b),
+      verdicts: values.map((v, i)=>i === baseline || v === undefined || b === undefined ? undefined : verdict(m, base, scenarios[i], b, v)),
+    };
+  });
+  return { baseline, scenarios, inputs, rows };
+}
+
+const num = (v:number|undefined, d:number) => v === undefined || !isFinite(v) ? "" : String(Number(v.toFixed(d)));
+const signed = (v:number|undefined, d:number) => v === undefined ? "" : `${v > 0 ? "+" : ""}${num(v, d)}`;
+const verification = (s:ScenarioResult) => s.error ? `ERROR: ${s.error}` : s.failing.length ? `FAIL (${s.failing.join("; ")})` : "PASS";
+
+// One column per scenario, plus a delta column for each one other than the baseline.
+export function writeComparisonCSV(c:ScenarioComparison){
+  const others = c.scenarios.map((_, i)=>i).filter(i=>i !== c.baseline);
+  const head = ["section", "parameter", "unit", ...c.scenarios.map((s, i)=>i === c.baseline ? `${s.name} (baseline)` : s.name), ...others.map(i=>`Δ ${c.scenarios[i].name}`)];
+  const rows = [head,
+    ...c.inputs.map(r=>["input", r.label, r.unit, ...r.values, ...others.map(()=>"")]),
+    ...c.rows.map(r=>["result", r.label, r.unit, ...r.values.map(v=>num(v, r.digits)), ...others.map(i=>signed(r.deltas[i], r.digits))]),
+    ["result", "Verification", "", ...c.scenarios.map(verification), ...others.map(()=>"")],
+  ];
+  return rows.map(r=>r.map(csvCell).join(",")).join("\n");
+}
+
+const html = (s:string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Standalone page; better deltas green, worse red, changed inputs amber.
+export function writeComparisonHTML(c:ScenarioComparison, title = "Recipe scenario comparison"){
+  const th = c.scenarios.map((s, i)=>`<th>${html(s.name)}${i === c.baseline ? " <small>(baseline)</small>" : ""}</th>`).join("");
+  const inputs = c.inputs.map(r=>`<tr><td>${html(r.label)}</td><td>${html(r.unit)}</td>${r.values.map((v, i)=>`<td${r.changed[i] ? ' class="changed"' : ""}>${html(v)}</td>`).join("")}</tr>`);
+  const results = c.rows.map(r=>`<tr><td>${html(r.label)}</td><td>${html(r.unit)}</td>${r.values.map((v, i)=>{
+    const d = r.deltas[i], cls = r.verdicts[i] === "better" || r.verdicts[i] === "worse" ? ` class="${r.verdicts[i]}"` : "";
+    return `<td${cls}>${num(v, r.digits) || "-"}${d !== undefined && Number(num(d, r.digits)) !== 0 ? ` <small>(${signed(d, r.digits)})</small>` : ""}</td>`;
+  }).join("")}</tr>`);
+  const ver = `<tr><td>Verification</td><td></td>${c.scenarios.map(s=>`<td class="${s.error || s.failing.length ? "worse" : "better"}">${html(verification(s))}</td>`).join("")}</tr>`;
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${html(title)}</title>
+<style>
+body{font-family:Helvetica,Arial,sans-serif;max-width:1000px;margin:2em auto;color:#18181b}
+table{border-collapse:collapse;margin:.5em 0}th,td{border:1px solid #d4d4d8;padding:4px 8px;text-align:left;font-size:90%}
+.better{background:#dcfce7}.worse{background:#fee2e2}.changed{background:#fef3c7}small{color:#52525b}
+</style></head>
+<body>
+<h1>${html(title)}</h1>
+<h2>Inputs</h2>
+<table><thead><tr><th>Parameter</th><th>Unit</th>${th}</tr></thead><tbody>
+${inputs.join("\n") || `<tr><td colspan="${c.scenarios.length + 2}">All scenarios use the same inputs.</td></tr>`}
+</tbody></table>
+<h2>Results</h2>
+<table><thead><tr><th>Metric</th><th>Unit</th>${th}</tr></thead><tbody>
+${[...results, ver].join("\n")}
+</tbody></table>
+</body></html>
+`;
+}
@@ -0,0 +1,66 @@
+// ------------------------
+// Delimited text
+// ------------------------
+// Shared by the wafer-map CSV reader and the calibration log importer: comma, semicolon
+// or tab delimited (picked from the header), RFC 4180 quoting, optional BOM. The CSV
+// exports write their cells through csvCell.
+
+export const CSV_DELIMITERS = [",", ";", "\t"];
+export type CSVRecord = { line:number, fields:string[] };
+
+// Splits into records of fields, keeping the 1-based line each record starts on.
+// Quoted fields may hold delimiters, doubled quotes and newlines, and are kept exactly as
+// quoted; only unquoted fields and the whitespace around quotes are trimmed.
+function records(text:string, delim:string){
+  const out:CSVRecord[] = [];
+  let fields:string[] = [], cur = "", quoted = false, wasQuoted = false, line = 1, start = 1, touched = false;
+  const field = () => { const f = wasQuoted ? cur : cur.trim(); cur = ""; wasQuoted = false; return f; };
+  for(let i=0; i<text.length; i++){
+    const ch = text[i];
+    if(quoted){
+      if(ch === '"'){
+        if(text[i+1] === '"'){ cur += '"'; i++; }
+        else quoted = false;
+      } else {
+        if(ch === "\n") line++;
+        cur += ch;
+      }
+      continue;
+    }
+    if(ch === '"' && !wasQuoted && !cur.trim()){ quoted = true; wasQuoted = true; cur = ""; touched = true; }
+    else if(ch === delim){ fields.push(field()); touched = true; }
+    else if(ch === "\n" || ch === "\r"){
+      if(ch === "\r" && text[i+1] === "\n") i++;
+      if(touched || cur.trim()) out.push({ line: start, fields: [...fields, field()] });
+      fields = []; cur = ""; wasQuoted = false; touched = false;
+      line++; start = line;
+    }
+    else if(!(wasQuoted && /\s/.test(ch))){ cur += ch; touched = true; }
+  }
+  if(quoted) out.push({ line: start, fields: [...fields, cur] });
+  else if(touched || cur.trim()) out.push({ line: start, fields: [...fields, field()] });
+  return { out, unterminated: quoted ? start : undefined };
+}
+
+// Delimiter with the most occurrences outside quotes on the header line.
+function sniffDelimiter(headerLine:string){
+  const bare = headerLine.replace(/"[^"]*"/g, "");
+  let best = ",", n = 0;
+  for(const d of CSV_DELIMITERS){
+    const c = bare.split(d).length - 1;
+    if(c > n){ best = d; n = c; }
+  }
+  return best;
+}
+
+// `unterminated` is the line an unclosed quoted field starts on.
+export function readDelimited(input:string){
+  const text = input.replace(/^\uFEFF/, "");
+  const headerLine = text.split(/\r?\n/).find(l=>l.trim()) ?? "";
+  const delimiter = sniffDelimiter(headerLine);
+  const { out, unterminated } = records(text, delimiter);
+  return { delimiter, records: out, unterminated };
+}
+
+// One comma-delimited cell, quoted when it holds a quote, comma or line break (either kind).
+export const csvCell = (s:string) => /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
@@ -0,0 +1,59 @@
+import { bladeTipSpeed, chippingRisk, estimatePowerKW, suggestCoolantLpm, suggestFeed, suggestRPM, vacuumRangeForChuck } from "./physics";
+import { DEFAULT_MATERIAL_DB, materialSpec, type MaterialDB } from "./materials";
+import { engagedThickness, passKerf, recipePasses } from "./passes";
+import { dieCount, type DieLayout, type Pt } from "./placement";
+import { qty, type PassEvaluation, type Recipe, type RecipeEvaluation } from "./types";
+import { RECIPE_FIELDS } from "./recipe";
+import { DEFAULT_SPEC_TEMPLATE, templateSpecs, type SpecTemplate } from "./specs";
+
+// Everything the toolkit derives from one recipe. Pass `layout` to reuse a placement
+// computed elsewhere (placement is the only expensive step); `offset` fixes the grid;
+// `db` supplies material/bond coefficients; `specs` the verification template (Standard by
+// default). Throws for ids the database does not know.
+export function evaluateRecipe(r:Recipe, opts:{ offset?:Pt, layout?:DieLayout, db?:MaterialDB, specs?:SpecTemplate }={}):RecipeEvaluation {
+  const db = opts.db ?? DEFAULT_MATERIAL_DB;
+  const mat = materialSpec(db, r.material);
+  const engaged = engagedThickness(r);
+  const passes:PassEvaluation[] = recipePasses(r).map((p, i)=>{
+    const tip = bladeTipSpeed(p.bladeDia, p.rpm);
+    const kerf = passKerf(p, Math.min(p.depth, r.waferThk), r.wear, mat.kerfWearK);
+    return {
+      name: p.name,
+      depth: qty(p.depth, "µm"),
+      engaged: qty(engaged[i], "µm"),
+      tipSpeed: qty(tip, "m/s"),
+      kerf: qty(kerf, "µm"),
+      spindlePower: qty(estimatePowerKW(r.material, p.feed, kerf, engaged[i], db), "kW"),
+      chippingRisk: qty(chippingRisk(r.material, p.feed, tip, engaged[i], p.bladeThk, p.coolant, db), "score"),
+      suggestedRpm: qty(suggestRPM(r.material, p.bladeDia, p.bladeBond, db), "rpm"),
+    };
+  });
+  const single = passes.length === 1;
+  const final = passes[passes.length - 1];
+  const tip = final.tipSpeed.value;
+  const kerf = Math.max(...passes.map(p=>p.kerf.value));
+  const powerKW = Math.max(...passes.map(p=>p.spindlePower.value));
+  const die = opts.layout
+    ? { cols: opts.layout.cols, rows: opts.layout.rows, usable: opts.layout.gross, layout: opts.layout }
+    : dieCount(r.waferDiam, r.dieW, r.dieH, r.street, { edgeExclusion_mm: r.edgeExcl, orientation: r.orientation, offset: opts.offset });
+  const vac = vacuumRangeForChuck(r.chuckType);
+  const vars:Record<string,number> = { kerf, tip, tipLo: mat.tipSpeed.lo, tipHi: mat.tipSpeed.hi, vacLo: vac.lo, vacHi: vac.hi };
+  for(const f of RECIPE_FIELDS) if(typeof r[f.key] === "number") vars[f.key] = r[f.key] as number;
+  return {
+    tipSpeed: qty(tip, "m/s"),
+    kerf: qty(kerf, "µm"),
+    spindlePower: qty(powerKW, "kW"),
+    chippingRisk: qty(Math.max(...passes.map(p=>p.chippingRisk.value)), "score"),
+    passes,
+    suggestions: {
+      rpm: qty(suggestRPM(r.material, r.bladeDia, r.bladeBond, db), "rpm"),
+      feed: qty(suggestFeed(r.material, r.waferThk, db), "mm/s"),
+      coolant: qty(suggestCoolantLpm(powerKW), "L/min"),
+    },
+    dies: { cols: die.cols, rows: die.rows, usable: qty(die.usable, "pcs"), layout: die.layout },
+    vacuumRange: { lo: qty(vac.lo, "kPa"), hi: qty(vac.hi, "kPa") },
+    tipWindow: { lo: qty(mat.tipSpeed.lo, "m/s"), hi: qty(mat.tipSpeed.hi, "m/s") },
+    verificationSpecs: templateSpecs(opts.specs ?? DEFAULT_SPEC_TEMPLATE, vars,
+      single ? undefined : passes.map(p=>({ name: p.name, kerf: p.kerf.value, tip: p.tipSpeed.value }))),
+  };
+}
@@ -0,0 +1,42 @@
+// ------------------------
+// Least squares
+// ------------------------
+
+// Solves A·x = b by Gaussian elimination with partial pivoting; undefined when singular.
+export function solveLinear(A:number[][], b:number[]):number[]|undefined {
+  const n = b.length;
+  const M = A.map((row, i)=>[...row, b[i]]);
+  for(let c=0; c<n; c++){
+    let p = c;
+    for(let r=c+1; r<n; r++) if(Math.abs(M[r][c]) > Math.abs(M[p][c])) p = r;
+    const scale = Math.max(1, ...M.map(r=>Math.abs(r[c])));
+    if(Math.abs(M[p][c]) < 1e-12 * scale) return undefined;
+    [M[c], M[p]] = [M[p], M[c]];
+    for(let r=0; r<n; r++){
+      if(r === c) continue;
+      const f = M[r][c] / M[c][c];
+      for(let k=c; k<=n; k++) M[r][k] -= f * M[c][k];
+    }
+  }
+  return M.map((row, i)=>row[n] / row[i]);
+}
+
+// Ordinary least squares via the normal equations; X is one row of regressors per observation.
+export function leastSquares(X:number[][], y:number[]):number[]|undefined {
+  const p = X[0]?.length ?? 0;
+  if(!p || X.length < p) return undefined;
+  const XtX = Array.from({ length: p }, (_, i)=>Array.from({ length: p }, (_, j)=>X.reduce((s, r)=>s + r[i] * r[j], 0)));
+  const Xty = Array.from({ length: p }, (_, i)=>X.reduce((s, r, k)=>s + r[i] * y[k], 0));
+  return solveLinear(XtX, Xty);
+}
+
+export type FitQuality = { n:number, r2:number, rmse:number };
+
+// R² against the mean of the measurements (can be negative for a model worse than the mean).
+export function fitQuality(measured:number[], predicted:number[]):FitQuality {
+  const n = measured.length;
+  const mean = measured.reduce((a, b)=>a + b, 0) / Math.max(n, 1);
+  let ssRes = 0, ssTot = 0;
+  measured.forEach((m, i)=>{ ssRes += (m - predicted[i]) ** 2; ssTot += (m - mean) ** 2; });
+  return { n, r2: ssTot > 0 ? 1 - ssRes / ssTot : NaN, rmse: n ? Math.sqrt(ssRes / n) : NaN };
+}
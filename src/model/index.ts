@@ -0,0 +1,31 @@
+// ------------------------
+// Headless dicing model
+// ------------------------
+// Framework-free: no React or DOM, safe to import from Node batch jobs and MES scripts.
+
+export * from "./types";
+export * from "./materials";
+export * from "./physics";
+export * from "./placement";
+export * from "./specs";
+export * from "./verification";
+export * from "./recipe";
+export * from "./evaluate";
+export * from "./validate";
+export * from "./throughput";
+export * from "./alignment";
+export * from "./lotplan";
+export * from "./compare";
+export * from "./optimize";
+export * from "./sweep";
+export * from "./csv";
+export * from "./fit";
+export * from "./calibration";
+export * from "./wear";
+export * from "./passes";
+export * from "./spc";
+export * from "./qualification";
+export * from "./pdf";
+export * from "./sop";
+export * from "./hash";
+export * from "./signoff";
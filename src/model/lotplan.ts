@@ -0,0 +1,176 @@
+import { csvCell } from "./csv";
+import { DEFAULT_MATERIAL_DB, type MaterialDB } from "./materials";
+import { evaluateRecipe } from "./evaluate";
+import { recipePasses } from "./passes";
+import { DEFAULT_CYCLE_SETTINGS, DEFAULT_LOT_PLAN, simulateCycle, type CutMode } from "./throughput";
+import { predictWear, type BladeRecord } from "./wear";
+import type { Recipe } from "./types";
+
+// ------------------------
+// Lot planning
+// ------------------------
+// A queue of lots is spread over identical saws in queue order, each lot going to the saw that
+// frees up first. Per wafer the cycle simulation gives saw time and cut length, the wear forecast
+// gives blade life (wafers per blade, dressing as scheduled) and the recipe's coolant flow runs
+// while each pass cuts. Saws start without blades; a blade taken off for a different spec goes
+// back on the shelf and is remounted before a new one is opened.
+
+export type LotInput = { id:string, product:string, wafers:number, recipe:Recipe, yieldPct:number };
+
+export type PlannerSettings = {
+  saws:number;
+  mode:CutMode;
+  lotSetup_s:number;
+  availability:number;       // 0–1; stretches run time into wall-clock time
+  bladeExposure_um:number;   // new blade
+  bladeCost:number;          // per new blade
+  bladeSwap_s:number;
+  horizon:number;            // wafers searched for blade life
+};
+export const DEFAULT_PLANNER_SETTINGS:PlannerSettings = {
+  saws: 2, mode: "single", lotSetup_s: DEFAULT_LOT_PLAN.lotSetup_s, availability: DEFAULT_LOT_PLAN.availability,
+  bladeExposure_um: 800, bladeCost: 120, bladeSwap_s: DEFAULT_CYCLE_SETTINGS.bladeSwap_s, horizon: 5000,
+};
+
+export type LotForecast = {
+  id:string;
+  product:string;
+  material:string;
+  wafers:number;
+  saw:number;                // from 1
+  start_h:number;            // wall clock from plan start
+  end_h:number;
+  run_h:number;              // set-up, wafers and blade changes, before availability
+  wafer_s:number;
+  cut_m:number;              // blade contact length, all passes
+  bladeLife:number[];        // wafers per blade, per pass
+  bladeChanges:number;
+  newBlades:number;
+  bladeCost:number;
+  coolant_L:number;
+  grossDies:number;
+  goodDies:number;
+  notes:string[];
+};
+export type SawLoad = { saw:number, lots:number, wafers:number, run_h:number, end_h:number, utilization:number };
+export type WeekLoad = { week:number, wafers:number, goodDies:number, run_h:number, newBlades:number, bladeCost:number, coolant_L:number };
+export type LotPlanTotals = { lots:number, wafers:number, run_h:number, makespan_h:number, bladeChanges:number, newBlades:number, bladeCost:number, coolant_L:number, goodDies:number };
+export type LotPlanResult = { lots:LotForecast[], skipped:{ id:string, reason:string }[], saws:SawLoad[], weeks:WeekLoad[], totals:LotPlanTotals };
+
+export const WEEK_H = 168;
+
+// Per-wafer figures for one recipe; placement and the wear search are the slow parts, so
+// repeated recipes are cached by the caller.
+function waferModel(r:Recipe, s:PlannerSettings, db:MaterialDB){
+  const ev = evaluateRecipe(r, { db });
+  const layout = ev.dies.layout;
+  const passes = recipePasses(r);
+  const sim = simulateCycle(layout, r.waferDiam, passes.map(p=>p.feed), { mode: s.mode, bladeSwapEvery: 0 });
+  const notes:string[] = [];
+  const blades = passes.map(p=>{
+    // Each pass cuts every lane once; coolant flows while it cuts.
+    const one = simulateCycle(layout, r.waferDiam, p.feed, { mode: "single" });
+    const fresh:BladeRecord = { serial: "plan", bond: p.bladeBond, thickness_um: p.bladeThk, diameter_mm: p.bladeDia, exposure_um: s.bladeExposure_um, installedAt: new Date(0).toISOString(), events: [] };
+    const fc = predictWear(fresh, { material: r.material, waferThk: r.waferThk, street: r.street, cutPerWafer_mm: one.cutLength_mm }, db, s.horizon);
+    if(fc.replaceAfter === 0) throw new Error(`${p.name}: a new ${s.bladeExposure_um} µm exposure blade cannot cut a ${r.waferThk} µm wafer`);
+    if(fc.replaceAfter === undefined) notes.push(`${p.name} blade outlasts ${s.horizon} wafers; life capped there`);
+    return { key: `${p.bladeBond} ${p.bladeThk} µm Ø${p.bladeDia}`, life: fc.replaceAfter ?? s.horizon, coolant_L: p.coolant * one.cut_s / 60 };
+  });
+  return { usable: ev.dies.usable.value, wafer_s: sim.total_s, cut_m: sim.cutLength_mm / 1000, blades, notes };
+}
+
+// Blade on a spindle: spec and remaining fraction of its life.
+type Mounted = { key:string, left:number };
+
+export function planLots(queue:LotInput[], settings:Partial<PlannerSettings> = {}, db:MaterialDB = DEFAULT_MATERIAL_DB):LotPlanResult {
+  const s = { ...DEFAULT_PLANNER_SETTINGS, ...settings };
+  const nSaws = Math.max(1, Math.floor(s.saws));
+  const avail = Math.max(0.01, Math.min(1, s.availability));
+  const cache = new Map<string,ReturnType<typeof waferModel>>();
+  const free = Array.from({ length: nSaws }, ()=>0);
+  const mounted = Array.from({ length: nSaws }, ()=>[] as (Mounted|undefined)[]);
+  const shelf = Array.from({ length: nSaws }, ()=>new Map<string,number[]>());
+  const lots:LotForecast[] = [];
+  const skipped:{ id:string, reason:string }[] = [];
+
+  for(const lot of queue){
+    if(!(lot.wafers > 0)){ skipped.push({ id: lot.id, reason: "no wafers" }); continue; }
+    const key = JSON.stringify(lot.recipe);
+    let m = cache.get(key);
+    if(!m){
+      try { m = waferModel(lot.recipe, s, db); }
+      catch(err){ skipped.push({ id: lot.id, reason: (err as Error).message }); continue; }
+      cache.set(key, m);
+    }
+    const saw = free.indexOf(Math.min(...free));
+
+    // Mount the right blade on every spindle position, then wear through the lot.
+    let changes = 0, opened = 0;
+    m.blades.forEach((b, i)=>{
+      let cur = mounted[saw][i];
+      if(cur?.key !== b.key){
+        if(cur && cur.left > 0) shelf[saw].set(cur.key, [...(shelf[saw].get(cur.key) ?? []), cur.left]);
+        const kept = shelf[saw].get(b.key)?.pop();
+        if(kept === undefined) opened++;
+        cur = { key: b.key, left: kept ?? 1 };
+        changes++;
+      }
+      let use = lot.wafers / b.life;
+      if(use > cur.left){
+        use -= cur.left;
+        const n = Math.ceil(use - 1e-9);
+        changes += n; opened += n;
+        cur = { key: b.key, left: n - use };
+      } else cur = { key: b.key, left: cur.left - use };
+      mounted[saw][i] = cur;
+    });
+
+    const run_s = s.lotSetup_s + lot.wafers * m.wafer_s + changes * s.bladeSwap_s;
+    const start = free[saw], end = start + run_s / avail / 3600;
+    free[saw] = end;
+    const gross = m.usable * lot.wafers;
+    lots.push({
+      id: lot.id, product: lot.product, material: lot.recipe.material, wafers: lot.wafers, saw: saw + 1,
+      start_h: start, end_h: end, run_h: run_s / 3600, wafer_s: m.wafer_s, cut_m: m.cut_m * lot.wafers,
+      bladeLife: m.blades.map(b=>b.life), bladeChanges: changes, newBlades: opened, bladeCost: opened * s.bladeCost,
+      coolant_L: lot.wafers * m.blades.reduce((a, b)=>a + b.coolant_L, 0),
+      grossDies: gross, goodDies: Math.floor(gross * Math.max(0, Math.min(100, lot.yieldPct)) / 100), notes: m.notes,
+    });
+  }
+
+  const makespan = Math.max(0, ...free);
+  const saws = free.map((end, i)=>{
+    const own = lots.filter(l=>l.saw===i + 1);
+    const run_h = own.reduce((a, l)=>a + l.run_h, 0);
+    return { saw: i + 1, lots: own.length, wafers: own.reduce((a, l)=>a + l.wafers, 0), run_h, end_h: end, utilization: makespan > 0 ? run_h / makespan : 0 };
+  });
+
+  // Weekly load: each lot's output is spread evenly over its bar.
+  const weeks:WeekLoad[] = Array.from({ length: Math.max(1, Math.ceil(makespan / WEEK_H)) }, (_, i)=>({ week: i + 1, wafers: 0, goodDies: 0, run_h: 0, newBlades: 0, bladeCost: 0, coolant_L: 0 }));
+  for(const l of lots){
+    const span = l.end_h - l.start_h;
+    weeks.forEach(w=>{
+      const lo = (w.week - 1) * WEEK_H, hi = w.week * WEEK_H;
+      const f = span > 0 ? Math.max(0, Math.min(hi, l.end_h) - Math.max(lo, l.start_h)) / span : (l.start_h >= lo && l.start_h < hi ? 1 : 0);
+      w.wafers += f * l.wafers; w.goodDies += f * l.goodDies; w.run_h += f * l.run_h;
+      w.newBlades += f * l.newBlades; w.bladeCost += f * l.bladeCost; w.coolant_L += f * l.coolant_L;
+    });
+  }
+
+  const sum = (k:keyof LotForecast) => lots.reduce((a, l)=>a + (l[k] as number), 0);
+  return {
+    lots, skipped, saws, weeks,
+    totals: {
+      lots: lots.length, wafers: sum("wafers"), run_h: sum("run_h"), makespan_h: makespan, bladeChanges: sum("bladeChanges"),
+      newBlades: sum("newBlades"), bladeCost: sum("bladeCost"), coolant_L: sum("coolant_L"), goodDies: sum("goodDies"),
+    },
+  };
+}
+
+export function writeLotPlanCSV(plan:LotPlanResult){
+  const n = (v:number, d:number) => String(Number(v.toFixed(d)));
+  const rows = [["lot", "product", "material", "wafers", "saw", "start_h", "end_h", "run_h", "wafer_s", "cut_m", "blade_life_wafers", "blade_changes", "new_blades", "blade_cost", "coolant_L", "gross_dies", "good_dies"],
+    ...plan.lots.map(l=>[l.id, l.product, l.material, String(l.wafers), String(l.saw), n(l.start_h, 3), n(l.end_h, 3), n(l.run_h, 3), n(l.wafer_s, 1), n(l.cut_m, 1),
+      l.bladeLife.join("/"), String(l.bladeChanges), String(l.newBlades), n(l.bladeCost, 2), n(l.coolant_L, 1), String(l.grossDies), String(l.goodDies)])];
+  return rows.map(r=>r.map(csvCell).join(",")).join("\n");
+}
@@ -0,0 +1,150 @@
+// ------------------------
+// Material and blade database
+// ------------------------
+// Every coefficient the models use comes from here, keyed by id. Lookups of unknown ids
+// throw instead of falling back to a generic value, so a typo cannot produce a plausible recipe.
+
+// Weights of the linear chipping-risk terms (see riskTerms in physics.ts).
+export type RiskWeights = { feed:number, tipLow:number, tipHigh:number, blade:number, thickness:number, coolant:number };
+export const DEFAULT_RISK_WEIGHTS:RiskWeights = { feed: 8, tipLow: 0.8, tipHigh: 0.9, blade: 0.01, thickness: 6, coolant: 1.1 };
+export const KERF_WEAR_K = 0.12;
+
+export type MaterialSpec = {
+  id:string;
+  name:string;
+  hardness_GPa?:number;             // Vickers/Knoop, reference only
+  toughness_MPam?:number;           // fracture toughness K_IC, reference only
+  feedBase:number;                  // mm/s at 1 mm thickness (scaled by 1/√t)
+  rpmFactor:number;                 // multiplies the 38 m/s tip-speed target
+  powerCoeff:number;                // kW per (mm/s · mm kerf · mm thickness)
+  riskBase:number;                  // chipping score before process terms, 0–100
+  tipSpeed:{ lo:number, hi:number }; // recommended window, m/s
+  kerfWearK?:number;                // kerf growth per unit wear; KERF_WEAR_K when absent
+  riskWeights?:RiskWeights;         // DEFAULT_RISK_WEIGHTS when absent
+  bladeWear_um_per_m?:number;       // blade exposure loss per metre cut with a resin bond; the wear model needs it
+  notes?:string;
+};
+export type BondSpec = {
+  id:string;
+  name:string;
+  rpmFactor:number;
+  wearFactor?:number;               // exposure loss relative to resin (1 when absent)
+};
+export type MaterialDB = { schema:number, materials:MaterialSpec[], bonds:BondSpec[] };
+
+export const MATERIAL_DB_SCHEMA = 2;
+
+export const DEFAULT_MATERIAL_DB:MaterialDB = {
+  schema: MATERIAL_DB_SCHEMA,
+  materials: [
+    { id: "Si", name: "Silicon (100)", hardness_GPa: 11, toughness_MPam: 0.9, feedBase: 2.0, rpmFactor: 1.0, powerCoeff: 0.015, riskBase: 25, tipSpeed: { lo: 30, hi: 45 }, bladeWear_um_per_m: 0.25 },
+    { id: "GaAs", name: "GaAs", hardness_GPa: 7, toughness_MPam: 0.45, feedBase: 1.2, rpmFactor: 0.9, powerCoeff: 0.02, riskBase: 40, tipSpeed: { lo: 30, hi: 45 }, bladeWear_um_per_m: 0.2 },
+    { id: "SiC", name: "SiC", hardness_GPa: 25, toughness_MPam: 3.0, feedBase: 0.7, rpmFactor: 1.15, powerCoeff: 0.06, riskBase: 55, tipSpeed: { lo: 30, hi: 45 }, bladeWear_um_per_m: 2.5 },
+    { id: "Sapphire", name: "Sapphire", hardness_GPa: 22, toughness_MPam: 2.5, feedBase: 0.5, rpmFactor: 1.2, powerCoeff: 0.07, riskBase: 60, tipSpeed: { lo: 30, hi: 45 }, bladeWear_um_per_m: 3.0 },
+    { id: "Glass", name: "Borosilicate Glass", hardness_GPa: 6, toughness_MPam: 0.8, feedBase: 0.8, rpmFactor: 1.05, powerCoeff: 0.018, riskBase: 45, tipSpeed: { lo: 30, hi: 45 }, bladeWear_um_per_m: 0.8 },
+  ],
+  bonds: [
+    { id: "Resin", name: "Resin-bonded diamond", rpmFactor: 1.0, wearFactor: 1.0 },
+    { id: "Metal", name: "Metal-bonded diamond", rpmFactor: 0.9, wearFactor: 0.35 },
+    { id: "Hybrid", name: "Hybrid bond", rpmFactor: 1.1, wearFactor: 0.6 },
+  ],
+};
+
+export function materialSpec(db:MaterialDB, id:string):MaterialSpec {
+  const m = db.materials.find(x=>x.id===id);
+  if(!m) throw new Error(`Unknown material "${id}"`);
+  return m;
+}
+
+export function bondSpec(db:MaterialDB, id:string):BondSpec {
+  const b = db.bonds.find(x=>x.id===id);
+  if(!b) throw new Error(`Unknown blade bond "${id}"`);
+  return b;
+}
+
+export type DBIssue = { path:string, message:string };
+
+// Structural and range checks; an empty list means the database is usable by every model.
+export function validateMaterialDB(db:MaterialDB):DBIssue[] {
+  const issues:DBIssue[] = [];
+  const num = (path:string, v:unknown, lo:number, hi:number) => {
+    if(typeof v !== "number" || !isFinite(v)) issues.push({ path, message: "must be a number" });
+    else if(v < lo || v > hi) issues.push({ path, message: `must be within ${lo}–${hi}` });
+  };
+  const ids = (kind:string, list:{ id:string }[]) => {
+    const seen = new Set<string>();
+    list.forEach((x, i)=>{
+      const id = typeof x.id === "string" ? x.id.trim() : "";
+      if(!id) issues.push({ path: `${kind}[${i}].id`, message: "is required" });
+      else if(seen.has(id)) issues.push({ path: `${kind}[${i}].id`, message: `duplicate id "${id}"` });
+      seen.add(id);
+    });
+  };
+  if(!db.materials.length) issues.push({ path: "materials", message: "at least one material is required" });
+  if(!db.bonds.length) issues.push({ path: "bonds", message: "at least one bond is required" });
+  ids("materials", db.materials);
+  ids("bonds", db.bonds);
+  db.materials.forEach((m, i)=>{
+    const p = `materials[${i}]`;
+    num(`${p}.feedBase`, m.feedBase, 0.01, 50);
+    num(`${p}.rpmFactor`, m.rpmFactor, 0.1, 5);
+    num(`${p}.powerCoeff`, m.powerCoeff, 0, 10);
+    num(`${p}.riskBase`, m.riskBase, 0, 100);
+    num(`${p}.tipSpeed.lo`, m.tipSpeed?.lo, 1, 300);
+    num(`${p}.tipSpeed.hi`, m.tipSpeed?.hi, 1, 300);
+    if(m.tipSpeed && m.tipSpeed.lo >= m.tipSpeed.hi) issues.push({ path: `${p}.tipSpeed`, message: "lo must be below hi" });
+    if(m.hardness_GPa !== undefined) num(`${p}.hardness_GPa`, m.hardness_GPa, 0, 200);
+    if(m.toughness_MPam !== undefined) num(`${p}.toughness_MPam`, m.toughness_MPam, 0, 50);
+    if(m.kerfWearK !== undefined) num(`${p}.kerfWearK`, m.kerfWearK, 0, 5);
+    if(m.bladeWear_um_per_m !== undefined) num(`${p}.bladeWear_um_per_m`, m.bladeWear_um_per_m, 0, 1000);
+    if(m.riskWeights) (Object.keys(DEFAULT_RISK_WEIGHTS) as (keyof RiskWeights)[]).forEach(k=>num(`${p}.riskWeights.${k}`, m.riskWeights![k], -1000, 1000));
+  });
+  db.bonds.forEach((b, i)=>{
+    num(`bonds[${i}].rpmFactor`, b.rpmFactor, 0.1, 5);
+    if(b.wearFactor !== undefined) num(`bonds[${i}].wearFactor`, b.wearFactor, 0.01, 20);
+  });
+  return issues;
+}
+
+const optNum = (v:unknown) => v === undefined || v === null || v === "" ? undefined : Number(v);
+
+// Parses an exported database. Throws on anything validateMaterialDB rejects.
+export function importMaterialDB(text:string):MaterialDB {
+  const rec = (v:unknown) => (v && typeof v === "object" ? v : {}) as Record<string,unknown>;
+  const doc = rec(JSON.parse(text));
+  const schema = typeof doc.schema === "number" ? doc.schema : MATERIAL_DB_SCHEMA;
+  if(schema > MATERIAL_DB_SCHEMA) throw new Error(`Material file schema ${schema} is newer than supported (${MATERIAL_DB_SCHEMA})`);
+  if(!Array.isArray(doc.materials)) throw new Error("Material file has no materials");
+  const db:MaterialDB = {
+    schema: MATERIAL_DB_SCHEMA,
+    materials: doc.materials.map(rec).map(m=>({
+      id: String(m.id ?? "").trim(),
+      name: String(m.name ?? m.id ?? ""),
+      hardness_GPa: optNum(m.hardness_GPa),
+      toughness_MPam: optNum(m.toughness_MPam),
+      feedBase: Number(m.feedBase),
+      rpmFactor: Number(m.rpmFactor),
+      powerCoeff: Number(m.powerCoeff),
+      riskBase: Number(m.riskBase),
+      tipSpeed: { lo: Number(rec(m.tipSpeed).lo), hi: Number(rec(m.tipSpeed).hi) },
+      kerfWearK: optNum(m.kerfWearK),
+      bladeWear_um_per_m: optNum(m.bladeWear_um_per_m),
+      riskWeights: m.riskWeights ? Object.fromEntries(Object.keys(DEFAULT_RISK_WEIGHTS).map(k=>[k, Number(rec(m.riskWeights)[k])])) as RiskWeights : undefined,
+      notes: m.notes ? String(m.notes) : undefined,
+    })),
+    // Files with materials only keep the built-in bonds.
+    bonds: Array.isArray(doc.bonds)
+      ? doc.bonds.map(rec).map(b=>({ id: String(b.id ?? "").trim(), name: String(b.name ?? b.id ?? ""), rpmFactor: Number(b.rpmFactor), wearFactor: optNum(b.wearFactor) }))
+      : DEFAULT_MATERIAL_DB.bonds,
+  };
+  // Schema 1 predates blade wear rates; built-in ids get the built-in values.
+  if(schema < 2){
+    db.materials = db.materials.map(m=>({ ...m, bladeWear_um_per_m: m.bladeWear_um_per_m ?? DEFAULT_MATERIAL_DB.materials.find(d=>d.id===m.id)?.bladeWear_um_per_m }));
+    db.bonds = db.bonds.map(b=>({ ...b, wearFactor: b.wearFactor ?? DEFAULT_MATERIAL_DB.bonds.find(d=>d.id===b.id)?.wearFactor }));
+  }
+  const issues = validateMaterialDB(db);
+  if(issues.length) throw new Error(issues.map(i=>`${i.path} ${i.message}`).join("; "));
+  return db;
+}
+
+export const exportMaterialDB = (db:MaterialDB) => JSON.stringify(db, null, 2);
@@ -0,0 +1,85 @@
+import { DEFAULT_MATERIAL_DB, materialSpec, type MaterialDB } from "./materials";
+import { bladeTipSpeed, chippingRisk, estimateKerf, estimatePowerKW } from "./physics";
+import type { DieLayout } from "./placement";
+import { cycleTime } from "./throughput";
+import type { Recipe } from "./types";
+
+// ------------------------
+// Process window optimizer
+// ------------------------
+// Grid search over feed, RPM, coolant and blade thickness inside the machine limits. Feasible
+// points keep tip speed in the material's window, spindle power under the cap and kerf below
+// the street; the result is the Pareto front of chipping risk vs. cycle time.
+
+export type Range = { min:number, max:number };
+export type MachineLimits = {
+  rpm:Range;
+  feed:Range;          // mm/s
+  coolant:Range;       // L/min; max is the coolant supply limit
+  bladeThk:Range;      // µm, blades on the shelf
+  powerMax_kW:number;  // spindle power cap
+};
+
+export const DEFAULT_MACHINE_LIMITS:MachineLimits = {
+  rpm: { min: 8000, max: 60000 },
+  feed: { min: 0.2, max: 6 },
+  coolant: { min: 1, max: 12 },
+  bladeThk: { min: 15, max: 60 },
+  powerMax_kW: 1.5,
+};
+
+export type ProcessCandidate = {
+  rpm:number, feed:number, coolant:number, bladeThk:number;
+  tip:number, kerf:number, powerKW:number;
+  risk:number;          // chippingRisk score
+  cycle_s:number;       // cut time per wafer
+};
+
+export type OptimizeResult = { pareto:ProcessCandidate[], evaluated:number, feasible:number, rejected:Record<string,number>, note?:string };
+
+const steps = (r:Range, n:number) => n < 2 || r.max <= r.min ? [r.min] : Array.from({ length: n }, (_, i)=>r.min + (r.max - r.min) * i / (n - 1));
+
+export function optimizeProcessWindow(r:Recipe, layout:DieLayout, limits:MachineLimits = DEFAULT_MACHINE_LIMITS, opts:{ db?:MaterialDB, steps?:number }={}):OptimizeResult {
+  const db = opts.db ?? DEFAULT_MATERIAL_DB;
+  const n = opts.steps ?? 12;
+  const { tipSpeed, kerfWearK } = materialSpec(db, r.material);
+  // Tip speed is what the window constrains, so RPM steps are taken inside it.
+  const tipRpm = (tip:number) => tip * 60 / (Math.PI * (r.bladeDia / 1000));
+  const rpmRange = { min: Math.max(limits.rpm.min, tipRpm(tipSpeed.lo)), max: Math.min(limits.rpm.max, tipRpm(tipSpeed.hi)) };
+  const rejected:Record<string,number> = { tip: 0, power: 0, kerf: 0 };
+  const feasible:ProcessCandidate[] = [];
+  let evaluated = 0;
+  if(rpmRange.max < rpmRange.min){
+    return { pareto: [], evaluated, feasible: 0, rejected, note: `No RPM within ${limits.rpm.min}–${limits.rpm.max} gives ${tipSpeed.lo}–${tipSpeed.hi} m/s on a ${r.bladeDia} mm blade` };
+  }
+  for(const rpm of steps(rpmRange, n)){
+    const tip = bladeTipSpeed(r.bladeDia, rpm);
+    for(const bladeThk of steps(limits.bladeThk, Math.max(2, Math.round(n / 2)))){
+      const kerf = estimateKerf(bladeThk, r.wear, kerfWearK);
+      for(const feed of steps(limits.feed, n)){
+        const cycle_s = cycleTime(layout, r.waferDiam, feed).cut_s;
+        const powerKW = estimatePowerKW(r.material, feed, kerf, r.waferThk, db);
+        for(const coolant of steps(limits.coolant, Math.max(2, Math.round(n / 2)))){
+          evaluated++;
+          if(tip < tipSpeed.lo - 1e-9 || tip > tipSpeed.hi + 1e-9){ rejected.tip++; continue; }
+          if(kerf >= r.street){ rejected.kerf++; continue; }
+          if(powerKW > limits.powerMax_kW){ rejected.power++; continue; }
+          const risk = chippingRisk(r.material, feed, tip, r.waferThk, bladeThk, coolant, db);
+          feasible.push({ rpm, feed, coolant, bladeThk, tip, kerf, powerKW, risk, cycle_s });
+        }
+      }
+    }
+  }
+  return { pareto: paretoFront(feasible), evaluated, feasible: feasible.length, rejected };
+}
+
+// Non-dominated points for (risk, cycle time), fastest first. Ties keep the lowest coolant,
+// then the thinnest blade.
+export function paretoFront(cands:ProcessCandidate[]):ProcessCandidate[] {
+  const sorted = [...cands].sort((a, b)=>a.cycle_s - b.cycle_s || a.risk - b.risk || a.coolant - b.coolant || a.bladeThk - b.bladeThk || a.rpm - b.rpm);
+  const front:ProcessCandidate[] = [];
+  for(const c of sorted){
+    if(!front.length || c.risk < front[front.length - 1].risk) front.push(c);
+  }
+  return front;
+}
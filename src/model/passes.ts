@@ -0,0 +1,79 @@
+import { estimateKerf } from "./physics";
+import type { CutPass, Recipe } from "./types";
+import { TAPE_CUT_UM } from "./wear";
+
+// ------------------------
+// Multi-pass cuts
+// ------------------------
+// A step cut opens the street with Z1 (wide or bevel blade) and separates with a thin Z2. The
+// recipe's own blade and setpoints are always the last, through-cut pass.
+
+export const isBladeProfile = (v:unknown): v is CutPass["profile"] => v === "straight" || v === "bevel";
+
+// All passes in cut order; the final pass cuts through the wafer into the tape.
+export function recipePasses(r:Recipe):CutPass[] {
+  const final:CutPass = {
+    name: r.passes?.length ? `Z${r.passes.length + 1}` : "Z1",
+    profile: "straight", bevelAngle: 0,
+    bladeDia: r.bladeDia, bladeThk: r.bladeThk, bladeBond: r.bladeBond,
+    depth: r.waferThk + TAPE_CUT_UM,
+    rpm: r.rpm, feed: r.feed, coolant: r.coolant,
+  };
+  return [...(r.passes ?? []), final];
+}
+
+// Width at the top of the cut. A V-tip only reaches full blade width once the cut is deeper
+// than the V.
+export function passKerf(p:CutPass, cutDepth_um:number, wear:number, k?:number){
+  const full = estimateKerf(p.bladeThk, wear, k);
+  if(p.profile !== "bevel" || !(p.bevelAngle > 0)) return full;
+  const vWidth = 2 * Math.max(0, cutDepth_um) * Math.tan(p.bevelAngle / 2 * Math.PI / 180);
+  return Math.min(full, vWidth * full / p.bladeThk);
+}
+
+// Wafer thickness each pass removes; passes that don't go deeper than the previous one remove nothing.
+export function engagedThickness(r:Recipe):number[] {
+  let reached = 0;
+  return recipePasses(r).map(p=>{
+    const to = Math.min(p.depth, r.waferThk);
+    const t = Math.max(0, to - reached);
+    reached = Math.max(reached, to);
+    return t;
+  });
+}
+
+// Pass names key the per-pass specs (kerf:Z1, tip:Z1), so they must be unique and must not
+// take the through-cut pass's automatic name.
+export function passIssues(r:Recipe):string[] {
+  const issues:string[] = [];
+  const finalName = recipePasses(r)[r.passes?.length ?? 0].name;
+  (r.passes ?? []).forEach((p, i, all)=>{
+    if(p.name === finalName) issues.push(`${p.name}: name is reserved for the through-cut pass`);
+    else if(all.findIndex(q=>q.name === p.name) < i) issues.push(`${p.name}: name is used by an earlier pass`);
+    if(!(p.depth > 0)) issues.push(`${p.name}: depth must be positive`);
+    else if(p.depth >= r.waferThk) issues.push(`${p.name}: depth ${p.depth} µm reaches through the ${r.waferThk} µm wafer; only the final pass cuts through`);
+    if(i > 0 && p.depth <= all[i-1].depth) issues.push(`${p.name}: depth must exceed ${all[i-1].name} (${all[i-1].depth} µm)`);
+    if(i === all.length - 1 && p.bladeThk < r.bladeThk) issues.push(`${p.name}: blade (${p.bladeThk} µm) is thinner than the through-cut blade (${r.bladeThk} µm)`);
+    if(p.profile === "bevel" && !(p.bevelAngle > 0 && p.bevelAngle < 180)) issues.push(`${p.name}: bevel angle must be between 0 and 180°`);
+  });
+  return issues;
+}
+
+// Coerces one loosely typed pass; missing fields come from the recipe's own blade and setpoints.
+export function toCutPass(raw:unknown, r:Recipe, i:number):CutPass {
+  const p = (raw && typeof raw === "object" ? raw : {}) as Record<string,unknown>;
+  const num = (v:unknown, d:number) => v !== undefined && v !== null && v !== "" && isFinite(Number(v)) ? Number(v) : d;
+  const str = (v:unknown, d:string) => typeof v === "string" && v.trim() ? v.trim() : d;
+  return {
+    name: str(p.name, `Z${i + 1}`),
+    profile: isBladeProfile(p.profile) ? p.profile : "straight",
+    bevelAngle: num(p.bevelAngle, 0),
+    bladeDia: num(p.bladeDia, r.bladeDia),
+    bladeThk: num(p.bladeThk, r.bladeThk),
+    bladeBond: str(p.bladeBond, r.bladeBond),
+    depth: num(p.depth, r.waferThk / 2),
+    rpm: num(p.rpm, r.rpm),
+    feed: num(p.feed, r.feed),
+    coolant: num(p.coolant, r.coolant),
+  };
+}
@@ -0,0 +1,99 @@
+// ------------------------
+// Minimal PDF writer
+// ------------------------
+// Text-only A4 pages with the standard Helvetica/Courier fonts, so documents can be generated
+// locally without a PDF library. Lines wrap at an estimated width and paginate automatically.
+
+export type PDFFont = "regular"|"bold"|"mono";
+export type PDFLine = { text:string, font?:PDFFont, size?:number, indent?:number, spaceBefore?:number, color?:[number,number,number] };
+export type PDFOptions = { title?:string, header?:string, footer?:(page:number, pages:number)=>string };
+
+const PAGE_W = 595, PAGE_H = 842, MARGIN = 50;
+const FONTS:Record<PDFFont,{ res:string, base:string, width:number }> = {
+  regular: { res: "F1", base: "Helvetica", width: 0.5 },
+  bold: { res: "F2", base: "Helvetica-Bold", width: 0.55 },
+  mono: { res: "F3", base: "Courier", width: 0.6 },
+};
+
+// WinAnsi has no glyphs for these; everything else outside Latin-1 becomes "?".
+const FALLBACK:Record<string,string> = { "→": "->", "≤": "<=", "≥": ">=", "√": "sqrt", "θ": "theta", "σ": "sigma", "Δ": "delta", "−": "-", "≈": "~" };
+const WIN_ANSI:Record<string,number> = { "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99 };
+
+// A PDF literal string body: ASCII, with parentheses/backslash escaped and other bytes in octal.
+function pdfString(s:string){
+  let out = "";
+  for(const ch of s){
+    const sub = FALLBACK[ch];
+    if(sub){ out += sub; continue; }
+    const c = WIN_ANSI[ch] ?? ch.charCodeAt(0);
+    if(ch.length > 1 || c > 0xFF || (c >= 0x80 && c < 0xA0 && WIN_ANSI[ch] === undefined)){ out += "?"; continue; }
+    if(ch === "(" || ch === ")" || ch === "\\") out += "\\" + ch;
+    else if(c < 0x20 || c > 0x7E) out += "\\" + c.toString(8).padStart(3, "0");
+    else out += ch;
+  }
+  return out;
+}
+
+function wrap(text:string, maxChars:number):string[] {
+  const out:string[] = [];
+  for(const para of text.split("\n")){
+    let line = "";
+    for(const word of para.split(" ")){
+      if(line && (line + " " + word).length > maxChars){ out.push(line); line = word; }
+      else line = line ? line + " " + word : word;
+      while(line.length > maxChars){ out.push(line.slice(0, maxChars)); line = line.slice(maxChars); }
+    }
+    out.push(line);
+  }
+  return out;
+}
+
+export function linesToPDF(lines:PDFLine[], opts:PDFOptions = {}):Uint8Array {
+  // Layout: place every wrapped line on a page.
+  type Placed = { text:string, font:PDFFont, size:number, x:number, y:number, color?:[number,number,number] };
+  const pages:Placed[][] = [[]];
+  const top = PAGE_H - MARGIN - (opts.header ? 18 : 0), bottom = MARGIN + (opts.footer ? 18 : 0);
+  let y = top;
+  for(const l of lines){
+    const font = l.font ?? "regular", size = l.size ?? 10, indent = l.indent ?? 0;
+    const maxChars = Math.max(10, Math.floor((PAGE_W - 2 * MARGIN - indent) / (size * FONTS[font].width)));
+    if(y !== top) y -= l.spaceBefore ?? 0;
+    for(const t of wrap(l.text, maxChars)){
+      if(y - size < bottom){ pages.push([]); y = top; }
+      y -= size * 1.25;
+      pages[pages.length - 1].push({ text: t, font, size, x: MARGIN + indent, y, color: l.color });
+    }
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3–5 fonts, 6 info, then a page and its content stream per page.
+  const objs:string[] = [];
+  const fontIds = { regular: 3, bold: 4, mono: 5 };
+  const pageIds = pages.map((_, i)=>7 + 2 * i);
+  objs[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objs[2] = `<< /Type /Pages /Kids [${pageIds.map(id=>`${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  (Object.keys(FONTS) as PDFFont[]).forEach(f=>{ objs[fontIds[f]] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[f].base} /Encoding /WinAnsiEncoding >>`; });
+  objs[6] = `<< /Title (${pdfString(opts.title ?? "")}) /Producer (Wafer Dicing Engineer Toolkit) >>`;
+  const fontRes = (Object.keys(FONTS) as PDFFont[]).map(f=>`/${FONTS[f].res} ${fontIds[f]} 0 R`).join(" ");
+  pages.forEach((placed, i)=>{
+    const text = (x:number, yy:number, f:PDFFont, size:number, s:string, color?:[number,number,number]) =>
+      `${(color ?? [0, 0, 0]).join(" ")} rg BT /${FONTS[f].res} ${size} Tf ${x.toFixed(2)} ${yy.toFixed(2)} Td (${pdfString(s)}) Tj ET`;
+    const ops = placed.map(p=>text(p.x, p.y, p.font, p.size, p.text, p.color));
+    if(opts.header) ops.push(text(MARGIN, PAGE_H - MARGIN + 4, "regular", 8, opts.header, [0.4, 0.4, 0.4]));
+    if(opts.footer) ops.push(text(MARGIN, MARGIN - 12, "regular", 8, opts.footer(i + 1, pages.length), [0.4, 0.4, 0.4]));
+    const stream = ops.join("\n");
+    objs[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] /Resources << /Font << ${fontRes} >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objs[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Everything above is ASCII, so string offsets are byte offsets.
+  let out = "%PDF-1.4\n";
+  const offsets:number[] = [];
+  for(let id = 1; id < objs.length; id++){
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objs[id]}\nendobj\n`;
+  }
+  const xref = out.length;
+  out += `xref\n0 ${objs.length}\n0000000000 65535 f \n` + offsets.slice(1).map(o=>`${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objs.length} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Uint8Array.from(out, c=>c.charCodeAt(0));
+}
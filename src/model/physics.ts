@@ -0,0 +1,54 @@
+import { DEFAULT_MATERIAL_DB, DEFAULT_RISK_WEIGHTS, KERF_WEAR_K, bondSpec, materialSpec, type MaterialDB, type RiskWeights } from "./materials";
+import type { BondType, ChuckType, Material } from "./types";
+
+// ------------------------
+// Math utilities and models
+// ------------------------
+// Material and bond coefficients come from `db` (built-in database by default).
+export const clamp = (v:number, min:number, max:number) => Math.max(min, Math.min(max, v));
+export const mmToUm = (mm:number) => mm * 1000;
+export const umToMm = (um:number) => um / 1000;
+export const bladeTipSpeed = (diameter_mm:number, rpm:number) => Math.PI * (diameter_mm/1000) * rpm / 60; // m/s
+export const estimateKerf = (blade_thk_um:number, wearFactor:number, k:number=KERF_WEAR_K) => blade_thk_um * (1 + k * wearFactor);
+
+export const suggestFeed = (material:Material, t_um:number, db:MaterialDB = DEFAULT_MATERIAL_DB) => {
+  const t_mm = umToMm(t_um);
+  const base = materialSpec(db, material).feedBase;
+  return clamp(base * (1.0 / Math.sqrt(Math.max(t_mm, 0.05))), 0.2, 6.0);
+};
+export const suggestRPM = (material:Material, diameter_mm:number, blade_bond:BondType, db:MaterialDB = DEFAULT_MATERIAL_DB) => {
+  const matFactor = materialSpec(db, material).rpmFactor;
+  const bondFactor = bondSpec(db, blade_bond).rpmFactor;
+  const targetTip = 38 * matFactor * bondFactor; // m/s target
+  const rpm = targetTip * 60 / (Math.PI * (diameter_mm/1000));
+  return clamp(rpm, 8000, 60000);
+};
+export const estimatePowerKW = (material:Material, feed_mms:number, kerf_um:number, t_um:number, db:MaterialDB = DEFAULT_MATERIAL_DB) => {
+  const cMat = materialSpec(db, material).powerCoeff;
+  return cMat * feed_mms * umToMm(kerf_um) * umToMm(t_um);
+}
+export const suggestCoolantLpm = (powerKW:number) => clamp(3 + 6 * powerKW, 1.0, 12.0);
+
+// Linear terms behind chippingRisk (before weights, clamping and rounding); calibration fits the same terms.
+export const riskTerms = (tipWindow:{ lo:number, hi:number }, feed_mms:number, tip_mps:number, t_um:number, blade_thk_um:number, coolantLpm:number):RiskWeights => ({
+  feed: Math.max(0, feed_mms - 1.5),
+  tipLow: tip_mps < tipWindow.lo ? tipWindow.lo - tip_mps : 0,
+  tipHigh: tip_mps > tipWindow.hi ? tip_mps - tipWindow.hi : 0,
+  blade: blade_thk_um,
+  thickness: umToMm(t_um),
+  coolant: -coolantLpm,
+});
+
+export const chippingRisk = (material:Material, feed_mms:number, tip_mps:number, t_um:number, blade_thk_um:number, coolantLpm:number, db:MaterialDB = DEFAULT_MATERIAL_DB) => {
+  const { riskBase, tipSpeed, riskWeights = DEFAULT_RISK_WEIGHTS } = materialSpec(db, material);
+  const terms = riskTerms(tipSpeed, feed_mms, tip_mps, t_um, blade_thk_um, coolantLpm);
+  let score = riskBase;
+  for(const k of Object.keys(terms) as (keyof RiskWeights)[]) score += riskWeights[k] * terms[k];
+  return clamp(Math.round(score), 0, 100);
+}
+
+export function vacuumRangeForChuck(chuckType:ChuckType){
+  if(chuckType==="HighVac") return { lo: 85, hi: 95 };
+  if(chuckType==="LowVac") return { lo: 60, hi: 75 };
+  return { lo: 70, hi: 90 }; // Standard
+}
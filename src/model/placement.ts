@@ -0,0 +1,160 @@
+// ------------------------
+// Exact die placement
+// ------------------------
+// Wafer frame: origin at wafer center, mm, +x right, +y up, notch/flat at 6 o'clock.
+// Grid offset is the position of a die center relative to the wafer center (0 ≤ off < pitch).
+
+export type Pt = { x:number, y:number };
+
+export type DieSite = {
+  row:number;            // 0 = top row of the placed layout
+  col:number;            // 0 = leftmost column of the placed layout
+  center:Pt;             // mm
+  corners:[Pt,Pt,Pt,Pt]; // mm, counter-clockwise from bottom-left
+};
+
+export type PlacementOptions = {
+  edgeExclusion_mm?:number;      // no die may reach into this ring
+  orientation?:"notch"|"flat";
+  notchDepth_mm?:number;         // SEMI notch ≈ 1 mm
+  flatLength_mm?:number;         // primary flat chord length
+  offset?:Pt;                    // fixed grid offset; omitted = search for max gross die
+  searchSteps?:number;           // offset candidates per axis when searching
+};
+
+export type DieLayout = {
+  pitchX:number; pitchY:number;  // mm
+  offset:Pt;                     // grid offset actually used
+  origin:Pt;                     // center of site col 0 / row 0 (may hold no die)
+  cols:number; rows:number;      // extent of the placed dies
+  dies:DieSite[];
+  gross:number;                  // complete dies inside the exclusion
+};
+
+const mmOf = (um:number) => um / 1000;
+type Opts = Required<Omit<PlacementOptions,"offset">>;
+
+// True when the whole rectangle (w×h around c) lies in the usable area.
+// The usable disc is convex, so checking the four corners is exact for the circle;
+// the notch is a small keep-out disc and the flat a half-plane.
+function siteFits(c:Pt, w:number, h:number, R:number, o:Opts){
+  const rIn = R - o.edgeExclusion_mm;
+  if(rIn <= 0) return false;
+  const xs = [c.x - w/2, c.x + w/2], ys = [c.y - h/2, c.y + h/2];
+  for(const x of xs) for(const y of ys){
+    if(x*x + y*y > rIn*rIn) return false;
+  }
+  if(o.orientation === "flat"){
+    const flatY = -Math.sqrt(Math.max(0, R*R - (o.flatLength_mm/2)**2)) + o.edgeExclusion_mm;
+    if(ys[0] < flatY) return false;
+  } else {
+    // Closest point of the rectangle to the notch apex at (0,-R)
+    const keep = o.notchDepth_mm + o.edgeExclusion_mm;
+    const nx = Math.max(xs[0], Math.min(0, xs[1]));
+    const ny = Math.max(ys[0], Math.min(-R, ys[1])) + R;
+    if(nx*nx + ny*ny < keep*keep) return false;
+  }
+  return true;
+}
+
+function layoutAt(R:number, w:number, h:number, px:number, py:number, off:Pt, o:Opts){
+  const iMax = Math.ceil(R / px) + 1, jMax = Math.ceil(R / py) + 1;
+  const raw:{i:number, j:number, c:Pt}[] = [];
+  for(let j=-jMax; j<=jMax; j++){
+    for(let i=-iMax; i<=iMax; i++){
+      const c = { x: off.x + i*px, y: off.y + j*py };
+      if(siteFits(c, w, h, R, o)) raw.push({ i, j, c });
+    }
+  }
+  return raw;
+}
+
+// Gross die count for one offset without materializing sites: each row is limited by the
+// chord at its outermost edge; only rows that reach the notch are checked site by site.
+function countAt(R:number, w:number, h:number, px:number, py:number, off:Pt, o:Opts){
+  const rIn = R - o.edgeExclusion_mm;
+  if(rIn <= 0) return 0;
+  const notchRow = -R + o.notchDepth_mm + o.edgeExclusion_mm;
+  const flatY = -Math.sqrt(Math.max(0, R*R - (o.flatLength_mm/2)**2)) + o.edgeExclusion_mm;
+  const jMax = Math.ceil(R / py) + 1;
+  let n = 0;
+  for(let j=-jMax; j<=jMax; j++){
+    const y0 = off.y + j*py - h/2, y1 = y0 + h;
+    const yFar = Math.max(Math.abs(y0), Math.abs(y1));
+    if(yFar >= rIn) continue;
+    if(o.orientation === "flat" && y0 < flatY) continue;
+    const hw = Math.sqrt(rIn*rIn - yFar*yFar);
+    const iLo = Math.ceil((-hw + w/2 - off.x) / px), iHi = Math.floor((hw - w/2 - off.x) / px);
+    if(iHi < iLo) continue;
+    if(o.orientation === "notch" && y0 < notchRow){
+      for(let i=iLo; i<=iHi; i++) if(siteFits({ x: off.x + i*px, y: y0 + h/2 }, w, h, R, o)) n++;
+    } else n += iHi - iLo + 1;
+  }
+  return n;
+}
+
+export function placeDies(wafer_diam_mm:number, die_w_mm:number, die_h_mm:number, street_um:number, opts:PlacementOptions={}): DieLayout {
+  const R = wafer_diam_mm / 2;
+  const pitchX = die_w_mm + mmOf(street_um);
+  const pitchY = die_h_mm + mmOf(street_um);
+  const o = {
+    edgeExclusion_mm: Math.max(0, opts.edgeExclusion_mm ?? 3),
+    orientation: opts.orientation ?? "notch",
+    notchDepth_mm: opts.notchDepth_mm ?? 1,
+    flatLength_mm: opts.flatLength_mm ?? 0.3 * wafer_diam_mm,
+    searchSteps: Math.max(1, Math.round(opts.searchSteps ?? 16)),
+  } as const;
+  const empty:DieLayout = { pitchX, pitchY, offset: { x: 0, y: 0 }, origin: { x: 0, y: 0 }, cols: 0, rows: 0, dies: [], gross: 0 };
+  if(!(R > 0) || !(die_w_mm > 0) || !(die_h_mm > 0) || !(pitchX > 0) || !(pitchY > 0)) return empty;
+
+  let best = opts.offset ? { x: opts.offset.x, y: opts.offset.y } : { x: 0, y: 0 };
+  if(!opts.offset){
+    // Offsets repeat every pitch, so sampling [0, pitch) per axis covers all placements.
+    // Ties keep the earliest candidate, which prefers the centered grid.
+    const n = o.searchSteps;
+    let bestN = -1;
+    for(let sy=0; sy<n; sy++){
+      for(let sx=0; sx<n; sx++){
+        const off = { x: pitchX * sx / n, y: pitchY * sy / n };
+        const cnt = countAt(R, die_w_mm, die_h_mm, pitchX, pitchY, off, o);
+        if(cnt > bestN){ bestN = cnt; best = off; }
+      }
+    }
+  }
+  const raw = layoutAt(R, die_w_mm, die_h_mm, pitchX, pitchY, best, o);
+  if(!raw.length) return { ...empty, offset: best };
+
+  // A loop rather than Math.min(...): small dies on a 300 mm wafer run to hundreds of thousands of sites.
+  let iMin = Infinity, iMaxP = -Infinity, jMin = Infinity, jMaxP = -Infinity;
+  for(const d of raw){
+    iMin = Math.min(iMin, d.i); iMaxP = Math.max(iMaxP, d.i);
+    jMin = Math.min(jMin, d.j); jMaxP = Math.max(jMaxP, d.j);
+  }
+  const dies = raw.map(({i, j, c}):DieSite=>{
+    const x0 = c.x - die_w_mm/2, x1 = c.x + die_w_mm/2, y0 = c.y - die_h_mm/2, y1 = c.y + die_h_mm/2;
+    return {
+      row: jMaxP - j,
+      col: i - iMin,
+      center: c,
+      corners: [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }],
+    };
+  }).sort((a,b)=> a.row - b.row || a.col - b.col);
+  const origin = { x: best.x + iMin*pitchX, y: best.y + jMaxP*pitchY };
+  return { pitchX, pitchY, offset: best, origin, cols: iMaxP - iMin + 1, rows: jMaxP - jMin + 1, dies, gross: dies.length };
+}
+
+// Grid position of any row/col, including sites outside the placed dies (e.g. map coordinates).
+export function siteCenter(layout:DieLayout, col:number, row:number):Pt {
+  return { x: layout.origin.x + col*layout.pitchX, y: layout.origin.y - row*layout.pitchY };
+}
+
+// Die at a layout row/col, if that site holds a complete die.
+export function dieAt(layout:DieLayout, col:number, row:number){
+  return layout.dies.find(d=>d.col===col && d.row===row);
+}
+
+// Usable dies = complete dies inside the edge exclusion.
+export const dieCount = (wafer_diam_mm:number, die_w_mm:number, die_h_mm:number, street_um:number, opts:PlacementOptions={}) => {
+  const layout = placeDies(wafer_diam_mm, die_w_mm, die_h_mm, street_um, opts);
+  return { cols: layout.cols, rows: layout.rows, usable: layout.gross, layout };
+}
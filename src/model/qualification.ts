@@ -0,0 +1,193 @@
+import { csvCell } from "./csv";
+import { recipePasses } from "./passes";
+import { RECIPE_FIELDS } from "./recipe";
+import type { Recipe, VerificationSpec } from "./types";
+import { specStatus } from "./verification";
+
+// ------------------------
+// Dummy-run qualification
+// ------------------------
+// A qualification is the trail of dummy runs for one recipe: each run stores the setpoints it
+// was cut with, the specs and measurements, and links to the run before it. Failed runs get
+// setpoint corrections; the recipe is released only from a run where every spec passed.
+
+// Setpoints a correction may change; pass-level fields apply to the named pre-cut pass.
+export type CorrectionField = "feed"|"rpm"|"bladeThk"|"coolant"|"waferThk"|"vacuum";
+export type Correction = {
+  spec:string;          // failed spec key(s), comma separated when merged
+  action:string;
+  field?:CorrectionField;
+  pass?:string;         // pre-cut pass name; absent for the recipe's own (final) pass
+  from?:number;
+  to?:number;
+};
+
+export type RunResult = "PASS"|"FAIL"|"INCOMPLETE";
+export type RecipeChange = { field:string, from:string, to:string };
+
+export type QualRun = {
+  n:number;
+  at:string;
+  prev?:number;               // run this one repeats
+  recipe:Recipe;
+  specs:VerificationSpec[];
+  measured:Record<string,number>;
+  result:RunResult;
+  failed:string[];
+  missing:string[];
+  changes:RecipeChange[];     // setpoints changed since the previous run
+  corrections:Correction[];   // proposed for the next run (FAIL only)
+  note?:string;
+};
+
+export type Qualification = {
+  id:string;
+  name:string;
+  startedAt:string;
+  status:"open"|"released";
+  runs:QualRun[];
+  released?:{ at:string, by:string, run:number, note?:string };
+};
+
+export const QUALIFICATION_SCHEMA = 1;
+export type QualificationLog = { schema:number, items:Qualification[] };
+export const emptyQualificationLog = ():QualificationLog => ({ schema: QUALIFICATION_SCHEMA, items: [] });
+
+export const startQualification = (name:string, now = new Date()):Qualification =>
+  ({ id: `Q-${now.getTime().toString(36).toUpperCase()}`, name, startedAt: now.toISOString(), status: "open", runs: [] });
+
+// ------------------------
+// Corrections
+// ------------------------
+
+const round = (v:number, step:number) => Number((Math.round(v / step) * step).toFixed(4));
+const mid = (s:VerificationSpec) => (s.lo + s.hi) / 2;
+const num = (v:number) => String(Number(v.toFixed(4)));
+
+function specCorrections(r:Recipe, s:VerificationSpec, m:number):Correction[] {
+  const [base, passName] = s.key.split(":");
+  const all = recipePasses(r);
+  const p = (passName ? all.find(x=>x.name===passName) : undefined) ?? all[all.length - 1];
+  const pass = p === all[all.length - 1] ? undefined : p.name;
+  const high = m > s.hi;
+  const dev = `${s.name} ${num(m)} is ${high ? `above ${num(s.hi)}` : `below ${num(s.lo)}`}`;
+  const set = (field:CorrectionField, from:number, to:number, action:string):Correction => ({ spec: s.key, action, field, pass, from, to });
+  const note = (action:string):Correction => ({ spec: s.key, action: `${dev}: ${action}` });
+  // Kerf, tip speed and thickness scale setpoints by the measured value, which must be positive.
+  if((base === "kerf" || base === "tip" || base === "thk") && !(m > 0 && isFinite(m))) return [note("check the measurement; no automatic correction")];
+
+  if(base === "kerf"){
+    const thk = Math.max(1, Math.round(p.bladeThk * s.nom / m));
+    return high
+      ? [set("bladeThk", p.bladeThk, thk, `${dev}: thinner blade sized to the nominal kerf`), set("feed", p.feed, round(p.feed * 0.85, 0.05), `${dev}: lower feed to reduce blade wander`)]
+      : [note("dress or replace the blade (loaded or worn edge)"), set("bladeThk", p.bladeThk, thk, `${dev}: wider blade sized to the nominal kerf`)];
+  }
+  if(base === "tip") return [set("rpm", p.rpm, round(p.rpm * mid(s) / m, 100), `${dev}: bring tip speed to the middle of the window`)];
+  if(base === "thk" && !pass) return [set("waferThk", r.waferThk, m, `${dev}: use the measured thickness; re-check feed and cut depth`)];
+  if(base === "vac") return [set("vacuum", r.vacuum, Math.round(mid(s)), `${dev}: set vacuum to the middle of the chuck range${high ? "" : "; check tape and chuck seal"}`)];
+  if(base === "street" || base === "dieW" || base === "dieH")
+    return [note(`correct index pitch / alignment by ${num(m - s.nom)}${base === "street" ? " µm" : " mm"}`)];
+  if(/chip/i.test(base) && high){
+    return [
+      set("feed", p.feed, round(p.feed * 0.8, 0.05), `${dev}: lower feed`),
+      set("coolant", p.coolant, round(p.coolant + 1, 0.1), `${dev}: raise coolant flow`),
+      ...(/^bs/i.test(base) ? [note("consider a step cut or a thinner resin blade")] : []),
+    ];
+  }
+  return [note("investigate; no automatic correction")];
+}
+
+// Corrections for every failed spec. Several failures on one setpoint merge into the largest
+// change.
+export function proposeCorrections(r:Recipe, specs:VerificationSpec[], measured:Record<string,number>):Correction[] {
+  const out:Correction[] = [];
+  for(const s of specs){
+    const m = measured[s.key];
+    if(specStatus(s, m) !== "FAIL") continue;
+    for(const c of specCorrections(r, s, m)){
+      const same = c.field && out.find(o=>o.field===c.field && o.pass===c.pass);
+      if(!same){ out.push(c); continue; }
+      const bigger = Math.abs(c.to! - c.from!) > Math.abs(same.to! - same.from!);
+      Object.assign(same, { spec: `${same.spec}, ${c.spec}`, action: `${same.action}; ${c.action}`, ...(bigger ? { to: c.to } : {}) });
+    }
+  }
+  return out;
+}
+
+export function applyCorrections(r:Recipe, cs:Correction[]):Recipe {
+  let out:Recipe = { ...r, passes: r.passes?.map(p=>({ ...p })) };
+  for(const c of cs){
+    if(!c.field || c.to === undefined || !isFinite(c.to)) continue;
+    if(c.pass){
+      const p = out.passes?.find(x=>x.name===c.pass);
+      if(p && c.field in p) (p as Record<string,unknown>)[c.field] = c.to;
+    } else out = { ...out, [c.field]: c.to };
+  }
+  return out;
+}
+
+export function recipeChanges(a:Recipe, b:Recipe):RecipeChange[] {
+  const out:RecipeChange[] = RECIPE_FIELDS.filter(f=>a[f.key] !== b[f.key]).map(f=>({ field: f.key, from: String(a[f.key]), to: String(b[f.key]) }));
+  const pa = JSON.stringify(a.passes ?? []), pb = JSON.stringify(b.passes ?? []);
+  if(pa !== pb) out.push({ field: "passes", from: `${a.passes?.length ?? 0} pre-cut`, to: `${b.passes?.length ?? 0} pre-cut` });
+  return out;
+}
+
+// ------------------------
+// Runs and release
+// ------------------------
+
+// Appends a dummy run linked to the previous one. Blank or non-numeric entries count as missing.
+export function recordRun(q:Qualification, recipe:Recipe, specs:VerificationSpec[], entered:Record<string,string|number|undefined>, note?:string, now = new Date()):Qualification {
+  if(q.status === "released") throw new Error(`Qualification ${q.id} is released; start a new one`);
+  const measured:Record<string,number> = {};
+  const failed:string[] = [], missing:string[] = [];
+  for(const s of specs){
+    const st = specStatus(s, entered[s.key]);
+    if(st === undefined){ missing.push(s.key); continue; }
+    measured[s.key] = Number(entered[s.key]);
+    if(st === "FAIL") failed.push(s.key);
+  }
+  const prev = q.runs[q.runs.length - 1];
+  const result:RunResult = failed.length ? "FAIL" : missing.length ? "INCOMPLETE" : "PASS";
+  const run:QualRun = {
+    n: (prev?.n ?? 0) + 1, at: now.toISOString(), prev: prev?.n,
+    recipe: { ...recipe }, specs: specs.map(s=>({ ...s })), measured, result, failed, missing,
+    changes: prev ? recipeChanges(prev.recipe, recipe) : [],
+    corrections: result === "FAIL" ? proposeCorrections(recipe, specs, measured) : [],
+    note: note || undefined,
+  };
+  return { ...q, runs: [...q.runs, run] };
+}
+
+export const lastRun = (q:Qualification) => q.runs[q.runs.length - 1] as QualRun|undefined;
+export const canRelease = (q:Qualification) => q.status === "open" && lastRun(q)?.result === "PASS";
+
+// Releases the recipe of the last run; throws unless that run passed every spec.
+export function releaseQualification(q:Qualification, by:string, note?:string, now = new Date()):Qualification {
+  const run = lastRun(q);
+  if(q.status === "released") throw new Error(`Qualification ${q.id} is already released`);
+  if(!run || run.result !== "PASS") throw new Error(run ? `Run ${run.n} is ${run.result}; release needs a run where every spec passes` : "No dummy run recorded");
+  if(!by.trim()) throw new Error("Released by is required");
+  return { ...q, status: "released", released: { at: now.toISOString(), by: by.trim(), run: run.n, note: note || undefined } };
+}
+
+// ------------------------
+// Export
+// ------------------------
+
+export const exportQualification = (q:Qualification) => JSON.stringify({ schema: QUALIFICATION_SCHEMA, qualification: q }, null, 2);
+
+// One row per run and spec, then the corrections proposed after each failed run.
+export function writeQualificationCSV(q:Qualification){
+  const rows:string[][] = [["qualification", "run", "prev", "at", "spec", "name", "lo", "hi", "measured", "status", "note"]];
+  for(const r of q.runs){
+    for(const s of r.specs){
+      const m = r.measured[s.key];
+      rows.push([q.id, String(r.n), r.prev === undefined ? "" : String(r.prev), r.at, s.key, s.name, String(s.lo), String(s.hi), m === undefined ? "" : String(m), specStatus(s, m) ?? "MISSING", r.note ?? ""]);
+    }
+    for(const c of r.corrections) rows.push([q.id, String(r.n), "", r.at, c.spec, "correction", "", "", "", c.field ? `${c.pass ? `${c.pass}.` : ""}${c.field} ${c.from} -> ${c.to}` : "", c.action]);
+  }
+  if(q.released) rows.push([q.id, String(q.released.run), "", q.released.at, "", "released", "", "", "", `by ${q.released.by}`, q.released.note ?? ""]);
+  return rows.map(r=>r.map(csvCell).join(",")).join("\n");
+}
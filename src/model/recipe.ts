@@ -0,0 +1,63 @@
+import { toCutPass } from "./passes";
+import { isChuckType, type Recipe } from "./types";
+
+export const DEFAULT_RECIPE:Recipe = {
+  material: "Si",
+  waferDiam: 300,
+  waferThk: 725,
+  dieW: 5.0,
+  dieH: 5.0,
+  street: 60,
+  bladeDia: 58,
+  bladeThk: 30,
+  bladeBond: "Resin",
+  rpm: 30000,
+  feed: 1.5,
+  coolant: 4.0,
+  wear: 0.2,
+  envTemp: 22,
+  chuckType: "Standard",
+  vacuum: 80,
+  edgeExcl: 3,
+  orientation: "notch",
+};
+
+// Display metadata per scalar field, in recipe order; passes are listed separately.
+export type RecipeField = Exclude<keyof Recipe, "passes">;
+export const RECIPE_FIELDS:{ key:RecipeField, label:string, unit:string }[] = [
+  { key: "material", label: "Material", unit: "-" },
+  { key: "waferDiam", label: "Wafer Diameter", unit: "mm" },
+  { key: "waferThk", label: "Wafer Thickness", unit: "µm" },
+  { key: "dieW", label: "Die Width", unit: "mm" },
+  { key: "dieH", label: "Die Height", unit: "mm" },
+  { key: "street", label: "Street", unit: "µm" },
+  { key: "bladeDia", label: "Blade Diameter", unit: "mm" },
+  { key: "bladeThk", label: "Blade Thickness", unit: "µm" },
+  { key: "bladeBond", label: "Blade Bond", unit: "-" },
+  { key: "rpm", label: "RPM", unit: "rpm" },
+  { key: "feed", label: "Feed Rate", unit: "mm/s" },
+  { key: "coolant", label: "Coolant Flow", unit: "L/min" },
+  { key: "wear", label: "Wear Factor", unit: "0-1" },
+  { key: "envTemp", label: "Environment Temp", unit: "°C" },
+  { key: "chuckType", label: "Chuck Type", unit: "-" },
+  { key: "vacuum", label: "Vacuum Level", unit: "kPa" },
+  { key: "edgeExcl", label: "Edge Exclusion", unit: "mm" },
+  { key: "orientation", label: "Orientation Mark", unit: "-" },
+];
+
+// Builds a Recipe from loosely typed input (JSON, MES rows): numbers are coerced,
+// unknown chucks and missing fields fall back to DEFAULT_RECIPE. Material and bond ids are
+// kept as given; evaluation reports ids the material database does not know.
+export function toRecipe(raw:Record<string,unknown>):Recipe {
+  const out:Record<string,unknown> = { ...DEFAULT_RECIPE };
+  for(const k of Object.keys(DEFAULT_RECIPE) as RecipeField[]){
+    const v = raw[k];
+    if(typeof DEFAULT_RECIPE[k] === "number" && v !== undefined && v !== null && v !== "" && isFinite(Number(v))) out[k] = Number(v);
+  }
+  if(typeof raw.material === "string" && raw.material.trim()) out.material = raw.material.trim();
+  if(typeof raw.bladeBond === "string" && raw.bladeBond.trim()) out.bladeBond = raw.bladeBond.trim();
+  if(isChuckType(raw.chuckType)) out.chuckType = raw.chuckType;
+  if(raw.orientation === "flat") out.orientation = "flat";
+  if(Array.isArray(raw.passes) && raw.passes.length) out.passes = raw.passes.map((p, i)=>toCutPass(p, out as Recipe, i));
+  return out as Recipe;
+}
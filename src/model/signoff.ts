@@ -0,0 +1,195 @@
+import { csvCell } from "./csv";
+import { sha256 } from "./hash";
+import { recipeChanges, type RecipeChange } from "./qualification";
+import type { Recipe } from "./types";
+
+// ------------------------
+// Recipe release sign-off
+// ------------------------
+// Each revision of a product's recipe + SOP pair moves Draft → Engineering Review → Quality
+// Approved → Released → Obsolete. Every state change is appended to an audit log whose entries
+// are hash chained, so editing or removing an entry breaks every later hash. Content is locked
+// from review onward: the audit entry stores a hash of the recipe and SOP it signed.
+
+export type ReleaseState = "draft"|"review"|"approved"|"released"|"obsolete";
+export const RELEASE_STATES:{ id:ReleaseState, label:string }[] = [
+  { id: "draft", label: "Draft" },
+  { id: "review", label: "Engineering Review" },
+  { id: "approved", label: "Quality Approved" },
+  { id: "released", label: "Released" },
+  { id: "obsolete", label: "Obsolete" },
+];
+export const stateLabel = (s:ReleaseState) => RELEASE_STATES.find(x=>x.id===s)!.label;
+
+export type SignoffRole = "engineer"|"quality"|"manager";
+export const SIGNOFF_ROLES:{ id:SignoffRole, label:string }[] = [
+  { id: "engineer", label: "Process Engineer" },
+  { id: "quality", label: "Quality Engineer" },
+  { id: "manager", label: "Production Manager" },
+];
+export type Signer = { user:string, role:SignoffRole };
+
+export type Transition = { from:ReleaseState, to:ReleaseState, label:string, roles:SignoffRole[] };
+export const TRANSITIONS:Transition[] = [
+  { from: "draft", to: "review", label: "Submit for Review", roles: ["engineer"] },
+  { from: "review", to: "approved", label: "Quality Approve", roles: ["quality"] },
+  { from: "review", to: "draft", label: "Return to Draft", roles: ["engineer", "quality"] },
+  { from: "approved", to: "released", label: "Release", roles: ["manager", "quality"] },
+  { from: "approved", to: "draft", label: "Return to Draft", roles: ["quality", "manager"] },
+  { from: "released", to: "obsolete", label: "Make Obsolete", roles: ["quality", "manager"] },
+];
+
+export type SOPSnapshot = { docNumber:string, revision:string, markdown:string };
+
+export type ReleaseRecord = {
+  id:string;
+  name:string;          // product (or material) the recipe is for
+  revision:number;
+  state:ReleaseState;
+  recipe:Recipe;
+  sop:SOPSnapshot;
+  createdAt:string;
+  supersedes?:string;   // record this revision was created from
+};
+
+export type AuditEntry = {
+  seq:number;
+  at:string;
+  user:string;
+  role:SignoffRole|"system";
+  record:string;
+  name:string;
+  revision:number;
+  from?:ReleaseState;
+  to:ReleaseState;
+  reason:string;
+  content:string;       // contentHash of the record at this change
+  prev:string;          // hash of the previous entry
+  hash:string;
+};
+
+export const SIGNOFF_SCHEMA = 1;
+export type SignoffBook = { schema:number, records:ReleaseRecord[], audit:AuditEntry[] };
+export const emptySignoffBook = ():SignoffBook => ({ schema: SIGNOFF_SCHEMA, records: [], audit: [] });
+
+const GENESIS = "0".repeat(64);
+
+export const contentHash = (recipe:Recipe, sop:SOPSnapshot) => sha256(JSON.stringify(recipe) + "\n" + JSON.stringify(sop));
+
+export const entryHash = (e:Omit<AuditEntry,"hash">) =>
+  sha256(e.prev + "\n" + JSON.stringify([e.seq, e.at, e.user, e.role, e.record, e.name, e.revision, e.from ?? "", e.to, e.reason, e.content]));
+
+function append(book:SignoffBook, r:ReleaseRecord, e:Pick<AuditEntry,"user"|"role"|"from"|"reason">, now:Date):AuditEntry[] {
+  const last = book.audit[book.audit.length - 1];
+  const entry:Omit<AuditEntry,"hash"> = {
+    seq: (last?.seq ?? 0) + 1, at: now.toISOString(), ...e, record: r.id, name: r.name, revision: r.revision, to: r.state,
+    content: contentHash(r.recipe, r.sop), prev: last?.hash ?? GENESIS,
+  };
+  return [...book.audit, { ...entry, hash: entryHash(entry) }];
+}
+
+// Blade wear is live state from the blade log, not a released setpoint.
+export const releaseChanges = (a:Recipe, b:Recipe):RecipeChange[] => recipeChanges(a, b).filter(c=>c.field !== "wear");
+
+export const revisionsOf = (book:SignoffBook, name:string) => book.records.filter(r=>r.name===name).sort((a, b)=>a.revision - b.revision);
+export const latestRevision = (book:SignoffBook, name:string) => revisionsOf(book, name).pop();
+
+// ------------------------
+// State changes
+// ------------------------
+
+function checkSigner(s:{ user:string }, reason:string){
+  if(!s.user.trim()) throw new Error("User is required");
+  if(!reason.trim()) throw new Error("A reason is required for every state change");
+}
+
+// Starts the next revision from the given content. Only one revision per product may be open
+// (draft, review or approved) at a time.
+export function createDraft(book:SignoffBook, name:string, recipe:Recipe, sop:SOPSnapshot, by:Signer|{ user:string, role:"system" }, reason:string, now = new Date()):SignoffBook {
+  checkSigner(by, reason);
+  const prev = latestRevision(book, name);
+  if(prev && (prev.state === "draft" || prev.state === "review" || prev.state === "approved"))
+    throw new Error(`${name} revision ${prev.revision} is still ${stateLabel(prev.state)}`);
+  const r:ReleaseRecord = {
+    id: `${name}#${(prev?.revision ?? 0) + 1}`, name, revision: (prev?.revision ?? 0) + 1, state: "draft",
+    recipe: { ...recipe }, sop: { ...sop }, createdAt: now.toISOString(), supersedes: prev?.id,
+  };
+  const next = { ...book, records: [...book.records, r] };
+  return { ...next, audit: append(next, r, { user: by.user.trim(), role: by.role, reason: reason.trim() }, now) };
+}
+
+export const allowedTransitions = (r:ReleaseRecord, role:SignoffRole) => TRANSITIONS.filter(t=>t.from===r.state && t.roles.includes(role));
+
+// Applies a state change for the signer's role. Approval needs a different user from the one who
+// submitted the revision; releasing makes the previously released revision obsolete.
+export function transition(book:SignoffBook, id:string, to:ReleaseState, by:Signer, reason:string, now = new Date()):SignoffBook {
+  checkSigner(by, reason);
+  const r = book.records.find(x=>x.id===id);
+  if(!r) throw new Error(`Unknown record ${id}`);
+  const t = TRANSITIONS.find(x=>x.from===r.state && x.to===to);
+  if(!t) throw new Error(`${stateLabel(r.state)} cannot move to ${stateLabel(to)}`);
+  if(!t.roles.includes(by.role)) throw new Error(`${t.label} needs role ${t.roles.map(x=>SIGNOFF_ROLES.find(s=>s.id===x)!.label).join(" or ")}`);
+  if(to === "approved"){
+    const submit = [...book.audit].reverse().find(e=>e.record===id && e.to==="review");
+    if(submit && submit.user.toLowerCase() === by.user.trim().toLowerCase()) throw new Error(`${submit.user} submitted this revision and cannot also approve it`);
+  }
+  let out = book;
+  const set = (rec:ReleaseRecord, state:ReleaseState, e:Pick<AuditEntry,"user"|"role"|"reason">) => {
+    const next = { ...rec, state };
+    out = { ...out, records: out.records.map(x=>x.id===rec.id ? next : x) };
+    out = { ...out, audit: append(out, next, { ...e, from: rec.state }, now) };
+  };
+  if(to === "released"){
+    for(const old of out.records.filter(x=>x.name===r.name && x.state==="released"))
+      set(old, "obsolete", { user: by.user.trim(), role: "system", reason: `Superseded by revision ${r.revision}` });
+  }
+  set(r, to, { user: by.user.trim(), role: by.role, reason: reason.trim() });
+  return out;
+}
+
+// Follows the recipe editor for the product being edited: a changed released recipe starts a new
+// draft revision, and a draft takes the editor's content. Locked states are left alone.
+export function reviseOnEdit(book:SignoffBook, name:string, recipe:Recipe, sop:SOPSnapshot, user:string, now = new Date()):SignoffBook {
+  const r = latestRevision(book, name);
+  if(!r) return book;
+  const changes = releaseChanges(r.recipe, recipe);
+  if(r.state === "released" && changes.length)
+    return createDraft(book, name, recipe, sop, { user: user || "unknown", role: "system" }, `Edited released revision ${r.revision}: ${changes.map(c=>c.field).join(", ")}`, now);
+  if(r.state === "draft" && (changes.length || JSON.stringify(r.sop) !== JSON.stringify(sop)))
+    return { ...book, records: book.records.map(x=>x===r ? { ...x, recipe: { ...recipe }, sop: { ...sop } } : x) };
+  return book;
+}
+
+// ------------------------
+// Verification and export
+// ------------------------
+
+// Recomputes the chain and checks that every record outside Draft still matches the content its
+// last audit entry signed.
+export function verifyAudit(book:SignoffBook):{ ok:boolean, issues:string[] } {
+  const issues:string[] = [];
+  let prev = GENESIS, seq = 0;
+  book.audit.forEach(e=>{
+    if(e.seq !== seq + 1) issues.push(`Entry ${e.seq}: follows entry ${seq} (entries missing or reordered)`);
+    seq = e.seq;
+    if(e.prev !== prev) issues.push(`Entry ${e.seq}: does not link to the previous entry`);
+    const { hash, ...rest } = e;
+    if(entryHash(rest) !== hash) issues.push(`Entry ${e.seq}: contents do not match its hash`);
+    prev = hash;
+  });
+  for(const r of book.records){
+    const last = [...book.audit].reverse().find(e=>e.record===r.id);
+    if(!last){ issues.push(`${r.id}: no audit entry`); continue; }
+    if(last.to !== r.state) issues.push(`${r.id}: state ${stateLabel(r.state)} was not recorded (last entry ${last.seq} says ${stateLabel(last.to)})`);
+    if(r.state !== "draft" && last.content !== contentHash(r.recipe, r.sop)) issues.push(`${r.id}: recipe or SOP changed after entry ${last.seq} signed it`);
+  }
+  return { ok: !issues.length, issues };
+}
+
+export const exportSignoff = (book:SignoffBook) => JSON.stringify({ ...book, schema: SIGNOFF_SCHEMA }, null, 2);
+
+export function writeAuditCSV(book:SignoffBook){
+  const rows = [["seq", "at", "user", "role", "record", "revision", "from", "to", "reason", "content", "prev", "hash"],
+    ...book.audit.map(e=>[String(e.seq), e.at, e.user, e.role, e.record, String(e.revision), e.from ?? "", e.to, e.reason, e.content, e.prev, e.hash])];
+  return rows.map(r=>r.map(csvCell).join(",")).join("\n");
+}
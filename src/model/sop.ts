@@ -0,0 +1,287 @@
+import { linesToPDF, type PDFLine } from "./pdf";
+import { recipePasses } from "./passes";
+import { RECIPE_FIELDS } from "./recipe";
+import type { Recipe, RecipeEvaluation } from "./types";
+
+// ------------------------
+// SOP documents
+// ------------------------
+// A template is plain text: "# Title" starts a section, "- " a step, "! " a caution note,
+// "| a | b |" rows a parameter table (first row is the header), "[specs]" / "[passes]" /
+// "[setpoints]" a generated table, anything else a paragraph. "{{key}}" or "{{key|decimals}}"
+// inserts a value; a line starting "?key " is kept only when key is set, "?!key " only when
+// it is not.
+
+export type SOPTable = { columns:string[], rows:string[][] };
+export type SOPItem =
+  | { kind:"step", text:string }
+  | { kind:"caution", text:string }
+  | { kind:"text", text:string }
+  | { kind:"table", table:SOPTable };
+export type SOPSection = { title:string, items:SOPItem[] };
+
+export type SOPApprover = { role:string, name:string, date?:string };
+export type SOPControl = { docNumber:string, revision:string, title:string, effective?:string, approvers:SOPApprover[] };
+export type SOPRevision = { revision:string, date:string, author:string, description:string };
+export type SOPDocument = { control:SOPControl, revisions:SOPRevision[], sections:SOPSection[] };
+
+export type SOPTemplate = { id:string, name:string, source:string };
+export type SOPContext = { values:Record<string,string|number>, tables:Record<string,SOPTable|undefined> };
+
+export const SOP_TABLES = ["specs", "passes", "setpoints"];
+
+export const DEFAULT_SOP_TEMPLATE:SOPTemplate = {
+  id: "standard", name: "Standard dicing SOP",
+  source: `# Wafer Structure & Identification
+- Material: {{material}}
+- Diameter: {{waferDiam}} mm; Thickness: {{waferThk}} µm
+- Die size: {{dieW}} × {{dieH}} mm; Streets: {{street}} µm; {{dies}} usable dies
+- Orientation: {{orientation}} per traveler; fiducials per mask (verify visibility).
+
+# Blade Selection
+?!stepCut - Blade Ø: {{bladeDia}} mm; Thickness: {{bladeThk}} µm; Bond: {{bladeBond}}
+?!stepCut - Expected kerf (initial): {{kerf|2}} µm; tip speed target {{tipLo}}–{{tipHi}} m/s (current {{tip|2}}).
+?stepCut - Step cut, {{passCount}} passes; tip speed target {{tipLo}}–{{tipHi}} m/s on every pass.
+?stepCut [passes]
+
+# Machine Setpoints
+[setpoints]
+- Wear factor: {{wear|2}} (update after every wafer)
+! Check blade exposure covers the wafer thickness plus the tape cut before the first cut.
+
+# Environment & Vacuum
+- Room temp: {{envTemp}} °C
+- Chuck: {{chuckType}} (target {{vacLo}}–{{vacHi}} kPa, set {{vacuum}} kPa)
+
+# Dummy Sample Run
+- Run 1 wafer with current setpoints. Inspect kerf, edge chipping, die size.
+
+# Measurement & Acceptance
+Limits per {{acceptance}}.
+[specs]
+
+# Actions If OOS
+- Bring tip speed into {{tipLo}}–{{tipHi}} m/s via rpm.
+- Reduce feed or raise coolant.
+- Consider thinner/resin bond if chipping high.
+! Do not release to production until every acceptance parameter passes.
+
+# Documentation
+- Record all parameters and measurements in traveler. Release to production after PASS.
+`,
+};
+
+// Placeholders beyond the recipe fields.
+export const SOP_DERIVED:{ key:string, label:string }[] = [
+  { key: "tip", label: "Tip speed (m/s)" },
+  { key: "kerf", label: "Estimated kerf (µm)" },
+  { key: "powerKW", label: "Spindle power (kW)" },
+  { key: "risk", label: "Chipping risk (0–100)" },
+  { key: "rpmSuggested", label: "Suggested RPM" },
+  { key: "feedSuggested", label: "Suggested feed (mm/s)" },
+  { key: "coolantSuggested", label: "Suggested coolant (L/min)" },
+  { key: "tipLo", label: "Tip-speed window low (m/s)" },
+  { key: "tipHi", label: "Tip-speed window high (m/s)" },
+  { key: "vacLo", label: "Chuck vacuum low (kPa)" },
+  { key: "vacHi", label: "Chuck vacuum high (kPa)" },
+  { key: "dies", label: "Usable dies" },
+  { key: "stepCut", label: "Set for multi-pass recipes" },
+  { key: "passCount", label: "Number of passes" },
+  { key: "acceptance", label: "Product / spec template" },
+  { key: "docNumber", label: "Document number" },
+  { key: "revision", label: "Document revision" },
+];
+
+const fixed = (v:number, d:number) => isFinite(v) ? v.toFixed(d) : "-";
+
+// Values and generated tables for one recipe evaluation.
+export function sopContext(r:Recipe, ev:RecipeEvaluation, extra:{ acceptance:string }):SOPContext {
+  const values:Record<string,string|number> = {};
+  for(const f of RECIPE_FIELDS) values[f.key] = r[f.key];
+  const all = recipePasses(r);
+  const multi = all.length > 1;
+  Object.assign(values, {
+    tip: ev.tipSpeed.value, kerf: ev.kerf.value, powerKW: ev.spindlePower.value, risk: ev.chippingRisk.value,
+    rpmSuggested: Math.round(ev.suggestions.rpm.value), feedSuggested: ev.suggestions.feed.value, coolantSuggested: ev.suggestions.coolant.value,
+    tipLo: ev.tipWindow.lo.value, tipHi: ev.tipWindow.hi.value, vacLo: ev.vacuumRange.lo.value, vacHi: ev.vacuumRange.hi.value,
+    dies: ev.dies.usable.value, stepCut: multi ? "yes" : "", passCount: all.length, acceptance: extra.acceptance,
+  });
+  const tables:Record<string,SOPTable|undefined> = {
+    specs: { columns: ["Parameter", "Nominal", "Lo", "Hi"], rows: ev.verificationSpecs.map(s=>[s.name, fixed(s.nom, 3), fixed(s.lo, 3), fixed(s.hi, 3)]) },
+    passes: multi ? {
+      columns: ["Pass", "Blade", "Depth (µm)", "Kerf (µm)", "Tip (m/s)"],
+      rows: all.map((p, i)=>[p.name, `${p.profile === "bevel" ? `${p.bevelAngle}° bevel` : "straight"} Ø${p.bladeDia} mm × ${p.bladeThk} µm ${p.bladeBond}`,
+        ev.passes[i].depth.value >= r.waferThk ? "through (into tape)" : String(p.depth), fixed(ev.passes[i].kerf.value, 2), fixed(ev.passes[i].tipSpeed.value, 2)]),
+    } : undefined,
+    setpoints: {
+      columns: ["Pass", "Spindle (rpm)", "Feed (mm/s)", "Coolant (L/min)"],
+      rows: all.map(p=>[multi ? p.name : "-", String(Math.round(p.rpm)), fixed(p.feed, 2), fixed(p.coolant, 1)]),
+    },
+  };
+  return { values, tables };
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)(?:\|(\d+))?\s*\}\}/g;
+
+function fill(text:string, values:Record<string,string|number>, missing:Set<string>){
+  return text.replace(PLACEHOLDER, (_, key:string, d?:string)=>{
+    const v = values[key];
+    if(v === undefined){ missing.add(key); return `{{${key}?}}`; }
+    if(typeof v !== "number") return v;
+    if(d !== undefined) return fixed(v, Number(d));
+    return Number.isInteger(v) ? String(v) : fixed(v, 2);
+  });
+}
+
+// Resolves a template. `issues` lists unknown placeholders, tables and conditions.
+export function renderSOP(t:SOPTemplate, ctx:SOPContext, control:SOPControl, revisions:SOPRevision[]):{ doc:SOPDocument, issues:string[] } {
+  const values:Record<string,string|number> = { ...ctx.values, docNumber: control.docNumber, revision: control.revision };
+  const missing = new Set<string>(), issues:string[] = [];
+  const sections:SOPSection[] = [];
+  let table:SOPTable|undefined;
+  const cur = () => {
+    if(!sections.length) sections.push({ title: "", items: [] });
+    return sections[sections.length - 1];
+  };
+  t.source.split(/\r?\n/).forEach((raw, i)=>{
+    let line = raw.trim();
+    const cond = /^\?(!?)(\w+)\s+/.exec(line);
+    if(cond){
+      if(!(cond[2] in values)) issues.push(`Line ${i + 1}: unknown condition "${cond[2]}"`);
+      const set = !!values[cond[2]];
+      if(set === (cond[1] === "!")) return;
+      line = line.slice(cond[0].length);
+    }
+    if(!line.startsWith("|")) table = undefined;
+    if(!line) return;
+    if(line.startsWith("# ")){ sections.push({ title: fill(line.slice(2).trim(), values, missing), items: [] }); return; }
+    if(line.startsWith("- ")){ cur().items.push({ kind: "step", text: fill(line.slice(2).trim(), values, missing) }); return; }
+    if(line.startsWith("! ")){ cur().items.push({ kind: "caution", text: fill(line.slice(2).trim(), values, missing) }); return; }
+    if(line.startsWith("|")){
+      const cells = line.replace(/^\||\|$/g, "").split("|").map(c=>fill(c.trim(), values, missing));
+      if(cells.every(c=>/^:?-+:?$/.test(c))) return;   // Markdown header separator
+      if(!table){
+        table = { columns: cells, rows: [] };
+        cur().items.push({ kind: "table", table });
+      }
+      else table.rows.push(cells);
+      return;
+    }
+    const gen = /^\[(\w+)\]$/.exec(line);
+    if(gen){
+      if(!SOP_TABLES.includes(gen[1])) issues.push(`Line ${i + 1}: unknown table "[${gen[1]}]"`);
+      const tb = ctx.tables[gen[1]];
+      if(tb) cur().items.push({ kind: "table", table: tb });
+      return;
+    }
+    cur().items.push({ kind: "text", text: fill(line, values, missing) });
+  });
+  if(missing.size) issues.push(`Unknown placeholder${missing.size > 1 ? "s" : ""} ${[...missing].map(k=>`{{${k}}}`).join(", ")}`);
+  return { doc: { control, revisions, sections }, issues };
+}
+
+// ------------------------
+// Export
+// ------------------------
+
+const numbered = (doc:SOPDocument) => doc.sections.map((s, i)=>({ ...s, heading: s.title ? `${i + 1}) ${s.title}` : "" }));
+
+export function sopToMarkdown(doc:SOPDocument){
+  const c = doc.control;
+  const md = (s:string) => s.replace(/\|/g, "\\|");
+  const table = (t:SOPTable) => [`| ${t.columns.map(md).join(" | ")} |`, `| ${t.columns.map(()=>"---").join(" | ")} |`, ...t.rows.map(r=>`| ${r.map(md).join(" | ")} |`)].join("\n");
+  const out:string[] = [
+    `# ${c.title}`, "",
+    table({ columns: ["Document", "Revision", "Effective"], rows: [[c.docNumber, c.revision, c.effective ?? "-"]] }), "",
+  ];
+  if(c.approvers.length) out.push("**Approvals**", "", table({ columns: ["Role", "Name", "Date"], rows: c.approvers.map(a=>[a.role, a.name, a.date ?? ""]) }), "");
+  for(const s of numbered(doc)){
+    if(s.heading) out.push(`## ${s.heading}`, "");
+    for(const it of s.items){
+      if(it.kind === "step") out.push(`- ${it.text}`);
+      else if(it.kind === "caution") out.push("", `> **CAUTION:** ${it.text}`, "");
+      else if(it.kind === "text") out.push("", it.text, "");
+      else out.push("", table(it.table), "");
+    }
+    out.push("");
+  }
+  if(doc.revisions.length) out.push("## Revision History", "", table({ columns: ["Rev", "Date", "Author", "Description"], rows: doc.revisions.map(r=>[r.revision, r.date, r.author, r.description]) }), "");
+  return out.join("\n").replace(/\n{3,}/g, "\n\n");
+}
+
+const esc = (s:string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function sopToHTML(doc:SOPDocument){
+  const c = doc.control;
+  const table = (t:SOPTable) => `<table><thead><tr>${t.columns.map(h=>`<th>${esc(h)}</th>`).join("")}</tr></thead><tbody>${t.rows.map(r=>`<tr>${r.map(v=>`<td>${esc(v)}</td>`).join("")}</tr>`).join("")}</tbody></table>`;
+  const body:string[] = [
+    `<h1>${esc(c.title)}</h1>`,
+    table({ columns: ["Document", "Revision", "Effective"], rows: [[c.docNumber, c.revision, c.effective ?? "-"]] }),
+  ];
+  if(c.approvers.length) body.push("<h3>Approvals</h3>", table({ columns: ["Role", "Name", "Date"], rows: c.approvers.map(a=>[a.role, a.name, a.date ?? ""]) }));
+  for(const s of numbered(doc)){
+    if(s.heading) body.push(`<h2>${esc(s.heading)}</h2>`);
+    let steps:string[] = [];
+    const flush = () => { if(steps.length) body.push(`<ul>${steps.join("")}</ul>`); steps = []; };
+    for(const it of s.items){
+      if(it.kind === "step"){ steps.push(`<li>${esc(it.text)}</li>`); continue; }
+      flush();
+      if(it.kind === "caution") body.push(`<p class="caution"><b>CAUTION:</b> ${esc(it.text)}</p>`);
+      else if(it.kind === "text") body.push(`<p>${esc(it.text)}</p>`);
+      else body.push(table(it.table));
+    }
+    flush();
+  }
+  if(doc.revisions.length) body.push("<h2>Revision History</h2>", table({ columns: ["Rev", "Date", "Author", "Description"], rows: doc.revisions.map(r=>[r.revision, r.date, r.author, r.description]) }));
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${esc(`${c.docNumber} ${c.title}`)}</title>
+<style>
+body{font-family:Helvetica,Arial,sans-serif;max-width:800px;margin:2em auto;color:#18181b}
+table{border-collapse:collapse;margin:.5em 0}th,td{border:1px solid #d4d4d8;padding:4px 8px;text-align:left;font-size:90%}
+.caution{border-left:4px solid #d97706;background:#fffbeb;padding:6px 10px}
+</style></head>
+<body>
+${body.join("\n")}
+</body></html>
+`;
+}
+
+// Tables use Courier so their columns line up.
+export function sopToPDF(doc:SOPDocument):Uint8Array {
+  const c = doc.control;
+  const lines:PDFLine[] = [];
+  const table = (t:SOPTable, indent = 0) => {
+    // The last column is left to wrap; the others are cut at 40 characters.
+    const widths = t.columns.map((h, i)=>Math.min(40, Math.max(h.length, ...t.rows.map(r=>(r[i] ?? "").length))));
+    const last = t.columns.length - 1;
+    const row = (cells:string[]) => cells.map((v, i)=>i === last ? v ?? "" : (v ?? "").slice(0, widths[i]).padEnd(widths[i])).join("  ").trimEnd();
+    lines.push({ text: row(t.columns), font: "mono", size: 8, indent, spaceBefore: 4 });
+    lines.push({ text: widths.map(w=>"-".repeat(w)).join("  "), font: "mono", size: 8, indent });
+    t.rows.forEach(r=>lines.push({ text: row(r), font: "mono", size: 8, indent }));
+    lines.push({ text: "", size: 4 });
+  };
+  lines.push({ text: c.title, font: "bold", size: 16 });
+  table({ columns: ["Document", "Revision", "Effective"], rows: [[c.docNumber, c.revision, c.effective ?? "-"]] });
+  if(c.approvers.length){
+    lines.push({ text: "Approvals", font: "bold", size: 11, spaceBefore: 6 });
+    table({ columns: ["Role", "Name", "Date", "Signature"], rows: c.approvers.map(a=>[a.role, a.name, a.date ?? "", "________________"]) });
+  }
+  for(const s of numbered(doc)){
+    if(s.heading) lines.push({ text: s.heading, font: "bold", size: 12, spaceBefore: 10 });
+    for(const it of s.items){
+      if(it.kind === "step") lines.push({ text: `•  ${it.text}`, indent: 8, spaceBefore: 2 });
+      else if(it.kind === "caution") lines.push({ text: `CAUTION: ${it.text}`, font: "bold", indent: 8, spaceBefore: 4, color: [0.7, 0.35, 0] });
+      else if(it.kind === "text") lines.push({ text: it.text, spaceBefore: 4 });
+      else table(it.table, 8);
+    }
+  }
+  if(doc.revisions.length){
+    lines.push({ text: "Revision History", font: "bold", size: 12, spaceBefore: 10 });
+    table({ columns: ["Rev", "Date", "Author", "Description"], rows: doc.revisions.map(r=>[r.revision, r.date, r.author, r.description]) });
+  }
+  return linesToPDF(lines, {
+    title: `${c.docNumber} ${c.title}`,
+    header: `${c.docNumber} Rev ${c.revision} · ${c.title}`,
+    footer: (p, n)=>`${c.docNumber} Rev ${c.revision}${c.effective ? ` · effective ${c.effective}` : ""} · Page ${p} of ${n} · Uncontrolled when printed`,
+  });
+}
@@ -0,0 +1,204 @@
+import { csvCell, readDelimited } from "./csv";
+
+// ------------------------
+// Statistical process control
+// ------------------------
+// Measurement history for the verification parameters, X-bar/R and individuals (I-MR) charts,
+// capability against the spec limits and the Western Electric run rules. Subgroups are wafers:
+// every site measured on one lot/wafer forms one subgroup.
+
+export type Measurement = {
+  at:string;          // ISO time
+  lot:string;
+  wafer:string;
+  recipe:string;
+  key:string;         // VerificationSpec key: street, kerf, dieW, dieH, thk, vac, …
+  value:number;
+};
+
+export const MEASUREMENT_SCHEMA = 1;
+export type MeasurementLog = { schema:number, rows:Measurement[] };
+export const emptyMeasurementLog = ():MeasurementLog => ({ schema: MEASUREMENT_SCHEMA, rows: [] });
+
+// Control chart constants by subgroup size (ASTM/AIAG tables).
+const D2:Record<number,number> = { 2: 1.128, 3: 1.693, 4: 2.059, 5: 2.326, 6: 2.534, 7: 2.704, 8: 2.847, 9: 2.970, 10: 3.078 };
+const D3:Record<number,number> = { 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0.076, 8: 0.136, 9: 0.184, 10: 0.223 };
+const D4:Record<number,number> = { 2: 3.267, 3: 2.574, 4: 2.282, 5: 2.114, 6: 2.004, 7: 1.924, 8: 1.864, 9: 1.816, 10: 1.777 };
+export const MAX_SUBGROUP = 10;
+
+export type ChartPoint = { label:string, value:number };
+export type ControlChart = { points:ChartPoint[], center:number, ucl:number, lcl:number };
+export type SPCCharts = {
+  kind:"xbar-r"|"individuals";
+  location:ControlChart;      // X-bar or individuals
+  spread:ControlChart;        // R or moving range
+  sigma:number;               // within-subgroup estimate (R̄/d2 or MR̄/d2)
+  pointSigma:number;          // sigma of one plotted location point
+  subgroupSize?:number;
+  skipped:number;             // subgroups dropped because their size differs
+  note?:string;
+};
+
+const mean = (xs:number[]) => xs.reduce((a, x)=>a + x, 0) / xs.length;
+
+// Rows for one parameter, grouped by lot/wafer in first-seen order.
+export function subgroups(rows:Measurement[], key:string){
+  const groups = new Map<string,{ label:string, values:number[] }>();
+  for(const r of rows){
+    if(r.key !== key) continue;
+    const id = `${r.lot}/${r.wafer}`;
+    if(!groups.has(id)) groups.set(id, { label: id, values: [] });
+    groups.get(id)!.values.push(r.value);
+  }
+  return [...groups.values()];
+}
+
+export function individualsChart(points:ChartPoint[]):SPCCharts {
+  const xs = points.map(p=>p.value);
+  const mrs = xs.slice(1).map((x, i)=>Math.abs(x - xs[i]));
+  const center = xs.length ? mean(xs) : NaN;
+  const mrBar = mrs.length ? mean(mrs) : NaN;
+  const sigma = mrBar / D2[2];
+  return {
+    kind: "individuals",
+    location: { points, center, ucl: center + 3 * sigma, lcl: center - 3 * sigma },
+    spread: { points: points.slice(1).map((p, i)=>({ label: p.label, value: mrs[i] })), center: mrBar, ucl: D4[2] * mrBar, lcl: 0 },
+    sigma, pointSigma: sigma, skipped: 0,
+    note: xs.length < 2 ? "Need at least 2 values" : undefined,
+  };
+}
+
+// X-bar/R needs a constant subgroup size: the most common size (2–10) is used and other
+// subgroups are skipped.
+export function xbarRChart(groups:{ label:string, values:number[] }[]):SPCCharts {
+  const counts = new Map<number,number>();
+  for(const g of groups) if(g.values.length >= 2 && g.values.length <= MAX_SUBGROUP) counts.set(g.values.length, (counts.get(g.values.length) ?? 0) + 1);
+  const n = [...counts.entries()].sort((a, b)=>b[1] - a[1] || b[0] - a[0])[0]?.[0];
+  if(n === undefined){
+    const ind = individualsChart(groups.map(g=>({ label: g.label, value: mean(g.values) })));
+    return { ...ind, note: `No subgroups of 2–${MAX_SUBGROUP} values; showing wafer means as individuals` };
+  }
+  const used = groups.filter(g=>g.values.length === n);
+  const xbars = used.map(g=>({ label: g.label, value: mean(g.values) }));
+  const ranges = used.map(g=>({ label: g.label, value: Math.max(...g.values) - Math.min(...g.values) }));
+  const center = mean(xbars.map(p=>p.value));
+  const rBar = mean(ranges.map(p=>p.value));
+  const sigma = rBar / D2[n];
+  const pointSigma = sigma / Math.sqrt(n);
+  return {
+    kind: "xbar-r",
+    location: { points: xbars, center, ucl: center + 3 * pointSigma, lcl: center - 3 * pointSigma },
+    spread: { points: ranges, center: rBar, ucl: D4[n] * rBar, lcl: D3[n] * rBar },
+    sigma, pointSigma, subgroupSize: n, skipped: groups.length - used.length,
+  };
+}
+
+export type Capability = { n:number, mean:number, sigma:number, cp:number, cpk:number };
+
+// Cp/Cpk against the spec limits, using the within-subgroup sigma from the chart.
+export function capability(values:number[], lo:number, hi:number, sigma:number):Capability {
+  const mu = values.length ? mean(values) : NaN;
+  const ok = sigma > 0 && isFinite(sigma);
+  return {
+    n: values.length, mean: mu, sigma,
+    cp: ok ? (hi - lo) / (6 * sigma) : NaN,
+    cpk: ok ? Math.min(hi - mu, mu - lo) / (3 * sigma) : NaN,
+  };
+}
+
+export type RuleViolation = { index:number, rule:1|2|3|4, message:string };
+
+// Western Electric rules on a location chart; each violation is flagged at the point that
+// completes the pattern.
+export function westernElectric(chart:ControlChart, sigma:number):RuleViolation[] {
+  const out:RuleViolation[] = [];
+  if(!(sigma > 0)) return out;
+  const z = chart.points.map(p=>(p.value - chart.center) / sigma);
+  const run = (i:number, len:number, need:number, beyond:number) => {
+    if(i + 1 < len) return false;
+    const win = z.slice(i + 1 - len, i + 1);
+    return win.filter(v=>v > beyond).length >= need || win.filter(v=>v < -beyond).length >= need;
+  };
+  z.forEach((v, i)=>{
+    if(Math.abs(v) > 3) out.push({ index: i, rule: 1, message: "Beyond 3σ" });
+    else if(run(i, 3, 2, 2)) out.push({ index: i, rule: 2, message: "2 of 3 beyond 2σ on one side" });
+    else if(run(i, 5, 4, 1)) out.push({ index: i, rule: 3, message: "4 of 5 beyond 1σ on one side" });
+    else if(run(i, 8, 8, 0)) out.push({ index: i, rule: 4, message: "8 in a row on one side of center" });
+  });
+  return out;
+}
+
+// ------------------------
+// Measurement CSV
+// ------------------------
+// Long format (lot, wafer, parameter, value) or wide format with one column per parameter.
+// Recipe and timestamp columns are optional.
+
+export const SPC_COLUMNS:Record<string,string[]> = {
+  street: ["street", "street_um", "street_width"],
+  kerf: ["kerf", "kerf_um"],
+  dieW: ["diew", "die_w", "die_width"],
+  dieH: ["dieh", "die_h", "die_height"],
+  thk: ["thk", "thickness", "wafer_thk", "waferthk"],
+  vac: ["vac", "vacuum", "vacuum_kpa"],
+  tip: ["tip", "tip_speed"],
+  chip: ["chip", "chipping", "chipping_width"],
+  bsChip: ["bschip", "bs_chip", "backside_chipping"],
+};
+const META:Record<"lot"|"wafer"|"recipe"|"at"|"parameter"|"value", string[]> = {
+  lot: ["lot", "lot_id", "lotid"],
+  wafer: ["wafer", "wafer_id", "waferid", "slot"],
+  recipe: ["recipe", "recipe_name"],
+  at: ["timestamp", "time", "date", "at"],
+  parameter: ["parameter", "param", "key"],
+  value: ["value", "measured"],
+};
+
+export type MeasurementIssue = { line?:number, severity:"error"|"warning", message:string };
+
+// Parameter names outside SPC_COLUMNS (e.g. per-pass "kerf:Z1") are kept as given in long format.
+export function readMeasurementCSV(text:string, now = new Date()):{ rows:Measurement[], issues:MeasurementIssue[] } {
+  const issues:MeasurementIssue[] = [];
+  const { records, unterminated } = readDelimited(text);
+  if(!records.length) return { rows: [], issues: [{ severity: "error", message: "File is empty" }] };
+  const head = records.shift()!;
+  const header = head.fields.map(s=>s.toLowerCase());
+  const col = (names:string[]) => header.findIndex(h=>names.includes(h));
+  const meta = Object.fromEntries(Object.entries(META).map(([k, names])=>[k, col(names)])) as Record<keyof typeof META, number>;
+  const wide = Object.entries(SPC_COLUMNS).map(([key, names])=>({ key, i: col(names) })).filter(c=>c.i >= 0);
+  const long = meta.parameter >= 0 && meta.value >= 0;
+  if(meta.lot < 0 || meta.wafer < 0){
+    issues.push({ line: head.line, severity: "error", message: "Missing lot and/or wafer column" });
+    return { rows: [], issues };
+  }
+  if(!long && !wide.length){
+    issues.push({ line: head.line, severity: "error", message: `No parameter/value columns and no measurement columns (${Object.keys(SPC_COLUMNS).join(", ")})` });
+    return { rows: [], issues };
+  }
+  if(unterminated) issues.push({ line: unterminated, severity: "error", message: "Unterminated quoted field" });
+
+  const canon = (p:string) => Object.entries(SPC_COLUMNS).find(([, names])=>names.includes(p.toLowerCase()))?.[0] ?? p;
+  const rows:Measurement[] = [];
+  for(const { line, fields } of records){
+    const get = (i:number) => i < 0 ? "" : (fields[i] ?? "").trim();
+    const lot = get(meta.lot), wafer = get(meta.wafer);
+    if(!lot || !wafer){ issues.push({ line, severity: "error", message: "No lot or wafer; row skipped" }); continue; }
+    const rawAt = get(meta.at), t = rawAt ? Date.parse(rawAt) : NaN;
+    if(rawAt && isNaN(t)) issues.push({ line, severity: "warning", message: `Unreadable timestamp "${rawAt}"; import time used` });
+    const at = new Date(isNaN(t) ? now.getTime() : t).toISOString();
+    const base = { at, lot, wafer, recipe: get(meta.recipe) };
+    const cells = long ? [{ key: canon(get(meta.parameter)), v: get(meta.value) }] : wide.map(c=>({ key: c.key, v: get(c.i) }));
+    for(const { key, v } of cells){
+      if(v === "") continue;
+      if(!key){ issues.push({ line, severity: "error", message: "No parameter name; value skipped" }); continue; }
+      if(!isFinite(Number(v))){ issues.push({ line, severity: "error", message: `Invalid ${key} "${v}"; value skipped` }); continue; }
+      rows.push({ ...base, key, value: Number(v) });
+    }
+  }
+  if(!rows.length && !issues.some(i=>i.severity==="error")) issues.push({ severity: "warning", message: "No measurements found" });
+  return { rows, issues };
+}
+
+export function writeMeasurementCSV(rows:Measurement[]){
+  return ["timestamp,lot,wafer,recipe,parameter,value", ...rows.map(r=>[r.at, r.lot, r.wafer, r.recipe, r.key, String(r.value)].map(csvCell).join(","))].join("\n");
+}
@@ -0,0 +1,287 @@
+import { RECIPE_FIELDS } from "./recipe";
+import type { VerificationSpec } from "./types";
+
+// ------------------------
+// Verification spec templates
+// ------------------------
+// A template lists the acceptance parameters a customer signs off on. Nominals are formulas of
+// recipe values; limits are absolute numbers, percent of nominal, or formulas. Products are
+// assigned a template; products without one use the built-in Standard template.
+
+export type LimitMode = "abs"|"pct"|"formula";
+export const LIMIT_MODES:{ key:LimitMode, label:string }[] = [
+  { key: "abs", label: "Absolute" },
+  { key: "pct", label: "% of nominal" },
+  { key: "formula", label: "Formula" },
+];
+
+export type SpecParam = {
+  key:string;          // measurement key (SPC, CSV); letters, digits and "_"
+  label:string;
+  unit:string;
+  nom:string;          // formula
+  mode:LimitMode;
+  lo:string;           // abs: number; pct: signed percent (e.g. -10); formula: expression
+  hi:string;
+  perPass?:boolean;    // one row per pass on multi-pass recipes, with kerf/tip bound to that pass
+};
+
+export type SpecTemplate = { id:string, name:string, customer?:string, params:SpecParam[] };
+export type ProductSpec = { name:string, customer?:string, template:string };
+
+export const SPEC_LIBRARY_SCHEMA = 1;
+export type SpecLibrary = { schema:number, templates:SpecTemplate[], products:ProductSpec[], product?:string };
+export const emptySpecLibrary = ():SpecLibrary => ({ schema: SPEC_LIBRARY_SCHEMA, templates: [], products: [] });
+
+// The limits the toolkit has always used.
+export const DEFAULT_SPEC_TEMPLATE:SpecTemplate = {
+  id: "standard", name: "Standard",
+  params: [
+    { key: "street", label: "Street Width", unit: "µm", nom: "street", mode: "pct", lo: "-10", hi: "10" },
+    { key: "kerf", label: "Kerf", unit: "µm", nom: "kerf", mode: "formula", lo: "max(0, kerf*0.8)", hi: "max(kerf, kerf*1.5)", perPass: true },
+    { key: "dieW", label: "Die Width", unit: "mm", nom: "dieW", mode: "formula", lo: "max(0, dieW - 0.01)", hi: "dieW + 0.01" },
+    { key: "dieH", label: "Die Height", unit: "mm", nom: "dieH", mode: "formula", lo: "max(0, dieH - 0.01)", hi: "dieH + 0.01" },
+    { key: "thk", label: "Wafer Thickness", unit: "µm", nom: "waferThk", mode: "pct", lo: "-2", hi: "2" },
+    { key: "tip", label: "Tip Speed", unit: "m/s", nom: "tip", mode: "formula", lo: "tipLo", hi: "tipHi", perPass: true },
+    { key: "vac", label: "Vacuum Level", unit: "kPa", nom: "vacuum", mode: "formula", lo: "vacLo", hi: "vacHi" },
+  ],
+};
+
+// Starting points for customer-specific parameters.
+export const SPEC_PRESETS:SpecParam[] = [
+  { key: "chip", label: "Front-side Chipping", unit: "µm", nom: "0", mode: "abs", lo: "0", hi: "15" },
+  { key: "bsChip", label: "Backside Chipping", unit: "µm", nom: "0", mode: "abs", lo: "0", hi: "25" },
+  { key: "kerfShift", label: "Kerf Position Offset", unit: "µm", nom: "0", mode: "formula", lo: "-(street - kerf)/2", hi: "(street - kerf)/2" },
+];
+
+// Variables a formula may use: every numeric recipe field plus the evaluated values below.
+export const SPEC_VARIABLES:{ key:string, label:string }[] = [
+  ...RECIPE_FIELDS.filter(f=>f.unit !== "-").map(f=>({ key: f.key as string, label: `${f.label} (${f.unit})` })),
+  { key: "kerf", label: "Estimated kerf (µm)" },
+  { key: "tip", label: "Tip speed (m/s)" },
+  { key: "tipLo", label: "Material tip-speed window low (m/s)" },
+  { key: "tipHi", label: "Material tip-speed window high (m/s)" },
+  { key: "vacLo", label: "Chuck vacuum range low (kPa)" },
+  { key: "vacHi", label: "Chuck vacuum range high (kPa)" },
+];
+
+// ------------------------
+// Formulas
+// ------------------------
+// + - * / ^, parentheses, numbers, variables and min/max/abs. No eval.
+
+type Vars = Record<string,number>;
+export type Formula = { run:(vars:Vars)=>number, vars:string[] };
+
+const FUNCS:Record<string,(...xs:number[])=>number> = { min: Math.min, max: Math.max, abs: Math.abs };
+
+export function parseFormula(src:string):Formula {
+  const tokens:{ t:string, at:number }[] = [];
+  const re = /\s*(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?|[A-Za-z_]\w*|[-+*/^(),])/y;
+  re.lastIndex = 0;
+  while(re.lastIndex < src.length){
+    const start = re.lastIndex;
+    const m = re.exec(src);
+    if(!m){
+      const rest = src.slice(start).trimStart();
+      if(!rest) break;
+      throw new Error(`Unexpected "${rest[0]}" at ${src.length - rest.length + 1}`);
+    }
+    tokens.push({ t: m[1], at: re.lastIndex - m[1].length + 1 });
+  }
+  if(!tokens.length) throw new Error("Formula is empty");
+  const used = new Set<string>();
+  let i = 0;
+  const peek = () => tokens[i]?.t;
+  const expect = (t:string) => {
+    if(peek() !== t) throw new Error(tokens[i] ? `Expected "${t}" at ${tokens[i].at}, found "${tokens[i].t}"` : `Expected "${t}" at end`);
+    i++;
+  };
+  type Node = (v:Vars)=>number;
+  const expr = ():Node => {
+    let a = term();
+    while(peek() === "+" || peek() === "-"){
+      const op = tokens[i++].t, l = a, r = term();
+      a = op === "+" ? v=>l(v) + r(v) : v=>l(v) - r(v);
+    }
+    return a;
+  };
+  const term = ():Node => {
+    let a = unary();
+    while(peek() === "*" || peek() === "/"){
+      const op = tokens[i++].t, l = a, r = unary();
+      a = op === "*" ? v=>l(v) * r(v) : v=>l(v) / r(v);
+    }
+    return a;
+  };
+  const unary = ():Node => {
+    if(peek() === "-"){ i++; const a = unary(); return v=>-a(v); }
+    if(peek() === "+"){ i++; return unary(); }
+    return power();
+  };
+  const power = ():Node => {
+    const base = primary();
+    if(peek() !== "^") return base;
+    i++;
+    const exp = unary();
+    return v=>Math.pow(base(v), exp(v));
+  };
+  const primary = ():Node => {
+    const tok = tokens[i];
+    if(!tok) throw new Error("Formula ends early");
+    i++;
+    if(tok.t === "("){ const a = expr(); expect(")"); return a; }
+    if(/^[\d.]/.test(tok.t)){ const n = Number(tok.t); return ()=>n; }
+    if(/^[A-Za-z_]/.test(tok.t)){
+      if(peek() === "("){
+        const fn = FUNCS[tok.t];
+        if(!fn) throw new Error(`Unknown function "${tok.t}"`);
+        i++;
+        const args:Node[] = [expr()];
+        while(peek() === ","){ i++; args.push(expr()); }
+        expect(")");
+        return v=>fn(...args.map(a=>a(v)));
+      }
+      const name = tok.t;
+      used.add(name);
+      return v=>{
+        if(typeof v[name] !== "number") throw new Error(`Unknown variable "${name}"`);
+        return v[name];
+      };
+    }
+    throw new Error(`Unexpected "${tok.t}" at ${tok.at}`);
+  };
+  const run = expr();
+  if(i < tokens.length) throw new Error(`Unexpected "${tokens[i].t}" at ${tokens[i].at}`);
+  return { run, vars: [...used] };
+}
+
+export const evalFormula = (src:string, vars:Vars) => parseFormula(src).run(vars);
+
+// ------------------------
+// Applying a template
+// ------------------------
+
+const rowName = (p:SpecParam, pass?:string) => [p.label, pass].filter(Boolean).join(" ") + (p.unit ? ` (${p.unit})` : "");
+
+function specRow(p:SpecParam, vars:Vars, key:string, name:string):VerificationSpec {
+  const nom = evalFormula(p.nom, vars);
+  const lo = evalFormula(p.lo, vars), hi = evalFormula(p.hi, vars);
+  if(p.mode === "pct") return { name, nom, lo: nom * (1 + lo / 100), hi: nom * (1 + hi / 100), key };
+  return { name, nom, lo, hi, key };
+}
+
+// `passes` (multi-pass recipes) expands per-pass parameters into one row per pass, keyed
+// `kerf:Z1`, `tip:Z2`, … Throws when a formula fails; validate templates before use.
+export function templateSpecs(t:SpecTemplate, vars:Vars, passes?:{ name:string, kerf:number, tip:number }[]):VerificationSpec[] {
+  return t.params.flatMap(p=>{
+    try {
+      if(p.perPass && passes) return passes.map(ps=>specRow(p, { ...vars, kerf: ps.kerf, tip: ps.tip }, `${p.key}:${ps.name}`, rowName(p, ps.name)));
+      return [specRow(p, vars, p.key, rowName(p))];
+    } catch(err) {
+      throw new Error(`Spec "${p.key}" in template "${t.name}": ${(err as Error).message}`);
+    }
+  });
+}
+
+export const findTemplate = (lib:SpecLibrary, id:string) => id === DEFAULT_SPEC_TEMPLATE.id ? DEFAULT_SPEC_TEMPLATE : lib.templates.find(t=>t.id===id);
+
+// The active product's template; Standard when no product is selected or its template is gone.
+export function activeSpecTemplate(lib:SpecLibrary):SpecTemplate {
+  const product = lib.products.find(p=>p.name===lib.product);
+  return (product && findTemplate(lib, product.template)) ?? DEFAULT_SPEC_TEMPLATE;
+}
+
+// ------------------------
+// Validation and exchange
+// ------------------------
+
+export type SpecIssue = { path:string, message:string };
+
+export function validateSpecTemplate(t:SpecTemplate, path = "template"):SpecIssue[] {
+  const issues:SpecIssue[] = [];
+  const known = new Set(SPEC_VARIABLES.map(v=>v.key));
+  const formula = (p:string, src:string) => {
+    try {
+      const f = parseFormula(src);
+      const unknown = f.vars.filter(v=>!known.has(v));
+      if(unknown.length) issues.push({ path: p, message: `unknown variable ${unknown.map(v=>`"${v}"`).join(", ")}` });
+    } catch(err) {
+      issues.push({ path: p, message: (err as Error).message });
+    }
+  };
+  const constant = (p:string, src:string) => {
+    if(src.trim() === "" || !isFinite(Number(src))) issues.push({ path: p, message: "must be a number" });
+  };
+  if(!t.id.trim()) issues.push({ path: `${path}.id`, message: "is required" });
+  if(!t.name.trim()) issues.push({ path: `${path}.name`, message: "is required" });
+  if(!t.params.length) issues.push({ path: `${path}.params`, message: "at least one parameter is required" });
+  const seen = new Set<string>();
+  t.params.forEach((p, i)=>{
+    const pp = `${path}.params[${i}]`;
+    if(!/^[A-Za-z]\w*$/.test(p.key)) issues.push({ path: `${pp}.key`, message: "must start with a letter and use only letters, digits and _" });
+    else if(seen.has(p.key)) issues.push({ path: `${pp}.key`, message: `duplicate key "${p.key}"` });
+    seen.add(p.key);
+    if(!p.label.trim()) issues.push({ path: `${pp}.label`, message: "is required" });
+    formula(`${pp}.nom`, p.nom);
+    if(p.mode === "formula"){ formula(`${pp}.lo`, p.lo); formula(`${pp}.hi`, p.hi); }
+    else {
+      constant(`${pp}.lo`, p.lo); constant(`${pp}.hi`, p.hi);
+      if(Number(p.lo) > Number(p.hi)) issues.push({ path: pp, message: "lo must not exceed hi" });
+    }
+  });
+  return issues;
+}
+
+export function validateSpecLibrary(lib:SpecLibrary):SpecIssue[] {
+  const issues:SpecIssue[] = [];
+  const ids = new Set<string>([DEFAULT_SPEC_TEMPLATE.id]);
+  lib.templates.forEach((t, i)=>{
+    if(ids.has(t.id)) issues.push({ path: `templates[${i}].id`, message: `duplicate id "${t.id}"` });
+    ids.add(t.id);
+    issues.push(...validateSpecTemplate(t, `templates[${i}]`));
+  });
+  const names = new Set<string>();
+  lib.products.forEach((p, i)=>{
+    if(!p.name.trim()) issues.push({ path: `products[${i}].name`, message: "is required" });
+    else if(names.has(p.name)) issues.push({ path: `products[${i}].name`, message: `duplicate product "${p.name}"` });
+    names.add(p.name);
+    if(!ids.has(p.template)) issues.push({ path: `products[${i}].template`, message: `unknown template "${p.template}"` });
+  });
+  return issues;
+}
+
+const isLimitMode = (v:unknown): v is LimitMode => LIMIT_MODES.some(m=>m.key===v);
+
+// Parses an exported library. Throws on template issues; product rows are kept as they are
+// (a product whose template is missing falls back to Standard).
+export function importSpecLibrary(text:string):SpecLibrary {
+  const rec = (v:unknown) => (v && typeof v === "object" ? v : {}) as Record<string,unknown>;
+  const doc = rec(JSON.parse(text));
+  const schema = typeof doc.schema === "number" ? doc.schema : SPEC_LIBRARY_SCHEMA;
+  if(schema > SPEC_LIBRARY_SCHEMA) throw new Error(`Spec file schema ${schema} is newer than supported (${SPEC_LIBRARY_SCHEMA})`);
+  if(!Array.isArray(doc.templates)) throw new Error("Spec file has no templates");
+  const str = (v:unknown, d = "") => v === undefined || v === null ? d : String(v);
+  const list = (v:unknown) => (Array.isArray(v) ? v : []).map(rec);
+  const lib:SpecLibrary = {
+    schema: SPEC_LIBRARY_SCHEMA,
+    // The built-in template is never stored; a file carrying it keeps the built-in version.
+    templates: list(doc.templates).filter(t=>t.id !== DEFAULT_SPEC_TEMPLATE.id).map(t=>({
+      id: str(t.id).trim(), name: str(t.name, str(t.id)), customer: t.customer ? String(t.customer) : undefined,
+      params: list(t.params).map(p=>({
+        key: str(p.key).trim(), label: str(p.label, str(p.key)), unit: str(p.unit),
+        nom: str(p.nom, "0"), mode: isLimitMode(p.mode) ? p.mode : "abs", lo: str(p.lo), hi: str(p.hi),
+        perPass: p.perPass ? true : undefined,
+      })),
+    })),
+    products: list(doc.products).map(p=>({
+      name: str(p.name).trim(), customer: p.customer ? String(p.customer) : undefined, template: str(p.template, DEFAULT_SPEC_TEMPLATE.id),
+    })),
+    product: typeof doc.product === "string" ? doc.product : undefined,
+  };
+  const issues = validateSpecLibrary(lib).filter(i=>i.path.startsWith("templates"));
+  if(issues.length) throw new Error(issues.map(i=>`${i.path} ${i.message}`).join("; "));
+  return lib;
+}
+
+export const exportSpecLibrary = (lib:SpecLibrary) => JSON.stringify(lib, null, 2);
@@ -0,0 +1,87 @@
+import { DEFAULT_MATERIAL_DB, materialSpec, type MaterialDB } from "./materials";
+import { bladeTipSpeed, chippingRisk, estimateKerf, estimatePowerKW } from "./physics";
+import type { DieLayout } from "./placement";
+import { cycleTime } from "./throughput";
+import type { Recipe } from "./types";
+
+// ------------------------
+// Two-parameter sweeps
+// ------------------------
+// Only parameters that leave die placement unchanged can be swept, so one layout serves the grid.
+
+export type SweepParam = "feed"|"rpm"|"coolant"|"bladeThk"|"bladeDia"|"waferThk"|"wear";
+export type SweepMetric = "risk"|"power"|"tip"|"throughput"|"kerf";
+
+export const SWEEP_PARAMS:{ key:SweepParam, label:string, unit:string, range:{ min:number, max:number } }[] = [
+  { key: "feed", label: "Feed", unit: "mm/s", range: { min: 0.2, max: 6 } },
+  { key: "rpm", label: "RPM", unit: "rpm", range: { min: 8000, max: 60000 } },
+  { key: "coolant", label: "Coolant", unit: "L/min", range: { min: 1, max: 12 } },
+  { key: "bladeThk", label: "Blade Thickness", unit: "µm", range: { min: 15, max: 60 } },
+  { key: "bladeDia", label: "Blade Diameter", unit: "mm", range: { min: 50, max: 80 } },
+  { key: "waferThk", label: "Wafer Thickness", unit: "µm", range: { min: 50, max: 1000 } },
+  { key: "wear", label: "Wear Factor", unit: "0-1", range: { min: 0, max: 1 } },
+];
+
+export const SWEEP_METRICS:{ key:SweepMetric, label:string, unit:string }[] = [
+  { key: "risk", label: "Chipping Risk", unit: "0-100" },
+  { key: "power", label: "Spindle Power", unit: "kW" },
+  { key: "tip", label: "Tip Speed", unit: "m/s" },
+  { key: "throughput", label: "Throughput", unit: "wafers/hr" },
+  { key: "kerf", label: "Kerf", unit: "µm" },
+];
+
+export type SweepAxis = { param:SweepParam, min:number, max:number, steps:number };
+// values[j][i] is the metric at xs[i], ys[j].
+export type SweepGrid = { xs:number[], ys:number[], values:number[][] };
+export type SweepResult = { metric:SweepGrid, tip:SweepGrid, risk:SweepGrid, tipWindow:{ lo:number, hi:number } };
+
+const axisValues = (a:SweepAxis) => Array.from({ length: Math.max(2, a.steps) }, (_, i)=>a.min + (a.max - a.min) * i / (Math.max(2, a.steps) - 1));
+
+export function metricAt(r:Recipe, metric:SweepMetric, layout:DieLayout, db:MaterialDB = DEFAULT_MATERIAL_DB){
+  const tip = bladeTipSpeed(r.bladeDia, r.rpm);
+  const kerf = estimateKerf(r.bladeThk, r.wear, materialSpec(db, r.material).kerfWearK);
+  switch(metric){
+    case "tip": return tip;
+    case "kerf": return kerf;
+    case "power": return estimatePowerKW(r.material, r.feed, kerf, r.waferThk, db);
+    case "throughput": return cycleTime(layout, r.waferDiam, r.feed).wafersPerHour;
+    case "risk": return chippingRisk(r.material, r.feed, tip, r.waferThk, r.bladeThk, r.coolant, db);
+  }
+}
+
+// The tip-speed and risk grids are always returned for the window and threshold contours.
+export function sweepRecipe(r:Recipe, x:SweepAxis, y:SweepAxis, metric:SweepMetric, layout:DieLayout, db:MaterialDB = DEFAULT_MATERIAL_DB):SweepResult {
+  if(x.param === y.param) throw new Error("Choose two different sweep parameters");
+  const xs = axisValues(x), ys = axisValues(y);
+  const grid = (m:SweepMetric):SweepGrid => ({ xs, ys, values: ys.map(yv=>xs.map(xv=>metricAt({ ...r, [x.param]: xv, [y.param]: yv }, m, layout, db))) });
+  const tip = grid("tip"), risk = grid("risk");
+  return { metric: metric==="tip" ? tip : metric==="risk" ? risk : grid(metric), tip, risk, tipWindow: materialSpec(db, r.material).tipSpeed };
+}
+
+export type Segment = [{ x:number, y:number }, { x:number, y:number }];
+
+// Marching squares: iso-line segments at `level`, in parameter units.
+export function contourSegments(g:SweepGrid, level:number):Segment[] {
+  const segs:Segment[] = [];
+  const lerp = (a:number, b:number, va:number, vb:number) => va === vb ? (a + b) / 2 : a + (level - va) / (vb - va) * (b - a);
+  for(let j=0; j<g.ys.length - 1; j++){
+    for(let i=0; i<g.xs.length - 1; i++){
+      const x0 = g.xs[i], x1 = g.xs[i+1], y0 = g.ys[j], y1 = g.ys[j+1];
+      const v00 = g.values[j][i], v10 = g.values[j][i+1], v01 = g.values[j+1][i], v11 = g.values[j+1][i+1];
+      // Crossing points on the four cell edges.
+      const pts:{ x:number, y:number }[] = [];
+      if((v00 < level) !== (v10 < level)) pts.push({ x: lerp(x0, x1, v00, v10), y: y0 });
+      if((v10 < level) !== (v11 < level)) pts.push({ x: x1, y: lerp(y0, y1, v10, v11) });
+      if((v11 < level) !== (v01 < level)) pts.push({ x: lerp(x0, x1, v01, v11), y: y1 });
+      if((v01 < level) !== (v00 < level)) pts.push({ x: x0, y: lerp(y0, y1, v00, v01) });
+      if(pts.length === 2) segs.push([pts[0], pts[1]]);
+      // Saddle: pair the crossings by the cell-center value.
+      else if(pts.length === 4){
+        const center = (v00 + v10 + v01 + v11) / 4;
+        if((center < level) === (v00 < level)) segs.push([pts[0], pts[1]], [pts[2], pts[3]]);
+        else segs.push([pts[0], pts[3]], [pts[1], pts[2]]);
+      }
+    }
+  }
+  return segs;
+}
@@ -0,0 +1,159 @@
+import type { DieLayout } from "./placement";
+
+// ------------------------
+// Throughput
+// ------------------------
+// Cut-sequence simulator. Each lane is the street centerline's chord across the round wafer;
+// CH1 cuts the lanes between columns, the chuck rotates θ = 90°, and CH2 cuts between rows.
+// Strokes are one-directional: approach, cut at feed, retract, rapid return, index.
+
+// single = one blade per lane; step = dual-spindle step cut (Z1 then Z2 on the same lane in
+// one stroke); dual = dual-spindle dual cut (two lanes per stroke). Multi-pass recipes give one
+// feed per pass: single and dual cut run the passes one after another, step cut pairs them.
+export type CutMode = "single"|"step"|"dual";
+export const CUT_MODES:{ key:CutMode, label:string }[] = [
+  { key: "single", label: "Single cut" },
+  { key: "step", label: "Step cut (Z1/Z2)" },
+  { key: "dual", label: "Dual cut (2 lanes)" },
+];
+
+export type CycleSettings = {
+  mode:CutMode;
+  overtravel_mm:number;        // past the wafer edge on each side
+  spindleGap_mm:number;        // Z2 trails Z1 by this much in step cut
+  approach_s:number;           // Z down to cut height
+  retract_s:number;            // Z up
+  return_mm_s:number;          // rapid X return
+  index_mm_s:number;           // Y index speed
+  settle_s:number;             // after each index
+  thetaRotate_s:number;        // CH1 → CH2 chuck rotation
+  align_s:number;              // per channel, pattern recognition
+  loadUnload_s:number;         // per wafer
+  kerfCheckEvery:number;       // strokes between kerf checks; 0 = never
+  kerfCheck_s:number;
+  bladeSwapEvery:number;       // wafers between blade swaps; 0 = never
+  bladeSwap_s:number;          // swap, set-up and dress
+};
+
+export const DEFAULT_CYCLE_SETTINGS:CycleSettings = {
+  mode: "single",
+  overtravel_mm: 2,
+  spindleGap_mm: 0,
+  approach_s: 0.3,
+  retract_s: 0.2,
+  return_mm_s: 400,
+  index_mm_s: 50,
+  settle_s: 0.1,
+  thetaRotate_s: 2,
+  align_s: 8,
+  loadUnload_s: 12,
+  kerfCheckEvery: 20,
+  kerfCheck_s: 6,
+  bladeSwapEvery: 0,
+  bladeSwap_s: 600,
+};
+
+export type CycleStep = { step:string, count:number, time_s:number };
+export type ChannelPlan = { channel:"CH1"|"CH2", lanes:number, strokes:number, length_mm:number };
+export type CycleSim = {
+  channels:ChannelPlan[];
+  steps:CycleStep[];           // per wafer; blade swaps are spread over their interval
+  cutLength_mm:number;         // blade contact length per wafer, summed over blades and passes
+  cut_s:number;                // time at feed
+  total_s:number;
+  wafersPerHour:number;
+};
+
+export function laneCounts(layout:DieLayout){
+  return { lanesX: layout.cols ? layout.cols + 1 : 0, lanesY: layout.rows ? layout.rows + 1 : 0 };
+}
+
+// Street centerlines that cross the wafer, per channel: position on the index axis (mm from the
+// wafer center; CH1 lanes left to right, CH2 top to bottom) and chord length.
+export type Lane = { pos:number, chord:number };
+export function lanePositions(layout:DieLayout, waferDiam:number){
+  const R = waferDiam / 2;
+  const { lanesX, lanesY } = laneCounts(layout);
+  const lane = (d:number):Lane => ({ pos: d, chord: Math.abs(d) < R ? 2 * Math.sqrt(R*R - d*d) : 0 });
+  const ch1 = Array.from({ length: lanesX }, (_, i)=>lane(layout.origin.x + (i - 0.5) * layout.pitchX)).filter(l=>l.chord > 0);
+  const ch2 = Array.from({ length: lanesY }, (_, j)=>lane(layout.origin.y - (j - 0.5) * layout.pitchY)).filter(l=>l.chord > 0);
+  return { ch1, ch2 };
+}
+
+// Chord lengths of the street centerlines that cross the wafer, per channel.
+export function laneChords(layout:DieLayout, waferDiam:number){
+  const { ch1, ch2 } = lanePositions(layout, waferDiam);
+  return { ch1: ch1.map(l=>l.chord), ch2: ch2.map(l=>l.chord) };
+}
+
+export function simulateCycle(layout:DieLayout, waferDiam:number, feed:number|number[], settings:Partial<CycleSettings> = {}):CycleSim {
+  const s = { ...DEFAULT_CYCLE_SETTINGS, ...settings };
+  // A single-pass recipe in step mode still runs both spindles, at the same feed.
+  const feeds = Array.isArray(feed) ? feed : s.mode === "step" ? [feed, feed] : [feed];
+  const groups = s.mode === "step"
+    ? Array.from({ length: Math.ceil(feeds.length / 2) }, (_, i)=>feeds.slice(2*i, 2*i + 2))
+    : feeds.map(f=>[f]);
+  const { ch1, ch2 } = laneChords(layout, waferDiam);
+  const acc = { approach: 0, cut: 0, ret: 0, index: 0, strokes: 0, cutLength: 0 };
+  const channels:ChannelPlan[] = [];
+
+  const runChannel = (channel:"CH1"|"CH2", chords:number[], pitch:number) => {
+    // Dual cut pairs neighbouring lanes; the stroke spans the longer chord.
+    const strokes = s.mode === "dual"
+      ? Array.from({ length: Math.ceil(chords.length / 2) }, (_, i)=>Math.max(chords[2*i], chords[2*i + 1] ?? 0))
+      : chords;
+    const indexPitch = s.mode === "dual" ? 2 * pitch : pitch;
+    const length_mm = chords.reduce((a, c)=>a + c, 0);
+    // Both blades of a step-cut stroke travel at the slower pass's feed.
+    groups.forEach(g=>{
+      const v = Math.max(Math.min(...g), 0.001);
+      const extra = 2 * s.overtravel_mm + (g.length > 1 ? s.spindleGap_mm : 0);
+      strokes.forEach((c, i)=>{
+        acc.cut += (c + extra) / v;
+        acc.ret += (c + extra) / Math.max(s.return_mm_s, 1);
+        if(i > 0) acc.index += indexPitch / Math.max(s.index_mm_s, 1) + s.settle_s;
+      });
+      acc.cutLength += g.length * length_mm;
+    });
+    acc.approach += groups.length * strokes.length * (s.approach_s + s.retract_s);
+    acc.strokes += groups.length * strokes.length;
+    channels.push({ channel, lanes: chords.length, strokes: groups.length * strokes.length, length_mm });
+  };
+  runChannel("CH1", ch1, layout.pitchX);
+  runChannel("CH2", ch2, layout.pitchY);
+
+  const kerfChecks = s.kerfCheckEvery > 0 ? Math.floor(acc.strokes / s.kerfCheckEvery) : 0;
+  const steps:CycleStep[] = [
+    { step: "Load/unload", count: 1, time_s: s.loadUnload_s },
+    { step: "Alignment", count: channels.length, time_s: channels.length * s.align_s },
+    { step: "Approach/retract", count: acc.strokes, time_s: acc.approach },
+    { step: "Cutting", count: acc.strokes, time_s: acc.cut },
+    { step: "Return", count: acc.strokes, time_s: acc.ret },
+    { step: "Index", count: Math.max(0, acc.strokes - channels.length * groups.length), time_s: acc.index },
+    { step: "θ rotation", count: 1, time_s: s.thetaRotate_s },
+    { step: "Kerf check", count: kerfChecks, time_s: kerfChecks * s.kerfCheck_s },
+    { step: "Blade swap", count: s.bladeSwapEvery > 0 ? 1 / s.bladeSwapEvery : 0, time_s: s.bladeSwapEvery > 0 ? s.bladeSwap_s / s.bladeSwapEvery : 0 },
+  ];
+  const total_s = steps.reduce((a, st)=>a + st.time_s, 0);
+  return { channels, steps, cutLength_mm: acc.cutLength, cut_s: acc.cut, total_s, wafersPerHour: 3600 / Math.max(total_s, 1) };
+}
+
+export type LotPlan = { lotSize:number, lotSetup_s:number, shift_h:number, availability:number };
+export const DEFAULT_LOT_PLAN:LotPlan = { lotSize: 25, lotSetup_s: 300, shift_h: 8, availability: 0.85 };
+
+// Lot time adds the per-lot set-up; shift output applies equipment availability to whole lots
+// and the partial lot in progress at shift end.
+export function lotThroughput(sim:CycleSim, plan:LotPlan = DEFAULT_LOT_PLAN){
+  const lot_s = plan.lotSetup_s + plan.lotSize * sim.total_s;
+  const shift_s = plan.shift_h * 3600 * Math.max(0, Math.min(1, plan.availability));
+  const lots = Math.floor(shift_s / lot_s);
+  const partial = Math.max(0, Math.floor((shift_s - lots * lot_s - plan.lotSetup_s) / sim.total_s));
+  const wafersPerShift = lots * plan.lotSize + Math.min(plan.lotSize, partial);
+  return { lot_h: lot_s / 3600, lotWafersPerHour: plan.lotSize * 3600 / lot_s, lotsPerShift: shift_s / lot_s, wafersPerShift };
+}
+
+// Summary used by the optimizer, sweeps and blade wear: default machine settings, single cut.
+export function cycleTime(layout:DieLayout, waferDiam:number, feed:number|number[], settings:Partial<CycleSettings> = {}){
+  const sim = simulateCycle(layout, waferDiam, feed, settings);
+  return { lanesX: sim.channels[0].lanes, lanesY: sim.channels[1].lanes, totalLength_mm: sim.cutLength_mm, cut_s: sim.cut_s, total_s: sim.total_s, wafersPerHour: sim.wafersPerHour };
+}
@@ -0,0 +1,88 @@
+import type { DieLayout } from "./placement";
+
+// ------------------------
+// Model types
+// ------------------------
+
+export const CHUCK_TYPES = ["Standard", "HighVac", "LowVac"] as const;
+
+// Material and bond ids are keys into a MaterialDB (see materials.ts), which users can extend.
+export type Material = string;
+export type BondType = string;
+export type ChuckType = typeof CHUCK_TYPES[number];
+export type OrientationMark = "notch"|"flat";
+
+export const isChuckType = (v:unknown): v is ChuckType => CHUCK_TYPES.includes(v as ChuckType);
+
+// Unit-tagged value, so consumers never have to guess mm vs µm.
+export type Unit = "mm"|"µm"|"m/s"|"mm/s"|"rpm"|"kW"|"L/min"|"kPa"|"°C"|"pcs"|"score"|"ratio";
+export type Qty<U extends Unit> = { value:number, unit:U };
+export const qty = <U extends Unit>(value:number, unit:U):Qty<U> => ({ value, unit });
+
+export type BladeProfile = "straight"|"bevel";
+
+// One pass of a step or bevel cut. Depth is measured from the wafer's top surface.
+export type CutPass = {
+  name:string;          // "Z1", "Bevel", …
+  profile:BladeProfile;
+  bevelAngle:number;    // deg, included angle of a V-tip; ignored for straight blades
+  bladeDia:number;      // mm
+  bladeThk:number;      // µm
+  bladeBond:BondType;
+  depth:number;         // µm
+  rpm:number;
+  feed:number;          // mm/s
+  coolant:number;       // L/min
+};
+
+// One complete recipe. Units are fixed per field (see comments). The blade and setpoint fields
+// are the final (through-cut) pass; `passes` are cut before it, in order.
+export type Recipe = {
+  material:Material;
+  waferDiam:number;   // mm
+  waferThk:number;    // µm
+  dieW:number;        // mm
+  dieH:number;        // mm
+  street:number;      // µm
+  bladeDia:number;    // mm
+  bladeThk:number;    // µm
+  bladeBond:BondType;
+  rpm:number;
+  feed:number;        // mm/s
+  coolant:number;     // L/min
+  wear:number;        // 0–1
+  envTemp:number;     // °C
+  chuckType:ChuckType;
+  vacuum:number;      // kPa
+  edgeExcl:number;    // mm
+  orientation:OrientationMark;
+  passes?:CutPass[];
+};
+
+export type VerificationSpec = { name:string, nom:number, lo:number, hi:number, key:string };
+
+export type PassEvaluation = {
+  name:string;
+  depth:Qty<"µm">;
+  engaged:Qty<"µm">;      // wafer material removed by this pass
+  tipSpeed:Qty<"m/s">;
+  kerf:Qty<"µm">;         // width at the top of this pass's cut
+  spindlePower:Qty<"kW">;
+  chippingRisk:Qty<"score">;
+  suggestedRpm:Qty<"rpm">;
+};
+
+// Multi-pass recipes combine per pass: tip speed is the final pass, kerf the widest (top
+// surface), power and chipping risk the worst pass.
+export type RecipeEvaluation = {
+  tipSpeed:Qty<"m/s">;
+  kerf:Qty<"µm">;
+  spindlePower:Qty<"kW">;
+  chippingRisk:Qty<"score">;
+  passes:PassEvaluation[];
+  suggestions:{ rpm:Qty<"rpm">, feed:Qty<"mm/s">, coolant:Qty<"L/min"> };
+  dies:{ cols:number, rows:number, usable:Qty<"pcs">, layout:DieLayout };
+  vacuumRange:{ lo:Qty<"kPa">, hi:Qty<"kPa"> };
+  tipWindow:{ lo:Qty<"m/s">, hi:Qty<"m/s"> };   // from the material database
+  verificationSpecs:VerificationSpec[];
+};
@@ -0,0 +1,138 @@
+import { DEFAULT_MATERIAL_DB, type MaterialDB } from "./materials";
+import { evaluateRecipe } from "./evaluate";
+import { DEFAULT_MACHINE_LIMITS, type MachineLimits, type Range } from "./optimize";
+import { passIssues } from "./passes";
+import { vacuumRangeForChuck } from "./physics";
+import type { DieLayout } from "./placement";
+import { RECIPE_FIELDS, type RecipeField } from "./recipe";
+import type { Recipe, RecipeEvaluation } from "./types";
+import { TAPE_CUT_UM } from "./wear";
+
+// ------------------------
+// Recipe validation
+// ------------------------
+// Each rule looks at the recipe (and its evaluation, when the material and bond are known) and
+// returns issues against one field, or "passes". Errors mean the recipe cannot be cut as
+// written and block export and SOP generation; warnings are outside normal practice; info notes
+// what could not be checked.
+
+export type Severity = "error"|"warning"|"info";
+export const SEVERITIES:Severity[] = ["error", "warning", "info"];
+
+export type ValidationField = RecipeField|"passes";
+export type ValidationIssue = { field:ValidationField, severity:Severity, rule:string, message:string };
+
+export type ValidationContext = {
+  r:Recipe;
+  db:MaterialDB;
+  limits:MachineLimits;
+  ev?:RecipeEvaluation;      // undefined when the material or bond is unknown
+  exposure_um?:number;       // mounted blade; undefined when none is logged
+};
+export type ValidationRule = { id:string, check:(c:ValidationContext)=>Omit<ValidationIssue,"rule">[] };
+
+const label = (k:RecipeField) => RECIPE_FIELDS.find(f=>f.key===k)?.label ?? k;
+const unit = (k:RecipeField) => { const u = RECIPE_FIELDS.find(f=>f.key===k)?.unit; return u && u !== "-" && u !== "0-1" ? ` ${u}` : ""; };
+const fmt = (v:number) => String(Number(v.toFixed(2)));
+
+// Must be a number above zero (or at least zero); an optional normal range only warns.
+function numeric(key:RecipeField, opts:{ zero?:boolean, normal?:(c:ValidationContext)=>Range|undefined }={}):ValidationRule {
+  return { id: `${key}-range`, check: c=>{
+    const v = c.r[key] as number;
+    if(!Number.isFinite(v)) return [{ field: key, severity: "error", message: `${label(key)} is not a number` }];
+    if(opts.zero ? v < 0 : v <= 0) return [{ field: key, severity: "error", message: `${label(key)} must be ${opts.zero ? "zero or more" : "positive"} (${fmt(v)}${unit(key)})` }];
+    const n = opts.normal?.(c);
+    if(n && (v < n.min || v > n.max)) return [{ field: key, severity: "warning", message: `${label(key)} ${fmt(v)}${unit(key)} is outside the usual ${fmt(n.min)}–${fmt(n.max)}${unit(key)}` }];
+    return [];
+  } };
+}
+
+export const VALIDATION_RULES:ValidationRule[] = [
+  numeric("waferDiam", { normal: ()=>({ min: 25, max: 450 }) }),
+  numeric("waferThk", { normal: ()=>({ min: 50, max: 1500 }) }),
+  numeric("dieW"),
+  numeric("dieH"),
+  numeric("street", { normal: ()=>({ min: 20, max: 500 }) }),
+  numeric("bladeDia", { normal: ()=>({ min: 40, max: 125 }) }),
+  numeric("bladeThk", { normal: c=>c.limits.bladeThk }),
+  numeric("rpm"),
+  numeric("feed", { normal: c=>c.limits.feed }),
+  numeric("coolant", { normal: c=>c.limits.coolant }),
+  numeric("wear", { zero: true }),
+  numeric("vacuum"),
+  numeric("edgeExcl", { zero: true }),
+  { id: "envTemp-range", check: ({ r })=>
+    !Number.isFinite(r.envTemp) ? [{ field: "envTemp", severity: "error", message: "Environment Temp is not a number" }]
+    : r.envTemp < 18 || r.envTemp > 28 ? [{ field: "envTemp", severity: "warning", message: `Environment Temp ${fmt(r.envTemp)} °C is outside the 18–28 °C clean room band; kerf and alignment drift` }] : [] },
+
+  // The spindle cannot run outside its range, unlike feed and coolant which only leave practice.
+  { id: "rpm-spindle", check: ({ r, limits })=>r.rpm > 0 && (r.rpm < limits.rpm.min || r.rpm > limits.rpm.max)
+    ? [{ field: "rpm", severity: "error", message: `RPM ${fmt(r.rpm)} is outside the spindle range ${limits.rpm.min}–${limits.rpm.max}` }] : [] },
+  { id: "wear-max", check: ({ r })=>r.wear > 1 ? [{ field: "wear", severity: "error", message: `Wear Factor must be between 0 and 1 (${fmt(r.wear)})` }] : [] },
+  { id: "vacuum-chuck", check: ({ r })=>{
+    const v = vacuumRangeForChuck(r.chuckType);
+    return r.vacuum > 0 && (r.vacuum < v.lo || r.vacuum > v.hi) ? [{ field: "vacuum", severity: "error", message: `Vacuum ${fmt(r.vacuum)} kPa is outside the ${r.chuckType} chuck range ${v.lo}–${v.hi} kPa` }] : [];
+  } },
+  { id: "edge-radius", check: ({ r })=>r.edgeExcl >= r.waferDiam / 2 && r.waferDiam > 0
+    ? [{ field: "edgeExcl", severity: "error", message: `Edge Exclusion ${fmt(r.edgeExcl)} mm leaves nothing of a ${fmt(r.waferDiam)} mm wafer` }] : [] },
+  { id: "material-known", check: ({ r, db })=>[
+    ...(db.materials.some(m=>m.id===r.material) ? [] : [{ field: "material" as const, severity: "error" as const, message: `Material "${r.material}" is not in the material database` }]),
+    ...(db.bonds.some(b=>b.id===r.bladeBond) ? [] : [{ field: "bladeBond" as const, severity: "error" as const, message: `Blade bond "${r.bladeBond}" is not in the material database` }]),
+  ] },
+
+  // Cross-field constraints on the evaluated recipe.
+  { id: "dies-fit", check: ({ r, ev })=>ev && r.dieW > 0 && r.dieH > 0 && ev.dies.usable.value === 0
+    ? [{ field: "dieW", severity: "error", message: `No complete ${fmt(r.dieW)} × ${fmt(r.dieH)} mm die fits inside the edge exclusion` }] : [] },
+  { id: "kerf-street", check: ({ r, ev })=>{
+    if(!ev || !(r.street > 0)) return [];
+    const worst = ev.passes.reduce((a, p)=>p.kerf.value > a.kerf.value ? p : a);
+    const who = ev.passes.length > 1 ? ` (${worst.name})` : "";
+    if(worst.kerf.value >= r.street) return [{ field: "street", severity: "error", message: `Kerf ${fmt(worst.kerf.value)} µm${who} is as wide as or wider than the ${fmt(r.street)} µm street` }];
+    if(worst.kerf.value > 0.8 * r.street) return [{ field: "street", severity: "warning", message: `Kerf ${fmt(worst.kerf.value)} µm${who} leaves ${fmt((r.street - worst.kerf.value) / 2)} µm each side of a ${fmt(r.street)} µm street` }];
+    return [];
+  } },
+  { id: "blade-exposure", check: ({ r, exposure_um })=>{
+    const need = r.waferThk + TAPE_CUT_UM;
+    if(exposure_um === undefined) return [{ field: "waferThk", severity: "info", message: `No blade is logged as mounted; exposure against ${fmt(need)} µm (wafer + tape cut) was not checked` }];
+    return exposure_um < need ? [{ field: "waferThk", severity: "error", message: `Blade exposure ${fmt(exposure_um)} µm is shallower than the ${fmt(r.waferThk)} µm wafer plus ${TAPE_CUT_UM} µm tape cut` }] : [];
+  } },
+  { id: "tip-window", check: ({ ev })=>{
+    if(!ev) return [];
+    const t = ev.tipSpeed.value, lo = ev.tipWindow.lo.value, hi = ev.tipWindow.hi.value;
+    return t < lo || t > hi ? [{ field: "rpm", severity: "warning", message: `Tip speed ${fmt(t)} m/s is outside the material's ${lo}–${hi} m/s window` }] : [];
+  } },
+  { id: "spindle-power", check: ({ ev, limits })=>ev && ev.spindlePower.value > limits.powerMax_kW
+    ? [{ field: "feed", severity: "warning", message: `Spindle power ${fmt(ev.spindlePower.value)} kW exceeds the ${limits.powerMax_kW} kW cap` }] : [] },
+  { id: "coolant-suggested", check: ({ r, ev })=>ev && r.coolant > 0 && r.coolant < ev.suggestions.coolant.value
+    ? [{ field: "coolant", severity: "info", message: `Coolant ${fmt(r.coolant)} L/min is below the ${fmt(ev.suggestions.coolant.value)} L/min suggested for the spindle load` }] : [] },
+
+  // Step-cut passes: ordering and depths, then the same machine ranges per pass.
+  { id: "passes", check: ({ r, limits })=>[
+    ...passIssues(r).map(message=>({ field: "passes" as const, severity: "error" as const, message })),
+    ...(r.passes ?? []).flatMap(p=>{
+      const out:Omit<ValidationIssue,"rule">[] = [];
+      for(const [k, v] of [["rpm", p.rpm], ["feed", p.feed], ["coolant", p.coolant], ["bladeThk", p.bladeThk], ["bladeDia", p.bladeDia]] as const)
+        if(!(v > 0)) out.push({ field: "passes", severity: "error", message: `${p.name}: ${label(k)} must be positive (${fmt(v)})` });
+      if(p.rpm > 0 && (p.rpm < limits.rpm.min || p.rpm > limits.rpm.max)) out.push({ field: "passes", severity: "error", message: `${p.name}: RPM ${fmt(p.rpm)} is outside the spindle range ${limits.rpm.min}–${limits.rpm.max}` });
+      if(p.bladeThk >= r.street) out.push({ field: "passes", severity: "error", message: `${p.name}: blade ${fmt(p.bladeThk)} µm does not fit the ${fmt(r.street)} µm street` });
+      return out;
+    }),
+  ] },
+];
+
+export type RecipeValidation = { issues:ValidationIssue[], errors:number, warnings:number, infos:number, ok:boolean };
+
+// `layout` reuses a placement computed elsewhere; `exposure_um` is the mounted blade's.
+export function validateRecipe(r:Recipe, opts:{ db?:MaterialDB, limits?:MachineLimits, layout?:DieLayout, exposure_um?:number }={}, rules:ValidationRule[] = VALIDATION_RULES):RecipeValidation {
+  const db = opts.db ?? DEFAULT_MATERIAL_DB;
+  let ev:RecipeEvaluation|undefined;
+  try { ev = evaluateRecipe(r, { db, layout: opts.layout }); } catch { ev = undefined; }
+  const c:ValidationContext = { r, db, limits: opts.limits ?? DEFAULT_MACHINE_LIMITS, ev, exposure_um: opts.exposure_um };
+  const issues = rules.flatMap(rule=>rule.check(c).map(i=>({ ...i, rule: rule.id })))
+    .sort((a, b)=>SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+  const count = (s:Severity) => issues.filter(i=>i.severity===s).length;
+  const errors = count("error");
+  return { issues, errors, warnings: count("warning"), infos: count("info"), ok: errors === 0 };
+}
+
+export const fieldIssues = (v:RecipeValidation, field:ValidationField) => v.issues.filter(i=>i.field===field);
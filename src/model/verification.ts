@@ -0,0 +1,20 @@
+import { vacuumRangeForChuck } from "./physics";
+import { DEFAULT_SPEC_TEMPLATE, templateSpecs, type SpecTemplate } from "./specs";
+import type { ChuckType, VerificationSpec } from "./types";
+
+// `passes` (multi-pass recipes) replaces the single kerf and tip-speed rows with one row per pass.
+// `template` defaults to the Standard limits; formulas may only use the values passed here
+// (evaluateRecipe supplies every recipe field).
+export function getVerificationSpecs({street, kerf, dieW, dieH, waferThk, tip, vacuum, chuckType, tipWindow = { lo: 30, hi: 45 }, passes}:{street:number, kerf:number, dieW:number, dieH:number, waferThk:number, tip:number, vacuum:number, chuckType:ChuckType, tipWindow?:{ lo:number, hi:number }, passes?:{ name:string, kerf:number, tip:number }[]}, template:SpecTemplate = DEFAULT_SPEC_TEMPLATE):VerificationSpec[] {
+  const vacRange = vacuumRangeForChuck(chuckType);
+  const vars = { street, kerf, dieW, dieH, waferThk, tip, vacuum, tipLo: tipWindow.lo, tipHi: tipWindow.hi, vacLo: vacRange.lo, vacHi: vacRange.hi };
+  return templateSpecs(template, vars, passes);
+}
+
+// PASS/FAIL for one measured value; undefined when nothing (or nothing numeric) was entered.
+export function specStatus(spec:VerificationSpec, measured:string|number|undefined){
+  if(measured === undefined || measured === "") return undefined;
+  const m = Number(measured);
+  if(!isFinite(m)) return undefined;
+  return m>=spec.lo && m<=spec.hi ? "PASS" : "FAIL";
+}
@@ -0,0 +1,136 @@
+import { DEFAULT_MATERIAL_DB, bondSpec, materialSpec, type MaterialDB } from "./materials";
+import { clamp, estimateKerf } from "./physics";
+import type { BondType, Material } from "./types";
+
+// ------------------------
+// Blade wear
+// ------------------------
+// Exposure (blade radius beyond the flange) is lost at a material × bond rate per metre cut.
+// The recipe's 0–1 wear factor is the edge rounding since the last dress: it reaches 1 after
+// EDGE_WEAR_UM of exposure loss, and dressing squares the edge again at the cost of DRESS_LOSS_UM.
+
+export const EDGE_WEAR_UM = 20;   // exposure loss since the last dress at which wear = 1
+export const DRESS_LOSS_UM = 5;   // exposure removed by one dress
+export const TAPE_CUT_UM = 30;    // cut depth into the dicing tape below the wafer
+export const KERF_LIMIT_X_THK = 1.5;  // SOP acceptance: kerf ≤ 1.5× blade thickness
+
+// Exposure loss is stored on each cut so later rate edits in the database don't rewrite history.
+export type BladeEvent = {
+  at:string;
+  kind:"cut"|"dress"|"retire";
+  wafers?:number;
+  cut_mm?:number;
+  material?:Material;
+  exposureLoss_um?:number;
+  note?:string;
+};
+
+export type BladeRecord = {
+  serial:string;
+  bond:BondType;
+  thickness_um:number;
+  diameter_mm:number;
+  exposure_um:number;   // as installed
+  installedAt:string;
+  retired?:boolean;
+  events:BladeEvent[];
+};
+
+export const BLADE_LIBRARY_SCHEMA = 1;
+export type BladeLibrary = { schema:number, active?:string, blades:BladeRecord[] };
+export const emptyBladeLibrary = ():BladeLibrary => ({ schema: BLADE_LIBRARY_SCHEMA, blades: [] });
+
+// Exposure loss in µm per metre of cut.
+export function wearRate(material:Material, bond:BondType, db:MaterialDB = DEFAULT_MATERIAL_DB){
+  const m = materialSpec(db, material);
+  if(m.bladeWear_um_per_m === undefined) throw new Error(`Material "${material}" has no blade wear rate`);
+  return m.bladeWear_um_per_m * (bondSpec(db, bond).wearFactor ?? 1);
+}
+
+export type BladeState = {
+  cut_m:number;
+  wafers:number;
+  dresses:number;
+  exposure_um:number;          // remaining
+  lossSinceDress_um:number;
+  wear:number;                 // 0–1 factor for the kerf and risk models
+};
+
+export function bladeState(b:BladeRecord):BladeState {
+  const s = { cut_m: 0, wafers: 0, dresses: 0, exposure_um: b.exposure_um, lossSinceDress_um: 0 };
+  for(const e of b.events){
+    if(e.kind === "cut"){
+      const loss = e.exposureLoss_um ?? 0;
+      s.cut_m += (e.cut_mm ?? 0) / 1000;
+      s.wafers += e.wafers ?? 0;
+      s.exposure_um -= loss;
+      s.lossSinceDress_um += loss;
+    } else if(e.kind === "dress"){
+      s.dresses++;
+      s.exposure_um -= e.exposureLoss_um ?? DRESS_LOSS_UM;
+      s.lossSinceDress_um = 0;
+    }
+  }
+  return { ...s, wear: clamp(s.lossSinceDress_um / EDGE_WEAR_UM, 0, 1) };
+}
+
+const withEvent = (b:BladeRecord, e:BladeEvent):BladeRecord => {
+  if(b.retired) throw new Error(`Blade ${b.serial} is retired`);
+  return { ...b, retired: e.kind === "retire" || undefined, events: [...b.events, e] };
+};
+
+export function logCut(b:BladeRecord, cut:{ material:Material, wafers:number, cut_mm:number }, db:MaterialDB = DEFAULT_MATERIAL_DB, now = new Date()):BladeRecord {
+  const loss = wearRate(cut.material, b.bond, db) * cut.cut_mm / 1000;
+  return withEvent(b, { at: now.toISOString(), kind: "cut", ...cut, exposureLoss_um: loss });
+}
+
+export const logDress = (b:BladeRecord, note?:string, now = new Date()) =>
+  withEvent(b, { at: now.toISOString(), kind: "dress", exposureLoss_um: DRESS_LOSS_UM, note });
+
+export const retireBlade = (b:BladeRecord, note?:string, now = new Date()) =>
+  withEvent(b, { at: now.toISOString(), kind: "retire", note });
+
+export type WearStep = { wafer:number, kerf:number, wear:number, exposure_um:number };
+export type WearForecast = {
+  lossPerWafer_um:number;
+  kerfLimit:number;          // min(street, KERF_LIMIT_X_THK × blade thickness)
+  minExposure_um:number;     // wafer thickness + tape cut
+  steps:WearStep[];          // after each of the next `horizon` wafers, without dressing
+  dressAfter?:number;        // wafers that can still be cut before dressing; 0 = dress now
+  replaceAfter?:number;      // wafers before exposure runs out, dressing as scheduled
+  note?:string;
+};
+
+// Projects kerf and exposure for the next wafers of one recipe on this blade.
+export function predictWear(b:BladeRecord, run:{ material:Material, waferThk:number, street:number, cutPerWafer_mm:number }, db:MaterialDB = DEFAULT_MATERIAL_DB, horizon = 500):WearForecast {
+  const k = materialSpec(db, run.material).kerfWearK;
+  const lossPerWafer_um = wearRate(run.material, b.bond, db) * run.cutPerWafer_mm / 1000;
+  const kerfLimit = Math.min(run.street, KERF_LIMIT_X_THK * b.thickness_um);
+  const minExposure_um = run.waferThk + TAPE_CUT_UM;
+  const s = bladeState(b);
+  const ok = (since:number) => since <= EDGE_WEAR_UM && estimateKerf(b.thickness_um, clamp(since / EDGE_WEAR_UM, 0, 1), k) <= kerfLimit;
+
+  const steps:WearStep[] = [];
+  let dressAfter:number|undefined;
+  for(let n=1; n<=horizon; n++){
+    const since = s.lossSinceDress_um + n * lossPerWafer_um;
+    const wear = clamp(since / EDGE_WEAR_UM, 0, 1);
+    steps.push({ wafer: n, kerf: estimateKerf(b.thickness_um, wear, k), wear, exposure_um: s.exposure_um - n * lossPerWafer_um });
+    if(dressAfter === undefined && !ok(since)) dressAfter = n - 1;
+  }
+
+  // A fresh edge already over the limit can't be fixed by dressing.
+  const freshOk = ok(0);
+  const note = freshOk ? undefined : `A ${b.thickness_um} µm blade cuts wider than the ${Number(kerfLimit.toFixed(1))} µm kerf limit even when freshly dressed`;
+
+  // Replacement assumes a dress at every scheduled point; a fresh edge buys the same interval again.
+  let replaceAfter:number|undefined;
+  let exposure = s.exposure_um, since = s.lossSinceDress_um;
+  for(let n=1; n<=horizon && exposure >= minExposure_um; n++){
+    if(freshOk && !ok(since + lossPerWafer_um)){ exposure -= DRESS_LOSS_UM; since = 0; }
+    exposure -= lossPerWafer_um; since += lossPerWafer_um;
+    if(exposure < minExposure_um) replaceAfter = n - 1;
+  }
+  if(s.exposure_um < minExposure_um) replaceAfter = 0;
+  return { lossPerWafer_um, kerfLimit, minExposure_um, steps, dressAfter, replaceAfter, note };
+}
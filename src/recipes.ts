@@ -0,0 +1,151 @@
+import { RECIPE_FIELDS, toRecipe, type CutPass, type Recipe } from "./model";
+
+// ------------------------
+// Recipe library
+// ------------------------
+// Named recipes with an append-only version list, persisted to local storage and
+// exchanged as JSON. Files carry `schema`; older shapes are migrated on import.
+
+export type RecipeVersion = { version:number, author:string, savedAt:string, note?:string, values:Recipe };
+export type StoredRecipe = { name:string, versions:RecipeVersion[] };
+export type RecipeLibrary = { schema:number, recipes:StoredRecipe[] };
+
+export const RECIPE_SCHEMA = 1;
+export const RECIPE_STORAGE_KEY = "dicing-toolkit.recipes";
+
+type Doc = Record<string,unknown>;
+const rec = (v:unknown) => (v && typeof v === "object" ? v : {}) as Doc;
+
+// schema 0 = pre-versioning exports: a bare values object, `{name, values}`, or an array of those.
+const MIGRATIONS:Record<number,(doc:unknown)=>Doc> = {
+  0: doc => {
+    const items:unknown[] = Array.isArray(doc) ? doc : [doc];
+    return {
+      schema: 1,
+      recipes: items.map((x, i)=>{
+        const it = rec(x);
+        return {
+          name: String(it.name ?? `Imported ${i + 1}`),
+          versions: [{ version: 1, author: String(it.author ?? "import"), savedAt: String(it.savedAt ?? new Date().toISOString()), values: it.values ?? it }],
+        };
+      }),
+    };
+  },
+};
+
+export function migrateLibrary(doc:unknown):RecipeLibrary {
+  const top = rec(doc);
+  let cur:unknown = doc;
+  let schema = typeof top.schema === "number" ? top.schema : 0;
+  if(schema > RECIPE_SCHEMA) throw new Error(`Recipe file schema ${schema} is newer than supported (${RECIPE_SCHEMA})`);
+  // A single exported recipe: { schema, recipe }
+  if(schema > 0 && top.recipe && !top.recipes) cur = { schema, recipes: [top.recipe] };
+  while(schema < RECIPE_SCHEMA){
+    const next = MIGRATIONS[schema](cur);
+    cur = next;
+    schema = Number(next.schema);
+  }
+  const recipes = rec(cur).recipes;
+  if(!Array.isArray(recipes)) throw new Error("Recipe file has no recipes");
+  return {
+    schema: RECIPE_SCHEMA,
+    recipes: recipes.map((x:unknown)=>{
+      const r = rec(x);
+      return {
+        name: String(r.name ?? "Unnamed"),
+        versions: (Array.isArray(r.versions) ? r.versions : []).map((y:unknown, i:number)=>{
+          const v = rec(y);
+          return {
+            version: Number(v.version ?? i + 1),
+            author: String(v.author ?? ""),
+            savedAt: String(v.savedAt ?? ""),
+            note: v.note ? String(v.note) : undefined,
+            values: toRecipe(rec(v.values)),
+          };
+        }),
+      };
+    }).filter((r:StoredRecipe)=>r.versions.length),
+  };
+}
+
+export const emptyLibrary = ():RecipeLibrary => ({ schema: RECIPE_SCHEMA, recipes: [] });
+
+export function loadLibrary(storage:Pick<Storage,"getItem"> = localStorage):RecipeLibrary {
+  try {
+    const raw = storage.getItem(RECIPE_STORAGE_KEY);
+    return raw ? migrateLibrary(JSON.parse(raw)) : emptyLibrary();
+  } catch {
+    return emptyLibrary();
+  }
+}
+
+export function saveLibrary(lib:RecipeLibrary, storage:Pick<Storage,"setItem"> = localStorage){
+  storage.setItem(RECIPE_STORAGE_KEY, JSON.stringify(lib));
+}
+
+// Appends a version; a new name starts at v1.
+export function saveVersion(lib:RecipeLibrary, name:string, values:Recipe, author:string, note?:string, now = new Date()):RecipeLibrary {
+  const existing = lib.recipes.find(r=>r.name===name);
+  const version:RecipeVersion = {
+    version: existing ? Math.max(...existing.versions.map(v=>v.version)) + 1 : 1,
+    author, savedAt: now.toISOString(), note: note || undefined, values: { ...values },
+  };
+  const recipes = existing
+    ? lib.recipes.map(r=>r===existing ? { ...r, versions: [...r.versions, version] } : r)
+    : [...lib.recipes, { name, versions: [version] }];
+  return { ...lib, recipes };
+}
+
+export const latestVersion = (r:StoredRecipe) => r.versions.reduce((a,b)=>b.version > a.version ? b : a);
+
+// Same timestamp, author and values, whatever the number: a renumbered copy still counts as present.
+const sameVersion = (a:RecipeVersion, b:RecipeVersion) =>
+  a.savedAt === b.savedAt && a.author === b.author && JSON.stringify(toRecipe(a.values)) === JSON.stringify(toRecipe(b.values));
+
+// Imported recipes merge by name; versions already present are skipped, so importing a file twice
+// changes nothing. The rest are appended with new numbers so local history is never rewritten.
+export function mergeLibraries(base:RecipeLibrary, incoming:RecipeLibrary):RecipeLibrary {
+  let out = base;
+  for(const r of incoming.recipes){
+    for(const v of [...r.versions].sort((a,b)=>a.version - b.version)){
+      const have = out.recipes.find(x=>x.name===r.name);
+      if(have?.versions.some(x=>sameVersion(x, v))) continue;
+      if(!have || !have.versions.some(x=>x.version===v.version)){
+        out = have
+          ? { ...out, recipes: out.recipes.map(x=>x===have ? { ...x, versions: [...x.versions, v].sort((a,b)=>a.version - b.version) } : x) }
+          : { ...out, recipes: [...out.recipes, { name: r.name, versions: [v] }] };
+      } else {
+        out = saveVersion(out, r.name, v.values, v.author, v.note, new Date(v.savedAt || Date.now()));
+      }
+    }
+  }
+  return out;
+}
+
+export const exportLibraryJSON = (lib:RecipeLibrary) => JSON.stringify(lib, null, 2);
+export const exportRecipeJSON = (r:StoredRecipe) => JSON.stringify({ schema: RECIPE_SCHEMA, recipe: r }, null, 2);
+export const importLibraryJSON = (text:string) => migrateLibrary(JSON.parse(text));
+
+export type RecipeDiffRow = { key:string, label:string, unit:string, a:string|number, b:string|number, changed:boolean, derived:boolean };
+
+const passSummary = (p?:CutPass) => p
+  ? `${p.name}: ${p.profile==="bevel" ? `${p.bevelAngle}° bevel` : "straight"} ${p.bladeThk} µm ${p.bladeBond} Ø${p.bladeDia}, ${p.depth} µm deep, ${p.rpm} rpm, ${p.feed} mm/s, ${p.coolant} L/min`
+  : "-";
+
+// Field-by-field diff, then one row per pre-cut pass; `derive` adds computed values (tip speed,
+// kerf, risk, …) as extra rows.
+export function diffRecipes(a:Recipe, b:Recipe, derive?:(v:Recipe)=>{ key:string, label:string, unit:string, value:number }[]):RecipeDiffRow[] {
+  const rows:RecipeDiffRow[] = RECIPE_FIELDS.map(f=>({ key: f.key, label: f.label, unit: f.unit, a: a[f.key], b: b[f.key], changed: a[f.key] !== b[f.key], derived: false }));
+  for(let i=0; i<Math.max(a.passes?.length ?? 0, b.passes?.length ?? 0); i++){
+    const pa = passSummary(a.passes?.[i]), pb = passSummary(b.passes?.[i]);
+    rows.push({ key: `passes[${i}]`, label: `Pre-cut Pass ${i + 1}`, unit: "-", a: pa, b: pb, changed: pa !== pb, derived: false });
+  }
+  if(derive){
+    const da = derive(a), db = derive(b);
+    da.forEach((d, i)=>{
+      const other = db[i];
+      rows.push({ key: d.key, label: d.label, unit: d.unit, a: d.value, b: other.value, changed: Math.abs(d.value - other.value) > 1e-9, derived: true });
+    });
+  }
+  return rows;
+}
@@ -0,0 +1,41 @@
+import { INI_PROGRAM } from "./ini";
+import { JSON_PROGRAM } from "./json";
+import type { SawProgram, SawProgramFormat } from "./model";
+
+export * from "./model";
+
+// ------------------------
+// Program format registry
+// ------------------------
+// Machine-specific writers (vendor recipe files) register here; the generic JSON and INI
+// formats document the common model and are always available.
+
+const FORMATS:SawProgramFormat[] = [JSON_PROGRAM, INI_PROGRAM];
+
+export const listProgramFormats = () => FORMATS.slice();
+export const getProgramFormat = (id:string) => FORMATS.find(f=>f.id===id);
+
+export function registerProgramFormat(fmt:SawProgramFormat){
+  const i = FORMATS.findIndex(f=>f.id===fmt.id);
+  if(i > -1) FORMATS[i] = fmt;
+  else FORMATS.push(fmt);
+}
+
+export function detectProgramFormat(text:string, fileName?:string){
+  const byContent = FORMATS.find(f=>f.detect(text));
+  if(byContent) return byContent;
+  const ext = fileName?.toLowerCase().match(/\.[^.]+$/)?.[0];
+  return ext ? FORMATS.find(f=>f.extensions.includes(ext)) : undefined;
+}
+
+export function readSawProgram(text:string, fileName?:string){
+  const format = detectProgramFormat(text, fileName);
+  if(!format) throw new Error("Unrecognized saw program format");
+  return { format, program: format.parse(text) };
+}
+
+export function writeSawProgram(p:SawProgram, formatId:string){
+  const format = getProgramFormat(formatId);
+  if(!format) throw new Error(`Unknown saw program format: ${formatId}`);
+  return format.write(p);
+}
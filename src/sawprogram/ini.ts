@@ -0,0 +1,104 @@
+import { PROGRAM_ID, PROGRAM_VERSION, checkProgram, type SawProgram, type SawProgramFormat } from "./model";
+
+// ------------------------
+// Generic INI program
+// ------------------------
+// One section per block, KEY=VALUE lines, `;` or `#` comments. Section and key names are
+// case-insensitive; pass names keep their case.
+//   [PROGRAM]        FORMAT=dicing-toolkit.saw-program, VERSION, NAME, MATERIAL
+//   [WAFER]          DIAMETER_MM, THICKNESS_UM, TAPE_UM, EDGE_EXCL_MM, ORIENTATION=notch|flat
+//   [DIE]            WIDTH_MM, HEIGHT_MM, STREET_UM
+//   [CHUCK]          TYPE, VACUUM_KPA
+//   [BLADE <pass>]   PROFILE=straight|bevel, BEVEL_DEG, DIAMETER_MM, THICKNESS_UM, BOND
+//   [CH1] / [CH2]    THETA_DEG, INDEX_PITCH_MM, CUT_COUNT, START_MM, LENGTH_MM, STEPS=<pass>,<pass>…
+//   [CH1 <pass>]     HEIGHT_UM, DEPTH_UM, SPINDLE_RPM, FEED_MM_S, COOLANT_L_MIN
+//   [ALIGNMENT]      OFFSET_X_UM, OFFSET_Y_UM, THETA_DEG, TARGETS=<id>,<id>…
+//   [TARGET <id>]    X_MM, Y_MM
+
+type Sections = Map<string,Record<string,string>>;
+
+function readSections(text:string):Sections {
+  const out:Sections = new Map();
+  let cur:Record<string,string>|undefined;
+  for(const raw of text.replace(/^\uFEFF/, "").split(/\r?\n/)){
+    const ln = raw.trim();
+    if(!ln || ln.startsWith(";") || ln.startsWith("#")) continue;
+    const head = /^\[\s*(.+?)\s*\]$/.exec(ln);
+    if(head){
+      const key = head[1].replace(/\s+/g, " ").toUpperCase();
+      cur = out.get(key) ?? {};
+      out.set(key, cur);
+      continue;
+    }
+    const i = ln.indexOf("=");
+    if(i > 0 && cur) cur[ln.slice(0, i).trim().toUpperCase()] = ln.slice(i + 1).trim();
+  }
+  return out;
+}
+
+const names = (v?:string) => (v ?? "").split(",").map(s=>s.trim()).filter(Boolean);
+
+function parseINI(text:string):SawProgram {
+  const secs = readSections(text);
+  const sec = (name:string) => secs.get(name.toUpperCase()) ?? {};
+  const prog = sec("PROGRAM");
+  if(prog.FORMAT !== PROGRAM_ID) throw new Error(`INI: not a saw program ([PROGRAM] FORMAT "${prog.FORMAT ?? ""}")`);
+  if(Number(prog.VERSION) > PROGRAM_VERSION) throw new Error(`INI: program version ${prog.VERSION} is newer than supported (${PROGRAM_VERSION})`);
+  const w = sec("WAFER"), d = sec("DIE"), c = sec("CHUCK"), a = sec("ALIGNMENT");
+  const channels = ["CH1", "CH2"].filter(id=>secs.has(id)).map(id=>{
+    const ch = sec(id);
+    return {
+      channel: id, theta_deg: ch.THETA_DEG, indexPitch_mm: ch.INDEX_PITCH_MM, count: ch.CUT_COUNT, start_mm: ch.START_MM, length_mm: ch.LENGTH_MM,
+      steps: names(ch.STEPS).map(pass=>{
+        const s = sec(`${id} ${pass}`);
+        return { pass, height_um: s.HEIGHT_UM, depth_um: s.DEPTH_UM, spindle_rpm: s.SPINDLE_RPM, feed_mm_s: s.FEED_MM_S, coolant_l_min: s.COOLANT_L_MIN };
+      }),
+    };
+  });
+  const passes = Array.from(new Set(channels.flatMap(ch=>ch.steps.map(s=>s.pass))));
+  try {
+    return checkProgram({
+      name: prog.NAME, material: prog.MATERIAL,
+      wafer: { diameter_mm: w.DIAMETER_MM, thickness_um: w.THICKNESS_UM, tape_um: w.TAPE_UM, edgeExcl_mm: w.EDGE_EXCL_MM, orientation: w.ORIENTATION?.toLowerCase() },
+      die: { width_mm: d.WIDTH_MM, height_mm: d.HEIGHT_MM, street_um: d.STREET_UM },
+      chuck: { type: c.TYPE, vacuum_kPa: c.VACUUM_KPA },
+      blades: passes.filter(p=>secs.has(`BLADE ${p}`.toUpperCase())).map(pass=>{
+        const b = sec(`BLADE ${pass}`);
+        return { pass, profile: b.PROFILE?.toLowerCase(), bevelAngle_deg: b.BEVEL_DEG, diameter_mm: b.DIAMETER_MM, thickness_um: b.THICKNESS_UM, bond: b.BOND };
+      }),
+      channels,
+      alignment: {
+        offsetX_um: a.OFFSET_X_UM, offsetY_um: a.OFFSET_Y_UM, theta_deg: a.THETA_DEG,
+        targets: names(a.TARGETS).map(id=>({ id, x_mm: sec(`TARGET ${id}`).X_MM, y_mm: sec(`TARGET ${id}`).Y_MM })),
+      },
+    });
+  } catch(err) { throw new Error(`INI: ${(err as Error).message}`); }
+}
+
+function writeINI(p:SawProgram):string {
+  const out:string[] = [`; Dicing saw program, generic INI (${PROGRAM_ID} v${PROGRAM_VERSION})`];
+  const section = (name:string, kv:Record<string,string|number>) => {
+    out.push("", `[${name}]`, ...Object.entries(kv).map(([k, v])=>`${k}=${v}`));
+  };
+  section("PROGRAM", { FORMAT: PROGRAM_ID, VERSION: PROGRAM_VERSION, NAME: p.name, MATERIAL: p.material });
+  section("WAFER", { DIAMETER_MM: p.wafer.diameter_mm, THICKNESS_UM: p.wafer.thickness_um, TAPE_UM: p.wafer.tape_um, EDGE_EXCL_MM: p.wafer.edgeExcl_mm, ORIENTATION: p.wafer.orientation });
+  section("DIE", { WIDTH_MM: p.die.width_mm, HEIGHT_MM: p.die.height_mm, STREET_UM: p.die.street_um });
+  section("CHUCK", { TYPE: p.chuck.type, VACUUM_KPA: p.chuck.vacuum_kPa });
+  for(const b of p.blades) section(`BLADE ${b.pass}`, { PROFILE: b.profile, BEVEL_DEG: b.bevelAngle_deg, DIAMETER_MM: b.diameter_mm, THICKNESS_UM: b.thickness_um, BOND: b.bond });
+  for(const ch of p.channels){
+    section(ch.channel, { THETA_DEG: ch.theta_deg, INDEX_PITCH_MM: ch.indexPitch_mm, CUT_COUNT: ch.count, START_MM: ch.start_mm, LENGTH_MM: ch.length_mm, STEPS: ch.steps.map(s=>s.pass).join(",") });
+    for(const s of ch.steps) section(`${ch.channel} ${s.pass}`, { HEIGHT_UM: s.height_um, DEPTH_UM: s.depth_um, SPINDLE_RPM: s.spindle_rpm, FEED_MM_S: s.feed_mm_s, COOLANT_L_MIN: s.coolant_l_min });
+  }
+  section("ALIGNMENT", { OFFSET_X_UM: p.alignment.offsetX_um, OFFSET_Y_UM: p.alignment.offsetY_um, THETA_DEG: p.alignment.theta_deg, TARGETS: p.alignment.targets.map(t=>t.id).join(",") });
+  for(const t of p.alignment.targets) section(`TARGET ${t.id}`, { X_MM: t.x_mm, Y_MM: t.y_mm });
+  return out.join("\n") + "\n";
+}
+
+export const INI_PROGRAM:SawProgramFormat = {
+  id: "ini",
+  name: "Generic INI",
+  extensions: [".ini", ".prg"],
+  detect: text => /^\s*\[PROGRAM\]/mi.test(text) && text.includes(PROGRAM_ID),
+  parse: parseINI,
+  write: writeINI,
+};
@@ -0,0 +1,30 @@
+import { PROGRAM_ID, PROGRAM_VERSION, checkProgram, type SawProgram, type SawProgramFormat } from "./model";
+
+// ------------------------
+// Generic JSON program
+// ------------------------
+// The common model as-is, under a `format`/`version` header:
+//   { "format": "dicing-toolkit.saw-program", "version": 1, "name": …, "material": …,
+//     "wafer": {…}, "die": {…}, "chuck": {…}, "blades": [{ "pass": "Z1", … }],
+//     "channels": [{ "channel": "CH1", "theta_deg": 0, "indexPitch_mm": …, "count": …,
+//                    "start_mm": …, "length_mm": …, "steps": [{ "pass": "Z1", "height_um": … }] }],
+//     "alignment": { "offsetX_um": …, "offsetY_um": …, "theta_deg": …, "targets": [{ "id": "A", "x_mm": …, "y_mm": … }] } }
+
+function parseJSON(text:string):SawProgram {
+  let parsed:unknown;
+  try { parsed = JSON.parse(text.replace(/^\uFEFF/, "")); }
+  catch(err) { throw new Error(`JSON: ${(err as Error).message}`); }
+  const doc = (parsed && typeof parsed === "object" ? parsed : {}) as Record<string,unknown>;
+  if(doc.format !== PROGRAM_ID) throw new Error(`JSON: not a saw program (format "${doc.format ?? ""}")`);
+  if(Number(doc.version) > PROGRAM_VERSION) throw new Error(`JSON: program version ${doc.version} is newer than supported (${PROGRAM_VERSION})`);
+  return checkProgram(doc);
+}
+
+export const JSON_PROGRAM:SawProgramFormat = {
+  id: "json",
+  name: "Generic JSON",
+  extensions: [".json"],
+  detect: text => /^\s*\{/.test(text.replace(/^\uFEFF/, "")) && text.includes(`"${PROGRAM_ID}"`),
+  parse: parseJSON,
+  write: p => JSON.stringify({ format: PROGRAM_ID, version: PROGRAM_VERSION, ...p }, null, 2),
+};
@@ -0,0 +1,223 @@
+import { DEFAULT_RECIPE, alignmentTargets, TAPE_CUT_UM, isBladeProfile, lanePositions, recipePasses, toRecipe, type DieLayout, type Lane, type Recipe } from "../model";
+
+// ------------------------
+// Common saw-program model
+// ------------------------
+// Every program format reads into and writes from this shape. Positions are mm from the wafer
+// center; CH1 cuts the streets between columns (θ = 0°), CH2 those between rows (θ = 90°). Each
+// channel starts at `start_mm` on its index axis and indexes `indexPitch_mm` in the + direction.
+// Heights are the blade tip above the chuck table, depths are measured from the wafer top.
+
+export const PROGRAM_ID = "dicing-toolkit.saw-program";
+export const PROGRAM_VERSION = 1;
+export const DEFAULT_TAPE_UM = 80;
+
+export type ProgramBlade = { pass:string, profile:"straight"|"bevel", bevelAngle_deg:number, diameter_mm:number, thickness_um:number, bond:string };
+export type ProgramStep = { pass:string, height_um:number, depth_um:number, spindle_rpm:number, feed_mm_s:number, coolant_l_min:number };
+export type ProgramChannel = {
+  channel:"CH1"|"CH2";
+  theta_deg:number;
+  indexPitch_mm:number;
+  count:number;          // lanes that cross the wafer
+  start_mm:number;       // first lane on the index axis
+  length_mm:number;      // longest lane chord, without overtravel
+  steps:ProgramStep[];   // passes in cut order, the last one through the wafer
+};
+export type AlignmentTarget = { id:string, x_mm:number, y_mm:number };
+
+export type SawProgram = {
+  name:string;
+  material:string;
+  wafer:{ diameter_mm:number, thickness_um:number, tape_um:number, edgeExcl_mm:number, orientation:"notch"|"flat" };
+  die:{ width_mm:number, height_mm:number, street_um:number };
+  chuck:{ type:string, vacuum_kPa:number };
+  blades:ProgramBlade[];
+  channels:ProgramChannel[];
+  alignment:{ offsetX_um:number, offsetY_um:number, theta_deg:number, targets:AlignmentTarget[] };
+};
+
+// Pluggable text format, registered in index.ts. `parse` throws when the file cannot be read as
+// a program at all.
+export type SawProgramFormat = {
+  id:string;
+  name:string;
+  extensions:string[];
+  detect:(text:string)=>boolean;
+  parse:(text:string)=>SawProgram;
+  write:(p:SawProgram)=>string;
+};
+
+export type ProgramIssue = { severity:"error"|"warning", message:string };
+
+const r4 = (v:number) => Number(v.toFixed(4));
+
+// Blades and steps are matched by pass name, case-insensitively as INI sections are, so a
+// repeated name would give one pass another's blade.
+const duplicate = (names:string[]) => names.find((n, i)=>names.findIndex(m=>m.toUpperCase() === n.toUpperCase()) < i);
+
+// ------------------------
+// Recipe → program
+// ------------------------
+
+export type ProgramOptions = { name?:string, tape_um?:number, alignment?:{ offsetX_um:number, offsetY_um:number, theta_deg:number } };
+
+export function buildSawProgram(r:Recipe, layout:DieLayout, waferDiam:number = r.waferDiam, opts:ProgramOptions = {}):SawProgram {
+  const tape = opts.tape_um ?? DEFAULT_TAPE_UM;
+  const passes = recipePasses(r);
+  const dup = duplicate(passes.map(p=>p.name));
+  if(dup) throw new Error(`Pass name ${dup} is used twice; blades are looked up by pass name`);
+  // Lane positions ascending on each index axis, and the longest chord.
+  const lanes = (l:Lane[]) => ({ pos: l.map(x=>x.pos).sort((a, b)=>a - b), max: Math.max(0, ...l.map(x=>x.chord)) });
+  const { ch1, ch2 } = lanePositions(layout, waferDiam);
+  const xs = lanes(ch1), ys = lanes(ch2);
+
+  const steps = passes.map(p=>({
+    pass: p.name, height_um: r4(tape + r.waferThk - p.depth), depth_um: r4(p.depth),
+    spindle_rpm: Math.round(p.rpm), feed_mm_s: r4(p.feed), coolant_l_min: r4(p.coolant),
+  }));
+  const channel = (channel:"CH1"|"CH2", theta_deg:number, pitch:number, l:{ pos:number[], max:number }):ProgramChannel => ({
+    channel, theta_deg, indexPitch_mm: r4(pitch), count: l.pos.length, start_mm: r4(l.pos[0] ?? 0), length_mm: r4(l.max), steps: steps.map(s=>({ ...s })),
+  });
+
+  const targets = alignmentTargets(layout, waferDiam).map(t=>({ id: t.id, x_mm: r4(t.pos.x), y_mm: r4(t.pos.y) }));
+
+  return {
+    name: opts.name ?? `${r.material} ${r.dieW}x${r.dieH}`,
+    material: r.material,
+    wafer: { diameter_mm: waferDiam, thickness_um: r.waferThk, tape_um: tape, edgeExcl_mm: r.edgeExcl, orientation: r.orientation },
+    die: { width_mm: r.dieW, height_mm: r.dieH, street_um: r.street },
+    chuck: { type: r.chuckType, vacuum_kPa: r.vacuum },
+    blades: passes.map(p=>({ pass: p.name, profile: p.profile, bevelAngle_deg: p.bevelAngle, diameter_mm: p.bladeDia, thickness_um: p.bladeThk, bond: p.bladeBond })),
+    channels: [channel("CH1", 0, layout.pitchX, xs), channel("CH2", 90, layout.pitchY, ys)],
+    alignment: { offsetX_um: opts.alignment?.offsetX_um ?? 0, offsetY_um: opts.alignment?.offsetY_um ?? 0, theta_deg: opts.alignment?.theta_deg ?? 0, targets },
+  };
+}
+
+// ------------------------
+// Program → recipe
+// ------------------------
+
+// Reads the recipe back from CH1 and the blades; fields a program does not carry (wear,
+// environment) come from `base`. Warnings flag values the recipe cannot represent.
+export function programToRecipe(p:SawProgram, base:Recipe = DEFAULT_RECIPE):{ recipe:Recipe, issues:ProgramIssue[] } {
+  const issues:ProgramIssue[] = [];
+  const ch1 = p.channels.find(c=>c.channel==="CH1") ?? p.channels[0];
+  const ch2 = p.channels.find(c=>c.channel==="CH2");
+  if(!ch1 || !ch1.steps.length) throw new Error("Program has no CH1 cut steps");
+  const blade = (name:string) => {
+    const b = p.blades.find(x=>x.pass===name);
+    if(!b) throw new Error(`No blade defined for pass ${name}`);
+    return b;
+  };
+  const steps = ch1.steps;
+  const final = steps[steps.length - 1], fb = blade(final.pass);
+  const recipe = toRecipe({
+    ...base,
+    material: p.material, waferDiam: p.wafer.diameter_mm, waferThk: p.wafer.thickness_um, edgeExcl: p.wafer.edgeExcl_mm, orientation: p.wafer.orientation,
+    dieW: p.die.width_mm, dieH: p.die.height_mm, street: p.die.street_um,
+    chuckType: p.chuck.type, vacuum: p.chuck.vacuum_kPa,
+    bladeDia: fb.diameter_mm, bladeThk: fb.thickness_um, bladeBond: fb.bond, rpm: final.spindle_rpm, feed: final.feed_mm_s, coolant: final.coolant_l_min,
+    passes: steps.slice(0, -1).map(s=>{
+      const b = blade(s.pass);
+      return { name: s.pass, profile: b.profile, bevelAngle: b.bevelAngle_deg, bladeDia: b.diameter_mm, bladeThk: b.thickness_um, bladeBond: b.bond, depth: s.depth_um, rpm: s.spindle_rpm, feed: s.feed_mm_s, coolant: s.coolant_l_min };
+    }),
+  });
+  if(p.chuck.type !== recipe.chuckType) issues.push({ severity: "warning", message: `Unknown chuck type "${p.chuck.type}"; using ${recipe.chuckType}` });
+  if(fb.profile !== "straight") issues.push({ severity: "warning", message: `Through-cut pass ${final.pass} uses a ${fb.profile} blade; the recipe models it as straight` });
+  if(final.depth_um < p.wafer.thickness_um) issues.push({ severity: "warning", message: `Last pass ${final.pass} stops at ${final.depth_um} µm, above the ${p.wafer.thickness_um} µm wafer; the recipe always cuts ${TAPE_CUT_UM} µm into the tape` });
+  for(const c of p.channels){
+    const die = c.channel === "CH2" ? p.die.height_mm : p.die.width_mm;
+    if(Math.abs(c.indexPitch_mm - (die + p.die.street_um / 1000)) > 1e-3)
+      issues.push({ severity: "warning", message: `${c.channel} index pitch ${c.indexPitch_mm} mm ≠ die ${die} mm + street ${p.die.street_um} µm` });
+    for(const s of c.steps){
+      if(Math.abs(s.height_um - (p.wafer.tape_um + p.wafer.thickness_um - s.depth_um)) > 0.5)
+        issues.push({ severity: "warning", message: `${c.channel} ${s.pass}: height ${s.height_um} µm does not match depth ${s.depth_um} µm on ${p.wafer.tape_um} µm tape` });
+    }
+  }
+  if(ch2){
+    const key = (s:ProgramStep) => [s.pass, s.depth_um, s.spindle_rpm, s.feed_mm_s, s.coolant_l_min].join();
+    if(ch2.steps.map(key).join(";") !== steps.map(key).join(";")) issues.push({ severity: "warning", message: "CH2 steps differ from CH1; the recipe uses CH1" });
+  }
+  return { recipe, issues };
+}
+
+// ------------------------
+// Validation
+// ------------------------
+
+// Checks a loosely typed object (parsed JSON, INI sections) field by field and returns a typed
+// program. Throws on the first missing or non-numeric required value, naming its path.
+export function checkProgram(raw:unknown):SawProgram {
+  const unique = <T>(items:T[], name:(x:T)=>string, path:string) => {
+    const dup = duplicate(items.map(name));
+    if(dup !== undefined) throw new Error(`${path}: pass ${dup} appears twice`);
+    return items;
+  };
+  const num = (v:unknown, path:string) => {
+    if(v === undefined || v === null || v === "" || !isFinite(Number(v))) throw new Error(`${path} is missing or not a number`);
+    return Number(v);
+  };
+  const str = (v:unknown, path:string) => {
+    if(typeof v !== "string" || !v.trim()) throw new Error(`${path} is missing`);
+    return v.trim();
+  };
+  // Optional objects read as empty; required ones and lists throw when absent.
+  const rec = (v:unknown) => (v && typeof v === "object" ? v : {}) as Record<string,unknown>;
+  const obj = (v:unknown, path:string) => {
+    if(!v || typeof v !== "object") throw new Error(`${path} is missing`);
+    return rec(v);
+  };
+  const list = (v:unknown, path:string):unknown[] => {
+    if(!Array.isArray(v)) throw new Error(`${path} is missing`);
+    return v;
+  };
+  const doc = rec(raw);
+  const w = obj(doc.wafer, "wafer"), d = obj(doc.die, "die"), c = obj(doc.chuck, "chuck"), a = rec(doc.alignment);
+  return {
+    name: typeof doc.name === "string" ? doc.name : "",
+    material: str(doc.material, "material"),
+    wafer: {
+      diameter_mm: num(w.diameter_mm, "wafer.diameter_mm"), thickness_um: num(w.thickness_um, "wafer.thickness_um"),
+      tape_um: w.tape_um === undefined ? DEFAULT_TAPE_UM : num(w.tape_um, "wafer.tape_um"),
+      edgeExcl_mm: w.edgeExcl_mm === undefined ? DEFAULT_RECIPE.edgeExcl : num(w.edgeExcl_mm, "wafer.edgeExcl_mm"),
+      orientation: w.orientation === "flat" ? "flat" : "notch",
+    },
+    die: { width_mm: num(d.width_mm, "die.width_mm"), height_mm: num(d.height_mm, "die.height_mm"), street_um: num(d.street_um, "die.street_um") },
+    chuck: { type: str(c.type, "chuck.type"), vacuum_kPa: num(c.vacuum_kPa, "chuck.vacuum_kPa") },
+    blades: unique(list(doc.blades, "blades").map((x, i)=>{
+      const b = rec(x), profile = b.profile;
+      return {
+        pass: str(b.pass, `blades[${i}].pass`),
+        profile: isBladeProfile(profile) ? profile : "straight",
+        bevelAngle_deg: b.bevelAngle_deg === undefined ? 0 : num(b.bevelAngle_deg, `blades[${i}].bevelAngle_deg`),
+        diameter_mm: num(b.diameter_mm, `blades[${i}].diameter_mm`), thickness_um: num(b.thickness_um, `blades[${i}].thickness_um`), bond: str(b.bond, `blades[${i}].bond`),
+      };
+    }), b=>b.pass, "blades"),
+    channels: list(doc.channels, "channels").map((x, i)=>{
+      const ch = rec(x), at = `channels[${i}]`;
+      const id = ch.channel === "CH2" ? "CH2" : ch.channel === "CH1" ? "CH1" : undefined;
+      if(!id) throw new Error(`${at}.channel must be CH1 or CH2`);
+      return {
+        channel: id, theta_deg: num(ch.theta_deg ?? (id === "CH1" ? 0 : 90), `${at}.theta_deg`),
+        indexPitch_mm: num(ch.indexPitch_mm, `${at}.indexPitch_mm`), count: num(ch.count, `${at}.count`), start_mm: num(ch.start_mm, `${at}.start_mm`),
+        length_mm: ch.length_mm === undefined ? 0 : num(ch.length_mm, `${at}.length_mm`),
+        steps: unique(list(ch.steps, `${at}.steps`).map((y, j)=>{
+          const s = rec(y);
+          return {
+            pass: str(s.pass, `${at}.steps[${j}].pass`),
+            height_um: num(s.height_um, `${at}.steps[${j}].height_um`), depth_um: num(s.depth_um, `${at}.steps[${j}].depth_um`),
+            spindle_rpm: num(s.spindle_rpm, `${at}.steps[${j}].spindle_rpm`), feed_mm_s: num(s.feed_mm_s, `${at}.steps[${j}].feed_mm_s`),
+            coolant_l_min: num(s.coolant_l_min, `${at}.steps[${j}].coolant_l_min`),
+          };
+        }), s=>s.pass, `${at}.steps`),
+      };
+    }),
+    alignment: {
+      offsetX_um: Number(a.offsetX_um) || 0, offsetY_um: Number(a.offsetY_um) || 0, theta_deg: Number(a.theta_deg) || 0,
+      targets: (Array.isArray(a.targets) ? a.targets : []).map((x:unknown, i:number)=>{
+        const t = rec(x);
+        return { id: String(t.id ?? i + 1), x_mm: num(t.x_mm, `alignment.targets[${i}].x_mm`), y_mm: num(t.y_mm, `alignment.targets[${i}].y_mm`) };
+      }),
+    },
+  };
+}
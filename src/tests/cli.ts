@@ -0,0 +1,33 @@
+import { DEFAULT_SEED, MODEL_SUITES, runModelTests } from ".";
+
+// ------------------------
+// Command-line runner
+// ------------------------
+//   npx tsx src/tests/cli.ts [--seed N] [--verbose] [filter]
+// Prints failures (every case with --verbose) and exits non-zero when any case fails. `filter`
+// matches "suite/name", e.g. "fuzz" or "golden/SiC".
+
+// Node globals, without depending on @types/node.
+const proc = (globalThis as unknown as { process:{ argv:string[], exitCode?:number } }).process;
+
+const args = proc.argv.slice(2);
+const seedAt = args.indexOf("--seed");
+const seed = seedAt > -1 ? Number(args[seedAt + 1]) : DEFAULT_SEED;
+const verbose = args.includes("--verbose");
+const filter = args.find((a, i)=>!a.startsWith("--") && (seedAt < 0 || i !== seedAt + 1));
+
+if(!Number.isFinite(seed)){
+  console.error("--seed needs a number");
+  proc.exitCode = 2;
+} else {
+  const report = runModelTests({ seed, filter });
+  for(const s of MODEL_SUITES){
+    const rows = report.results.filter(r=>r.suite===s.id);
+    if(!rows.length) continue;
+    console.log(`${s.name} (${rows.filter(r=>r.pass).length}/${rows.length})`);
+    for(const r of rows) if(verbose || !r.pass) console.log(`  ${r.pass ? "PASS" : "FAIL"} ${r.name}${r.info ? ` — ${r.info}` : ""} [${r.ms.toFixed(0)} ms]`);
+  }
+  console.log(`${report.passed} passed, ${report.failed} failed in ${(report.ms / 1000).toFixed(1)} s (seed ${report.seed})`);
+  if(!report.results.length) console.log(`No case matches "${filter}"`);
+  proc.exitCode = report.failed || !report.results.length ? 1 : 0;
+}
@@ -0,0 +1,129 @@
+import {
+  DEFAULT_MATERIAL_DB, DEFAULT_RECIPE, dieCount, exportMaterialDB, importMaterialDB, readCalibrationCSV, readMeasurementCSV,
+} from "../model";
+import { listFormats, readCSVMap, readWaferMap, writeWaferMap, type WaferMap } from "../wafermap";
+import { buildSawProgram, listProgramFormats, readSawProgram, writeSawProgram } from "../sawprogram";
+import { importLibraryJSON } from "../recipes";
+import { check, forAll, makeRng, type Rng, type TestSuite } from "./harness";
+
+// ------------------------
+// Parser fuzzing
+// ------------------------
+// Parsers get random text and mutated valid files. Bad input may be rejected with an Error, or a
+// SyntaxError from JSON.parse (the message reaches the user), but must never crash with a
+// TypeError/RangeError or return dies and values that are not numbers.
+
+const TOKENS = [",", ";", "\t", "\n", "\r\n", '"', '""', " ", "=", ":", "[", "]", "{", "}", "-", ".", "e", "0", "1", "7", "42", "-3", "1e9", "NaN",
+  "0A", "FF", "__", "@@", "x", "y", "bin", "status", "lot", "wafer", "kerf", "ROWDATA:", "RowRdc", "LOT:", "WAFER:", "DieRecord", "SampleTestPlan",
+  "<Map", "<BinCode>", "</Row>", "<Bin", "BinCode=", "FileVersion", "EndOfFile;", "[CH1]", "INDEX_PITCH_MM=", "\uFEFF", "é", "∅"];
+
+const randomText = (r:Rng) => Array.from({ length: r.int(0, 80) }, ()=>r.pick(TOKENS)).join("");
+
+// Deletes, duplicates, swaps or inserts pieces of a valid file.
+function mutate(r:Rng, text:string){
+  let s = text;
+  for(let n=r.int(1, 4); n>0; n--){
+    const i = r.int(0, s.length), j = Math.min(s.length, i + r.int(1, 40));
+    const op = r.int(0, 4);
+    if(op===0) s = s.slice(0, i) + s.slice(j);
+    else if(op===1) s = s.slice(0, j) + s.slice(i, j) + s.slice(j);
+    else if(op===2) s = s.slice(0, i) + r.pick(TOKENS) + s.slice(i);
+    else if(op===3){ const lines = s.split("\n"); const a = r.int(0, lines.length - 1), b = r.int(0, lines.length - 1); [lines[a], lines[b]] = [lines[b], lines[a]]; s = lines.join("\n"); }
+    else s = s.slice(0, i);
+  }
+  return s;
+}
+
+// A plain Error or SyntaxError is a clean rejection; anything else is a parser bug.
+function robust<T>(what:string, fn:()=>T, wellFormed:(v:T)=>void){
+  let v:T;
+  try { v = fn(); }
+  catch(err){
+    check(err instanceof Error && (err.constructor === Error || err instanceof SyntaxError) && err.message.length > 0, `${what} crashed: ${err instanceof Error ? `${err.name}: ${err.message}` : String(err)}`);
+    return;
+  }
+  wellFormed(v);
+}
+
+const isCoord = (v:number) => Number.isInteger(v) && Number.isFinite(v);
+const mapWellFormed = (what:string) => ({ map }:{ map:WaferMap }) => {
+  check(map.dies.every(d=>isCoord(d.x) && isCoord(d.y) && typeof d.bin === "string"), `${what} returned a die without integer coordinates`);
+  check(Number.isFinite(map.cols) && Number.isFinite(map.rows) && Number.isFinite(map.orientation.deg), `${what} returned non-finite extents`);
+  check([map.refDie, map.dieStep_mm].every(p=>!p || (Number.isFinite(p.x) && Number.isFinite(p.y))), `${what} returned a non-finite reference die or step`);
+};
+
+// A random map each format can carry: hex bins for SINF/E142, numbers for KLARF, status words for
+// CSV (which writes other codes as good/bad).
+const BIN_CODES:Record<string,string[]> = { sinf: ["01", "02", "0A", "1F"], e142: ["01", "02", "0A", "1F"], klarf: ["0", "1", "10", "33"], csv: ["good", "bad", "ink", "fail"] };
+function genMap(r:Rng, id:string):WaferMap {
+  const cols = r.int(1, 12), rows = r.int(1, 12), codes = BIN_CODES[id];
+  const dies = [];
+  for(let y=0; y<rows; y++) for(let x=0; x<cols; x++) if(r.bool(0.7)) dies.push({ x, y, bin: r.pick(codes) });
+  if(!dies.length) dies.push({ x: 0, y: 0, bin: codes[0] });
+  const ids = id === "csv" ? {} : { lotId: `LOT${r.int(1, 999)}`, waferId: String(r.int(1, 25)).padStart(2, "0") };
+  return { ...ids, orientation: { mark: "notch", deg: id === "csv" ? 0 : r.pick([0, 90, 180, 270]) }, cols, rows,
+    bins: codes.map((code, i)=>({ code, pass: i === 0 })), dies };
+}
+// KLARF die indices are relative to the outermost dies, so empty margins are not kept.
+const dieKey = (m:WaferMap, tight:boolean) => {
+  const x0 = tight ? Math.min(...m.dies.map(d=>d.x)) : 0, y0 = tight ? Math.min(...m.dies.map(d=>d.y)) : 0;
+  return m.dies.map(d=>`${d.x - x0},${d.y - y0},${d.bin}`).sort().join(";");
+};
+
+// Valid files to mutate, built on first use.
+function buildSeedFiles(){
+  const prog = buildSawProgram(DEFAULT_RECIPE, dieCount(200, 5, 5, 60).layout, 200);
+  return {
+    map: listFormats().map(f=>writeWaferMap(genMap(makeRng(1), f.id), f.id)),
+    csvMap: ['\uFEFFcol;row;bin\n0;0;"good"\n1;0;"ba;d"\n0;0;bad\nq;1;good\n2;1;', "x,y,status\n0,0,good\n0,1,bad"],
+    measurement: ["lot,wafer,kerf,chip\nL1,1,30.5,4\nL1,2,31,\nL2,1,29.8,6", "timestamp,lot,wafer,recipe,parameter,value\n2024-01-01T00:00:00Z,L1,1,Si,kerf,30"],
+    calibration: ["material,waferThk,bladeDia,bladeThk,rpm,feed,coolant,wear,kerf,power\nSi,725,58,30,30000,1.5,4,0.2,31,0.02\nSiC,350,58,30,32000,0.8,5,0.4,33,0.05"],
+    program: listProgramFormats().map(f=>writeSawProgram(prog, f.id)),
+    json: [exportMaterialDB(DEFAULT_MATERIAL_DB), JSON.stringify({ schema: 1, recipes: [{ name: "A", versions: [{ version: 1, author: "x", savedAt: "2024-01-01", values: DEFAULT_RECIPE }] }] })],
+  };
+}
+let seeds:ReturnType<typeof buildSeedFiles>|undefined;
+const seedFiles = () => seeds ??= buildSeedFiles();
+const input = (r:Rng, seeds:string[]) => r.bool(0.3) ? randomText(r) : mutate(r, r.pick(seeds));
+
+export const FUZZ_SUITE:TestSuite = { id: "fuzz", name: "Parser fuzzing", tests: [
+  { name: "Random maps survive write → read in every format", run: r=>forAll(r, 40, r=>{ const id = r.pick(Object.keys(BIN_CODES)); return { id, map: genMap(r, id) }; }, ({ id, map })=>{
+    const back = readWaferMap(writeWaferMap(map, id));
+    check(back.format.id === id, `${id} detected as ${back.format.id}`);
+    check(dieKey(back.map, id === "klarf") === dieKey(map, id === "klarf"), `${id}: dies changed`);
+    check(back.map.lotId === map.lotId && back.map.waferId === map.waferId && back.map.orientation.deg === map.orientation.deg, `${id}: ids or orientation changed`);
+  }) },
+  { name: "A 400 × 400 map survives write → read", run: ()=>{
+    const n = 400, dies = [];
+    for(let y=0; y<n; y++) for(let x=0; x<n; x++) dies.push({ x, y, bin: (x + y) % 7 ? "01" : "02" });
+    const map:WaferMap = { orientation: { mark: "notch", deg: 0 }, cols: 0, rows: 0, bins: [{ code: "01", pass: true }, { code: "02", pass: false }], dies };
+    // CSV maps may use negative (center-origin) indices, which are shifted on read.
+    check(readWaferMap(["x,y,status", ...dies.map(d=>`${d.x - n / 2},${d.y - n / 2},good`)].join("\n")).map.cols === n, "shifted CSV extents");
+    for(const id of ["sinf", "e142", "klarf", "csv"]){
+      const back = readWaferMap(writeWaferMap(map, id)).map;
+      check(back.dies.length === n * n && back.cols === n && back.rows === n, `${id}: ${back.dies.length} dies, ${back.cols} × ${back.rows}`);
+    }
+    return `${n * n} dies`;
+  } },
+  { name: "Wafer map readers reject garbage cleanly", run: r=>forAll(r, 1000, r=>input(r, seedFiles().map), text=>{
+    robust("readWaferMap", ()=>readWaferMap(text), mapWellFormed("readWaferMap"));
+    for(const f of listFormats()) robust(`${f.id} parse`, ()=>f.parse(text), mapWellFormed(`${f.id} parse`));
+  }) },
+  { name: "CSV map reader never crashes", run: r=>forAll(r, 1000, r=>input(r, seedFiles().csvMap), text=>
+    robust("readCSVMap", ()=>readCSVMap(text), res=>{
+      check(res.dies.every(d=>Number.isFinite(d.x) && Number.isFinite(d.y)), "die without finite coordinates");
+      check(res.issues.every(i=>i.line === undefined || i.line >= 1), "issue without a line");
+    })) },
+  { name: "Measurement and calibration CSV readers never crash", run: r=>forAll(r, 1000, r=>({ m: input(r, seedFiles().measurement), c: input(r, seedFiles().calibration) }), ({ m, c })=>{
+    robust("readMeasurementCSV", ()=>readMeasurementCSV(m, new Date(0)), res=>check(res.rows.every(x=>Number.isFinite(x.value) && x.lot && x.wafer), "row without lot, wafer or value"));
+    robust("readCalibrationCSV", ()=>readCalibrationCSV(c), res=>check(res.rows.every(x=>Object.values(x).every(v=>typeof v !== "number" || Number.isFinite(v))), "row with a non-finite number"));
+  }) },
+  { name: "Saw program readers reject garbage cleanly", run: r=>forAll(r, 1000, r=>input(r, seedFiles().program), text=>{
+    robust("readSawProgram", ()=>readSawProgram(text), ()=>{});
+    for(const f of listProgramFormats()) robust(`${f.id} parse`, ()=>f.parse(text), ()=>{});
+  }) },
+  { name: "Library and material DB imports reject garbage cleanly", run: r=>forAll(r, 1000, r=>input(r, seedFiles().json), text=>{
+    robust("importLibraryJSON", ()=>importLibraryJSON(text), ()=>{});
+    robust("importMaterialDB", ()=>importMaterialDB(text), ()=>{});
+  }) },
+] };
@@ -0,0 +1,71 @@
+import { DEFAULT_MATERIAL_DB, DEFAULT_RECIPE, evaluateRecipe, validateRecipe, type Recipe } from "../model";
+import { check, close, fmt, type TestSuite } from "./harness";
+
+// ------------------------
+// Golden values
+// ------------------------
+// DEFAULT_RECIPE re-evaluated per built-in material, as written and at the suggested RPM, feed and
+// coolant. A model change that moves any value fails here; update the table only when the change
+// is intended. `inWindow` records whether the tip speed sits inside the material's window, and the
+// validation warning must agree: the default 30 000 RPM is far above it for every material, and
+// the Sapphire suggestion lands just over 45 m/s.
+
+type Golden = { tip:number, kerf:number, power:number, risk:number, inWindow:boolean };
+type GoldenRow = { material:string, recipe:Golden, suggested:Golden & { rpm:number, feed:number, coolant:number } };
+
+export const GOLDEN_TABLE:GoldenRow[] = [
+  { material: "Si",
+    recipe: { tip: 91.1062, kerf: 30.72, power: 0.00050112, risk: 67, inWindow: false },
+    suggested: { rpm: 12512.9, feed: 2.34888, coolant: 3.00301, tip: 38, kerf: 30.72, power: 0.000784714, risk: 33, inWindow: true } },
+  { material: "GaAs",
+    recipe: { tip: 91.1062, kerf: 30.72, power: 0.00066816, risk: 82, inWindow: false },
+    suggested: { rpm: 11261.6, feed: 1.40933, coolant: 3.00401, tip: 34.2, kerf: 30.72, power: 0.000627771, risk: 41, inWindow: true } },
+  { material: "SiC",
+    recipe: { tip: 91.1062, kerf: 30.72, power: 0.00200448, risk: 97, inWindow: false },
+    suggested: { rpm: 14389.8, feed: 0.822108, coolant: 3.01203, tip: 43.7, kerf: 30.72, power: 0.0010986, risk: 56, inWindow: true } },
+  { material: "Sapphire",
+    recipe: { tip: 91.1062, kerf: 30.72, power: 0.00233856, risk: 100, inWindow: false },
+    suggested: { rpm: 15015.4, feed: 0.58722, coolant: 3.01403, tip: 45.6, kerf: 30.72, power: 0.0009155, risk: 62, inWindow: false } },
+  { material: "Glass",
+    recipe: { tip: 91.1062, kerf: 30.72, power: 0.000601344, risk: 87, inWindow: false },
+    suggested: { rpm: 13138.5, feed: 0.939552, coolant: 3.00361, tip: 39.9, kerf: 30.72, power: 0.000376663, risk: 46, inWindow: true } },
+];
+export const GOLDEN_USABLE_DIES = 2545;
+
+const REL = 1e-5;   // the table keeps six significant digits
+
+function compare(r:Recipe, g:Golden, what:string){
+  const ev = evaluateRecipe(r);
+  close(ev.tipSpeed.value, g.tip, REL, `${what} tip speed`);
+  close(ev.kerf.value, g.kerf, REL, `${what} kerf`);
+  close(ev.spindlePower.value, g.power, REL, `${what} power`);
+  check(ev.chippingRisk.value === g.risk, `${what} risk: expected ${g.risk}, got ${ev.chippingRisk.value}`);
+  const inside = ev.tipSpeed.value >= ev.tipWindow.lo.value && ev.tipSpeed.value <= ev.tipWindow.hi.value;
+  check(inside === g.inWindow, `${what} tip speed ${fmt(ev.tipSpeed.value)} m/s is ${inside ? "inside" : "outside"} the ${ev.tipWindow.lo.value}–${ev.tipWindow.hi.value} m/s window`);
+  const warned = validateRecipe(r, { layout: ev.dies.layout }).issues.some(i=>i.rule==="tip-window");
+  check(warned === !inside, `${what} tip-window warning ${warned ? "raised" : "missing"}`);
+  return ev;
+}
+
+const flag = (g:Golden) => `${fmt(g.tip, 1)} m/s${g.inWindow ? "" : " (outside window)"}`;
+
+export const GOLDEN_SUITE:TestSuite = { id: "golden", name: "Golden values", tests: [
+  ...GOLDEN_TABLE.map(g=>({ name: `${g.material} at recipe and suggested setpoints`, run: ()=>{
+    check(DEFAULT_MATERIAL_DB.materials.some(m=>m.id===g.material), `${g.material} is not a built-in material`);
+    const r = { ...DEFAULT_RECIPE, material: g.material };
+    const ev = compare(r, g.recipe, "recipe");
+    const s = ev.suggestions;
+    close(s.rpm.value, g.suggested.rpm, REL, "suggested RPM");
+    close(s.feed.value, g.suggested.feed, REL, "suggested feed");
+    close(s.coolant.value, g.suggested.coolant, REL, "suggested coolant");
+    compare({ ...r, rpm: s.rpm.value, feed: s.feed.value, coolant: s.coolant.value }, g.suggested, "suggested");
+    return `risk ${g.recipe.risk} at ${flag(g.recipe)}, ${g.suggested.risk} at ${flag(g.suggested)}`;
+  } })),
+  { name: "Every built-in material has a golden row", run: ()=>{
+    const missing = DEFAULT_MATERIAL_DB.materials.filter(m=>!GOLDEN_TABLE.some(g=>g.material===m.id)).map(m=>m.id);
+    check(!missing.length, `no golden values for ${missing.join(", ")}`);
+    const usable = evaluateRecipe(DEFAULT_RECIPE).dies.usable.value;
+    check(usable === GOLDEN_USABLE_DIES, `usable dies: expected ${GOLDEN_USABLE_DIES}, got ${usable}`);
+    return `${GOLDEN_TABLE.length} materials, ${usable} dies`;
+  } },
+] };
@@ -0,0 +1,103 @@
+// ------------------------
+// Test harness
+// ------------------------
+// Framework-free: a suite is a list of named cases, a case throws to fail and may return a short
+// info string. Every case gets its own random generator seeded from the run seed and its name, so
+// a failure reproduces with the same seed whatever else is filtered in or out.
+
+export type Rng = {
+  seed:number;
+  next:()=>number;                           // [0, 1)
+  num:(lo:number, hi:number)=>number;
+  int:(lo:number, hi:number)=>number;        // inclusive
+  pick:<T>(xs:readonly T[])=>T;
+  bool:(p?:number)=>boolean;
+};
+
+export type TestCase = { name:string, run:(rng:Rng)=>string|void };
+export type TestSuite = { id:string, name:string, tests:TestCase[] };
+export type TestResult = { suite:string, name:string, pass:boolean, info?:string, ms:number };
+export type TestReport = { seed:number, results:TestResult[], passed:number, failed:number, ms:number };
+
+export const DEFAULT_SEED = 20240601;
+
+// mulberry32
+export function makeRng(seed:number):Rng {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    seed, next,
+    num: (lo, hi) => lo + (hi - lo) * next(),
+    int: (lo, hi) => lo + Math.floor((hi - lo + 1) * next()),
+    pick: xs => xs[Math.floor(xs.length * next())],
+    bool: (p = 0.5) => next() < p,
+  };
+}
+
+// FNV-1a, to derive per-case seeds.
+const hashString = (s:string) => { let h = 0x811C9DC5; for(let i=0; i<s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 0x01000193); return h >>> 0; };
+
+// ------------------------
+// Assertions
+// ------------------------
+
+export function check(cond:unknown, message:string):asserts cond {
+  if(!cond) throw new Error(message);
+}
+
+export function near(actual:number, expected:number, tol:number, what:string){
+  check(Math.abs(actual - expected) <= tol, `${what}: expected ${expected} ± ${tol}, got ${actual}`);
+}
+
+// Relative tolerance, for golden values that span orders of magnitude.
+export function close(actual:number, expected:number, rel:number, what:string){
+  check(Math.abs(actual - expected) <= rel * Math.max(1, Math.abs(expected)), `${what}: expected ${expected}, got ${actual}`);
+}
+
+export function throwsMessage(fn:()=>unknown){
+  try { fn(); } catch(err){ return (err as Error).message; }
+  return "";
+}
+
+// Runs `prop` on `runs` generated values; the first failure is reported with its input.
+export function forAll<T>(rng:Rng, runs:number, gen:(r:Rng)=>T, prop:(v:T)=>void){
+  for(let i=0; i<runs; i++){
+    const v = gen(rng);
+    try { prop(v); }
+    catch(err){ throw new Error(`${(err as Error).message} (case ${i + 1}: ${JSON.stringify(v)})`); }
+  }
+  return `${runs} cases`;
+}
+
+export const fmt = (v:number|undefined, d:number=2) => v !== undefined && Number.isFinite(v) ? v.toFixed(d) : "-";
+
+// ------------------------
+// Runner
+// ------------------------
+// `filter` matches "suite/name" case-insensitively.
+
+export function runSuites(suites:TestSuite[], opts:{ seed?:number, filter?:string }={}):TestReport {
+  const seed = opts.seed ?? DEFAULT_SEED;
+  const filter = opts.filter?.toLowerCase();
+  const now = () => typeof performance !== "undefined" ? performance.now() : Date.now();
+  const t0 = now();
+  const results:TestResult[] = [];
+  for(const s of suites) for(const t of s.tests){
+    if(filter && !`${s.id}/${t.name}`.toLowerCase().includes(filter)) continue;
+    const start = now();
+    try {
+      const info = t.run(makeRng(hashString(`${seed}:${s.id}:${t.name}`)));
+      results.push({ suite: s.id, name: t.name, pass: true, info: info || undefined, ms: now() - start });
+    } catch(err){
+      results.push({ suite: s.id, name: t.name, pass: false, info: err instanceof Error ? err.message : String(err), ms: now() - start });
+    }
+  }
+  const failed = results.filter(r=>!r.pass).length;
+  return { seed, results, passed: results.length - failed, failed, ms: now() - t0 };
+}
@@ -0,0 +1,18 @@
+import { FUZZ_SUITE } from "./fuzz";
+import { GOLDEN_SUITE } from "./golden";
+import { runSuites, type TestReport, type TestSuite } from "./harness";
+import { PROPERTY_SUITE } from "./properties";
+import { SCENARIO_SUITE } from "./scenarios";
+
+export * from "./harness";
+export { GOLDEN_TABLE } from "./golden";
+
+// ------------------------
+// Model test suite
+// ------------------------
+// Shared by the command line (cli.ts) and the Tests tab. Only model, map, program and recipe
+// library code is imported, so it runs without a DOM.
+
+export const MODEL_SUITES:TestSuite[] = [SCENARIO_SUITE, PROPERTY_SUITE, GOLDEN_SUITE, FUZZ_SUITE];
+
+export const runModelTests = (opts:{ seed?:number, filter?:string }={}):TestReport => runSuites(MODEL_SUITES, opts);
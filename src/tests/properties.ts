@@ -0,0 +1,131 @@
+import {
+  CHUCK_TYPES, DEFAULT_MATERIAL_DB, DEFAULT_RECIPE, bladeTipSpeed, chippingRisk, dieCount, estimateKerf, estimatePowerKW, evaluateRecipe,
+  exportMaterialDB, importMaterialDB, mmToUm, readMeasurementCSV, suggestCoolantLpm, suggestFeed, suggestRPM, toRecipe, umToMm,
+  vacuumRangeForChuck, writeMeasurementCSV, type MaterialDB, type Measurement, type Recipe,
+} from "../model";
+import { buildSawProgram, listProgramFormats, programToRecipe, readSawProgram, writeSawProgram } from "../sawprogram";
+import { check, forAll, near, type Rng, type TestSuite } from "./harness";
+
+// ------------------------
+// Property tests
+// ------------------------
+// Monotonicity, bounds and round trips over generated inputs. Placement is the slow part, so
+// properties that lay out dies run fewer cases.
+
+const MATERIAL_IDS = DEFAULT_MATERIAL_DB.materials.map(m=>m.id);
+const BOND_IDS = DEFAULT_MATERIAL_DB.bonds.map(b=>b.id);
+const round = (v:number, d:number) => Number(v.toFixed(d));
+
+// A recipe inside normal practice: blade narrower than the street, vacuum inside the chuck range.
+export function genRecipe(r:Rng):Recipe {
+  const chuckType = r.pick(CHUCK_TYPES), vac = vacuumRangeForChuck(chuckType);
+  const street = r.int(40, 150);
+  return {
+    ...DEFAULT_RECIPE,
+    material: r.pick(MATERIAL_IDS), bladeBond: r.pick(BOND_IDS),
+    waferDiam: r.pick([100, 150, 200, 300]), waferThk: r.int(100, 1000),
+    dieW: round(r.num(3, 15), 2), dieH: round(r.num(3, 15), 2), street,
+    bladeDia: r.int(50, 80), bladeThk: r.int(15, Math.min(35, street - 10)),
+    rpm: 100 * r.int(100, 500), feed: round(r.num(0.5, 5), 2), coolant: round(r.num(1, 10), 1), wear: round(r.next(), 3),
+    envTemp: r.int(18, 28), chuckType, vacuum: r.int(vac.lo, vac.hi), edgeExcl: round(r.num(0, 5), 1), orientation: r.pick(["notch", "flat"] as const),
+  };
+}
+
+// Two ascending values in [lo, hi].
+const pair = (r:Rng, lo:number, hi:number) => { const a = r.num(lo, hi), b = r.num(lo, hi); return a <= b ? [a, b] : [b, a]; };
+
+export const PROPERTY_SUITE:TestSuite = { id: "properties", name: "Properties", tests: [
+  // ---- monotonicity
+  { name: "Tip speed rises with RPM and blade diameter", run: r=>forAll(r, 200,
+    r=>({ dia: r.num(40, 125), rpm: pair(r, 1000, 60000), dias: pair(r, 40, 125), at: r.num(1000, 60000) }),
+    ({ dia, rpm: [a, b], dias: [d1, d2], at })=>{
+      check(bladeTipSpeed(dia, a) <= bladeTipSpeed(dia, b), "tip speed fell with RPM");
+      check(bladeTipSpeed(d1, at) <= bladeTipSpeed(d2, at), "tip speed fell with diameter");
+    }) },
+  { name: "Kerf rises with wear", run: r=>forAll(r, 200,
+    r=>({ thk: r.num(10, 100), w: pair(r, 0, 1) }),
+    ({ thk, w: [a, b] })=>{
+      check(estimateKerf(thk, a) <= estimateKerf(thk, b), "kerf fell with wear");
+      check(estimateKerf(thk, a) >= thk, "kerf narrower than the blade");
+    }) },
+  { name: "Coolant suggestion rises with power", run: r=>forAll(r, 200, r=>pair(r, -1, 5),
+    ([a, b])=>check(suggestCoolantLpm(a) <= suggestCoolantLpm(b), "coolant fell with power")) },
+  { name: "Feed suggestion falls with thickness", run: r=>forAll(r, 200,
+    r=>({ m: r.pick(MATERIAL_IDS), t: pair(r, 10, 2000) }),
+    ({ m, t: [a, b] })=>check(suggestFeed(m, a) >= suggestFeed(m, b), "feed rose with thickness")) },
+  { name: "Power rises with feed, kerf and thickness", run: r=>forAll(r, 200,
+    r=>({ m: r.pick(MATERIAL_IDS), f: pair(r, 0.1, 10), k: pair(r, 10, 100), t: pair(r, 50, 1500) }),
+    ({ m, f, k, t })=>check(estimatePowerKW(m, f[0], k[0], t[0]) <= estimatePowerKW(m, f[1], k[1], t[1]), "power fell")) },
+  { name: "Chipping risk rises with feed and falls with coolant", run: r=>forAll(r, 200,
+    r=>({ m: r.pick(MATERIAL_IDS), f: pair(r, 0.1, 10), c: pair(r, 0, 12), tip: r.num(10, 100), t: r.num(50, 1500), b: r.num(10, 60) }),
+    ({ m, f, c, tip, t, b })=>{
+      check(chippingRisk(m, f[0], tip, t, b, c[0]) <= chippingRisk(m, f[1], tip, t, b, c[0]), "risk fell with feed");
+      check(chippingRisk(m, f[0], tip, t, b, c[0]) >= chippingRisk(m, f[0], tip, t, b, c[1]), "risk rose with coolant");
+    }) },
+  { name: "Usable dies grow with the wafer and shrink with the street", run: r=>forAll(r, 30,
+    r=>({ d: pair(r, 100, 300).map(Math.round), die: round(r.num(4, 12), 1), s: pair(r, 30, 200).map(Math.round) }),
+    ({ d: [d1, d2], die, s: [s1, s2] })=>{
+      check(dieCount(d1, die, die, s1).usable <= dieCount(d2, die, die, s1).usable, "fewer dies on the larger wafer");
+      check(dieCount(d1, die, die, s1).usable >= dieCount(d1, die, die, s2).usable, "more dies with the wider street");
+    }) },
+  { name: "Sub-millimetre dies on a 300 mm wafer are placed", run: r=>forAll(r, 2,
+    r=>({ die: round(r.num(0.3, 0.5), 2), s: r.int(30, 60) }),
+    ({ die, s })=>{
+      const dc = dieCount(300, die, die, s, { edgeExclusion_mm: 3 });
+      const pitch = die + s / 1000, ideal = Math.PI * 147 ** 2 / pitch ** 2;
+      check(dc.usable === dc.layout.dies.length && dc.usable > 0.95 * ideal && dc.usable <= ideal, `${dc.usable} dies of ${Math.round(ideal)}`);
+      check(dc.layout.cols * dc.layout.rows >= dc.usable, "grid smaller than the die count");
+    }) },
+
+  // ---- bounds
+  { name: "Feed suggestion within 0.2–6 mm/s", run: r=>forAll(r, 300,
+    r=>({ m: r.pick(MATERIAL_IDS), t: r.num(-100, 5000) }),
+    ({ m, t })=>{ const f = suggestFeed(m, t); check(f >= 0.2 && f <= 6, `feed ${f}`); }) },
+  { name: "RPM suggestion within 8k–60k", run: r=>forAll(r, 300,
+    r=>({ m: r.pick(MATERIAL_IDS), dia: r.num(1, 300), bond: r.pick(BOND_IDS) }),
+    ({ m, dia, bond })=>{ const rpm = suggestRPM(m, dia, bond); check(rpm >= 8000 && rpm <= 60000, `rpm ${rpm}`); }) },
+  { name: "Chipping risk is an integer within 0–100", run: r=>forAll(r, 300,
+    r=>({ m: r.pick(MATERIAL_IDS), f: r.num(0, 50), tip: r.num(0, 300), t: r.num(0, 5000), b: r.num(0, 500), c: r.num(-5, 50) }),
+    ({ m, f, tip, t, b, c })=>{ const v = chippingRisk(m, f, tip, t, b, c); check(Number.isInteger(v) && v >= 0 && v <= 100, `risk ${v}`); }) },
+  { name: "Coolant suggestion within 1–12 L/min", run: r=>forAll(r, 300, r=>r.num(-10, 10),
+    p=>{ const c = suggestCoolantLpm(p); check(c >= 1 && c <= 12, `coolant ${c}`); }) },
+  { name: "Evaluated recipes are finite and consistent", run: r=>forAll(r, 40, genRecipe, rec=>{
+    const ev = evaluateRecipe(rec);
+    near(ev.tipSpeed.value, bladeTipSpeed(rec.bladeDia, rec.rpm), 1e-9, "tip speed");
+    check(ev.kerf.value >= rec.bladeThk && ev.spindlePower.value >= 0, "kerf or power");
+    check(ev.chippingRisk.value >= 0 && ev.chippingRisk.value <= 100, `risk ${ev.chippingRisk.value}`);
+    check(ev.dies.usable.value === ev.dies.layout.gross && ev.dies.layout.dies.length === ev.dies.usable.value, "die count");
+    check([ev.suggestions.rpm, ev.suggestions.feed, ev.suggestions.coolant].every(q=>Number.isFinite(q.value) && q.value > 0), "suggestions");
+    check(ev.verificationSpecs.every(s=>s.lo <= s.hi), "spec limits out of order");
+  }) },
+
+  // ---- round trips
+  { name: "mm ↔ µm round trip", run: r=>forAll(r, 300, r=>r.num(-1e4, 1e4),
+    v=>{ near(umToMm(mmToUm(v)), v, 1e-9 * Math.max(1, Math.abs(v)), "mm→µm→mm"); near(mmToUm(umToMm(v)), v, 1e-9 * Math.max(1, Math.abs(v)), "µm→mm→µm"); }) },
+  { name: "Recipe JSON round trip through toRecipe", run: r=>forAll(r, 100, genRecipe,
+    rec=>check(JSON.stringify(toRecipe(JSON.parse(JSON.stringify(rec)))) === JSON.stringify(rec), "recipe changed")) },
+  { name: "Material DB JSON round trip", run: r=>forAll(r, 50,
+    r=>({ id: `M${r.int(0, 999)}`, feedBase: round(r.num(0.1, 3), 3), rpmFactor: round(r.num(0.5, 1.5), 3), powerCoeff: round(r.num(0.005, 0.1), 4), riskBase: r.int(0, 90), lo: r.int(15, 35), span: r.int(5, 20) }),
+    m=>{
+      const db:MaterialDB = { ...DEFAULT_MATERIAL_DB, materials: [...DEFAULT_MATERIAL_DB.materials, { id: m.id, name: m.id, feedBase: m.feedBase, rpmFactor: m.rpmFactor, powerCoeff: m.powerCoeff, riskBase: m.riskBase, tipSpeed: { lo: m.lo, hi: m.lo + m.span } }] };
+      check(JSON.stringify(importMaterialDB(exportMaterialDB(db))) === JSON.stringify(db), "database changed");
+    }) },
+  { name: "Saw program round trip in every format", run: r=>forAll(r, 20, genRecipe, rec=>{
+    const prog = buildSawProgram(rec, dieCount(rec.waferDiam, rec.dieW, rec.dieH, rec.street).layout);
+    for(const f of listProgramFormats()){
+      const back = readSawProgram(writeSawProgram(prog, f.id)).program;
+      check(JSON.stringify(back) === JSON.stringify(prog), `${f.id} program changed`);
+      check(JSON.stringify(programToRecipe(back, rec).recipe) === JSON.stringify(rec), `${f.id} recipe changed`);
+    }
+  }) },
+  { name: "Measurement CSV round trip", run: r=>forAll(r, 50,
+    r=>Array.from({ length: r.int(1, 20) }, ():Measurement=>({
+      at: new Date(Date.UTC(2024, 0, 1) + r.int(0, 1e9) * 1000).toISOString(), lot: r.pick(["L1", "L,2", 'L"3', "L\r4"]), wafer: String(r.int(1, 25)),
+      recipe: r.pick(["", "Si-725", "step cut"]), key: r.pick(["kerf", "chip", "kerf:Z1"]), value: round(r.num(-10, 100), 3),
+    })),
+    rows=>{
+      const back = readMeasurementCSV(writeMeasurementCSV(rows));
+      check(back.issues.length === 0, back.issues[0]?.message ?? "");
+      check(JSON.stringify(back.rows) === JSON.stringify(rows), "rows changed");
+    }) },
+] };
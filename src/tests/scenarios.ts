@@ -0,0 +1,408 @@
+import {
+  DEFAULT_MACHINE_LIMITS, DEFAULT_MATERIAL_DB, DEFAULT_RECIPE, DEFAULT_SOP_TEMPLATE, DEFAULT_SPEC_TEMPLATE, SPEC_PRESETS, TAPE_CUT_UM,
+  alignmentTargets, applyCorrections, bladeState, bladeTipSpeed, calibrate, canRelease, capability, compareScenarios, contourSegments, createDraft, dieCount,
+  emptySignoffBook, evaluateRecipe, exportMaterialDB, fitAlignment, importMaterialDB, laneErrors, latestRevision, logCut, logDress, materialSpec,
+  optimizeProcessWindow, passIssues, placeDies, planLots, proposeCorrections, predictWear, readCalibrationCSV, readDelimited, readMeasurementCSV, recordRun, releaseQualification, renderSOP,
+  reviseOnEdit, sha256, simulateCycle, sopContext, sopToMarkdown, sopToPDF, startQualification, subgroups, suggestFeed, sweepRecipe, transition,
+  validateMaterialDB, validateRecipe, validateSpecTemplate, verifyAudit, westernElectric, writeComparisonCSV, writeComparisonHTML, writeLotPlanCSV, xbarRChart,
+  type BladeRecord, type MaterialDB, type Recipe, type VerificationSpec,
+} from "../model";
+import { DEFAULT_BIN_TABLE, applyBinTable, classifyBin, listFormats, readCSVMap, readWaferMap, summarizeBins, parseCSV, writeWaferMap, type WaferMap } from "../wafermap";
+import { buildSawProgram, listProgramFormats, programToRecipe, readSawProgram, writeSawProgram } from "../sawprogram";
+import { diffRecipes, exportLibraryJSON, importLibraryJSON, mergeLibraries, saveVersion, type RecipeLibrary } from "../recipes";
+import { check, fmt, near, throwsMessage, type TestSuite } from "./harness";
+
+// ------------------------
+// Scenario tests
+// ------------------------
+// Worked examples through each model: fixed inputs with known outcomes.
+
+const t0 = new Date(0);
+const layout300 = () => dieCount(300, 5, 5, 60).layout;
+
+const stepRecipe:Recipe = { ...DEFAULT_RECIPE, waferThk: 350, passes: [{ name: "Z1", profile: "straight", bevelAngle: 0, bladeDia: 58, bladeThk: 50, bladeBond: "Resin", depth: 100, rpm: 30000, feed: 1.5, coolant: 4 }] };
+
+export const SCENARIO_SUITE:TestSuite = { id: "scenarios", name: "Scenarios", tests: [
+  // The default recipe spins its 58 mm blade at 30 000 RPM: 91.1 m/s, twice the top of the
+  // 30–45 m/s window. The model must say so rather than treat the number as a reference.
+  { name: "Tip speed of the default recipe is flagged", run: ()=>{
+    const ts = bladeTipSpeed(58, 30000);
+    near(ts, Math.PI * 0.058 * 30000 / 60, 1e-12, "tip speed");
+    const win = materialSpec(DEFAULT_MATERIAL_DB, "Si").tipSpeed;
+    const ev = evaluateRecipe(DEFAULT_RECIPE);
+    check(ts > win.hi, `default tip speed ${fmt(ts)} m/s is expected above the ${win.lo}–${win.hi} m/s window`);
+    check(ev.tipSpeed.value === ts && ev.verificationSpecs.some(x=>x.key==="tip" && ts > x.hi), "tip verification spec does not fail the default recipe");
+    const warn = validateRecipe(DEFAULT_RECIPE).issues.find(i=>i.rule==="tip-window");
+    check(warn?.severity === "warning" && warn.field === "rpm", "validation does not warn about the tip window");
+    return `${fmt(ts)} m/s, outside ${win.lo}–${win.hi} m/s (warned)`;
+  } },
+
+  // Material database: built-in entries validate, unknown ids fail loudly, added materials are used
+  { name: "Built-in material DB valid", run: ()=>{
+    const issues = validateMaterialDB(DEFAULT_MATERIAL_DB);
+    check(issues.length === 0, `${issues[0]?.path} ${issues[0]?.message}`);
+    return `${DEFAULT_MATERIAL_DB.materials.length} materials`;
+  } },
+  { name: "Unknown material rejected", run: ()=>{
+    const err = throwsMessage(()=>suggestFeed("Unobtainium", 725));
+    check(/Unknown material/.test(err), `got "${err || "no error"}"`);
+    return err;
+  } },
+  { name: "Added material drives tip window and survives JSON", run: ()=>{
+    const db:MaterialDB = { ...DEFAULT_MATERIAL_DB, materials: [...DEFAULT_MATERIAL_DB.materials, { id: "InP", name: "InP", feedBase: 1.0, rpmFactor: 0.85, powerCoeff: 0.02, riskBase: 50, tipSpeed: { lo: 25, hi: 40 } }] };
+    const spec = evaluateRecipe({ ...DEFAULT_RECIPE, material: "InP" }, { db }).verificationSpecs.find(x=>x.key==="tip");
+    check(spec?.lo === 25 && spec?.hi === 40, `tip window ${spec?.lo}–${spec?.hi}`);
+    const rt = importMaterialDB(exportMaterialDB(db));
+    check(JSON.stringify(rt) === JSON.stringify(db), "round trip changed the database");
+    return `${spec.lo}–${spec.hi} m/s, ${rt.materials.length} materials`;
+  } },
+
+  // Calibration recovers coefficients from noiseless synthetic logs
+  { name: "Calibration recovers kerf k and power coeff", run: ()=>{
+    const csv = ["material,waferThk,bladeDia,bladeThk,rpm,feed,coolant,wear,kerf,power",
+      ...[[0.1, 1], [0.4, 2], [0.7, 3], [0.9, 1.5]].map(([w, f])=>{ const k = 30 * (1 + 0.2 * w); return `Si,725,58,30,30000,${f},4,${w},${k},${0.03 * f * (k / 1000) * 0.725}`; })].join("\n");
+    const cal = calibrate(DEFAULT_MATERIAL_DB, readCalibrationCSV(csv).rows)[0];
+    const k = cal?.fits.find(f=>f.target==="kerf"), p = cal?.fits.find(f=>f.target==="power");
+    near(k?.coeffs.kerfWearK.after ?? NaN, 0.2, 1e-6, "kerf wear k");
+    near(p?.coeffs.powerCoeff.after ?? NaN, 0.03, 1e-6, "power coeff");
+    check((k?.after.r2 ?? 0) > 0.999, `kerf R² ${k?.after.r2}`);
+    return `k=${fmt(k?.coeffs.kerfWearK.after, 3)}, cMat=${fmt(p?.coeffs.powerCoeff.after, 3)}`;
+  } },
+
+  // Optimizer: every Pareto point is feasible, and risk falls as cycle time grows
+  { name: "Optimizer Pareto set feasible and non-dominated", run: ()=>{
+    const L = DEFAULT_MACHINE_LIMITS;
+    const opt = optimizeProcessWindow(DEFAULT_RECIPE, layout300(), L, { steps: 6 });
+    check(opt.pareto.length > 0, "empty Pareto set");
+    opt.pareto.forEach((c, i, a)=>{
+      check(c.tip >= 30 - 1e-9 && c.tip <= 45 + 1e-9 && c.kerf < DEFAULT_RECIPE.street && c.powerKW <= L.powerMax_kW, `point ${i} infeasible`);
+      check(i === 0 || (c.cycle_s >= a[i - 1].cycle_s && c.risk < a[i - 1].risk), `point ${i} dominated`);
+    });
+    return `${opt.pareto.length} of ${opt.feasible} feasible`;
+  } },
+
+  // Sweep contours: the 38 m/s tip-speed line sits at the RPM that gives 38 m/s
+  { name: "Tip-speed contour on the iso-line", run: ()=>{
+    const sw = sweepRecipe(DEFAULT_RECIPE, { param: "feed", min: 0.5, max: 3, steps: 11 }, { param: "rpm", min: 8000, max: 20000, steps: 25 }, "tip", layout300());
+    const segs = contourSegments(sw.tip, 38);
+    const err = Math.max(...segs.flat().map(p=>Math.abs(bladeTipSpeed(DEFAULT_RECIPE.bladeDia, p.y) - 38)));
+    check(segs.length === 10, `${segs.length} segments`);
+    check(err < 1e-6, `max error ${err} m/s`);
+    return `${segs.length} segments, max err ${err.toExponential(1)} m/s`;
+  } },
+
+  // Cycle simulator: chords are shorter than the diameter, dual cut halves the strokes, and the
+  // step breakdown adds up to the cycle time
+  { name: "Cycle simulator uses lane chords", run: ()=>{
+    const layout = layout300();
+    const s = simulateCycle(layout, 300, 2), d = simulateCycle(layout, 300, 2, { mode: "dual" });
+    const lanes = s.channels.reduce((a, c)=>a + c.lanes, 0);
+    check(s.cutLength_mm < 300 * lanes && s.cutLength_mm > 300 * lanes * Math.PI / 4 * 0.95, `cut length ${s.cutLength_mm} mm for ${lanes} lanes`);
+    check(d.steps[2].count === s.steps[2].count / 2, "dual cut does not halve the strokes");
+    near(s.steps.reduce((a, st)=>a + st.time_s, 0), s.total_s, 1e-9, "step breakdown");
+    return `${fmt(s.cutLength_mm / 1000)} m, ${fmt(s.wafersPerHour, 1)} → ${fmt(d.wafersPerHour, 1)} wafers/hr`;
+  } },
+
+  // Step cut: passes split the wafer thickness, the widest pass sets the kerf, and every pass
+  // gets its own kerf and tip-speed spec
+  { name: "Step cut evaluated per pass", run: ()=>{
+    const ev = evaluateRecipe(stepRecipe);
+    const keys = ev.verificationSpecs.map(x=>x.key);
+    check(ev.passes.length === 2 && ev.passes.reduce((a, p)=>a + p.engaged.value, 0) === 350, "passes do not split the thickness");
+    check(ev.kerf.value === ev.passes[0].kerf.value && ev.passes[0].kerf.value > ev.passes[1].kerf.value, "widest pass does not set the kerf");
+    check(keys.includes("kerf:Z1") && keys.includes("tip:Z2") && !keys.includes("kerf"), `specs ${keys.join(",")}`);
+    const z1 = stepRecipe.passes![0];
+    check(passIssues({ ...stepRecipe, passes: [{ ...z1, name: "Z2" }] }).some(m=>m.includes("reserved")), "pass named like the through-cut accepted");
+    check(passIssues({ ...stepRecipe, waferThk: 500, passes: [z1, { ...z1, depth: 200 }] }).some(m=>m.includes("earlier pass")), "duplicate pass name accepted");
+    return ev.passes.map(p=>`${p.name} ${fmt(p.kerf.value, 1)} µm`).join(", ");
+  } },
+
+  // Spec templates: Standard keeps the historic limits; a customer template adds chipping, and a
+  // formula limit follows the recipe
+  { name: "Spec templates and formula limits", run: ()=>{
+    const std = evaluateRecipe(DEFAULT_RECIPE).verificationSpecs;
+    const street = std.find(x=>x.key==="street"), thk = std.find(x=>x.key==="thk");
+    check(street?.lo === 54 && street?.hi === 66, `street ${street?.lo}–${street?.hi}`);
+    near(thk?.lo ?? 0, 710.5, 1e-9, "thickness low limit");
+    const tpl = { id: "acme", name: "Acme", params: [...DEFAULT_SPEC_TEMPLATE.params.filter(p=>p.key!=="vac"), SPEC_PRESETS[0],
+      { key: "bsChip", label: "Backside Chipping", unit: "µm", nom: "0", mode: "formula" as const, lo: "0", hi: "waferThk / 20" }] };
+    check(validateSpecTemplate(tpl).length === 0, "customer template invalid");
+    const specs = evaluateRecipe(stepRecipe, { specs: tpl }).verificationSpecs;
+    const keys = specs.map(x=>x.key);
+    check(!keys.includes("vac") && keys.includes("chip") && keys.includes("kerf:Z1"), `specs ${keys.join(",")}`);
+    check(specs.find(x=>x.key==="bsChip")?.hi === 17.5, "formula limit does not follow the recipe");
+    check(validateSpecTemplate({ ...tpl, params: [{ ...SPEC_PRESETS[0], hi: "bogus * 2", mode: "formula" }] }).length === 1, "bad formula not reported");
+    return `${specs.length} rows, backside ≤ ${fmt(specs.find(x=>x.key==="bsChip")?.hi, 1)} µm`;
+  } },
+
+  // Qualification: a wide kerf and a fast spindle fail run 1, the proposed corrections fix both,
+  // and only the passing repeat run can be released
+  { name: "Dummy-run corrections and release gate", run: ()=>{
+    const r:Recipe = { ...DEFAULT_RECIPE, rpm: 40000 };
+    const specs = evaluateRecipe(r).verificationSpecs;
+    const nominal = (s:VerificationSpec[]) => Object.fromEntries(s.map(x=>[x.key, String(x.nom)]));
+    const kerfHi = specs.find(x=>x.key==="kerf")!.hi;
+    let q = recordRun(startQualification("test", t0), r, specs, { ...nominal(specs), kerf: String(kerfHi * 1.1) }, undefined, t0);
+    const fixed = applyCorrections(r, q.runs[0].corrections);
+    check(q.runs[0].failed.join() === "kerf,tip", `run 1 failed ${q.runs[0].failed.join()}`);
+    check(!canRelease(q), "failing run releasable");
+    check(fixed.bladeThk < r.bladeThk && bladeTipSpeed(fixed.bladeDia, fixed.rpm) <= materialSpec(DEFAULT_MATERIAL_DB, "Si").tipSpeed.hi, "corrections do not fix kerf and tip");
+    const zero = proposeCorrections(r, specs, { kerf: 0, tip: 0 });
+    check(zero.length === 2 && zero.every(c=>!c.field) && JSON.stringify(applyCorrections(r, zero)) === JSON.stringify(r), "zero measurement proposed a setpoint");
+    const specs2 = evaluateRecipe(fixed).verificationSpecs;
+    q = recordRun(q, fixed, specs2, nominal(specs2), undefined, t0);
+    check(q.runs[1].prev === 1 && canRelease(q) && releaseQualification(q, "test").status === "released", "passing repeat run not released");
+    return q.runs[0].corrections.map(c=>`${c.field} ${c.from}→${c.to}`).join(", ");
+  } },
+
+  // SOP: the built-in template resolves completely, an unknown placeholder is reported, and the
+  // PDF has a header, an xref at the offset startxref points to, and an EOF marker
+  { name: "SOP template render and PDF structure", run: ()=>{
+    const ctrl = { docNumber: "SOP-T", revision: "A", title: "Test", approvers: [] };
+    const ctx = sopContext(DEFAULT_RECIPE, evaluateRecipe(DEFAULT_RECIPE), { acceptance: "Standard" });
+    const doc = renderSOP(DEFAULT_SOP_TEMPLATE, ctx, ctrl, []);
+    const bad = renderSOP({ ...DEFAULT_SOP_TEMPLATE, source: "# X\n- {{bogus}}" }, ctx, ctrl, []);
+    check(doc.issues.length === 0, doc.issues[0]);
+    check(bad.issues.length === 1 && /bogus/.test(bad.issues[0]), "unknown placeholder not reported");
+    check(sopToMarkdown(doc.doc).includes("Machine Setpoints"), "markdown lacks setpoints");
+    const pdf = String.fromCharCode(...sopToPDF(doc.doc));
+    const xref = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    check(pdf.startsWith("%PDF-1.4") && pdf.slice(xref, xref + 4) === "xref" && pdf.trimEnd().endsWith("%%EOF"), "PDF structure");
+    return `${doc.doc.sections.length} sections, ${pdf.length} bytes`;
+  } },
+
+  // Sign-off: the submitter cannot approve, releasing then editing starts revision 2, and an
+  // edited audit entry breaks the chain
+  { name: "Sign-off states, revision on edit and hash chain", run: ()=>{
+    const snap = { docNumber: "SOP-T", revision: "A", markdown: "# SOP" };
+    const eng = { user: "eng", role: "engineer" as const }, qa = { user: "qa", role: "quality" as const };
+    let so = createDraft(emptySignoffBook(), "T", DEFAULT_RECIPE, snap, eng, "new", t0);
+    so = transition(so, "T#1", "review", eng, "ready", t0);
+    const err = throwsMessage(()=>transition(so, "T#1", "approved", { ...eng, role: "quality" }, "ok", t0));
+    check(/cannot also approve/.test(err), `submitter approval: "${err || "allowed"}"`);
+    so = transition(transition(so, "T#1", "approved", qa, "ok", t0), "T#1", "released", qa, "go", t0);
+    so = reviseOnEdit(so, "T", { ...DEFAULT_RECIPE, feed: DEFAULT_RECIPE.feed + 0.5 }, snap, "eng", t0);
+    check(latestRevision(so, "T")?.id === "T#2" && latestRevision(so, "T")?.state === "draft", "edit did not start revision 2");
+    const tampered = { ...so, audit: so.audit.map(e=>e.seq===2 ? { ...e, user: "mallory" } : e) };
+    check(verifyAudit(so).ok && !verifyAudit(tampered).ok, "hash chain");
+    check(sha256("abc") === "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad", "sha256 test vector");
+    return `${so.audit.length} entries, ${verifyAudit(tampered).issues[0]}`;
+  } },
+
+  // Saw program: a step-cut recipe survives JSON and INI round trips, heights follow the depths,
+  // and a missing index pitch is named
+  { name: "Saw program JSON/INI round trip", run: ()=>{
+    const r:Recipe = { ...DEFAULT_RECIPE, passes: [{ name: "Z1", profile: "bevel", bevelAngle: 60, bladeDia: 56, bladeThk: 50, bladeBond: DEFAULT_RECIPE.bladeBond, depth: 200, rpm: 30000, feed: 3, coolant: 2 }] };
+    const prog = buildSawProgram(r, dieCount(r.waferDiam, r.dieW, r.dieH, r.street).layout, r.waferDiam, { tape_um: 80 });
+    const back = listProgramFormats().map(f=>readSawProgram(writeSawProgram(prog, f.id)).program);
+    check(back.every(b=>JSON.stringify(b)===JSON.stringify(prog)), "program changed in a round trip");
+    check(JSON.stringify(programToRecipe(back[1], r).recipe) === JSON.stringify(r), "recipe changed in a round trip");
+    check(prog.channels[0].steps[1].height_um === 80 - TAPE_CUT_UM, "through-cut height");
+    const err = throwsMessage(()=>readSawProgram(writeSawProgram(prog, "ini").replace(/INDEX_PITCH_MM=.*\n/, "")));
+    check(/indexPitch_mm/.test(err), `missing pitch: "${err}"`);
+    const clash = { ...r, passes: [{ ...r.passes![0], name: "Z2" }] };
+    check(/Z2 is used twice/.test(throwsMessage(()=>buildSawProgram(clash, dieCount(r.waferDiam, r.dieW, r.dieH, r.street).layout))), "duplicate pass name exported");
+    const twice = JSON.stringify({ format: "dicing-toolkit.saw-program", version: 1, ...prog, blades: [prog.blades[1], ...prog.blades] });
+    check(/pass Z2 appears twice/.test(throwsMessage(()=>readSawProgram(twice))), "duplicate blade read");
+    return `CH1 ${prog.channels[0].count} cuts from ${prog.channels[0].start_mm} mm, ${prog.alignment.targets.length} targets`;
+  } },
+
+  // Alignment: points rotated 0.01° and shifted (20, −15) µm fit back exactly; uncorrected, the
+  // rotation walks the long lanes out of a 60 µm street with a 30 µm kerf, corrected none are out
+  { name: "Alignment fit and lane street error", run: ()=>{
+    const th = 0.01 * Math.PI / 180, layout = layout300();
+    const pts = [...alignmentTargets(layout, 300).map(t=>t.pos), { x: 0, y: 50 }].map((p, i)=>({ id: `P${i + 1}`, nominal: p,
+      measured: { x: Math.cos(th) * p.x - Math.sin(th) * p.y + 0.02, y: Math.sin(th) * p.x + Math.cos(th) * p.y - 0.015 } }));
+    const fit = fitAlignment(pts);
+    near(fit.theta_deg, 0.01, 1e-9, "θ");
+    near(fit.dx_um, 20, 1e-6, "dx");
+    near(fit.dy_um, -15, 1e-6, "dy");
+    check(pts.length === 3 && fit.rms_um < 1e-6, `rms ${fit.rms_um} µm`);
+    const raw = laneErrors(layout, 300, fit, { offsetX_um: 0, offsetY_um: 0, theta_deg: 0 }, 30, 60);
+    const cor = laneErrors(layout, 300, fit, { offsetX_um: fit.dx_um, offsetY_um: fit.dy_um, theta_deg: fit.theta_deg }, 30, 60);
+    check(raw.out > 0 && cor.out === 0, `${raw.out} out uncorrected, ${cor.out} corrected`);
+    return `θ ${fit.theta_deg.toFixed(4)}°, ${raw.out} of ${raw.lanes.length} lanes out uncorrected, ${cor.out} corrected`;
+  } },
+
+  // Validation: the default recipe has no errors; negative die, spindle over range, vacuum off the
+  // chuck, NaN wear, a shallow blade and a kerf wider than the street are each caught by their rule
+  { name: "Recipe validation errors and severities", run: ()=>{
+    const ok = validateRecipe(DEFAULT_RECIPE, { exposure_um: 800 });
+    check(ok.ok && ok.infos === 0, "default recipe has errors or infos");
+    const bad = validateRecipe({ ...DEFAULT_RECIPE, dieW: -5, rpm: 70000, vacuum: 50, wear: NaN }, { exposure_um: 500 });
+    const rules = bad.issues.filter(i=>i.severity==="error").map(i=>i.rule).join(",");
+    check(rules === "dieW-range,wear-range,rpm-spindle,vacuum-chuck,blade-exposure", `errors ${rules}`);
+    const kerf = validateRecipe({ ...DEFAULT_RECIPE, street: 30 });
+    check(!kerf.ok && kerf.issues.some(i=>i.rule==="kerf-street" && i.field==="street"), "kerf wider than street not an error");
+    check(kerf.issues.some(i=>i.rule==="blade-exposure" && i.severity==="info"), "missing blade not noted");
+    return rules;
+  } },
+
+  // Lot plan: two saws take the first two lots, the third follows on saw 1 with the blade still
+  // mounted; a lot past one blade's life opens a second; unknown materials are skipped
+  { name: "Lot plan schedule, blades, coolant and dies", run: ()=>{
+    const r = { ...DEFAULT_RECIPE, waferDiam: 200, waferThk: 200, dieW: 10, dieH: 10 };
+    const lp = planLots([
+      { id: "A", product: "P", wafers: 10, recipe: r, yieldPct: 90 },
+      { id: "B", product: "P", wafers: 10, recipe: r, yieldPct: 90 },
+      { id: "C", product: "P", wafers: 5, recipe: r, yieldPct: 90 },
+      { id: "D", product: "X", wafers: 5, recipe: { ...r, material: "Unobtainium" }, yieldPct: 90 },
+    ], { saws: 2, availability: 1 });
+    const [a, b, c] = lp.lots;
+    check(lp.lots.length === 3 && lp.skipped[0]?.id === "D", "unknown material not skipped");
+    check(a.saw === 1 && b.saw === 2 && c.saw === 1, `saws ${lp.lots.map(l=>l.saw).join(",")}`);
+    near(c.start_h, a.end_h, 1e-9, "lot C start");
+    check(a.bladeChanges === 1 && c.bladeChanges === 0, "blade kept mounted between lots");
+    const long = planLots([{ id: "E", product: "P", wafers: a.bladeLife[0] + 1, recipe: r, yieldPct: 100 }], { saws: 1 }).lots[0];
+    check(long.newBlades === 2 && lp.totals.bladeCost === 2 * 120, "blade count past one blade's life");
+    near(c.coolant_L * 2, a.coolant_L, 1e-9, "coolant per wafer");
+    check(a.goodDies === Math.floor(a.grossDies * 0.9) && writeLotPlanCSV(lp).split("\n").length === 4, "dies or CSV rows");
+    return `${fmt(lp.totals.run_h, 1)} saw h, finish ${fmt(lp.totals.makespan_h, 1)} h, blade life ${a.bladeLife[0]} wafers`;
+  } },
+
+  // Scenarios: the suggested setpoints bring tip speed into the window and lower the risk; a wider
+  // street costs dies; an unknown material is reported, not thrown
+  { name: "Scenario comparison deltas, verdicts and exports", run: ()=>{
+    const s = evaluateRecipe(DEFAULT_RECIPE).suggestions;
+    const suggested = { ...DEFAULT_RECIPE, rpm: Math.round(s.rpm.value), feed: Number(s.feed.value.toFixed(2)), coolant: Number(s.coolant.value.toFixed(1)) };
+    const c = compareScenarios([
+      { id: "S-1", name: "Baseline", recipe: DEFAULT_RECIPE },
+      { id: "S-2", name: "Suggested", recipe: suggested },
+      { id: "S-3", name: "Wide street", recipe: { ...DEFAULT_RECIPE, street: 120 } },
+      { id: "S-4", name: "Unknown", recipe: { ...DEFAULT_RECIPE, material: "Unobtainium" } },
+    ]);
+    const row = (k:string) => c.rows.find(r=>r.key===k)!;
+    check(row("tip").verdicts[1] === "better" && row("risk").verdicts[1] === "better" && row("risk").deltas[1]! < 0, "suggested setpoints not better");
+    check(row("dies").verdicts[2] === "worse" && row("kerf").verdicts[2] === "same" && row("dies").deltas[0] === undefined, "wide street verdicts");
+    check(!!c.scenarios[3].error && row("tip").verdicts[3] === undefined, "unknown material not reported");
+    const inputs = c.inputs.map(r=>r.key).join(",");
+    check(inputs === "material,street,rpm,feed,coolant", `inputs ${inputs}`);
+    check(writeComparisonCSV(c).split("\n").length === 1 + c.inputs.length + c.rows.length + 1, "CSV rows");
+    const html = writeComparisonHTML(c);
+    check(html.includes('class="better"') && html.includes('class="worse"') && html.includes('class="changed"'), "HTML highlights");
+    return `risk ${row("risk").values[0]} → ${row("risk").values[1]}, dies ${row("dies").deltas[2]} with a 120 µm street`;
+  } },
+
+  // SPC: a wide CSV gives 5-site subgroups; a 5 µm shift on the last wafer breaks rule 1, and
+  // Cp uses the R̄/d2 sigma
+  { name: "SPC X-bar/R limits, rules and Cp", run: ()=>{
+    const csv = ["lot,wafer,kerf", ...Array.from({ length: 60 }, (_, i)=>`L1,${Math.floor(i / 5) + 1},${30 + [-1, 0, 1, 0, 0][i % 5] + (i >= 55 ? 5 : 0)}`)].join("\n");
+    const rows = readMeasurementCSV(csv).rows;
+    const chart = xbarRChart(subgroups(rows, "kerf"));
+    check(rows.length === 60 && chart.subgroupSize === 5 && chart.spread.center === 2, "subgroups");
+    check(westernElectric(chart.location, chart.pointSigma).some(v=>v.index===11 && v.rule===1), "shift not flagged by rule 1");
+    const cap = capability(rows.map(r=>r.value), 24, 45, chart.sigma);
+    near(cap.cp, 21 / (6 * 2 / 2.326), 1e-9, "Cp");
+    return `UCL ${fmt(chart.location.ucl)} µm, Cp ${fmt(cap.cp)}, Cpk ${fmt(cap.cpk)}`;
+  } },
+
+  // Blade wear: logged cuts raise wear and burn exposure, dressing resets the edge, and the
+  // forecast dresses before it replaces
+  { name: "Blade wear log and dressing schedule", run: ()=>{
+    let blade:BladeRecord = { serial: "T1", bond: "Resin", thickness_um: 30, diameter_mm: 58, exposure_um: 800, installedAt: t0.toISOString(), events: [] };
+    for(let i=0; i<5; i++) blade = logCut(blade, { material: "SiC", wafers: 1, cut_mm: 2000 }, DEFAULT_MATERIAL_DB, t0);
+    const worn = bladeState(blade), dressed = bladeState(logDress(blade, undefined, t0));
+    check(worn.wear === 1, `wear ${worn.wear}`);
+    near(worn.exposure_um, 775, 1e-9, "exposure");
+    check(dressed.wear === 0 && dressed.exposure_um < worn.exposure_um, "dressing");
+    const fc = predictWear(blade, { material: "SiC", waferThk: 350, street: 60, cutPerWafer_mm: 2000 });
+    check(fc.dressAfter === 0 && (fc.replaceAfter ?? 0) > 0, "forecast does not dress before replacing");
+    return `exposure ${fmt(worn.exposure_um, 1)} µm, replace after ${fc.replaceAfter}`;
+  } },
+
+  { name: "Placed dies inside edge exclusion", run: ()=>{
+    const lay = placeDies(300, 5, 5, 60, { edgeExclusion_mm: 3 });
+    check(lay.gross > 0 && lay.dies.every(d=>d.corners.every(p=>Math.hypot(p.x, p.y) <= 147 + 1e-9)), "die outside the edge exclusion");
+    const fixed = placeDies(300, 5, 5, 60, { edgeExclusion_mm: 3, offset: { x: 0, y: 0 } }).gross;
+    check(lay.gross >= fixed, `offset search ${lay.gross} < centered ${fixed}`);
+    return `${fixed} centered → ${lay.gross} searched`;
+  } },
+
+  // Map format round trips: write → detect → parse must keep dies, bins and IDs the format carries
+  { name: "Map round trip per format", run: ()=>{
+    const grid3 = (pass:string, fail:string) => [[1, 0, pass], [0, 1, fail], [1, 1, pass], [2, 1, pass], [1, 2, fail]].map(([x, y, bin])=>({ x: Number(x), y: Number(y), bin: String(bin) }));
+    const hexMap:WaferMap = { lotId: "LOT42", waferId: "07", deviceId: "DEV1", orientation: { mark: "notch", deg: 0 }, refDie: { x: 1, y: 1 },
+      dieStep_mm: { x: 5.06, y: 5.06 }, cols: 3, rows: 3, bins: [{ code: "01", pass: true }, { code: "0A", pass: false }], dies: grid3("01", "0A") };
+    const samples:[string, WaferMap][] = [
+      ["sinf", hexMap],
+      ["e142", hexMap],
+      ["klarf", { ...hexMap, refDie: undefined, bins: [{ code: "0", pass: true }, { code: "10", pass: false }], dies: grid3("0", "10") }],
+      ["csv", { orientation: { mark: "notch", deg: 0 }, cols: 3, rows: 3, bins: [{ code: "good", pass: true }, { code: "bad", pass: false }], dies: grid3("good", "bad") }],
+      // Hex, numeric and short codes must survive, not collapse to good/bad.
+      ["csv", { orientation: { mark: "notch", deg: 0 }, cols: 3, rows: 2,
+        bins: [{ code: "01", pass: true }, { code: "07", pass: true }, { code: "1A", pass: false }, { code: "ok", pass: true }, { code: "ng", pass: false }, { code: "ink", pass: false }],
+        dies: ["01", "07", "1A", "ok", "ng", "ink"].map((bin, i)=>({ x: i % 3, y: Math.floor(i / 3), bin })) }],
+    ];
+    const dieKey = (m:WaferMap) => m.dies.map(d=>`${d.x},${d.y},${d.bin},${classifyBin(DEFAULT_BIN_TABLE, d.bin, m)}`).sort().join(";");
+    for(const [id, m] of samples){
+      const back = readWaferMap(writeWaferMap(m, id));
+      check(back.format.id === id, `${id} detected as ${back.format.id}`);
+      check(dieKey(back.map) === dieKey(m) && back.map.lotId === m.lotId && back.map.waferId === m.waferId, `${id}: dies or ids changed`);
+      check(back.map.orientation.deg === m.orientation.deg && JSON.stringify(back.map.refDie) === JSON.stringify(m.refDie), `${id}: orientation or reference die changed`);
+    }
+    return samples.map(s=>s[0]).join(", ");
+  } },
+
+  // A named failing bin listed before the passing one must not take the pass code 01 / class 1
+  { name: "Failing bin first keeps its yield in every format", run: ()=>{
+    const src = readWaferMap("x,y,status\n0,0,bad\n1,0,good\n2,0,good").map;
+    const out = listFormats().map(f=>{
+      const back = readWaferMap(writeWaferMap(applyBinTable(src, DEFAULT_BIN_TABLE), f.id)).map;
+      const bs = summarizeBins(applyBinTable(back, DEFAULT_BIN_TABLE), DEFAULT_BIN_TABLE);
+      check(bs.good === 2 && bs.reject === 1, `${f.id}: ${bs.good} good, ${bs.reject} reject`);
+      return `${f.id} ${fmt(bs.yieldPct ?? 0, 1)}%`;
+    });
+    return out.join(", ");
+  } },
+
+  { name: "Map with no passing bin stays all-fail in every format", run: ()=>{
+    const hex:WaferMap = { orientation: { mark: "notch", deg: 0 }, cols: 3, rows: 1, bins: [{ code: "01", pass: false }, { code: "0A", pass: false }],
+      dies: [{ x: 0, y: 0, bin: "01" }, { x: 1, y: 0, bin: "01" }, { x: 2, y: 0, bin: "0A" }] };
+    const named = applyBinTable(readWaferMap("x,y,status\n0,0,bad\n1,0,bad\n2,0,bad").map, DEFAULT_BIN_TABLE);
+    for(const f of listFormats()) for(const m of [hex, named]){
+      const bs = summarizeBins(readWaferMap(writeWaferMap(m, f.id)).map, DEFAULT_BIN_TABLE);
+      check(bs.good === 0 && bs.reject === 3, `${f.id}: ${bs.good} good, ${bs.reject} reject`);
+    }
+    return listFormats().map(f=>f.id).join(", ");
+  } },
+
+  { name: "Yield over testable dies only", run: ()=>{
+    const bs = summarizeBins(readWaferMap("x,y,status\n0,0,good\n1,0,bad\n2,0,ink\n3,0,edge\n4,0,skip\n5,0,7").map, DEFAULT_BIN_TABLE);
+    check(bs.testable === 3 && bs.unknown === 1, `${bs.testable} testable, ${bs.unknown} unknown`);
+    near(bs.yieldPct ?? 0, 100 / 3, 1e-6, "yield");
+    const declared:WaferMap = { orientation: { mark: "notch", deg: 0 }, cols: 2, rows: 1, bins: [{ code: "01", pass: false }, { code: "02", pass: true }], dies: [{ x: 0, y: 0, bin: "01" }, { x: 1, y: 0, bin: "02" }] };
+    check(classifyBin(DEFAULT_BIN_TABLE, "01", declared) === "reject" && classifyBin(DEFAULT_BIN_TABLE, "1") === "good", "bin 1 rule overrode the declared fail");
+    return `${bs.good}/${bs.testable}, unknown ${bs.unknownCodes.join(",")}`;
+  } },
+
+  { name: "CSV parser counts and diagnostics (BOM, ;, quotes, dupes)", run: ()=>{
+    const parsed = parseCSV("x,y,status\n0,0,good\n0,1,bad");
+    check(parsed.filter(d=>d.status!=="bad").length === 1 && parsed.filter(d=>d.status==="bad").length === 1, "good/bad counts");
+    const rough = readCSVMap('\uFEFFcol;row;bin\n0;0;"good"\n1;0;"ba;d"\n0;0;bad\nq;1;good\n2;1;');
+    check(rough.delimiter === ";" && rough.dies.length === 2 && rough.dies[1].status === "ba;d", "delimiter or quoted field");
+    check(rough.issues.map(i=>i.line).join(",") === "4,5,6", `issues on lines ${rough.issues.map(i=>i.line).join(",")}`);
+    const spaced = readDelimited('a,b,c\n" A ",  B  , "C" \n').records[1]?.fields ?? [];
+    check(JSON.stringify(spaced) === JSON.stringify([" A ", "B", "C"]), `quoted whitespace: ${JSON.stringify(spaced)}`);
+    return rough.issues.map(i=>`L${i.line}`).join(" ");
+  } },
+
+  { name: "Recipe schema 0 migrates and diffs", run: ()=>{
+    const legacy = importLibraryJSON(JSON.stringify({ name: "Old", values: { material: "SiC", rpm: 25000 } }));
+    const v = legacy.recipes[0]?.versions[0]?.values;
+    const changed = v ? diffRecipes(DEFAULT_RECIPE, v).filter(r=>r.changed).map(r=>r.key).join(",") : "";
+    check(changed === "material,rpm", `changed ${changed || "no recipe"}`);
+    return changed;
+  } },
+
+  { name: "Importing the same library twice adds nothing", run: ()=>{
+    const at = new Date(Date.UTC(2024, 0, 1));
+    const local = saveVersion({ schema: 1, recipes: [] }, "Si-725", DEFAULT_RECIPE, "ana", undefined, at);
+    // v1 clashes with the local v1, so the first import renumbers it.
+    const file = importLibraryJSON(exportLibraryJSON(saveVersion(saveVersion({ schema: 1, recipes: [] }, "Si-725", { ...DEFAULT_RECIPE, rpm: 25000 }, "ben", undefined, new Date(at.getTime() + 500)),
+      "Si-725", { ...DEFAULT_RECIPE, rpm: 26000 }, "ben", "faster", new Date(at.getTime() + 1000))));
+    const count = (l:RecipeLibrary) => l.recipes.reduce((n, r)=>n + r.versions.length, 0);
+    const once = mergeLibraries(local, file), twice = mergeLibraries(once, file);
+    check(count(once) === 3 && count(twice) === 3, `${count(once)} versions after one import, ${count(twice)} after two`);
+    return `${count(twice)} versions`;
+  } },
+] };
@@ -0,0 +1,99 @@
+import type { WaferMap } from "./model";
+
+// ------------------------
+// Bin table and yield
+// ------------------------
+// Every bin code maps to one class. Only good + reject dies are testable, so edge-exclude,
+// skip and reference sites never move yield. Codes with no rule fall back to the pass/fail
+// the source format declared (SINF BCEQU, E142 BinQuality, KLARF clean bin) and are otherwise
+// reported as unknown instead of being counted as good. `fallback` rules (the conventional
+// pass bin 1) only apply to codes the file does not declare.
+
+export type BinClass = "good"|"reject"|"edge"|"skip"|"reference";
+export type BinRule = { code:string, cls:BinClass, name?:string, fallback?:boolean };
+
+export const BIN_CLASSES:{ key:BinClass, name:string }[] = [
+  { key: "good", name: "Good" },
+  { key: "reject", name: "Reject" },
+  { key: "edge", name: "Edge exclude" },
+  { key: "skip", name: "Skip" },
+  { key: "reference", name: "Reference" },
+];
+
+export const DEFAULT_BIN_TABLE:BinRule[] = [
+  { code: "good", cls: "good" },
+  { code: "pass", cls: "good" },
+  { code: "1", cls: "good", name: "Bin 1", fallback: true },
+  { code: "bad", cls: "reject" },
+  { code: "fail", cls: "reject" },
+  { code: "ink", cls: "reject", name: "Inked" },
+  { code: "edge", cls: "edge" },
+  { code: "skip", cls: "skip" },
+  { code: "ref", cls: "reference" },
+];
+
+// Case-insensitive; numeric codes compare by value so "01" matches "1".
+export const normBin = (code:string) => {
+  const c = code.trim().toLowerCase();
+  return /^\d+$/.test(c) ? String(Number(c)) : c;
+};
+
+export function classifyBin(table:BinRule[], code:string, map?:WaferMap):BinClass|undefined {
+  const n = normBin(code);
+  const rule = table.find(r=>normBin(r.code)===n);
+  const def = map?.bins.find(b=>normBin(b.code)===n);
+  if(rule && !(rule.fallback && def)) return rule.cls;
+  return def ? (def.pass ? "good" : "reject") : undefined;
+}
+
+export type BinCount = { code:string, cls:BinClass|"unknown", name?:string, count:number, pct:number, cumPct:number };
+export type BinSummary = {
+  total:number;
+  good:number; reject:number; edge:number; skip:number; reference:number; unknown:number;
+  testable:number;
+  yieldPct?:number;           // good / testable
+  unknownCodes:string[];
+  pareto:BinCount[];          // all bins, most frequent first
+};
+
+export function summarizeBins(map:WaferMap, table:BinRule[]):BinSummary {
+  const byCode = new Map<string, BinCount>();
+  const s:BinSummary = { total: map.dies.length, good: 0, reject: 0, edge: 0, skip: 0, reference: 0, unknown: 0, testable: 0, unknownCodes: [], pareto: [] };
+  for(const d of map.dies){
+    const cls = classifyBin(table, d.bin, map) ?? "unknown";
+    s[cls]++;
+    const k = normBin(d.bin);
+    const row = byCode.get(k) ?? { code: d.bin, cls, name: table.find(r=>normBin(r.code)===k)?.name ?? map.bins.find(b=>normBin(b.code)===k)?.name, count: 0, pct: 0, cumPct: 0 };
+    row.count++;
+    byCode.set(k, row);
+  }
+  s.testable = s.good + s.reject;
+  s.yieldPct = s.testable ? s.good / s.testable * 100 : undefined;
+  s.pareto = Array.from(byCode.values()).sort((a,b)=>b.count - a.count || a.code.localeCompare(b.code));
+  let cum = 0;
+  for(const r of s.pareto){
+    r.pct = s.total ? r.count / s.total * 100 : 0;
+    cum += r.pct;
+    r.cumPct = cum;
+  }
+  s.unknownCodes = s.pareto.filter(r=>r.cls==="unknown").map(r=>r.code);
+  return s;
+}
+
+// Per-die class for the map viewer.
+export const classifyDies = (map:WaferMap, table:BinRule[]) =>
+  map.dies.map(d=>({ x: d.x, y: d.y, bin: d.bin, status: classifyBin(table, d.bin, map) ?? "unknown" }));
+
+// Declares every bin in the map with its table class, so exported files carry the
+// engineer's pass/fail decision (SINF BCEQU, E142 BinQuality, KLARF classes).
+export function applyBinTable(map:WaferMap, table:BinRule[]):WaferMap {
+  const codes = Array.from(new Set([...map.bins.map(b=>b.code), ...map.dies.map(d=>d.bin)]));
+  return {
+    ...map,
+    bins: codes.map(code=>{
+      const rule = table.find(r=>normBin(r.code)===normBin(code));
+      const prev = map.bins.find(b=>b.code===code);
+      return { code, pass: classifyBin(table, code, map)==="good", name: rule?.name ?? prev?.name };
+    }),
+  };
+}
@@ -0,0 +1,118 @@
+import { CSV_DELIMITERS, csvCell, readDelimited } from "../model";
+import { withExtents, type MapIssue, type ParsedWaferMap, type WaferMap, type WaferMapFormat } from "./model";
+
+// ------------------------
+// CSV die list
+// ------------------------
+// Ad-hoc `x,y,status` export. Status strings become bin codes as-is and declare no pass/fail;
+// the bin table decides what they mean. A separate `bin` column next to `status` carries the
+// original code instead, and `good`/`bad` in status then declare whether that bin passes (our
+// own exports write both). Comma, semicolon or tab delimited (picked from the header), RFC 4180
+// quoting, optional BOM. Rows that cannot be placed are reported, not defaulted.
+
+export type MapDie = { x:number, y:number, status:string, bin?:string };
+export type CSVMapResult = {
+  dies:MapDie[];
+  issues:MapIssue[];
+  delimiter:string;
+  columns:{ x:number, y:number, status:number, bin:number };   // -1 = not found
+};
+
+const HEADER_ALIASES = {
+  x: ["x", "die_x", "col", "column", "xindex", "x_index"],
+  y: ["y", "die_y", "row", "yindex", "y_index"],
+  status: ["status", "bin", "bin_code", "bincode", "result"],
+  bin: ["bin", "bin_code", "bincode"],
+};
+
+export function readCSVMap(input:string):CSVMapResult {
+  const issues:MapIssue[] = [];
+  const { delimiter, records: recs, unterminated } = readDelimited(input);
+  const none = { dies: [], issues, delimiter, columns: { x: -1, y: -1, status: -1, bin: -1 } };
+  if(!recs.length){
+    issues.push({ severity: "error", message: "File is empty" });
+    return none;
+  }
+
+  const head = recs.shift()!;
+  const header = head.fields.map(s=>s.toLowerCase());
+  const col = (names:string[]) => header.findIndex(h=>names.includes(h));
+  const status = col(HEADER_ALIASES.status);
+  // A bin column only counts as such when another column already holds the status.
+  const bin = header.findIndex((h, i)=>i !== status && HEADER_ALIASES.bin.includes(h));
+  const columns = { x: col(HEADER_ALIASES.x), y: col(HEADER_ALIASES.y), status, bin };
+  if(columns.x < 0) issues.push({ line: head.line, severity: "error", message: `No x column (expected one of ${HEADER_ALIASES.x.join(", ")})` });
+  if(columns.y < 0) issues.push({ line: head.line, severity: "error", message: `No y column (expected one of ${HEADER_ALIASES.y.join(", ")})` });
+  if(columns.status < 0) issues.push({ line: head.line, severity: "error", message: `No status column (expected one of ${HEADER_ALIASES.status.join(", ")}); dies cannot be classified` });
+  if(columns.x < 0 || columns.y < 0 || columns.status < 0) return { ...none, columns };
+  if(unterminated) issues.push({ line: unterminated, severity: "error", message: "Unterminated quoted field" });
+
+  const dies:MapDie[] = [];
+  const seen = new Map<string, number>();
+  for(const { line, fields } of recs){
+    if(fields.length !== header.length){
+      issues.push({ line, severity: "warning", message: `Expected ${header.length} fields, found ${fields.length}` });
+    }
+    const rawX = fields[columns.x] ?? "", rawY = fields[columns.y] ?? "", status = (fields[columns.status] ?? "").toLowerCase();
+    const x = rawX === "" ? NaN : Number(rawX), y = rawY === "" ? NaN : Number(rawY);
+    if(!Number.isInteger(x) || !Number.isInteger(y)){
+      issues.push({ line, severity: "error", message: `Invalid die coordinate "${rawX}", "${rawY}"; row skipped` });
+      continue;
+    }
+    if(!status){
+      issues.push({ line, severity: "error", message: `Empty status for die ${x},${y}; row skipped` });
+      continue;
+    }
+    const key = `${x},${y}`;
+    const first = seen.get(key);
+    if(first !== undefined){
+      issues.push({ line, severity: "warning", message: `Duplicate die ${key} (first on line ${first}); row ignored` });
+      continue;
+    }
+    seen.set(key, line);
+    const bin = columns.bin < 0 ? undefined : fields[columns.bin] || undefined;
+    dies.push({ x, y, status, bin });
+  }
+  return { dies, issues, delimiter, columns };
+}
+
+export const parseCSV = (text:string):MapDie[] => readCSVMap(text).dies;
+
+function parseCSVMap(text:string):ParsedWaferMap {
+  const { dies, issues } = readCSVMap(text);
+  // Negative indices (center-origin exports) are shifted so the top-left die is 0,0.
+  let minX = 0, minY = 0;
+  for(const d of dies){ minX = Math.min(minX, d.x); minY = Math.min(minY, d.y); }
+  if(minX < 0 || minY < 0) issues.push({ severity: "warning", message: `Negative die indices shifted by ${-minX}, ${-minY}` });
+  // good/bad next to a bin code declare that bin; other statuses leave it to the bin table.
+  const declared = new Map<string,boolean>();
+  for(const d of dies){
+    if(d.bin !== undefined && !declared.has(d.bin) && (d.status === "good" || d.status === "bad")) declared.set(d.bin, d.status === "good");
+  }
+  const map:WaferMap = withExtents({
+    orientation: { mark: "notch", deg: 0 },
+    cols: 0,
+    rows: 0,
+    bins: Array.from(declared, ([code, pass])=>({ code, pass })),
+    dies: dies.map(r=>({ x: r.x - minX, y: r.y - minY, bin: r.bin ?? r.status })),
+  });
+  return { map, issues };
+}
+
+function writeCSVMap(map:WaferMap):string {
+  const pass = new Set(map.bins.filter(b=>b.pass).map(b=>b.code));
+  const status = (bin:string) => /^[a-z_]{3,}$/i.test(bin) ? bin.toLowerCase() : pass.has(bin) ? "good" : "bad";
+  return ["x,y,status,bin", ...map.dies.map(d=>`${d.x},${d.y},${status(d.bin)},${csvCell(d.bin)}`)].join("\n") + "\n";
+}
+
+export const CSV:WaferMapFormat = {
+  id: "csv",
+  name: "CSV (x,y,status,bin)",
+  extensions: [".csv", ".txt"],
+  detect: text => {
+    const head = (text.replace(/^\uFEFF/, "").split(/\r?\n/)[0] ?? "").toLowerCase();
+    return CSV_DELIMITERS.some(d=>head.includes(d)) && /\b(x|die_x|col|column|xindex)\b/.test(head);
+  },
+  parse: parseCSVMap,
+  write: writeCSVMap,
+};
@@ -0,0 +1,143 @@
+import { hexBinCodes, withExtents, type MapIssue, type ParsedWaferMap, type WaferMap, type WaferMapFormat } from "./model";
+
+// ------------------------
+// SEMI E142 substrate map (XML)
+// ------------------------
+// Covers the subset probers emit for a single wafer: Layout dimensions/device size,
+// Substrate lot/wafer IDs, one BinCodeMap overlay with BinDefinitions, reference devices
+// and row strings. A small tag scanner keeps this usable without a DOM (batch jobs).
+
+type Tag = { attrs:Record<string,string>, inner:string };
+
+const unescapeXml = (s:string) => s.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+const escapeXml = (s:string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// All elements with the given local name (namespace prefixes ignored).
+function tags(xml:string, name:string):Tag[] {
+  const re = new RegExp(`<(?:\\w+:)?${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${name}>)`, "g");
+  const out:Tag[] = [];
+  for(const m of xml.matchAll(re)){
+    const attrs:Record<string,string> = {};
+    for(const a of m[1].matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) attrs[a[1]] = unescapeXml(a[2]);
+    out.push({ attrs, inner: m[2] ?? "" });
+  }
+  return out;
+}
+const tag = (xml:string, name:string) => tags(xml, name)[0];
+const text = (xml:string, name:string) => { const t = tag(xml, name); return t ? unescapeXml(t.inner.trim()) : undefined; };
+
+function parseE142(xml:string):ParsedWaferMap {
+  const smap = tag(xml, "SubstrateMap");
+  if(!smap) throw new Error("E142: no SubstrateMap element");
+  const bcm = tag(smap.inner, "BinCodeMap");
+  if(!bcm) throw new Error("E142: no BinCodeMap overlay");
+
+  const binType = (bcm.attrs.BinType ?? "HexaDecimal").toLowerCase();
+  const nullBin = bcm.attrs.NullBin ?? (binType === "ascii" ? "." : "FF");
+  const width = binType === "ascii" ? 1 : binType === "decimal" ? Math.max(1, nullBin.length) : 2;
+  const rowsRaw = tags(bcm.inner, "BinCode").map(t=>t.inner.trim());
+  const bottomUp = (smap.attrs.OriginLocation ?? "UpperLeft").toLowerCase().startsWith("lower");
+  const rightLeft = (smap.attrs.OriginLocation ?? "UpperLeft").toLowerCase().endsWith("right");
+
+  const dies:WaferMap["dies"] = [];
+  const issues:MapIssue[] = [];
+  rowsRaw.forEach((row, r)=>{
+    const n = Math.floor(row.length / width);
+    if(row.length % width) issues.push({ severity: "warning", message: `BinCode row ${r + 1}: length ${row.length} is not a multiple of ${width}` });
+    for(let c=0; c<n; c++){
+      const code = row.slice(c*width, (c+1)*width);
+      if(code === nullBin) continue;
+      const x = rightLeft ? n - 1 - c : c;
+      const y = bottomUp ? rowsRaw.length - 1 - r : r;
+      dies.push({ x, y, bin: binType === "ascii" ? code : code.toUpperCase() });
+    }
+  });
+
+  const bins = tags(bcm.inner, "BinDefinition").map(b=>({
+    code: binType === "ascii" ? b.attrs.BinCode : (b.attrs.BinCode ?? "").toUpperCase(),
+    pass: (b.attrs.BinQuality ?? "").toLowerCase() === "pass",
+    name: b.attrs.BinDescription || undefined,
+  }));
+  for(const d of dies) if(!bins.some(b=>b.code===d.bin)) bins.push({ code: d.bin, pass: false, name: undefined });
+
+  const ref = tag(smap.inner, "ReferenceDevice");
+  const refC = ref && tag(ref.inner, "Coordinates");
+  const devLayout = tags(xml, "Layout").find(l=>tag(l.inner, "DeviceSize")) ?? tags(xml, "Layout").slice(-1)[0];
+  const dim = devLayout && tag(devLayout.inner, "Dimension");
+  const size = devLayout && tag(devLayout.inner, "DeviceSize");
+  const substrate = tags(xml, "Substrate").find(s=>s.attrs.SubstrateId === smap.attrs.SubstrateId) ?? tag(xml, "Substrate");
+  const toMm = (devLayout?.attrs.DefaultUnits ?? "mm").toLowerCase() === "micron" ? 1/1000 : 1;
+  // X/Y attributes as a point, dropped when either is missing or unreadable.
+  const point = (t:typeof refC, scale:number) => {
+    const x = Number(t?.attrs.X), y = Number(t?.attrs.Y);
+    return t && isFinite(x) && isFinite(y) ? { x: x * scale, y: y * scale } : undefined;
+  };
+
+  const map = withExtents({
+    lotId: substrate ? text(substrate.inner, "LotId") : undefined,
+    waferId: smap.attrs.SubstrateId || undefined,
+    deviceId: substrate ? text(substrate.inner, "ProductId") : undefined,
+    orientation: { mark: (smap.attrs.OrientationMark ?? "Notch").toLowerCase() === "flat" ? "flat" : "notch", deg: Number(smap.attrs.Orientation ?? 0) || 0 },
+    refDie: point(refC, 1),
+    dieStep_mm: point(size, toMm),
+    cols: dim ? Number(dim.attrs.X) || 0 : 0,
+    rows: dim ? Number(dim.attrs.Y) || 0 : rowsRaw.length,
+    bins,
+    dies,
+  });
+  return { map, issues };
+}
+
+function writeE142(map:WaferMap):string {
+  const m = withExtents(map);
+  const hex = hexBinCodes(m);
+  const grid = Array.from({length: m.rows}, ()=>Array<string>(m.cols).fill("FF"));
+  for(const d of m.dies) if(grid[d.y]) grid[d.y][d.x] = hex.get(d.bin)!;
+  const counts = new Map<string,number>();
+  for(const d of m.dies) counts.set(d.bin, (counts.get(d.bin) ?? 0) + 1);
+  const id = escapeXml(m.waferId ?? "WAFER");
+  const attr = (k:string, v:string|number|undefined) => v === undefined ? "" : ` ${k}="${escapeXml(String(v))}"`;
+  return [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<MapData xmlns="urn:semi-org:xsd.E142-1.V1005.SubstrateMap">`,
+    `  <Layouts>`,
+    `    <Layout LayoutId="WaferLayout" DefaultUnits="mm">`,
+    `      <Dimension X="1" Y="1"/>`,
+    `      <ChildLayouts><ChildLayout LayoutId="Devices"/></ChildLayouts>`,
+    `    </Layout>`,
+    `    <Layout LayoutId="Devices" DefaultUnits="mm">`,
+    `      <Dimension X="${m.cols}" Y="${m.rows}"/>`,
+    m.dieStep_mm ? `      <DeviceSize X="${m.dieStep_mm.x}" Y="${m.dieStep_mm.y}"/>` : "",
+    `    </Layout>`,
+    `  </Layouts>`,
+    `  <Substrates>`,
+    `    <Substrate SubstrateType="Wafer" SubstrateId="${id}">`,
+    m.lotId !== undefined ? `      <LotId>${escapeXml(m.lotId)}</LotId>` : "",
+    m.deviceId !== undefined ? `      <ProductId>${escapeXml(m.deviceId)}</ProductId>` : "",
+    `    </Substrate>`,
+    `  </Substrates>`,
+    `  <SubstrateMaps>`,
+    `    <SubstrateMap SubstrateType="Wafer" SubstrateId="${id}" LayoutSpecifier="WaferLayout/Devices" OriginLocation="UpperLeft"${attr("Orientation", m.orientation.deg)}${attr("OrientationMark", m.orientation.mark === "flat" ? "Flat" : "Notch")}>`,
+    `      <Overlay MapName="SortGrade" MapVersion="1">`,
+    m.refDie ? `        <ReferenceDevices><ReferenceDevice Name="Ref1"><Coordinates X="${m.refDie.x}" Y="${m.refDie.y}"/></ReferenceDevice></ReferenceDevices>` : "",
+    `        <BinCodeMap BinType="HexaDecimal" NullBin="FF">`,
+    `          <BinDefinitions>`,
+    ...m.bins.map(b=>`            <BinDefinition BinCode="${hex.get(b.code)}" BinQuality="${b.pass ? "Pass" : "Fail"}" BinDescription="${escapeXml(b.name ?? (hex.get(b.code) !== b.code ? b.code : ""))}" BinCount="${counts.get(b.code) ?? 0}"/>`),
+    `          </BinDefinitions>`,
+    ...grid.map(r=>`          <BinCode>${r.join("")}</BinCode>`),
+    `        </BinCodeMap>`,
+    `      </Overlay>`,
+    `    </SubstrateMap>`,
+    `  </SubstrateMaps>`,
+    `</MapData>`,
+  ].filter(Boolean).join("\n") + "\n";
+}
+
+export const E142:WaferMapFormat = {
+  id: "e142",
+  name: "SEMI E142 XML",
+  extensions: [".xml"],
+  detect: text => /<(?:\w+:)?MapData\b/.test(text) || /E142/.test(text.slice(0, 500)),
+  parse: parseE142,
+  write: writeE142,
+};
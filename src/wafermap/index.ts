@@ -0,0 +1,44 @@
+import { CSV } from "./csv";
+import { E142 } from "./e142";
+import { KLARF } from "./klarf";
+import { SINF } from "./sinf";
+import type { WaferMap, WaferMapFormat } from "./model";
+
+export * from "./model";
+export * from "./bins";
+export { parseCSV, readCSVMap, type CSVMapResult, type MapDie } from "./csv";
+
+// ------------------------
+// Format registry
+// ------------------------
+// Detection runs in registration order; CSV is last because its check is the loosest.
+
+const FORMATS:WaferMapFormat[] = [E142, KLARF, SINF, CSV];
+
+export const listFormats = () => FORMATS.slice();
+export const getFormat = (id:string) => FORMATS.find(f=>f.id===id);
+
+export function registerFormat(fmt:WaferMapFormat){
+  const i = FORMATS.findIndex(f=>f.id===fmt.id);
+  if(i > -1) FORMATS[i] = fmt;
+  else FORMATS.splice(Math.max(0, FORMATS.length - 1), 0, fmt);
+}
+
+export function detectFormat(text:string, fileName?:string){
+  const byContent = FORMATS.find(f=>f.detect(text));
+  if(byContent) return byContent;
+  const ext = fileName?.toLowerCase().match(/\.[^.]+$/)?.[0];
+  return ext ? FORMATS.find(f=>f.extensions.includes(ext)) : undefined;
+}
+
+export function readWaferMap(text:string, fileName?:string){
+  const format = detectFormat(text, fileName);
+  if(!format) throw new Error("Unrecognized wafer map format");
+  return { format, ...format.parse(text) };
+}
+
+export function writeWaferMap(map:WaferMap, formatId:string){
+  const format = getFormat(formatId);
+  if(!format) throw new Error(`Unknown wafer map format: ${formatId}`);
+  return format.write(map);
+}
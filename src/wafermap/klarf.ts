@@ -0,0 +1,139 @@
+import { binPasses, degToDir, dirToDeg, withExtents, type MapIssue, type ParsedWaferMap, type WaferMap, type WaferMapFormat } from "./model";
+
+// ------------------------
+// KLARF 1.2 defect file
+// ------------------------
+// Die-level view of a KLARF: SampleTestPlan gives the die sites, DefectList the defects.
+// A die without defects gets bin "0" (pass); a die with defects takes the CLASSNUMBER of its
+// first defect as its bin, and ClassLookup supplies the bin names. Defect geometry is not
+// kept and KLARF has no reference-die record. Die indices grow up/right in KLARF and are
+// normalized so the top-left occupied site is x 0 / y 0.
+
+const CLEAN_BIN = "0";
+
+// Records end at ';' and may span lines; strings are double-quoted.
+function records(text:string){
+  const out:string[][] = [];
+  for(const rec of text.split(";")){
+    const toks = rec.match(/"[^"]*"|\S+/g);
+    if(toks?.length) out.push(toks.map(t=>t.startsWith('"') ? t.slice(1, -1) : t));
+  }
+  return out;
+}
+
+function parseKLARF(text:string):ParsedWaferMap {
+  const recs = records(text);
+  const find = (k:string) => recs.find(r=>r[0].toLowerCase() === k.toLowerCase());
+  const plan = find("SampleTestPlan");
+  if(!plan) throw new Error("KLARF: no SampleTestPlan record");
+
+  const sites:{x:number,y:number}[] = [];
+  // Counts are capped by the values actually present, so a corrupt count cannot run away.
+  const count = (rec:string[]) => Math.min(Number(rec[1]) || 0, Math.floor((rec.length - 2) / 2));
+  for(let i=0; i<count(plan); i++) sites.push({ x: Number(plan[2 + 2*i]), y: Number(plan[3 + 2*i]) });
+  if(!sites.length || sites.some(s=>!isFinite(s.x) || !isFinite(s.y))) throw new Error("KLARF: SampleTestPlan has no valid die indices");
+
+  const spec = find("DefectRecordSpec");
+  const cols = spec ? spec.slice(2).map(s=>s.toUpperCase()) : [];
+  const xi = cols.indexOf("XINDEX"), yi = cols.indexOf("YINDEX"), ci = cols.indexOf("CLASSNUMBER");
+  const list = find("DefectList");
+  const binAt = new Map<string,string>();
+  const issues:MapIssue[] = [];
+  if(list && (xi < 0 || yi < 0)) issues.push({ severity: "warning", message: "DefectRecordSpec lacks XINDEX/YINDEX; defects ignored" });
+  if(list && xi > -1 && yi > -1){
+    const vals = list.slice(1);
+    if(vals.length % cols.length) issues.push({ severity: "warning", message: `DefectList has ${vals.length} values, not a multiple of ${cols.length}` });
+    for(let i=0; i + cols.length <= vals.length; i += cols.length){
+      const key = `${vals[i + xi]},${vals[i + yi]}`;
+      if(!binAt.has(key)) binAt.set(key, ci > -1 ? vals[i + ci] : "1");
+    }
+  }
+
+  let minX = Infinity, maxY = -Infinity;
+  for(const s of sites){ minX = Math.min(minX, s.x); maxY = Math.max(maxY, s.y); }
+  const dies = sites.map(s=>({ x: s.x - minX, y: maxY - s.y, bin: binAt.get(`${s.x},${s.y}`) ?? CLEAN_BIN }));
+
+  const lookup = find("ClassLookup");
+  const names = new Map<string,string>();
+  if(lookup) for(let i=0; i<count(lookup); i++) names.set(lookup[2 + 2*i], lookup[3 + 2*i]);
+  const codes = Array.from(new Set([CLEAN_BIN, ...names.keys(), ...dies.map(d=>d.bin)]));
+
+  const pitch = find("DiePitch");
+  const markType = find("SampleOrientationMarkType")?.[1] ?? "NOTCH";
+  const map = withExtents({
+    lotId: find("LotID")?.[1],
+    waferId: find("WaferID")?.[1],
+    deviceId: find("DeviceID")?.[1],
+    orientation: { mark: markType.toUpperCase() === "FLAT" ? "flat" : "notch", deg: dirToDeg(find("OrientationMarkLocation")?.[1] ?? "DOWN") },
+    dieStep_mm: pitch && isFinite(Number(pitch[1])) && isFinite(Number(pitch[2])) ? { x: Number(pitch[1]) / 1000, y: Number(pitch[2]) / 1000 } : undefined,
+    cols: 0,
+    rows: 0,
+    bins: codes.map(code=>({ code, pass: code === CLEAN_BIN, name: names.get(code) })),
+    dies,
+  });
+  return { map, issues };
+}
+
+function writeKLARF(map:WaferMap):string {
+  const m = withExtents(map);
+  // Passing bins collapse to the clean bin; every failing bin needs a numeric class.
+  const failing = Array.from(new Set([...m.bins.filter(b=>!b.pass).map(b=>b.code), ...m.dies.map(d=>d.bin).filter(b=>!binPasses(m, b))]));
+  const cls = new Map<string,string>();
+  for(const code of failing) if(/^\d+$/.test(code) && code !== CLEAN_BIN) cls.set(code, code);
+  // Class 1 reads back as the conventional pass code, so named failing bins start at 2.
+  const used = new Set(cls.values());
+  let next = 2;
+  for(const code of failing){
+    if(cls.has(code)) continue;
+    while(used.has(String(next))) next++;
+    cls.set(code, String(next)); used.add(String(next));
+  }
+
+  const q = (s:string|undefined) => `"${(s ?? "").replace(/"/g, "'")}"`;
+  const kY = (y:number) => m.rows - 1 - y;
+  const pitchUm = m.dieStep_mm ? [m.dieStep_mm.x * 1000, m.dieStep_mm.y * 1000] : [0, 0];
+  const defects = m.dies.filter(d=>cls.has(d.bin)).map(d=>({ d, c: cls.get(d.bin)! }));
+  const lookup = Array.from(cls.entries());
+  const now = new Date();
+  const pad = (n:number) => String(n).padStart(2, "0");
+  const stamp = `${pad(now.getMonth()+1)}-${pad(now.getDate())}-${pad(now.getFullYear()%100)} ${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`;
+
+  const lines = [
+    `FileVersion 1 2;`,
+    `FileTimestamp ${stamp};`,
+    `InspectionStationID "DICING" "TOOLKIT" "1";`,
+    `SampleType WAFER;`,
+    `LotID ${q(m.lotId)};`,
+    `DeviceID ${q(m.deviceId)};`,
+    `StepID "DICE";`,
+    `SampleOrientationMarkType ${m.orientation.mark === "flat" ? "FLAT" : "NOTCH"};`,
+    `OrientationMarkLocation ${degToDir(m.orientation.deg)};`,
+    `DiePitch ${pitchUm[0].toExponential(6)} ${pitchUm[1].toExponential(6)};`,
+    `WaferID ${q(m.waferId)};`,
+    `ClassLookup ${lookup.length + 1}`,
+    ` ${CLEAN_BIN} "CLEAN"`,
+    ...lookup.map(([code, c])=>` ${c} ${q(m.bins.find(b=>b.code===code)?.name ?? code)}`),
+    `;`,
+    `SampleTestPlan ${m.dies.length}`,
+    ...m.dies.map(d=>` ${d.x} ${kY(d.y)}`),
+    `;`,
+    `DefectRecordSpec 7 DEFECTID XREL YREL XINDEX YINDEX DEFECTSIZE CLASSNUMBER;`,
+    `DefectList`,
+    ...defects.map((r, i)=>` ${i+1} ${(pitchUm[0]/2).toFixed(1)} ${(pitchUm[1]/2).toFixed(1)} ${r.d.x} ${kY(r.d.y)} 0 ${r.c}`),
+    `;`,
+    `SummarySpec 5 TESTNO NDEFECT DEFDENSITY NDIE NDEFDIE;`,
+    `SummaryList`,
+    ` 1 ${defects.length} 0 ${m.dies.length} ${defects.length};`,
+    `EndOfFile;`,
+  ];
+  return lines.join("\n") + "\n";
+}
+
+export const KLARF:WaferMapFormat = {
+  id: "klarf",
+  name: "KLARF 1.2",
+  extensions: [".klarf", ".klf", ".000", ".001"],
+  detect: text => /^\s*FileVersion\s+1\s+\d/m.test(text) && /SampleTestPlan/i.test(text),
+  parse: parseKLARF,
+  write: writeKLARF,
+};
@@ -0,0 +1,79 @@
+// ------------------------
+// Common wafer-map model
+// ------------------------
+// Every format parses into and writes from this shape.
+// Die coordinates: x = column (0 = left), y = row (0 = top), matching placement.ts.
+// Orientation: degrees of the notch/flat clockwise from 6 o'clock (0 = down, 90 = left, 180 = up, 270 = right).
+
+export type BinDef = { code:string, pass:boolean, name?:string };
+export type WaferMapDie = { x:number, y:number, bin:string };
+
+export type WaferMap = {
+  lotId?:string;
+  waferId?:string;
+  deviceId?:string;
+  orientation:{ mark:"notch"|"flat", deg:number };
+  refDie?:{ x:number, y:number };
+  dieStep_mm?:{ x:number, y:number };
+  cols:number;
+  rows:number;
+  bins:BinDef[];
+  dies:WaferMapDie[];   // only sites holding a die
+};
+
+// Line-level diagnostic from a parser. Errors drop the row (or the whole file when no
+// dies could be read); warnings keep it.
+export type MapIssue = { line?:number, severity:"error"|"warning", message:string };
+export type ParsedWaferMap = { map:WaferMap, issues:MapIssue[] };
+
+export type WaferMapFormat = {
+  id:string;
+  name:string;
+  extensions:string[];
+  detect:(text:string)=>boolean;
+  parse:(text:string)=>ParsedWaferMap;
+  write:(map:WaferMap)=>string;
+};
+
+export const emptyWaferMap = ():WaferMap => ({ orientation: { mark: "notch", deg: 0 }, cols: 0, rows: 0, bins: [], dies: [] });
+
+// Bins not declared by the source fall back to fail, except the conventional pass code "1"/"01".
+export function binPasses(map:WaferMap, code:string){
+  const def = map.bins.find(b=>b.code===code);
+  return def ? def.pass : /^0*1$/.test(code);
+}
+
+// Grid extents from the dies when a format does not carry them. Loops, not Math.max(...),
+// since a large map has more dies than a call can take arguments.
+export function withExtents(map:WaferMap):WaferMap {
+  let cols = Math.max(map.cols, 0), rows = Math.max(map.rows, 0);
+  for(const d of map.dies){ cols = Math.max(cols, d.x + 1); rows = Math.max(rows, d.y + 1); }
+  return { ...map, cols, rows };
+}
+
+// Degrees ↔ compass words used by KLARF and some SINF variants.
+const DIRS = ["DOWN", "LEFT", "UP", "RIGHT"];
+export const degToDir = (deg:number) => DIRS[Math.round((((deg % 360) + 360) % 360) / 90) % 4];
+export const dirToDeg = (dir:string) => Math.max(0, DIRS.indexOf(dir.toUpperCase())) * 90;
+
+// Two-digit hex code per bin for formats that only carry hex bins (SINF, E142 HexaDecimal).
+// Hex bins keep their value; named bins (e.g. CSV "good"/"bad") get the next free code from
+// 02, with the first passing bin taking 01: readers treat an undeclared 01 as pass, so a
+// failing bin must never land there. FF stays reserved as the E142 null bin.
+export function hexBinCodes(map:WaferMap){
+  const codes = Array.from(new Set([...map.bins.map(b=>b.code), ...map.dies.map(d=>d.bin)]));
+  const out = new Map<string,string>();
+  const used = new Set<string>(["FF"]);
+  const hex = (n:number) => n.toString(16).toUpperCase().padStart(2, "0");
+  for(const c of codes){
+    if(/^[0-9a-f]{1,2}$/i.test(c)){ const h = c.toUpperCase().padStart(2, "0"); out.set(c, h); used.add(h); }
+  }
+  let next = 2;
+  for(const c of codes){
+    if(out.has(c)) continue;
+    if(binPasses(map, c) && !used.has("01")){ out.set(c, "01"); used.add("01"); continue; }
+    while(used.has(hex(next))) next++;
+    out.set(c, hex(next)); used.add(hex(next));
+  }
+  return out;
+}
@@ -0,0 +1,92 @@
+import { hexBinCodes, withExtents, type MapIssue, type ParsedWaferMap, type WaferMap, type WaferMapFormat } from "./model";
+
+// ------------------------
+// SINF text map
+// ------------------------
+// KEY:value header lines followed by one `RowData:` line per row of space-separated
+// hex bin codes. `__` = no die, BCEQU lists the passing bins, FNLOC the flat/notch angle.
+
+const NULL_CELL = "__";
+
+function parseSINF(text:string):ParsedWaferMap {
+  const head:Record<string,string> = {};
+  const rows:string[][] = [];
+  const issues:MapIssue[] = [];
+  text.replace(/^\uFEFF/, "").split(/\r?\n/).forEach((raw, n)=>{
+    const ln = raw.trim();
+    if(!ln) return;
+    const i = ln.indexOf(":");
+    if(i < 0){ issues.push({ line: n + 1, severity: "warning", message: "Line without KEY: ignored" }); return; }
+    const key = ln.slice(0, i).trim().toUpperCase();
+    const val = ln.slice(i + 1).trim();
+    if(key === "ROWDATA") rows.push(val ? val.split(/\s+/) : []);
+    else head[key] = val;
+  });
+  if(!rows.length) throw new Error("SINF: no RowData lines found");
+
+  const dies:WaferMap["dies"] = [];
+  rows.forEach((cells, y)=>cells.forEach((c, x)=>{
+    if(c !== NULL_CELL) dies.push({ x, y, bin: c.toUpperCase() });
+  }));
+  const passCodes = (head.BCEQU ?? "01").split(/\s+/).filter(Boolean).map(c=>c.toUpperCase());
+  const codes = Array.from(new Set([...passCodes, ...dies.map(d=>d.bin)]));
+  // Missing and unreadable header numbers are both treated as absent.
+  const num = (k:string) => { const v = head[k] ? Number(head[k]) : NaN; return Number.isFinite(v) ? v : undefined; };
+  const refX = num("REFPX"), refY = num("REFPY");
+  const stepX = num("XDIES"), stepY = num("YDIES");
+  const toMm = (head.DUTMS ?? "mm").toLowerCase() === "um" ? 1/1000 : 1;
+
+  const map = withExtents({
+    lotId: head.LOT || undefined,
+    waferId: head.WAFER || undefined,
+    deviceId: head.DEVICE || undefined,
+    orientation: { mark: (head.FLAT ?? "").toUpperCase() === "Y" ? "flat" : "notch", deg: num("FNLOC") ?? 0 },
+    refDie: refX !== undefined && refY !== undefined ? { x: refX, y: refY } : undefined,
+    dieStep_mm: stepX !== undefined && stepY !== undefined ? { x: stepX * toMm, y: stepY * toMm } : undefined,
+    cols: num("COLCT") ?? 0,
+    rows: num("ROWCT") ?? 0,
+    bins: codes.map(code=>({ code, pass: passCodes.includes(code) })),
+    dies,
+  });
+  if(num("ROWCT") !== undefined && num("ROWCT") !== rows.length) issues.push({ severity: "warning", message: `ROWCT ${head.ROWCT} but ${rows.length} RowData lines` });
+  const wide = rows.reduce((w, r)=>Math.max(w, r.length), 0);
+  if(num("COLCT") !== undefined && num("COLCT") !== wide) issues.push({ severity: "warning", message: `COLCT ${head.COLCT} but widest RowData has ${wide} cells` });
+  return { map, issues };
+}
+
+function writeSINF(map:WaferMap):string {
+  const m = withExtents(map);
+  const hex = hexBinCodes(m);
+  const grid = Array.from({length: m.rows}, ()=>Array<string>(m.cols).fill(NULL_CELL));
+  for(const d of m.dies){
+    if(grid[d.y]) grid[d.y][d.x] = hex.get(d.bin)!;
+  }
+  const pass = m.bins.filter(b=>b.pass).map(b=>hex.get(b.code)!);
+  const lines = [
+    `DEVICE:${m.deviceId ?? ""}`,
+    `LOT:${m.lotId ?? ""}`,
+    `WAFER:${m.waferId ?? ""}`,
+    `FNLOC:${m.orientation.deg}`,
+    `FLAT:${m.orientation.mark === "flat" ? "Y" : "N"}`,
+    `ROWCT:${m.rows}`,
+    `COLCT:${m.cols}`,
+    // Written empty when nothing passes; only a missing BCEQU reads as the conventional 01.
+    `BCEQU:${pass.join(" ")}`,
+    `REFPX:${m.refDie?.x ?? ""}`,
+    `REFPY:${m.refDie?.y ?? ""}`,
+    `DUTMS:mm`,
+    `XDIES:${m.dieStep_mm?.x ?? ""}`,
+    `YDIES:${m.dieStep_mm?.y ?? ""}`,
+    ...grid.map(r=>`RowData:${r.join(" ")}`),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+export const SINF:WaferMapFormat = {
+  id: "sinf",
+  name: "SINF",
+  extensions: [".sinf", ".inf"],
+  detect: text => /^\s*RowData:/mi.test(text) && /^\s*(ROWCT|COLCT|BCEQU):/mi.test(text),
+  parse: parseSINF,
+  write: writeSINF,
+};